@@ -198,6 +198,9 @@ export default function AdminDashboard() {
               <Link to="/admin/users" className="text-gray-700 hover:text-teal-600">Người dùng</Link>
               <Link to="/admin/sources" className="text-gray-700 hover:text-teal-600">Mã nguồn</Link>
               <Link to="/admin/payments" className="text-gray-700 hover:text-teal-600">Thanh toán</Link>
+              <Link to="/admin/commissions" className="text-gray-700 hover:text-teal-600">Hoa hồng</Link>
+              <Link to="/admin/coupons" className="text-gray-700 hover:text-teal-600">Mã giảm giá</Link>
+              <Link to="/admin/disputes" className="text-gray-700 hover:text-teal-600">Khiếu nại</Link>
               <Link to="/admin/analytics" className="text-gray-700 hover:text-teal-600">Thống kê</Link>
               <Link to="/dashboard" className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200">
                 User Panel
@@ -0,0 +1,541 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { useState } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { CommissionRule, Category, User, Purchase, type ICategory, type ICommissionRule, type IUser } from "~/lib/db/models";
+import { requireAdmin } from "~/lib/auth";
+import { FALLBACK_COMMISSION_RATE } from "~/lib/commission";
+
+type ListedRule = Pick<ICommissionRule, '_id' | 'name' | 'scope' | 'rate' | 'category' | 'startsAt' | 'endsAt' | 'isActive'> & {
+  seller?: Pick<IUser, 'fullName' | 'userId'>;
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  await connectToDatabase();
+
+  const [rules, categories, commissionByRate] = await Promise.all([
+    CommissionRule.find({})
+      .populate('seller', 'fullName userId')
+      .sort({ createdAt: -1 })
+      .lean<ListedRule[]>(),
+    Category.find({ isActive: true }).sort({ name: 1 }).lean<Pick<ICategory, '_id' | 'name' | 'slug' | 'icon'>[]>(),
+    // Commission actually collected, grouped by the rate applied at checkout
+    Purchase.aggregate([
+      { $group: { _id: "$commissionRate", sales: { $sum: 1 }, total: { $sum: "$adminCommission" } } },
+      { $sort: { _id: 1 } }
+    ])
+  ]);
+
+  const defaultRule = rules.find(rule => rule.scope === 'default' && rule.isActive);
+
+  return json({
+    rules,
+    categories,
+    commissionByRate,
+    defaultRate: defaultRule?.rate ?? FALLBACK_COMMISSION_RATE
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "create": {
+        const name = formData.get("name") as string;
+        const scope = formData.get("scope") as string;
+        const rate = parseFloat(formData.get("rate") as string);
+        const category = formData.get("category") as string;
+        const sellerUserId = formData.get("sellerUserId") as string;
+        const startsAt = formData.get("startsAt") as string;
+        const endsAt = formData.get("endsAt") as string;
+
+        if (!name || !['default', 'category', 'seller', 'promotion'].includes(scope)) {
+          return json({ error: "Vui lòng nhập đầy đủ thông tin" }, { status: 400 });
+        }
+
+        if (isNaN(rate) || rate < 0 || rate > 100) {
+          return json({ error: "Tỷ lệ hoa hồng phải từ 0 đến 100%" }, { status: 400 });
+        }
+
+        if (scope === 'category' && !category) {
+          return json({ error: "Vui lòng chọn danh mục" }, { status: 400 });
+        }
+
+        let seller = null;
+        if (sellerUserId) {
+          seller = await User.findOne({ userId: sellerUserId.trim() });
+          if (!seller) {
+            return json({ error: "Không tìm thấy người bán" }, { status: 404 });
+          }
+        } else if (scope === 'seller') {
+          return json({ error: "Vui lòng nhập ID người bán" }, { status: 400 });
+        }
+
+        if (scope === 'promotion' && (!startsAt || !endsAt)) {
+          return json({ error: "Chương trình khuyến mãi cần có thời gian bắt đầu và kết thúc" }, { status: 400 });
+        }
+
+        if (startsAt && endsAt && new Date(startsAt) >= new Date(endsAt)) {
+          return json({ error: "Thời gian kết thúc phải sau thời gian bắt đầu" }, { status: 400 });
+        }
+
+        // Only one default rule is in force at a time
+        if (scope === 'default') {
+          await CommissionRule.updateMany({ scope: 'default', isActive: true }, { isActive: false });
+        }
+
+        const rule = new CommissionRule({
+          name: name.trim(),
+          scope,
+          rate,
+          category: scope === 'category' || scope === 'promotion' ? category || undefined : undefined,
+          seller: scope === 'seller' || scope === 'promotion' ? seller?._id : undefined,
+          startsAt: startsAt ? new Date(startsAt) : undefined,
+          endsAt: endsAt ? new Date(endsAt) : undefined,
+          isActive: true,
+          createdBy: admin._id
+        });
+
+        await rule.save();
+
+        return json({
+          success: true,
+          message: "Tạo chính sách hoa hồng thành công!"
+        });
+      }
+
+      case "toggle-status": {
+        const ruleId = formData.get("ruleId") as string;
+
+        const rule = await CommissionRule.findById(ruleId);
+        if (!rule) {
+          return json({ error: "Không tìm thấy chính sách" }, { status: 404 });
+        }
+
+        if (!rule.isActive && rule.scope === 'default') {
+          await CommissionRule.updateMany({ scope: 'default', isActive: true }, { isActive: false });
+        }
+
+        await CommissionRule.findByIdAndUpdate(ruleId, {
+          isActive: !rule.isActive
+        });
+
+        return json({
+          success: true,
+          message: `${rule.isActive ? 'Tắt' : 'Bật'} chính sách thành công!`
+        });
+      }
+
+      case "delete": {
+        const ruleId = formData.get("ruleId") as string;
+
+        // Purchases keep a reference for reporting, so used rules are only deactivated
+        const usedCount = await Purchase.countDocuments({ commissionRule: ruleId });
+        if (usedCount > 0) {
+          return json({
+            error: `Không thể xóa chính sách đã áp dụng cho ${usedCount} giao dịch, hãy tắt chính sách thay vì xóa`
+          }, { status: 400 });
+        }
+
+        await CommissionRule.findByIdAndDelete(ruleId);
+
+        return json({
+          success: true,
+          message: "Xóa chính sách thành công!"
+        });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Commission action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function AdminCommissions() {
+  const { rules, categories, commissionByRate, defaultRate } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [scope, setScope] = useState("default");
+  const isSubmitting = navigation.state === "submitting";
+
+  const scopeLabels: Record<string, string> = {
+    default: '🌐 Mặc định',
+    category: '📁 Theo danh mục',
+    seller: '👤 Theo người bán',
+    promotion: '🎉 Khuyến mãi'
+  };
+
+  const formatDate = (date?: string) => {
+    return date ? new Date(date).toLocaleString('vi-VN') : '—';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/admin" className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-r from-teal-500 to-blue-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-sm">S4U</span>
+                </div>
+                <span className="text-xl font-bold text-gray-900">Admin</span>
+              </Link>
+              <span className="text-gray-400">→</span>
+              <span className="text-gray-700">Chính sách hoa hồng</span>
+            </div>
+
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200"
+            >
+              ➕ Tạo chính sách mới
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData && 'success' in actionData && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+            {actionData.message}
+          </div>
+        )}
+
+        {actionData && 'error' in actionData && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {actionData.error}
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Hoa hồng mặc định</p>
+                <p className="text-2xl font-bold text-gray-900">{defaultRate}%</p>
+              </div>
+              <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                <span className="text-blue-600 text-2xl">🌐</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Chính sách đang bật</p>
+                <p className="text-2xl font-bold text-green-600">{rules.filter(rule => rule.isActive).length}</p>
+              </div>
+              <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
+                <span className="text-green-600 text-2xl">✅</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Tổng hoa hồng đã thu</p>
+                <p className="text-2xl font-bold text-purple-600">
+                  {commissionByRate.reduce((sum, row) => sum + row.total, 0).toLocaleString('vi-VN')}
+                </p>
+                <p className="text-xs text-gray-500">xu</p>
+              </div>
+              <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center">
+                <span className="text-purple-600 text-2xl">💰</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Create Form Modal */}
+        {showCreateForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-xl font-semibold text-gray-900">➕ Tạo chính sách hoa hồng</h3>
+                <button
+                  onClick={() => setShowCreateForm(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </button>
+              </div>
+
+              <Form method="post" className="space-y-6">
+                <input type="hidden" name="_action" value="create" />
+
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                    Tên chính sách *
+                  </label>
+                  <input
+                    id="name"
+                    name="name"
+                    type="text"
+                    required
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="VD: Ưu đãi Black Friday"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="scope" className="block text-sm font-medium text-gray-700 mb-2">
+                      Phạm vi áp dụng *
+                    </label>
+                    <select
+                      id="scope"
+                      name="scope"
+                      value={scope}
+                      onChange={(e) => setScope(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    >
+                      {Object.entries(scopeLabels).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="rate" className="block text-sm font-medium text-gray-700 mb-2">
+                      Hoa hồng nền tảng (%) *
+                    </label>
+                    <input
+                      id="rate"
+                      name="rate"
+                      type="number"
+                      required
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      placeholder="20"
+                    />
+                  </div>
+                </div>
+
+                {(scope === 'category' || scope === 'promotion') && (
+                  <div>
+                    <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
+                      Danh mục {scope === 'category' ? '*' : '(tùy chọn)'}
+                    </label>
+                    <select
+                      id="category"
+                      name="category"
+                      required={scope === 'category'}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    >
+                      <option value="">Tất cả danh mục</option>
+                      {categories.map((category) => (
+                        <option key={category._id} value={category.slug}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {(scope === 'seller' || scope === 'promotion') && (
+                  <div>
+                    <label htmlFor="sellerUserId" className="block text-sm font-medium text-gray-700 mb-2">
+                      ID người bán {scope === 'seller' ? '*' : '(tùy chọn)'}
+                    </label>
+                    <input
+                      id="sellerUserId"
+                      name="sellerUserId"
+                      type="text"
+                      required={scope === 'seller'}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      placeholder="VD: 1A2B3C4D5E6F7A8B"
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-2">
+                      Bắt đầu {scope === 'promotion' ? '*' : '(tùy chọn)'}
+                    </label>
+                    <input
+                      id="startsAt"
+                      name="startsAt"
+                      type="datetime-local"
+                      required={scope === 'promotion'}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="endsAt" className="block text-sm font-medium text-gray-700 mb-2">
+                      Kết thúc {scope === 'promotion' ? '*' : '(tùy chọn)'}
+                    </label>
+                    <input
+                      id="endsAt"
+                      name="endsAt"
+                      type="datetime-local"
+                      required={scope === 'promotion'}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex space-x-4 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowCreateForm(false)}
+                    className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+                  >
+                    Hủy bỏ
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Đang xử lý..." : "➕ Tạo chính sách"}
+                  </button>
+                </div>
+              </Form>
+            </div>
+          </div>
+        )}
+
+        {/* Rules Table */}
+        <div className="bg-white rounded-xl shadow-md overflow-hidden mb-8">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Chính sách
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Áp dụng cho
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Hoa hồng
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Thời gian
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Hành động
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                      <div className="text-sm text-gray-500">{scopeLabels[rule.scope]}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {rule.category && <div>📁 {rule.category}</div>}
+                      {rule.seller && <div>👤 {rule.seller.fullName} ({rule.seller.userId})</div>}
+                      {!rule.category && !rule.seller && <div className="text-gray-500">Toàn bộ sàn</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-bold text-gray-900">{rule.rate}%</div>
+                      <div className="text-xs text-gray-500">Người bán nhận {100 - rule.rate}%</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div>Từ: {formatDate(rule.startsAt)}</div>
+                      <div>Đến: {formatDate(rule.endsAt)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <Form method="post" className="inline">
+                          <input type="hidden" name="_action" value="toggle-status" />
+                          <input type="hidden" name="ruleId" value={rule._id} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium disabled:opacity-50 ${
+                              rule.isActive
+                                ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                          >
+                            {rule.isActive ? '✅ Đang bật' : '⏸️ Đã tắt'}
+                          </button>
+                        </Form>
+                        <Form method="post" className="inline">
+                          <input type="hidden" name="_action" value="delete" />
+                          <input type="hidden" name="ruleId" value={rule._id} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            title="Xóa chính sách"
+                            onClick={(e) => {
+                              if (!confirm('Bạn có chắc chắn muốn xóa chính sách này?')) {
+                                e.preventDefault();
+                              }
+                            }}
+                          >
+                            🗑️
+                          </button>
+                        </Form>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {rules.length === 0 && (
+            <div className="text-center py-12 text-gray-600">
+              Chưa có chính sách nào, hệ thống đang áp dụng hoa hồng mặc định {defaultRate}%
+            </div>
+          )}
+        </div>
+
+        {/* Commission report */}
+        {commissionByRate.length > 0 && (
+          <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">📊 Hoa hồng theo tỷ lệ áp dụng</h3>
+            <div className="space-y-3">
+              {commissionByRate.map((row) => (
+                <div key={row._id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg text-sm">
+                  <span className="font-medium">{row._id}%</span>
+                  <span className="text-gray-600">{row.sales} giao dịch</span>
+                  <span className="font-medium text-purple-600">{row.total.toLocaleString('vi-VN')} xu</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Tips */}
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
+          <h3 className="text-lg font-semibold text-blue-900 mb-4">💡 Thứ tự ưu tiên khi tính hoa hồng:</h3>
+          <ul className="space-y-2 text-blue-800">
+            <li>1. Chương trình khuyến mãi đang diễn ra</li>
+            <li>2. Tỷ lệ thỏa thuận riêng với người bán</li>
+            <li>3. Tỷ lệ theo danh mục</li>
+            <li>4. Tỷ lệ mặc định ({defaultRate}%)</li>
+            <li>• Nếu nhiều chính sách cùng cấp khớp, tỷ lệ thấp nhất được áp dụng</li>
+            <li>• Tỷ lệ áp dụng được lưu lại trên từng giao dịch mua</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
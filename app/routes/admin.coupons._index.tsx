@@ -0,0 +1,458 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { useState } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Coupon, SourceCode, User, Purchase, type ICoupon, type ISourceCode, type IUser } from "~/lib/db/models";
+import { requireAdmin } from "~/lib/auth";
+import { parseCouponInput, createCoupon, describeCoupon, CouponError } from "~/lib/coupons";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  await connectToDatabase();
+
+  const [coupons, discountByFunder] = await Promise.all([
+    Coupon.find({})
+      .populate('seller', 'fullName userId')
+      .populate('sourceCode', 'sourceId title')
+      .sort({ createdAt: -1 })
+      .lean<(Omit<ICoupon, 'seller' | 'sourceCode'> & {
+        seller: Pick<IUser, 'fullName' | 'userId'> | null;
+        sourceCode: Pick<ISourceCode, 'sourceId' | 'title'> | null;
+      })[]>(),
+    // Who paid for the discounts given so far
+    Purchase.aggregate<{ _id: ICoupon['fundedBy']; sales: number; discount: number }>([
+      { $match: { discountAmount: { $gt: 0 } } },
+      { $group: { _id: '$coupon.fundedBy', sales: { $sum: 1 }, discount: { $sum: '$discountAmount' } } }
+    ])
+  ]);
+
+  return json({
+    coupons: coupons.map((coupon) => ({
+      _id: coupon._id.toString(),
+      code: coupon.code,
+      scope: coupon.scope,
+      seller: coupon.seller,
+      listing: coupon.sourceCode,
+      fundedBy: coupon.fundedBy,
+      description: describeCoupon(coupon),
+      usedCount: coupon.usedCount,
+      usageLimit: coupon.usageLimit,
+      startsAt: coupon.startsAt,
+      expiresAt: coupon.expiresAt,
+      isActive: coupon.isActive
+    })),
+    discountByFunder
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "create": {
+        const input = parseCouponInput(formData);
+        const scope = formData.get("scope") as string;
+
+        switch (scope) {
+          case "site":
+            await createCoupon({ input, scope, createdBy: admin });
+            break;
+
+          case "seller": {
+            const seller = await User.findOne({ userId: (formData.get("sellerUserId") as string || "").trim() });
+            if (!seller) {
+              return json({ error: "Không tìm thấy người bán" }, { status: 404 });
+            }
+            await createCoupon({ input, scope, seller: seller._id, createdBy: admin });
+            break;
+          }
+
+          case "listing": {
+            const sourceCode = await SourceCode.findOne({ sourceId: (formData.get("sourceId") as string || "").trim() })
+              .select('seller')
+              .lean<Pick<ISourceCode, '_id' | 'seller'>>();
+            if (!sourceCode) {
+              return json({ error: "Không tìm thấy mã nguồn" }, { status: 404 });
+            }
+            await createCoupon({ input, scope, seller: sourceCode.seller, sourceCode: sourceCode._id, createdBy: admin });
+            break;
+          }
+
+          default:
+            return json({ error: "Phạm vi áp dụng không hợp lệ" }, { status: 400 });
+        }
+
+        return json({ success: true, message: `Tạo mã giảm giá ${input.code} thành công!` });
+      }
+
+      case "toggle-status": {
+        // Admins can also switch off sellers' coupons, e.g. when a code is being abused
+        const coupon = await Coupon.findById(formData.get("couponId"));
+        if (!coupon) {
+          return json({ error: "Không tìm thấy mã giảm giá" }, { status: 404 });
+        }
+
+        coupon.isActive = !coupon.isActive;
+        await coupon.save();
+
+        return json({ success: true, message: `${coupon.isActive ? 'Bật' : 'Tắt'} mã giảm giá ${coupon.code} thành công!` });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Coupon action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+const scopeLabels: Record<ICoupon['scope'], string> = {
+  site: '🌐 Toàn sàn',
+  seller: '👤 Theo người bán',
+  listing: '📦 Theo mã nguồn'
+};
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleString('vi-VN') : '—');
+
+export default function AdminCoupons() {
+  const { coupons, discountByFunder } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [scope, setScope] = useState("site");
+  const [discountType, setDiscountType] = useState("percentage");
+  const isSubmitting = navigation.state === "submitting";
+
+  const fundedTotal = (fundedBy: ICoupon['fundedBy']) => discountByFunder.find((row) => row._id === fundedBy)?.discount || 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/admin" className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-r from-teal-500 to-blue-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-sm">S4U</span>
+                </div>
+                <span className="text-xl font-bold text-gray-900">Admin</span>
+              </Link>
+              <span className="text-gray-400">→</span>
+              <span className="text-gray-700">Mã giảm giá</span>
+            </div>
+
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200"
+            >
+              ➕ Tạo mã giảm giá
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData && 'success' in actionData && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+            {actionData.message}
+          </div>
+        )}
+
+        {actionData && 'error' in actionData && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {actionData.error}
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Mã đang bật</p>
+            <p className="text-2xl font-bold text-green-600">{coupons.filter((coupon) => coupon.isActive).length}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Giảm giá do sàn tài trợ</p>
+            <p className="text-2xl font-bold text-purple-600">{fundedTotal('platform').toLocaleString('vi-VN')}</p>
+            <p className="text-xs text-gray-500">xu, trừ vào hoa hồng</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Giảm giá do người bán tài trợ</p>
+            <p className="text-2xl font-bold text-blue-600">{fundedTotal('seller').toLocaleString('vi-VN')}</p>
+            <p className="text-xs text-gray-500">xu</p>
+          </div>
+        </div>
+
+        {/* Create Form Modal */}
+        {showCreateForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-xl font-semibold text-gray-900">➕ Tạo mã giảm giá</h3>
+                <button
+                  onClick={() => setShowCreateForm(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </button>
+              </div>
+
+              <Form method="post" className="space-y-6">
+                <input type="hidden" name="_action" value="create" />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">Mã *</label>
+                    <input
+                      id="code"
+                      name="code"
+                      type="text"
+                      required
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      placeholder="VD: BLACKFRIDAY"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="scope" className="block text-sm font-medium text-gray-700 mb-2">Phạm vi áp dụng *</label>
+                    <select
+                      id="scope"
+                      name="scope"
+                      value={scope}
+                      onChange={(e) => setScope(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    >
+                      {Object.entries(scopeLabels).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {scope === 'seller' && (
+                  <div>
+                    <label htmlFor="sellerUserId" className="block text-sm font-medium text-gray-700 mb-2">ID người bán *</label>
+                    <input
+                      id="sellerUserId"
+                      name="sellerUserId"
+                      type="text"
+                      required
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      placeholder="VD: 1A2B3C4D5E6F7A8B"
+                    />
+                  </div>
+                )}
+
+                {scope === 'listing' && (
+                  <div>
+                    <label htmlFor="sourceId" className="block text-sm font-medium text-gray-700 mb-2">ID mã nguồn *</label>
+                    <input
+                      id="sourceId"
+                      name="sourceId"
+                      type="text"
+                      required
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="discountType" className="block text-sm font-medium text-gray-700 mb-2">Loại giảm *</label>
+                    <select
+                      id="discountType"
+                      name="discountType"
+                      value={discountType}
+                      onChange={(e) => setDiscountType(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    >
+                      <option value="percentage">Phần trăm (%)</option>
+                      <option value="fixed">Số xu cố định</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="discountValue" className="block text-sm font-medium text-gray-700 mb-2">Mức giảm *</label>
+                    <input
+                      id="discountValue"
+                      name="discountValue"
+                      type="number"
+                      required
+                      min="1"
+                      max={discountType === 'percentage' ? 100 : undefined}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                  {discountType === 'percentage' && (
+                    <div>
+                      <label htmlFor="maxDiscount" className="block text-sm font-medium text-gray-700 mb-2">Giảm tối đa (xu)</label>
+                      <input
+                        id="maxDiscount"
+                        name="maxDiscount"
+                        type="number"
+                        min="1"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="minSpend" className="block text-sm font-medium text-gray-700 mb-2">Đơn tối thiểu (xu)</label>
+                    <input
+                      id="minSpend"
+                      name="minSpend"
+                      type="number"
+                      min="0"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="usageLimit" className="block text-sm font-medium text-gray-700 mb-2">Tổng lượt dùng</label>
+                    <input
+                      id="usageLimit"
+                      name="usageLimit"
+                      type="number"
+                      min="1"
+                      placeholder="Không giới hạn"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="perUserLimit" className="block text-sm font-medium text-gray-700 mb-2">Lượt mỗi người</label>
+                    <input
+                      id="perUserLimit"
+                      name="perUserLimit"
+                      type="number"
+                      min="1"
+                      defaultValue="1"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-2">Bắt đầu (tùy chọn)</label>
+                    <input
+                      id="startsAt"
+                      name="startsAt"
+                      type="datetime-local"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-2">Hết hạn (tùy chọn)</label>
+                    <input
+                      id="expiresAt"
+                      name="expiresAt"
+                      type="datetime-local"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-500">
+                  Mã do quản trị viên tạo được trừ vào hoa hồng của sàn trước, phần vượt quá hoa hồng mới trừ vào doanh thu người bán.
+                </p>
+
+                <div className="flex space-x-4 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowCreateForm(false)}
+                    className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+                  >
+                    Hủy bỏ
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Đang xử lý..." : "➕ Tạo mã giảm giá"}
+                  </button>
+                </div>
+              </Form>
+            </div>
+          </div>
+        )}
+
+        {/* Coupons Table */}
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mã</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Áp dụng cho</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tài trợ</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Đã dùng</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Thời gian</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trạng thái</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {coupons.map((coupon) => (
+                  <tr key={coupon._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="font-mono font-semibold text-gray-900">{coupon.code}</div>
+                      <div className="text-xs text-gray-500">{coupon.description}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div>{scopeLabels[coupon.scope]}</div>
+                      {coupon.seller && <div className="text-gray-500">👤 {coupon.seller.fullName} ({coupon.seller.userId})</div>}
+                      {coupon.listing && <div className="text-gray-500">📦 {coupon.listing.title}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {coupon.fundedBy === 'platform' ? '🏦 Sàn' : '👤 Người bán'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div>Từ: {formatDate(coupon.startsAt)}</div>
+                      <div>Đến: {formatDate(coupon.expiresAt)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Form method="post">
+                        <input type="hidden" name="_action" value="toggle-status" />
+                        <input type="hidden" name="couponId" value={coupon._id} />
+                        <button
+                          type="submit"
+                          disabled={isSubmitting}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium disabled:opacity-50 ${
+                            coupon.isActive
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                          }`}
+                        >
+                          {coupon.isActive ? '✅ Đang bật' : '⏸️ Đã tắt'}
+                        </button>
+                      </Form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {coupons.length === 0 && (
+            <div className="text-center py-12 text-gray-600">
+              Chưa có mã giảm giá nào
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation, useSearchParams } from "@remix-run/react";
+import { useState } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Dispute } from "~/lib/db/models";
+import { requireAdmin } from "~/lib/auth";
+import { findDisputes, resolveDispute, DisputeError, DISPUTE_REASONS } from "~/lib/disputes";
+import { InsufficientBalanceError } from "~/lib/ledger";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  await connectToDatabase();
+
+  const url = new URL(request.url);
+  const status = url.searchParams.get("status") || "pending";
+
+  const query = status === "pending"
+    ? { status: { $in: ['open', 'seller_responded'] } }
+    : status === "all" ? {} : { status };
+
+  const [disputes, openCount, respondedCount, refundTotals] = await Promise.all([
+    findDisputes(query),
+    Dispute.countDocuments({ status: 'open' }),
+    Dispute.countDocuments({ status: 'seller_responded' }),
+    Dispute.aggregate([
+      { $match: { status: 'resolved', refundAmount: { $gt: 0 } } },
+      { $group: { _id: null, count: { $sum: 1 }, total: { $sum: "$refundAmount" } } }
+    ])
+  ]);
+
+  return json({
+    disputes,
+    currentStatus: status,
+    stats: {
+      open: openCount,
+      sellerResponded: respondedCount,
+      refundedCount: refundTotals[0]?.count || 0,
+      refundedTotal: refundTotals[0]?.total || 0
+    },
+    disputeReasons: DISPUTE_REASONS,
+    idempotencyKey: generateIdempotencyKey()
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  await connectToDatabase();
+
+  // Refunds move money, so a resubmitted decision replays the first result
+  return withIdempotency({ request, formData, user: admin._id, scope: 'dispute-resolve' }, async () => {
+    try {
+      switch (action) {
+        case "resolve": {
+          const resolution = formData.get("resolution") as 'refund_full' | 'refund_partial' | 'rejected';
+          const dispute = await resolveDispute({
+            disputeId: formData.get("disputeId") as string,
+            admin,
+            resolution,
+            refundAmount: parseInt(formData.get("refundAmount") as string),
+            adminNote: (formData.get("adminNote") as string)?.trim() || undefined
+          });
+
+          return json({
+            success: true,
+            message: resolution === 'rejected'
+              ? `Đã từ chối khiếu nại ${dispute.disputeId}`
+              : `Đã hoàn ${dispute.refundAmount.toLocaleString('vi-VN')} xu cho khiếu nại ${dispute.disputeId}`
+          });
+        }
+
+        default:
+          return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+      }
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return json({ error: error.message }, { status: error.status });
+      }
+      if (error instanceof InsufficientBalanceError) {
+        return json({ error: "Số dư không đủ để thực hiện hoàn tiền" }, { status: 400 });
+      }
+      console.error("Dispute action error:", error);
+      return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+    }
+  });
+}
+
+export default function AdminDisputes() {
+  const { disputes, currentStatus, stats, disputeReasons, idempotencyKey } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedDispute, setSelectedDispute] = useState<typeof disputes[number] | null>(null);
+  const [resolution, setResolution] = useState("refund_full");
+  const isSubmitting = navigation.state === "submitting";
+
+  const statusLabels: Record<string, { label: string; className: string }> = {
+    open: { label: '⏳ Chờ người bán', className: 'bg-yellow-100 text-yellow-800' },
+    seller_responded: { label: '💬 Người bán đã phản hồi', className: 'bg-blue-100 text-blue-800' },
+    resolved: { label: '✅ Đã xử lý', className: 'bg-green-100 text-green-800' }
+  };
+
+  const resolutionLabels: Record<string, string> = {
+    refund_full: '↩️ Hoàn tiền toàn bộ',
+    refund_partial: '➗ Hoàn tiền một phần',
+    rejected: '❌ Từ chối khiếu nại'
+  };
+
+  const openResolveModal = (dispute: typeof disputes[number]) => {
+    setSelectedDispute(dispute);
+    setResolution("refund_full");
+  };
+
+  const updateStatus = (status: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.set('status', status);
+    setSearchParams(newParams);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/admin" className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-r from-teal-500 to-blue-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-sm">S4U</span>
+                </div>
+                <span className="text-xl font-bold text-gray-900">Admin</span>
+              </Link>
+              <span className="text-gray-400">→</span>
+              <span className="text-gray-700">Khiếu nại & hoàn tiền</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData?.success && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+            {actionData.message}
+          </div>
+        )}
+
+        {actionData?.error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {actionData.error}
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Chờ người bán phản hồi</p>
+                <p className="text-2xl font-bold text-yellow-600">{stats.open}</p>
+              </div>
+              <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+                <span className="text-yellow-600 text-2xl">⏳</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Chờ admin quyết định</p>
+                <p className="text-2xl font-bold text-blue-600">{stats.sellerResponded}</p>
+              </div>
+              <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                <span className="text-blue-600 text-2xl">⚖️</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Đã hoàn tiền ({stats.refundedCount} khiếu nại)</p>
+                <p className="text-2xl font-bold text-red-600">{stats.refundedTotal.toLocaleString('vi-VN')}</p>
+                <p className="text-xs text-gray-500">xu</p>
+              </div>
+              <div className="w-12 h-12 bg-red-100 rounded-lg flex items-center justify-center">
+                <span className="text-red-600 text-2xl">↩️</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-md p-4 mb-6 flex flex-wrap gap-2">
+          {[
+            { value: 'pending', label: 'Cần xử lý' },
+            { value: 'open', label: 'Chờ người bán' },
+            { value: 'seller_responded', label: 'Người bán đã phản hồi' },
+            { value: 'resolved', label: 'Đã xử lý' },
+            { value: 'all', label: 'Tất cả' }
+          ].map((option) => (
+            <button
+              key={option.value}
+              onClick={() => updateStatus(option.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                currentStatus === option.value
+                  ? 'bg-teal-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Disputes */}
+        <div className="space-y-4">
+          {disputes.length > 0 ? disputes.map((dispute) => (
+            <div key={dispute._id} className="bg-white rounded-xl shadow-md p-6">
+              <div className="flex flex-col lg:flex-row lg:justify-between gap-4">
+                <div className="flex-1 space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-mono text-sm text-gray-500">{dispute.disputeId}</span>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusLabels[dispute.status].className}`}>
+                      {statusLabels[dispute.status].label}
+                    </span>
+                    <span className="text-sm text-gray-500">{new Date(dispute.createdAt).toLocaleString('vi-VN')}</span>
+                  </div>
+
+                  <div className="text-lg font-semibold text-gray-900">
+                    {dispute.sourceCode?.title || 'Mã nguồn đã bị xóa'}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-600">
+                    <div>Người mua: <span className="text-gray-900">{dispute.buyer?.fullName}</span> ({dispute.buyer?.userId})</div>
+                    <div>Người bán: <span className="text-gray-900">{dispute.seller?.fullName}</span> ({dispute.seller?.userId})</div>
+                    <div>
+                      {dispute.purchase?.purchaseId} • <span className="font-medium text-teal-600">
+                        {dispute.purchase?.amount.toLocaleString('vi-VN')} xu
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="bg-red-50 rounded-lg p-3 text-sm">
+                    <div className="font-medium text-red-800 mb-1">
+                      {disputeReasons[dispute.reason]}
+                    </div>
+                    <p className="text-gray-700 whitespace-pre-line">{dispute.description}</p>
+                  </div>
+
+                  {dispute.sellerResponse && (
+                    <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                      <div className="font-medium text-gray-800 mb-1">Phản hồi của người bán</div>
+                      <p className="text-gray-700 whitespace-pre-line">{dispute.sellerResponse}</p>
+                    </div>
+                  )}
+
+                  {dispute.status === 'resolved' && (
+                    <div className="bg-green-50 rounded-lg p-3 text-sm">
+                      <div className="font-medium text-green-800">
+                        {dispute.resolution && resolutionLabels[dispute.resolution]}
+                        {dispute.refundAmount > 0 && ` - ${dispute.refundAmount.toLocaleString('vi-VN')} xu`}
+                      </div>
+                      <div className="text-gray-600">
+                        {dispute.resolvedBy?.fullName} • {dispute.resolvedAt && new Date(dispute.resolvedAt).toLocaleString('vi-VN')}
+                      </div>
+                      {dispute.adminNote && <p className="text-gray-700 mt-1">{dispute.adminNote}</p>}
+                    </div>
+                  )}
+                </div>
+
+                {dispute.status !== 'resolved' && (
+                  <div>
+                    <button
+                      onClick={() => openResolveModal(dispute)}
+                      className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200"
+                    >
+                      ⚖️ Xử lý
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )) : (
+            <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+              Không có khiếu nại nào
+            </div>
+          )}
+        </div>
+
+        {/* Resolve Modal */}
+        {selectedDispute && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl p-6 max-w-lg w-full mx-4">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-xl font-semibold text-gray-900">
+                  ⚖️ Xử lý khiếu nại {selectedDispute.disputeId}
+                </h3>
+                <button
+                  onClick={() => setSelectedDispute(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </button>
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-4 mb-6 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Số tiền giao dịch:</span>
+                  <span className="font-medium">{selectedDispute.purchase?.amount.toLocaleString('vi-VN')} xu</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Người bán đã nhận:</span>
+                  <span className="font-medium">{selectedDispute.purchase?.sellerEarnings.toLocaleString('vi-VN')} xu</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Hoa hồng nền tảng:</span>
+                  <span className="font-medium">{selectedDispute.purchase?.adminCommission.toLocaleString('vi-VN')} xu</span>
+                </div>
+              </div>
+
+              <Form method="post" className="space-y-4" onSubmit={() => setSelectedDispute(null)}>
+                <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={`${idempotencyKey}:${selectedDispute._id}`} />
+                <input type="hidden" name="_action" value="resolve" />
+                <input type="hidden" name="disputeId" value={selectedDispute.disputeId} />
+
+                <div>
+                  <label htmlFor="resolution" className="block text-sm font-medium text-gray-700 mb-2">
+                    Hướng xử lý *
+                  </label>
+                  <select
+                    id="resolution"
+                    name="resolution"
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  >
+                    {Object.entries(resolutionLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {resolution === 'refund_partial' && (
+                  <div>
+                    <label htmlFor="refundAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                      Số xu hoàn lại *
+                    </label>
+                    <input
+                      id="refundAmount"
+                      name="refundAmount"
+                      type="number"
+                      required
+                      min="1"
+                      max={(selectedDispute.purchase?.amount || 1) - 1}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Người bán và nền tảng hoàn lại theo tỷ lệ đã chia khi bán
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="adminNote" className="block text-sm font-medium text-gray-700 mb-2">
+                    Ghi chú cho các bên
+                  </label>
+                  <textarea
+                    id="adminNote"
+                    name="adminNote"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="Lý do quyết định..."
+                  />
+                </div>
+
+                <div className="flex space-x-4">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedDispute(null)}
+                    className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Hủy bỏ
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 bg-gradient-to-r from-teal-500 to-blue-600 text-white py-2 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Đang xử lý..." : "Xác nhận"}
+                  </button>
+                </div>
+              </Form>
+            </div>
+          </div>
+        )}
+
+        {/* Tips */}
+        <div className="mt-8 bg-blue-50 border border-blue-200 rounded-xl p-6">
+          <h3 className="text-lg font-semibold text-blue-900 mb-3">💡 Lưu ý khi xử lý khiếu nại</h3>
+          <ul className="text-blue-800 text-sm space-y-1">
+            <li>• Nên chờ người bán phản hồi trước khi ra quyết định</li>
+            <li>• Hoàn tiền sẽ trừ lại phần người bán đã nhận và hoa hồng nền tảng, số dư người bán có thể âm</li>
+            <li>• Sau khi hoàn tiền, người mua mất quyền truy cập mã nguồn</li>
+            <li>• Mọi khoản hoàn tiền đều được ghi vào sổ cái</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,11 @@ import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-r
 import { useLoaderData, useActionData, Link, Form, useNavigation, useSearchParams } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
-import { Payment, User } from "~/lib/db/models";
+import { Payment } from "~/lib/db/models";
 import { requireAdmin } from "~/lib/auth";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { InsufficientBalanceError } from "~/lib/ledger";
+import { approvePayment, rejectPayment, PaymentAlreadyProcessedError } from "~/lib/payments";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   await requireAdmin(request);
@@ -44,6 +47,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const [payments, totalCount] = await Promise.all([
     Payment.find(query)
       .populate('user', 'fullName email userId')
+      .populate('organization', 'name orgId')
       .populate('processedBy', 'fullName')
       .sort(sortOptions)
       .skip(skip)
@@ -83,7 +87,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
       pendingWithdrawals: stats[1],
       totalDeposits: stats[2][0]?.total || 0,
       totalWithdrawals: stats[3][0]?.total || 0
-    }
+    },
+    idempotencyKey: generateIdempotencyKey()
   });
 }
 
@@ -94,73 +99,63 @@ export async function action({ request }: ActionFunctionArgs) {
   const paymentId = formData.get("paymentId") as string;
   const adminNote = formData.get("adminNote") as string;
 
-  try {
-    await connectToDatabase();
+  await connectToDatabase();
 
-    const payment = await Payment.findOne({ paymentId }).populate('user');
-    if (!payment) {
-      return json({ error: "Không tìm thấy giao dịch" }, { status: 404 });
-    }
+  // Approving or rejecting twice from a resubmitted form replays the first result
+  return withIdempotency({ request, formData, user: admin._id, scope: 'payment-review' }, async () => {
+    try {
+      const payment = await Payment.findOne({ paymentId }).populate('user');
+      if (!payment) {
+        return json({ error: "Không tìm thấy giao dịch" }, { status: 404 });
+      }
 
-    if (payment.status !== 'pending') {
-      return json({ error: "Giao dịch đã được xử lý" }, { status: 400 });
-    }
+      if (payment.status !== 'pending') {
+        return json({ error: "Giao dịch đã được xử lý" }, { status: 400 });
+      }
+
+      switch (action) {
+        case "approve": {
+          await approvePayment(payment, {
+            processedBy: admin._id,
+            adminNote: adminNote || `Approved by ${admin.fullName}`
+          });
 
-    switch (action) {
-      case "approve": {
-        if (payment.type === 'deposit') {
-          // Add money to user account for deposits
-          await User.findByIdAndUpdate(payment.user._id, {
-            $inc: { balance: payment.amount }
+          return json({ 
+            success: true, 
+            message: `Đã duyệt ${payment.type === 'deposit' ? 'nạp' : 'rút'} ${payment.amount.toLocaleString('vi-VN')} xu thành công!` 
           });
         }
-        // For withdrawals, money was already deducted when the request was created
-        
-        await Payment.findByIdAndUpdate(payment._id, {
-          status: 'approved',
-          processedBy: admin._id,
-          processedAt: new Date(),
-          adminNote: adminNote || `Approved by ${admin.fullName}`
-        });
-
-        return json({ 
-          success: true, 
-          message: `Đã duyệt ${payment.type === 'deposit' ? 'nạp' : 'rút'} ${payment.amount.toLocaleString('vi-VN')} xu thành công!` 
-        });
-      }
 
-      case "reject": {
-        if (payment.type === 'withdrawal') {
-          // Refund money for rejected withdrawals
-          await User.findByIdAndUpdate(payment.user._id, {
-            $inc: { balance: payment.amount }
+        case "reject": {
+          await rejectPayment(payment, {
+            processedBy: admin._id,
+            adminNote: adminNote || `Rejected by ${admin.fullName}`
+          });
+
+          return json({ 
+            success: true, 
+            message: `Đã từ chối ${payment.type === 'deposit' ? 'nạp' : 'rút'} ${payment.amount.toLocaleString('vi-VN')} xu!` 
           });
         }
 
-        await Payment.findByIdAndUpdate(payment._id, {
-          status: 'rejected',
-          processedBy: admin._id,
-          processedAt: new Date(),
-          adminNote: adminNote || `Rejected by ${admin.fullName}`
-        });
-
-        return json({ 
-          success: true, 
-          message: `Đã từ chối ${payment.type === 'deposit' ? 'nạp' : 'rút'} ${payment.amount.toLocaleString('vi-VN')} xu!` 
-        });
+        default:
+          return json({ error: "Hành động không hợp lệ" }, { status: 400 });
       }
-
-      default:
-        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    } catch (error) {
+      if (error instanceof PaymentAlreadyProcessedError) {
+        return json({ error: "Giao dịch đã được xử lý" }, { status: 400 });
+      }
+      if (error instanceof InsufficientBalanceError) {
+        return json({ error: "Số dư của người dùng không đủ để thực hiện giao dịch" }, { status: 400 });
+      }
+      console.error("Payment action error:", error);
+      return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
     }
-  } catch (error) {
-    console.error("Payment action error:", error);
-    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
-  }
+  });
 }
 
 export default function AdminPayments() {
-  const { payments, pagination, filters, stats } = useLoaderData<typeof loader>();
+  const { payments, pagination, filters, stats, idempotencyKey } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -247,6 +242,12 @@ export default function AdminPayments() {
             </div>
             
             <div className="flex space-x-2">
+              <Link
+                to="/admin/reconciliation"
+                className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors"
+              >
+                🏦 Đối soát sao kê
+              </Link>
               <Link
                 to="/admin/payments/deposits"
                 className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
@@ -429,6 +430,9 @@ export default function AdminPayments() {
                       <div className="text-sm font-medium text-gray-900">{payment.user.fullName}</div>
                       <div className="text-sm text-gray-500">{payment.user.email}</div>
                       <div className="text-sm text-gray-500">ID: {payment.user.userId}</div>
+                      {payment.organization && (
+                        <div className="text-sm text-teal-600">🏢 {payment.organization.name} ({payment.organization.orgId})</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
@@ -667,6 +671,7 @@ export default function AdminPayments() {
 
               <Form method="post">
                 <input type="hidden" name="_action" value={actionType} />
+                <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
                 <input type="hidden" name="paymentId" value={selectedPayment.paymentId} />
                 
                 <div className="mb-4">
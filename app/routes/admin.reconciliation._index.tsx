@@ -0,0 +1,357 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { BankStatementImport, BankTransaction, type IBankStatementImport, type IBankTransaction, type IUser } from "~/lib/db/models";
+import { requireAdmin } from "~/lib/auth";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { StatementParseError } from "~/lib/bank-statement";
+import {
+  importBankStatement,
+  resolveBankTransaction,
+  ignoreBankTransaction,
+  ReconciliationError
+} from "~/lib/reconciliation";
+
+type QueuedTransaction = Pick<IBankTransaction,
+  '_id' | 'transactionDate' | 'amount' | 'description' | 'reference' | 'paymentId' | 'issue'>;
+
+type ListedImport = Pick<IBankStatementImport,
+  '_id' | 'fileName' | 'totalLines' | 'matchedCount' | 'queuedCount' | 'duplicateCount' | 'createdAt'> & {
+  uploadedBy?: Pick<IUser, 'fullName'>;
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  await connectToDatabase();
+
+  const [queue, imports, stats] = await Promise.all([
+    BankTransaction.find({ status: 'pending_review' })
+      .sort({ transactionDate: -1 })
+      .limit(100)
+      .lean<QueuedTransaction[]>(),
+    BankStatementImport.find({})
+      .populate('uploadedBy', 'fullName')
+      .sort({ createdAt: -1 })
+      .limit(10)
+      .lean<ListedImport[]>(),
+    Promise.all([
+      BankTransaction.countDocuments({ status: 'pending_review' }),
+      BankTransaction.countDocuments({ status: 'matched' }),
+      BankTransaction.countDocuments({ status: 'resolved' })
+    ])
+  ]);
+
+  return json({
+    queue,
+    imports,
+    stats: {
+      queued: stats[0],
+      matched: stats[1],
+      resolved: stats[2]
+    },
+    idempotencyKey: generateIdempotencyKey()
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  await connectToDatabase();
+
+  // Approving deposits twice from a resubmitted form replays the first result
+  return withIdempotency({ request, formData, user: admin._id, scope: 'reconciliation' }, async () => {
+    try {
+      switch (action) {
+        case "import": {
+          const statementFile = formData.get("statement") as File;
+
+          if (!statementFile || statementFile.size === 0) {
+            return json({ error: "Vui lòng chọn tệp sao kê" }, { status: 400 });
+          }
+
+          if (statementFile.size > 5 * 1024 * 1024) {
+            return json({ error: "Tệp sao kê không được vượt quá 5MB" }, { status: 400 });
+          }
+
+          const result = await importBankStatement(statementFile.name, await statementFile.text(), admin._id);
+
+          return json({
+            success: true,
+            message: `Đã nhập ${result.totalLines} giao dịch: ${result.matchedCount} tự động duyệt, ${result.queuedCount} cần kiểm tra, ${result.duplicateCount} trùng lặp`
+          });
+        }
+
+        case "resolve": {
+          const transactionId = formData.get("transactionId") as string;
+          const paymentId = formData.get("paymentId") as string;
+
+          if (!paymentId) {
+            return json({ error: "Vui lòng nhập mã giao dịch nạp xu" }, { status: 400 });
+          }
+
+          await resolveBankTransaction(transactionId, paymentId, admin._id);
+
+          return json({ success: true, message: `Đã duyệt yêu cầu nạp ${paymentId.trim().toUpperCase()}` });
+        }
+
+        case "ignore": {
+          const transactionId = formData.get("transactionId") as string;
+
+          await ignoreBankTransaction(transactionId, admin._id);
+
+          return json({ success: true, message: "Đã bỏ qua giao dịch ngân hàng" });
+        }
+
+        default:
+          return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+      }
+    } catch (error) {
+      if (error instanceof StatementParseError || error instanceof ReconciliationError) {
+        return json({ error: error.message }, { status: 400 });
+      }
+      console.error("Reconciliation action error:", error);
+      return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+    }
+  });
+}
+
+export default function AdminReconciliation() {
+  const { queue, imports, stats, idempotencyKey } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const issueLabels: Record<string, { label: string; color: string }> = {
+    no_payment_id: { label: 'Không có mã nạp trong nội dung', color: 'bg-gray-100 text-gray-800' },
+    payment_not_found: { label: 'Không tìm thấy yêu cầu nạp', color: 'bg-red-100 text-red-800' },
+    amount_mismatch: { label: 'Số tiền không khớp', color: 'bg-yellow-100 text-yellow-800' },
+    payment_not_pending: { label: 'Yêu cầu đã được xử lý', color: 'bg-blue-100 text-blue-800' }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/admin" className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-r from-teal-500 to-blue-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-sm">S4U</span>
+                </div>
+                <span className="text-xl font-bold text-gray-900">Admin</span>
+              </Link>
+              <span className="text-gray-400">→</span>
+              <Link to="/admin/payments" className="text-gray-700 hover:text-teal-600">Quản lý thanh toán</Link>
+              <span className="text-gray-400">→</span>
+              <span className="text-gray-700">Đối soát sao kê</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData && 'success' in actionData && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+            {actionData.message}
+          </div>
+        )}
+
+        {actionData && 'error' in actionData && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {actionData.error}
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Cần kiểm tra</p>
+                <p className="text-2xl font-bold text-yellow-600">{stats.queued}</p>
+              </div>
+              <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+                <span className="text-yellow-600 text-2xl">🔎</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Tự động duyệt</p>
+                <p className="text-2xl font-bold text-green-600">{stats.matched}</p>
+              </div>
+              <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
+                <span className="text-green-600 text-2xl">⚡</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Duyệt thủ công</p>
+                <p className="text-2xl font-bold text-blue-600">{stats.resolved}</p>
+              </div>
+              <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                <span className="text-blue-600 text-2xl">✍️</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Upload */}
+        <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">🏦 Nhập sao kê ngân hàng</h3>
+          <Form method="post" encType="multipart/form-data" className="flex flex-col md:flex-row md:items-center gap-4">
+            <input type="hidden" name="_action" value="import" />
+            <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
+            <input
+              type="file"
+              name="statement"
+              accept=".csv,.txt,.xls,.html"
+              required
+              className="flex-1 text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-teal-50 file:text-teal-700 hover:file:bg-teal-100"
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-6 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 disabled:opacity-50"
+            >
+              {isSubmitting ? "Đang xử lý..." : "📤 Nhập và đối soát"}
+            </button>
+          </Form>
+          <p className="mt-3 text-sm text-gray-500">
+            Hỗ trợ tệp CSV và tệp Excel dạng HTML xuất từ VietinBank, Vietcombank, Techcombank, MB, BIDV, ACB.
+            Giao dịch có mã nạp (PAY...) trong nội dung và đúng số tiền sẽ được duyệt tự động.
+          </p>
+        </div>
+
+        {/* Review queue */}
+        <div className="bg-white rounded-xl shadow-md overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b">
+            <h3 className="text-lg font-semibold text-gray-900">🔎 Giao dịch cần kiểm tra</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Giao dịch ngân hàng
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Số tiền
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Vấn đề
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Xử lý
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {queue.map((transaction) => (
+                  <tr key={transaction._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900 max-w-md break-words">{transaction.description || '—'}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(transaction.transactionDate).toLocaleString('vi-VN')}
+                        {transaction.reference && ` • ${transaction.reference}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
+                      +{transaction.amount.toLocaleString('vi-VN')} xu
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {transaction.issue && (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${issueLabels[transaction.issue].color}`}>
+                          {issueLabels[transaction.issue].label}
+                        </span>
+                      )}
+                      {transaction.paymentId && (
+                        <div className="text-xs text-gray-500 mt-1">{transaction.paymentId}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex items-center space-x-2">
+                        <Form method="post" className="flex items-center space-x-2">
+                          <input type="hidden" name="_action" value="resolve" />
+                          <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={`${idempotencyKey}:${transaction._id}`} />
+                          <input type="hidden" name="transactionId" value={transaction._id} />
+                          <input
+                            type="text"
+                            name="paymentId"
+                            defaultValue={transaction.paymentId || ""}
+                            placeholder="PAY..."
+                            className="w-40 px-3 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                          />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="bg-green-600 text-white px-3 py-1 rounded-lg text-xs hover:bg-green-700 transition-colors disabled:opacity-50"
+                            title="Duyệt yêu cầu nạp với số tiền thực nhận"
+                          >
+                            ✅ Duyệt
+                          </button>
+                        </Form>
+                        <Form method="post">
+                          <input type="hidden" name="_action" value="ignore" />
+                          <input type="hidden" name="transactionId" value={transaction._id} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="bg-gray-100 text-gray-700 px-3 py-1 rounded-lg text-xs hover:bg-gray-200 transition-colors disabled:opacity-50"
+                          >
+                            Bỏ qua
+                          </button>
+                        </Form>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {queue.length === 0 && (
+            <div className="text-center py-12 text-gray-600">
+              🎉 Không có giao dịch nào cần kiểm tra
+            </div>
+          )}
+        </div>
+
+        {/* Import history */}
+        {imports.length > 0 && (
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">📜 Lịch sử nhập sao kê</h3>
+            <div className="space-y-3">
+              {imports.map((statementImport) => (
+                <div key={statementImport._id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">{statementImport.fileName}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(statementImport.createdAt).toLocaleString('vi-VN')} • {statementImport.uploadedBy?.fullName}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-gray-600">
+                    <div>{statementImport.totalLines} giao dịch</div>
+                    <div>
+                      <span className="text-green-600">{statementImport.matchedCount} duyệt</span> •{' '}
+                      <span className="text-yellow-600">{statementImport.queuedCount} chờ</span> •{' '}
+                      <span className="text-gray-500">{statementImport.duplicateCount} trùng</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
 import { SourceCode, User, Purchase } from "~/lib/db/models";
 import { requireAdmin } from "~/lib/auth";
+import { deleteVersions } from "~/lib/archives";
+import { FINDING_LABELS } from "~/lib/inspection";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   await requireAdmin(request);
@@ -37,6 +39,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
     query.isActive = true;
   } else if (status === "inactive") {
     query.isActive = false;
+  } else if (status === "flagged") {
+    // Inspection findings nobody has reviewed yet
+    query['inspection.status'] = 'flagged';
+    query['inspection.reviewedAt'] = { $exists: false };
   }
 
   // Build sort options
@@ -80,7 +86,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
     SourceCode.aggregate([
       { $group: { _id: null, totalViews: { $sum: "$views" }, totalSales: { $sum: "$purchases" } } }
     ]),
-    SourceCode.find({}).distinct('category')
+    SourceCode.find({}).distinct('category'),
+    SourceCode.countDocuments({ 'inspection.status': 'flagged', 'inspection.reviewedAt': { $exists: false } })
   ]);
 
   return json({
@@ -98,7 +105,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
       inactiveSources: stats[1],
       totalViews: stats[2][0]?.totalViews || 0,
       totalSales: stats[2][0]?.totalSales || 0,
-      categories: stats[3]
+      categories: stats[3],
+      flaggedSources: stats[4]
     }
   });
 }
@@ -148,6 +156,7 @@ export async function action({ request }: ActionFunctionArgs) {
         }
 
         await SourceCode.findByIdAndDelete(sourceCode._id);
+        await deleteVersions(sourceCode._id);
 
         return json({ 
           success: true, 
@@ -155,6 +164,21 @@ export async function action({ request }: ActionFunctionArgs) {
         });
       }
 
+      case "review-inspection": {
+        const result = await SourceCode.updateOne(
+          { sourceId, 'inspection.status': 'flagged' },
+          { 'inspection.reviewedBy': admin._id, 'inspection.reviewedAt': new Date() }
+        );
+        if (result.matchedCount === 0) {
+          return json({ error: "Mã nguồn không có cảnh báo cần xem xét" }, { status: 404 });
+        }
+
+        return json({
+          success: true,
+          message: "Đã đánh dấu cảnh báo là đã xem xét"
+        });
+      }
+
       case "bulk-action": {
         const sourceIds = formData.getAll("sourceIds") as string[];
         const bulkAction = formData.get("bulkAction") as string;
@@ -200,6 +224,9 @@ export async function action({ request }: ActionFunctionArgs) {
             }
 
             await SourceCode.deleteMany({ sourceId: { $in: sourceIds } });
+            for (const sourceObjectId of sourceObjectIds) {
+              await deleteVersions(sourceObjectId);
+            }
             return json({ 
               success: true, 
               message: `Xóa ${sourceIds.length} mã nguồn thành công!` 
@@ -315,6 +342,18 @@ export default function AdminSources() {
           </div>
         )}
 
+        {stats.flaggedSources > 0 && filters.status !== "flagged" && (
+          <div className="mb-6 bg-orange-50 border border-orange-200 text-orange-800 px-4 py-3 rounded-lg flex items-center justify-between">
+            <span>⚠️ {stats.flaggedSources} mã nguồn có cảnh báo từ kiểm tra tự động chưa được xem xét</span>
+            <button
+              onClick={() => updateSearchParams({ status: "flagged" })}
+              className="text-sm font-medium underline"
+            >
+              Xem ngay
+            </button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-md p-6">
@@ -412,6 +451,7 @@ export default function AdminSources() {
                 <option value="all">Tất cả</option>
                 <option value="active">Hoạt động</option>
                 <option value="inactive">Bị ẩn</option>
+                <option value="flagged">Có cảnh báo kiểm tra</option>
               </select>
             </div>
 
@@ -586,6 +626,36 @@ export default function AdminSources() {
                           </span>
                         </div>
                       )}
+                      {source.inspection?.status === 'flagged' && (
+                        <details className="mt-1 whitespace-normal max-w-xs">
+                          <summary className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full cursor-pointer ${
+                            source.inspection.reviewedAt ? 'bg-gray-100 text-gray-700' : 'bg-orange-100 text-orange-800'
+                          }`}>
+                            ⚠️ {source.inspection.findings.length} cảnh báo{source.inspection.reviewedAt && ' (đã xem)'}
+                          </summary>
+                          <ul className="mt-2 space-y-1 text-xs text-gray-700">
+                            {source.inspection.findings.map((finding: { kind: keyof typeof FINDING_LABELS; path: string; detail: string }) => (
+                              <li key={`${finding.kind}:${finding.path}`}>
+                                <span className="font-medium">{FINDING_LABELS[finding.kind]}</span>: <code className="break-all">{finding.path}</code>
+                                <div className="text-gray-500">{finding.detail}</div>
+                              </li>
+                            ))}
+                          </ul>
+                          {!source.inspection.reviewedAt && (
+                            <Form method="post" className="mt-2">
+                              <input type="hidden" name="_action" value="review-inspection" />
+                              <input type="hidden" name="sourceId" value={source.sourceId} />
+                              <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded hover:bg-gray-200 disabled:opacity-50"
+                              >
+                                ✓ Đánh dấu đã xem xét
+                              </button>
+                            </Form>
+                          )}
+                        </details>
+                      )}
                     </td>
                     
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
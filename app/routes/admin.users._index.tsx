@@ -2,8 +2,10 @@ import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-r
 import { useLoaderData, useActionData, Link, Form, useNavigation, useSearchParams } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
-import { User, SourceCode, Purchase } from "~/lib/db/models";
+import { User, SourceCode, Purchase, type IUser } from "~/lib/db/models";
 import { requireAdmin } from "~/lib/auth";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { recordAdjustment, auditUserBalance, recordOpeningBalance, LedgerError } from "~/lib/ledger";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   await requireAdmin(request);
@@ -55,7 +57,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
       .sort(sortOptions)
       .skip(skip)
       .limit(limit)
-      .lean(),
+      .select('userId fullName email avatar balance isVerified createdAt')
+      .lean<Pick<IUser, '_id' | 'userId' | 'fullName' | 'email' | 'avatar' | 'balance' | 'isVerified' | 'createdAt'>[]>(),
     User.countDocuments(query)
   ]);
 
@@ -108,12 +111,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
       verifiedUsers: stats[1],
       unverifiedUsers: stats[2],
       totalBalance: stats[3][0]?.totalBalance || 0
-    }
+    },
+    idempotencyKey: generateIdempotencyKey()
   });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  await requireAdmin(request);
+  const admin = await requireAdmin(request);
   const formData = await request.formData();
   const action = formData.get("_action") as string;
   const userId = formData.get("userId") as string;
@@ -139,21 +143,73 @@ export async function action({ request }: ActionFunctionArgs) {
       }
 
       case "adjust-balance": {
-        const amount = parseInt(formData.get("amount") as string);
-        const note = formData.get("note") as string;
+        // A resubmitted adjustment replays the first result instead of moving the balance twice
+        return withIdempotency({ request, formData, user: admin._id, scope: 'adjust-balance' }, async () => {
+          const amount = parseInt(formData.get("amount") as string);
+          const note = formData.get("note") as string;
         
-        if (isNaN(amount)) {
-          return json({ error: "Số tiền không hợp lệ" }, { status: 400 });
+          if (isNaN(amount) || amount === 0) {
+            return json({ error: "Số tiền không hợp lệ" }, { status: 400 });
+          }
+
+          const user = await User.findOne({ userId });
+          if (!user) {
+            return json({ error: "Không tìm thấy người dùng" }, { status: 404 });
+          }
+
+          await recordAdjustment(user._id, amount, admin._id, note || undefined);
+
+          return json({ 
+            success: true, 
+            message: `Đã ${amount > 0 ? 'cộng' : 'trừ'} ${Math.abs(amount).toLocaleString('vi-VN')} xu${note ? ` (${note})` : ''}` 
+          });
+        });
+      }
+
+      case "audit-balance": {
+        const user = await User.findOne({ userId });
+        if (!user) {
+          return json({ error: "Không tìm thấy người dùng" }, { status: 404 });
         }
 
-        await User.findOneAndUpdate(
-          { userId }, 
-          { $inc: { balance: amount } }
-        );
+        const audit = await auditUserBalance(user._id);
+        if (audit.heldDifference !== 0) {
+          return json({ 
+            error: `Số dư tạm giữ lệch ${audit.heldDifference.toLocaleString('vi-VN')} xu so với sổ cái, cần kiểm tra các yêu cầu rút xu` 
+          }, { status: 409 });
+        }
+
+        if (audit.pendingDifference !== 0) {
+          return json({ 
+            error: `Doanh thu chờ đối soát lệch ${audit.pendingDifference.toLocaleString('vi-VN')} xu so với sổ cái, cần kiểm tra các giao dịch bán` 
+          }, { status: 409 });
+        }
 
+        if (audit.difference === 0) {
+          return json({ 
+            success: true, 
+            message: `Số dư khớp với sổ cái: ${audit.ledgerBalance.toLocaleString('vi-VN')} xu` 
+          });
+        }
+
+        // Auditing only reports; a mismatch needs investigating, not writing off
+        return json({ 
+          error: `Số dư lệch ${audit.difference.toLocaleString('vi-VN')} xu so với sổ cái (lưu ${audit.storedBalance.toLocaleString('vi-VN')} xu, sổ cái ${audit.ledgerBalance.toLocaleString('vi-VN')} xu), cần kiểm tra lịch sử giao dịch` 
+        }, { status: 409 });
+      }
+
+      case "record-opening-balance": {
+        const user = await User.findOne({ userId });
+        if (!user) {
+          return json({ error: "Không tìm thấy người dùng" }, { status: 404 });
+        }
+
+        const entry = await recordOpeningBalance(user._id, admin._id);
         return json({ 
           success: true, 
-          message: `Đã ${amount > 0 ? 'cộng' : 'trừ'} ${Math.abs(amount).toLocaleString('vi-VN')} xu${note ? ` (${note})` : ''}` 
+          message: entry
+            ? `Đã ghi số dư đầu kỳ ${user.balance.toLocaleString('vi-VN')} xu vào sổ cái`
+            : "Số dư bằng 0, không cần ghi số dư đầu kỳ"
         });
       }
 
@@ -183,13 +239,16 @@ export async function action({ request }: ActionFunctionArgs) {
         return json({ error: "Hành động không hợp lệ" }, { status: 400 });
     }
   } catch (error) {
+    if (error instanceof LedgerError) {
+      return json({ error: error.message }, { status: error.status });
+    }
     console.error("Admin action error:", error);
     return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
   }
 }
 
 export default function AdminUsers() {
-  const { users, pagination, filters, stats } = useLoaderData<typeof loader>();
+  const { users, pagination, filters, stats, idempotencyKey } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -499,6 +558,37 @@ export default function AdminUsers() {
                           💰
                         </button>
                         
+                        <Form method="post" className="inline">
+                          <input type="hidden" name="_action" value="audit-balance" />
+                          <input type="hidden" name="userId" value={user.userId} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            title="Đối soát số dư với sổ cái"
+                          >
+                            📒
+                          </button>
+                        </Form>
+                        
+                        <Form method="post" className="inline">
+                          <input type="hidden" name="_action" value="record-opening-balance" />
+                          <input type="hidden" name="userId" value={user.userId} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            title="Ghi số dư đầu kỳ (chỉ cho tài khoản chưa có lịch sử sổ cái)"
+                            onClick={(e) => {
+                              if (!confirm('Ghi toàn bộ số dư hiện tại làm số dư đầu kỳ? Chỉ thực hiện một lần cho tài khoản có từ trước khi áp dụng sổ cái.')) {
+                                e.preventDefault();
+                              }
+                            }}
+                          >
+                            📥
+                          </button>
+                        </Form>
+                        
                         <Link
                           to={`/admin/users/${user.userId}`}
                           className="text-indigo-600 hover:text-indigo-900"
@@ -635,6 +725,7 @@ export default function AdminUsers() {
 
               <Form method="post">
                 <input type="hidden" name="_action" value="adjust-balance" />
+                <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
                 <input type="hidden" name="userId" value={selectedUser.userId} />
                 
                 <div className="mb-4">
@@ -1,9 +1,11 @@
-import { json, type LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData, Link, Form, useSearchParams } from "@remix-run/react";
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useSearchParams } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
 import { SourceCode, Category, User } from "~/lib/db/models";
-import { getUserFromRequest } from "~/lib/auth";
+import { getUserFromRequest, requireAuth } from "~/lib/auth";
+import { EFFECTIVE_PRICE_EXPRESSION } from "~/lib/pricing";
+import { addToWishlist, removeFromWishlist, WishlistError } from "~/lib/wishlist";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   await connectToDatabase();
@@ -36,10 +38,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
     query.category = category;
   }
 
+  // Price filters and sorts go by what the listing costs right now, running sales included
+  const priceQuery: { effectivePrice?: { $gte?: number; $lte?: number } } = {};
   if (minPrice > 0 || maxPrice > 0) {
-    query.price = {};
-    if (minPrice > 0) query.price.$gte = minPrice;
-    if (maxPrice > 0) query.price.$lte = maxPrice;
+    priceQuery.effectivePrice = {};
+    if (minPrice > 0) priceQuery.effectivePrice.$gte = minPrice;
+    if (maxPrice > 0) priceQuery.effectivePrice.$lte = maxPrice;
   }
 
   // Build sort options
@@ -52,10 +56,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
       sortOptions = { rating: -1, totalRatings: -1 };
       break;
     case "price-low":
-      sortOptions = { price: 1 };
+      sortOptions = { effectivePrice: 1, createdAt: -1 };
       break;
     case "price-high":
-      sortOptions = { price: -1 };
+      sortOptions = { effectivePrice: -1, createdAt: -1 };
       break;
     case "views":
       sortOptions = { views: -1 };
@@ -64,26 +68,36 @@ export async function loader({ request }: LoaderFunctionArgs) {
       sortOptions = { createdAt: -1 };
   }
 
-  const [sourceCodes, totalCount, categories, priceRange] = await Promise.all([
-    SourceCode.find(query)
-      .populate("seller", "fullName avatar userId")
-      .sort(sortOptions)
-      .skip(skip)
-      .limit(limit)
-      .lean(),
-    SourceCode.countDocuments(query),
+  const pricedListings = [
+    { $match: query },
+    { $addFields: { effectivePrice: EFFECTIVE_PRICE_EXPRESSION } },
+    { $match: priceQuery }
+  ];
+
+  const [listings, totalCountResult, categories, priceRange] = await Promise.all([
+    SourceCode.aggregate([
+      ...pricedListings,
+      { $sort: sortOptions },
+      { $skip: skip },
+      { $limit: limit },
+      // Upcoming sales stay private
+      { $project: { sales: 0 } }
+    ]),
+    SourceCode.aggregate([...pricedListings, { $count: "total" }]),
     Category.find({ isActive: true }).lean(),
     SourceCode.aggregate([
       { $match: { isActive: true } },
       {
         $group: {
           _id: null,
-          minPrice: { $min: "$price" },
-          maxPrice: { $max: "$price" }
+          minPrice: { $min: EFFECTIVE_PRICE_EXPRESSION },
+          maxPrice: { $max: EFFECTIVE_PRICE_EXPRESSION }
         }
       }
     ])
   ]);
+  const sourceCodes = await SourceCode.populate(listings, { path: "seller", select: "fullName avatar userId" });
+  const totalCount: number = totalCountResult[0]?.total || 0;
 
   const totalPages = Math.ceil(totalCount / limit);
 
@@ -97,11 +111,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
   ]);
 
   // Get featured sources (top rated)
-  const featuredSources = await SourceCode.find({ isActive: true, rating: { $gte: 4 } })
-    .populate("seller", "fullName avatar")
-    .sort({ rating: -1, totalRatings: -1 })
-    .limit(6)
-    .lean();
+  const featuredSources = await SourceCode.populate(await SourceCode.aggregate([
+    { $match: { isActive: true, rating: { $gte: 4 } } },
+    { $sort: { rating: -1, totalRatings: -1 } },
+    { $limit: 6 },
+    { $addFields: { effectivePrice: EFFECTIVE_PRICE_EXPRESSION } },
+    { $project: { sales: 0 } }
+  ]), { path: "seller", select: "fullName avatar" });
 
   return json({
     sourceCodes,
@@ -122,10 +138,76 @@ export async function loader({ request }: LoaderFunctionArgs) {
       userId: currentUser.userId,
       fullName: currentUser.fullName,
       balance: currentUser.balance
-    } : null
+    } : null,
+    wishlistIds: currentUser?.wishlist?.map((item) => item.sourceCode.toString()) || []
   });
 }
 
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+  const sourceCodeId = formData.get("sourceCodeId") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "add-to-wishlist": {
+        const sourceCode = await SourceCode.findById(sourceCodeId).select('price sales isActive');
+        if (!sourceCode) {
+          return json({ error: "Không tìm thấy mã nguồn" }, { status: 404 });
+        }
+        await addToWishlist(user, sourceCode);
+        return json({ success: true });
+      }
+
+      case "remove-from-wishlist": {
+        await removeFromWishlist(user, sourceCodeId);
+        return json({ success: true });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Wishlist action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+// Heart on each card; logged-out visitors are sent to log in first
+function WishlistButton({ sourceCodeId, saved, loggedIn }: { sourceCodeId: string; saved: boolean; loggedIn: boolean }) {
+  if (!loggedIn) {
+    return (
+      <Link
+        to="/login"
+        title="Đăng nhập để thêm vào yêu thích"
+        className="absolute bottom-3 right-3 bg-white/90 w-9 h-9 rounded-full flex items-center justify-center shadow hover:scale-110 transition-transform"
+      >
+        🤍
+      </Link>
+    );
+  }
+
+  return (
+    <Form method="post" className="absolute bottom-3 right-3">
+      <input type="hidden" name="_action" value={saved ? "remove-from-wishlist" : "add-to-wishlist"} />
+      <input type="hidden" name="sourceCodeId" value={sourceCodeId} />
+      <button
+        type="submit"
+        title={saved ? "Bỏ khỏi yêu thích" : "Thêm vào yêu thích"}
+        className="bg-white/90 w-9 h-9 rounded-full flex items-center justify-center shadow hover:scale-110 transition-transform"
+      >
+        {saved ? "❤️" : "🤍"}
+      </button>
+    </Form>
+  );
+}
+
 export default function Browse() {
   const { 
     sourceCodes, 
@@ -135,8 +217,10 @@ export default function Browse() {
     pagination, 
     filters, 
     priceRange,
-    currentUser 
+    currentUser,
+    wishlistIds
   } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   
   const [searchParams, setSearchParams] = useSearchParams();
   const [showFilters, setShowFilters] = useState(false);
@@ -253,6 +337,12 @@ export default function Browse() {
           </p>
         </div>
 
+        {actionData && 'error' in actionData && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {actionData.error}
+          </div>
+        )}
+
         {/* Featured Sources */}
         {featuredSources.length > 0 && !filters.search && !filters.category && (
           <div className="mb-12">
@@ -272,8 +362,12 @@ export default function Browse() {
                       className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                     />
                     <div className="absolute top-3 right-3 bg-gradient-to-r from-teal-500 to-blue-600 text-white px-3 py-1 rounded-full text-sm font-medium">
-                      {source.price.toLocaleString('vi-VN')} xu
+                      {source.effectivePrice < source.price && (
+                        <span className="line-through opacity-75 mr-1">{source.price.toLocaleString('vi-VN')}</span>
+                      )}
+                      {source.effectivePrice.toLocaleString('vi-VN')} xu
                     </div>
+                    <WishlistButton sourceCodeId={String(source._id)} saved={wishlistIds.includes(String(source._id))} loggedIn={!!currentUser} />
                     <div className="absolute top-3 left-3 bg-yellow-500 text-white px-2 py-1 rounded-full text-xs font-bold">
                       ⭐ {source.rating.toFixed(1)}
                     </div>
@@ -503,8 +597,12 @@ export default function Browse() {
                       className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                     />
                     <div className="absolute top-3 right-3 bg-gradient-to-r from-teal-500 to-blue-600 text-white px-3 py-1 rounded-full text-sm font-medium">
-                      {source.price.toLocaleString('vi-VN')} xu
+                      {source.effectivePrice < source.price && (
+                        <span className="line-through opacity-75 mr-1">{source.price.toLocaleString('vi-VN')}</span>
+                      )}
+                      {source.effectivePrice.toLocaleString('vi-VN')} xu
                     </div>
+                    <WishlistButton sourceCodeId={String(source._id)} saved={wishlistIds.includes(String(source._id))} loggedIn={!!currentUser} />
                     {source.isAdminPost && (
                       <div className="absolute top-3 left-3 bg-yellow-500 text-white px-2 py-1 rounded-full text-xs font-bold">
                         🛡️ Official
@@ -0,0 +1,359 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Bundle, SourceCode, Purchase, type IBundle, type ISourceCode, type IUser } from "~/lib/db/models";
+import { getUserFromRequest } from "~/lib/auth";
+import { sendPurchaseNotificationEmail } from "~/lib/email";
+import { purchaseBundle, CheckoutError } from "~/lib/checkout";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { getSellableTiers } from "~/lib/licenses";
+import { emailInvoice } from "~/lib/invoices";
+import { findSpendableOrganizations, requireMembership, OrganizationError } from "~/lib/organizations";
+
+type BundleListing = Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'thumbnail' | 'price' | 'licenseTiers' | 'sales' | 'isActive'>;
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  await connectToDatabase();
+
+  const bundle = await Bundle.findOne({ bundleId: params.bundleId })
+    .populate('seller', 'fullName avatar')
+    .lean<Omit<IBundle, 'seller'> & { seller: Pick<IUser, '_id' | 'fullName' | 'avatar'> }>();
+
+  if (!bundle) {
+    throw new Response("Không tìm thấy gói", { status: 404 });
+  }
+
+  const currentUser = await getUserFromRequest(request);
+
+  const sourceCodes = await SourceCode.find({ _id: { $in: bundle.sourceCodes } })
+    .select('sourceId title thumbnail price licenseTiers sales isActive')
+    .lean<BundleListing[]>();
+  // ?org= buys the bundle for an organization, so ownership is checked against what it already has
+  const orgId = currentUser ? new URL(request.url).searchParams.get("org") : null;
+  const organization = currentUser && orgId
+    ? (await requireMembership(orgId, currentUser, ['owner', 'purchaser']).catch((error) => {
+        if (error instanceof OrganizationError) {
+          throw new Response(error.message, { status: error.status });
+        }
+        throw error;
+      })).organization
+    : undefined;
+
+  const ownedIds: string[] = currentUser
+    ? (await Purchase.find({
+        ...(organization ? { organization: organization._id } : { buyer: currentUser._id, organization: { $exists: false } }),
+        sourceCode: { $in: bundle.sourceCodes },
+        status: { $ne: 'refunded' },
+        subscription: { $exists: false }
+      }).distinct('sourceCode')).map(String)
+    : [];
+
+  // Kept in the order the seller listed them; deleted listings drop out
+  const listings = bundle.sourceCodes
+    .map((id) => sourceCodes.find((sourceCode) => sourceCode._id.toString() === id.toString()))
+    .filter((sourceCode): sourceCode is BundleListing => !!sourceCode)
+    .map((sourceCode) => {
+      const tier = getSellableTiers(sourceCode)[0];
+      return {
+        sourceId: sourceCode.sourceId,
+        title: sourceCode.title,
+        thumbnail: sourceCode.thumbnail,
+        licenseName: tier.name,
+        price: tier.price,
+        isActive: sourceCode.isActive,
+        owned: ownedIds.includes(sourceCode._id.toString())
+      };
+    });
+
+  // What the same listings cost bought one by one today, sales included
+  const separatePrice = listings.reduce((sum, listing) => sum + listing.price, 0);
+  const available = bundle.isActive && listings.length === bundle.sourceCodes.length && listings.every((listing) => listing.isActive);
+
+  return json({
+    bundle: {
+      bundleId: bundle.bundleId,
+      title: bundle.title,
+      description: bundle.description,
+      price: bundle.price,
+      purchases: bundle.purchases,
+      seller: {
+        fullName: bundle.seller.fullName,
+        avatar: bundle.seller.avatar
+      }
+    },
+    listings,
+    separatePrice,
+    available,
+    currentUser: currentUser ? { _id: currentUser._id.toString(), balance: currentUser.balance } : null,
+    organizations: currentUser ? await findSpendableOrganizations(currentUser._id) : [],
+    organization: organization ? { orgId: organization.orgId, name: organization.name } : null,
+    idempotencyKey: generateIdempotencyKey()
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    const currentUser = await getUserFromRequest(request);
+    if (!currentUser) {
+      return json({ error: "Vui lòng đăng nhập" }, { status: 401 });
+    }
+
+    const bundle = await Bundle.findOne({ bundleId: params.bundleId })
+      .populate('seller', 'email fullName');
+
+    if (!bundle) {
+      return json({ error: "Không tìm thấy gói" }, { status: 404 });
+    }
+
+    switch (action) {
+      case "purchase": {
+        // Double-clicks and retried requests replay the first purchase result
+        return withIdempotency({
+          request,
+          formData,
+          user: currentUser._id,
+          scope: `purchase-bundle:${bundle.bundleId}`
+        }, async () => {
+          const orgId = formData.get("organization") as string | null;
+          const organization = orgId
+            ? (await requireMembership(orgId, currentUser, ['owner', 'purchaser'])).organization
+            : undefined;
+
+          const { order, purchases, invoice } = await purchaseBundle({ buyer: currentUser, bundle, organization });
+
+          // One email for the whole bundle rather than one per listing
+          try {
+            await sendPurchaseNotificationEmail(
+              bundle.seller.email,
+              currentUser.fullName,
+              `Gói "${bundle.title}" (${purchases.length} mã nguồn)`,
+              order.totalAmount,
+              purchases.reduce((sum, purchase) => sum + purchase.sellerEarnings, 0),
+              purchases[0].earningsReleaseAt
+            );
+          } catch (emailError) {
+            console.error("Failed to send notification email:", emailError);
+          }
+
+          try {
+            await emailInvoice(invoice, new URL(request.url).origin);
+          } catch (emailError) {
+            console.error("Failed to send invoice email:", emailError);
+          }
+
+          return json({
+            success: true,
+            message: organization
+              ? `Mua gói cho tổ chức "${organization.name}" thành công! Mọi thành viên đều tải được ${purchases.length} mã nguồn trong gói.`
+              : `Mua gói thành công! Bạn đã sở hữu ${purchases.length} mã nguồn trong gói.`,
+            invoiceNumber: invoice.invoiceNumber
+          });
+        });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof CheckoutError || error instanceof OrganizationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Bundle action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function BundleDetail() {
+  const { bundle, listings, separatePrice, available, currentUser, organizations, organization, idempotencyKey } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const savings = separatePrice - bundle.price;
+  const ownedCount = listings.filter((listing) => listing.owned).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <Link to="/" className="flex items-center space-x-2">
+              <div className="w-8 h-8 bg-gradient-to-r from-teal-500 to-blue-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">S4U</span>
+              </div>
+              <span className="text-xl font-bold text-gray-900">SourceCode4U</span>
+            </Link>
+
+            <nav className="flex items-center space-x-6">
+              <Link to="/" className="text-gray-700 hover:text-teal-600">Trang chủ</Link>
+              <Link to="/browse" className="text-gray-700 hover:text-teal-600">Duyệt mã nguồn</Link>
+              {currentUser ? (
+                <Link to="/dashboard" className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200">
+                  Dashboard
+                </Link>
+              ) : (
+                <Link to="/login" className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200">
+                  Đăng nhập
+                </Link>
+              )}
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData && 'success' in actionData && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+            {actionData.message}
+            {'invoiceNumber' in actionData && typeof actionData.invoiceNumber === 'string' && (
+              <Link to={`/invoices/${actionData.invoiceNumber}`} className="block mt-1 font-medium underline">
+                🧾 Xem hóa đơn {actionData.invoiceNumber}
+              </Link>
+            )}
+          </div>
+        )}
+
+        {actionData && 'error' in actionData && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {actionData.error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Listings */}
+          <div className="lg:col-span-2">
+            <div className="mb-6">
+              <span className="inline-block bg-teal-100 text-teal-800 text-xs font-medium px-2 py-1 rounded-full mb-2">
+                📦 Gói {listings.length} mã nguồn
+              </span>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">{bundle.title}</h1>
+              {bundle.description && (
+                <p className="text-gray-600 whitespace-pre-line">{bundle.description}</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md divide-y divide-gray-200">
+              {listings.map((listing) => (
+                <div key={listing.sourceId} className="p-4 flex items-center space-x-4">
+                  <img
+                    src={listing.thumbnail}
+                    alt={listing.title}
+                    className="w-20 h-14 object-cover rounded-lg flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <Link to={`/source/${listing.sourceId}`} className="font-medium text-gray-900 hover:text-teal-600 line-clamp-1">
+                      {listing.title}
+                    </Link>
+                    <p className="text-sm text-gray-500">Bản quyền: {listing.licenseName}</p>
+                    {listing.owned && (
+                      <p className="text-sm text-green-600 mt-1">
+                        ✅ {organization ? `Tổ chức ${organization.name} đã sở hữu mã nguồn này` : 'Bạn đã sở hữu mã nguồn này'}
+                      </p>
+                    )}
+                    {!listing.isActive && (
+                      <p className="text-sm text-red-600 mt-1">⚠️ Mã nguồn đã ngừng bán</p>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-500 whitespace-nowrap">
+                    {listing.price.toLocaleString('vi-VN')} xu
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Purchase */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-md p-6">
+              {savings > 0 && (
+                <div className="text-sm text-gray-400 line-through">{separatePrice.toLocaleString('vi-VN')} xu</div>
+              )}
+              <div className="text-3xl font-bold text-teal-600 mb-1">
+                {bundle.price.toLocaleString('vi-VN')} xu
+              </div>
+              {savings > 0 && (
+                <div className="text-sm text-green-600 mb-4">
+                  Tiết kiệm {savings.toLocaleString('vi-VN')} xu so với mua lẻ
+                </div>
+              )}
+
+              {available && organizations.length > 0 && (
+                <Form method="get" className="mb-4">
+                  <label htmlFor="org" className="block text-sm text-gray-600 mb-1">Thanh toán bằng</label>
+                  <select
+                    id="org"
+                    name="org"
+                    defaultValue={organization?.orgId || ""}
+                    onChange={(e) => e.target.form?.submit()}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  >
+                    <option value="">💰 Ví cá nhân ({currentUser!.balance.toLocaleString('vi-VN')} xu)</option>
+                    {organizations.map((candidate) => (
+                      <option key={candidate.orgId} value={candidate.orgId}>
+                        🏢 {candidate.name} ({candidate.balance.toLocaleString('vi-VN')} xu)
+                      </option>
+                    ))}
+                  </select>
+                </Form>
+              )}
+
+              {!available ? (
+                <div className="bg-gray-100 text-gray-600 text-center py-3 px-4 rounded-lg">
+                  Gói này hiện không thể mua
+                </div>
+              ) : ownedCount > 0 ? (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm px-4 py-3 rounded-lg">
+                  {organization ? `Tổ chức ${organization.name}` : 'Bạn'} đã sở hữu {ownedCount} mã nguồn trong gói nên không thể mua cả gói. Hãy mua lẻ những mã nguồn còn lại.
+                </div>
+              ) : currentUser ? (
+                <Form method="post">
+                  <input type="hidden" name="_action" value="purchase" />
+                  <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
+                  {organization && <input type="hidden" name="organization" value={organization.orgId} />}
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Đang xử lý..." : "🛒 Mua cả gói"}
+                  </button>
+                </Form>
+              ) : (
+                <Link
+                  to="/login"
+                  className="block w-full text-center bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium"
+                >
+                  Đăng nhập để mua
+                </Link>
+              )}
+
+              <p className="text-xs text-gray-500 mt-4">
+                Mỗi mã nguồn trong gói được cấp gói bản quyền cơ bản nhất. Đã bán {bundle.purchases} lượt.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="text-sm font-medium text-gray-500 mb-3">Người bán</h3>
+              <div className="flex items-center space-x-3">
+                {bundle.seller.avatar ? (
+                  <img src={bundle.seller.avatar} alt={bundle.seller.fullName} className="w-10 h-10 rounded-full object-cover" />
+                ) : (
+                  <div className="w-10 h-10 bg-gradient-to-r from-teal-500 to-blue-600 rounded-full flex items-center justify-center">
+                    <span className="text-white font-semibold">{bundle.seller.fullName.charAt(0).toUpperCase()}</span>
+                  </div>
+                )}
+                <span className="font-medium text-gray-900">{bundle.seller.fullName}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
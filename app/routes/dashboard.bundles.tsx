@@ -0,0 +1,259 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { useState } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Bundle, SourceCode, type IBundle, type ISourceCode } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import {
+  parseBundleInput,
+  createBundle,
+  getBundledListPrice,
+  BundleError,
+  MIN_BUNDLE_ITEMS,
+  MAX_BUNDLE_ITEMS
+} from "~/lib/bundles";
+import { MIN_TIER_PRICE } from "~/lib/licenses";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const [bundles, listings] = await Promise.all([
+    Bundle.find({ seller: user._id })
+      .populate('sourceCodes', 'sourceId title')
+      .sort({ createdAt: -1 })
+      .lean<(Omit<IBundle, 'sourceCodes'> & { sourceCodes: Pick<ISourceCode, 'sourceId' | 'title'>[] })[]>(),
+    SourceCode.find({ seller: user._id, isActive: true })
+      .select('sourceId title price licenseTiers')
+      .sort({ createdAt: -1 })
+      .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'price' | 'licenseTiers'>[]>()
+  ]);
+
+  return json({
+    bundles: bundles.map((bundle) => ({
+      _id: bundle._id.toString(),
+      bundleId: bundle.bundleId,
+      title: bundle.title,
+      price: bundle.price,
+      purchases: bundle.purchases,
+      isActive: bundle.isActive,
+      listings: bundle.sourceCodes.map((sourceCode) => sourceCode.title)
+    })),
+    listings: listings.map((listing) => ({
+      _id: listing._id.toString(),
+      title: listing.title,
+      listPrice: getBundledListPrice(listing)
+    })),
+    minItems: MIN_BUNDLE_ITEMS,
+    maxItems: MAX_BUNDLE_ITEMS,
+    minPrice: MIN_TIER_PRICE
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "create": {
+        const bundle = await createBundle({ seller: user, input: parseBundleInput(formData) });
+        return json({ success: true, message: `Tạo gói "${bundle.title}" thành công!` });
+      }
+
+      case "toggle-status": {
+        const bundle = await Bundle.findOne({ _id: formData.get("bundleId"), seller: user._id });
+        if (!bundle) {
+          return json({ error: "Không tìm thấy gói" }, { status: 404 });
+        }
+
+        bundle.isActive = !bundle.isActive;
+        await bundle.save();
+
+        return json({ success: true, message: `${bundle.isActive ? 'Mở bán' : 'Ngừng bán'} gói "${bundle.title}" thành công!` });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof BundleError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Bundle action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function SellerBundles() {
+  const { bundles, listings, minItems, maxItems, minPrice } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const separatePrice = listings
+    .filter((listing) => selected.includes(listing._id))
+    .reduce((sum, listing) => sum + listing.listPrice, 0);
+  const toggleListing = (id: string) => {
+    setSelected((current) => (current.includes(id) ? current.filter((candidate) => candidate !== id) : [...current, id]));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          📦 Gói combo
+        </h1>
+        <p className="text-gray-600">
+          Bán nhiều mã nguồn cùng lúc với giá ưu đãi. Người mua nhận gói bản quyền rẻ nhất của từng mã nguồn; doanh thu và hoa hồng được chia theo giá trị của từng mã nguồn trong gói.
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Create form */}
+        <div className="bg-white rounded-xl shadow-md p-6 h-fit">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">➕ Tạo gói mới</h2>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="_action" value="create" />
+
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">Tên gói *</label>
+              <input
+                id="title"
+                name="title"
+                type="text"
+                required
+                maxLength={120}
+                placeholder="VD: Trọn bộ template quản trị"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Mô tả</label>
+              <textarea
+                id="description"
+                name="description"
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Mã nguồn trong gói * ({minItems}-{maxItems})
+              </span>
+              {listings.length < minItems ? (
+                <p className="text-sm text-gray-500">Bạn cần ít nhất {minItems} mã nguồn đang bán để tạo gói</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {listings.map((listing) => (
+                    <label key={listing._id} className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <span className="flex items-center space-x-2 min-w-0">
+                        <input
+                          type="checkbox"
+                          name="sourceCodeIds"
+                          value={listing._id}
+                          checked={selected.includes(listing._id)}
+                          onChange={() => toggleListing(listing._id)}
+                          className="rounded text-teal-600 focus:ring-teal-500"
+                        />
+                        <span className="truncate">{listing.title}</span>
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap ml-2">{listing.listPrice.toLocaleString('vi-VN')} xu</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-1">Giá gói (xu) *</label>
+              <input
+                id="price"
+                name="price"
+                type="number"
+                required
+                min={minPrice}
+                max={separatePrice > 0 ? separatePrice - 1 : undefined}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              {separatePrice > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Tổng giá mua lẻ: {separatePrice.toLocaleString('vi-VN')} xu. Giá gói phải thấp hơn.
+                </p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || selected.length < minItems || selected.length > maxItems}
+              className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? "Đang xử lý..." : "📦 Tạo gói"}
+            </button>
+          </Form>
+        </div>
+
+        {/* Bundle list */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-md overflow-hidden h-fit">
+          {bundles.length === 0 ? (
+            <div className="text-center py-16 text-gray-600">
+              <div className="text-5xl mb-4">📦</div>
+              Bạn chưa tạo gói nào
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {bundles.map((bundle) => (
+                <div key={bundle._id} className="p-4 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <Link to={`/bundle/${bundle.bundleId}`} className="font-medium text-gray-900 hover:text-teal-600">
+                      {bundle.title}
+                    </Link>
+                    <div className="text-sm text-gray-500 mt-1">
+                      {bundle.listings.join(' • ')}
+                    </div>
+                    <div className="text-sm text-gray-700 mt-1">
+                      <span className="font-semibold text-teal-600">{bundle.price.toLocaleString('vi-VN')} xu</span>
+                      {' • '}Đã bán {bundle.purchases} lượt
+                    </div>
+                  </div>
+                  <Form method="post">
+                    <input type="hidden" name="_action" value="toggle-status" />
+                    <input type="hidden" name="bundleId" value={bundle._id} />
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium whitespace-nowrap disabled:opacity-50 ${
+                        bundle.isActive
+                          ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {bundle.isActive ? '✅ Đang bán' : '⏸️ Ngừng bán'}
+                    </button>
+                  </Form>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { User, type IUser } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { sendPurchaseNotificationEmail } from "~/lib/email";
+import { getCartLines, removeFromCart, CartError } from "~/lib/cart";
+import { checkoutCart, CheckoutError } from "~/lib/checkout";
+import { emailInvoice } from "~/lib/invoices";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { findSpendableOrganizations, requireMembership, OrganizationError } from "~/lib/organizations";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  // ?org= checks the cart out against an organization's wallet and what it already owns
+  const orgId = new URL(request.url).searchParams.get("org");
+  const organization = orgId
+    ? (await requireMembership(orgId, user, ['owner', 'purchaser']).catch((error) => {
+        if (error instanceof OrganizationError) {
+          throw new Response(error.message, { status: error.status });
+        }
+        throw error;
+      })).organization
+    : undefined;
+
+  const lines = await getCartLines(user, undefined, organization);
+  const sellerOf = (line: (typeof lines)[number]) => line.sourceCode.seller as unknown as Pick<IUser, '_id' | 'fullName'> | null;
+  const items = lines.map((line) => ({
+    sourceCodeId: line.sourceCode._id.toString(),
+    sourceId: line.sourceCode.sourceId,
+    title: line.sourceCode.title,
+    thumbnail: line.sourceCode.thumbnail,
+    sellerId: sellerOf(line)?._id.toString(),
+    sellerName: sellerOf(line)?.fullName || '',
+    licenseName: line.tier?.name,
+    price: line.tier?.price ?? line.sourceCode.price,
+    listPrice: line.tier?.listPrice ?? line.sourceCode.price,
+    problem: line.problem
+  }));
+
+  return json({
+    items,
+    totalAmount: items.filter((item) => !item.problem).reduce((sum, item) => sum + item.price, 0),
+    sellerCount: new Set(items.map((item) => item.sellerId)).size,
+    balance: organization ? organization.balance : user.balance,
+    organizations: await findSpendableOrganizations(user._id),
+    orgId: organization?.orgId || null,
+    idempotencyKey: generateIdempotencyKey()
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "remove-item": {
+        await removeFromCart(user, formData.get("sourceCodeId") as string);
+        return json({ success: true, message: "Đã bỏ mã nguồn khỏi giỏ hàng" });
+      }
+
+      case "checkout": {
+        // Double-clicks and retried requests replay the first checkout result
+        return withIdempotency({
+          request,
+          formData,
+          user: user._id,
+          scope: "checkout:cart"
+        }, async () => {
+          const orgId = formData.get("organization") as string | null;
+          const organization = orgId
+            ? (await requireMembership(orgId, user, ['owner', 'purchaser'])).organization
+            : undefined;
+
+          // Every listing is bought in one transaction; any failure leaves the wallet and cart untouched
+          const { order, purchases, invoice } = await checkoutCart({ buyer: user, organization });
+
+          const sellers = await User.find({ _id: { $in: order.items.map((item) => item.seller) } })
+            .select('email')
+            .lean<Pick<IUser, '_id' | 'email'>[]>();
+          for (const purchase of purchases) {
+            const seller = sellers.find((candidate) => candidate._id.toString() === purchase.seller?.toString());
+            const item = order.items.find((candidate) => candidate.purchase.toString() === purchase._id.toString());
+            if (!seller || !item) continue;
+
+            try {
+              await sendPurchaseNotificationEmail(
+                seller.email,
+                user.fullName,
+                item.title,
+                purchase.amount,
+                purchase.sellerEarnings,
+                purchase.earningsReleaseAt
+              );
+            } catch (emailError) {
+              console.error("Failed to send notification email:", emailError);
+            }
+          }
+
+          try {
+            await emailInvoice(invoice, new URL(request.url).origin);
+          } catch (emailError) {
+            console.error("Failed to send invoice email:", emailError);
+          }
+
+          return json({
+            success: true,
+            message: `Thanh toán thành công đơn hàng ${order.orderId} (${order.items.length} mã nguồn, ${order.totalAmount.toLocaleString('vi-VN')} xu)${organization ? ` cho tổ chức "${organization.name}"` : ''}`,
+            orderId: order.orderId,
+            invoiceNumber: invoice.invoiceNumber
+          });
+        });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof CartError || error instanceof CheckoutError || error instanceof OrganizationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Cart action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function Cart() {
+  const { items, totalAmount, sellerCount, balance, organizations, orgId, idempotencyKey } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const hasProblems = items.some((item) => item.problem);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          🛍️ Giỏ hàng
+        </h1>
+        <p className="text-gray-600">
+          Thanh toán nhiều mã nguồn cùng lúc trong một đơn hàng
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+          {'orderId' in actionData && (
+            <Link to="/dashboard/purchases" className="block mt-1 font-medium underline">
+              📥 Đến mục Mã nguồn đã mua
+            </Link>
+          )}
+          {'invoiceNumber' in actionData && typeof actionData.invoiceNumber === 'string' && (
+            <Link to={`/invoices/${actionData.invoiceNumber}`} className="block mt-1 font-medium underline">
+              🧾 Xem hóa đơn {actionData.invoiceNumber}
+            </Link>
+          )}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center">
+          <div className="text-6xl mb-4">🛒</div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Giỏ hàng trống</h3>
+          <p className="text-gray-600 mb-6">Thêm mã nguồn vào giỏ để thanh toán cùng lúc</p>
+          <Link
+            to="/browse"
+            className="inline-block bg-gradient-to-r from-teal-500 to-blue-600 text-white px-6 py-3 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium"
+          >
+            🔍 Khám phá mã nguồn
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Items */}
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-md divide-y divide-gray-200">
+            {items.map((item) => (
+              <div key={item.sourceCodeId} className="p-4 flex items-center space-x-4">
+                <img
+                  src={item.thumbnail}
+                  alt={item.title}
+                  className="w-20 h-14 object-cover rounded-lg flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <Link to={`/source/${item.sourceId}`} className="font-medium text-gray-900 hover:text-teal-600 line-clamp-1">
+                    {item.title}
+                  </Link>
+                  <p className="text-sm text-gray-500">
+                    {item.sellerName}{item.licenseName && ` • ${item.licenseName}`}
+                  </p>
+                  {item.problem && (
+                    <p className="text-sm text-red-600 mt-1">⚠️ {item.problem}</p>
+                  )}
+                </div>
+                <div className="text-right">
+                  {!item.problem && item.listPrice > item.price && (
+                    <div className="text-xs text-gray-400 line-through">{item.listPrice.toLocaleString('vi-VN')} xu</div>
+                  )}
+                  <div className={`font-semibold ${item.problem ? 'text-gray-400 line-through' : 'text-teal-600'}`}>
+                    {item.price.toLocaleString('vi-VN')} xu
+                  </div>
+                  <Form method="post">
+                    <input type="hidden" name="_action" value="remove-item" />
+                    <input type="hidden" name="sourceCodeId" value={item.sourceCodeId} />
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="text-sm text-red-600 hover:text-red-700 mt-1 disabled:opacity-50"
+                    >
+                      🗑️ Bỏ
+                    </button>
+                  </Form>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Summary */}
+          <div className="bg-white rounded-xl shadow-md p-6 h-fit">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">🧾 Tóm tắt đơn hàng</h2>
+            <div className="space-y-2 text-sm mb-4">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Số mã nguồn:</span>
+                <span className="font-medium">{items.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Người bán:</span>
+                <span className="font-medium">{sellerCount}</span>
+              </div>
+              <div className="flex justify-between text-base pt-2 border-t border-gray-200">
+                <span className="font-semibold text-gray-900">Tổng cộng:</span>
+                <span className="font-bold text-teal-600">{totalAmount.toLocaleString('vi-VN')} xu</span>
+              </div>
+            </div>
+
+            {organizations.length > 0 && (
+              <Form method="get" className="mb-4">
+                <label htmlFor="org" className="block text-sm text-gray-600 mb-1">Thanh toán bằng</label>
+                <select
+                  id="org"
+                  name="org"
+                  defaultValue={orgId || ""}
+                  onChange={(e) => e.target.form?.submit()}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  <option value="">💰 Ví cá nhân</option>
+                  {organizations.map((organization) => (
+                    <option key={organization.orgId} value={organization.orgId}>
+                      🏢 {organization.name}
+                    </option>
+                  ))}
+                </select>
+              </Form>
+            )}
+
+            <p className="text-sm text-gray-500 mb-4">
+              💰 {orgId ? 'Số dư ví tổ chức' : 'Số dư của bạn'}: {balance.toLocaleString('vi-VN')} xu
+              {balance < totalAmount && (
+                <span className="block text-red-600 mt-1">
+                  ⚠️ Số dư không đủ. <Link to={orgId ? `/dashboard/deposit?org=${orgId}` : "/dashboard/deposit"} className="underline">Nạp thêm xu</Link>
+                </span>
+              )}
+            </p>
+
+            {hasProblems && (
+              <p className="text-sm text-red-600 mb-4">
+                Vui lòng bỏ các mã nguồn không thể mua khỏi giỏ hàng trước khi thanh toán
+              </p>
+            )}
+
+            <Form method="post">
+              <input type="hidden" name="_action" value="checkout" />
+              <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
+              {orgId && <input type="hidden" name="organization" value={orgId} />}
+              <button
+                type="submit"
+                disabled={isSubmitting || hasProblems || balance < totalAmount}
+                className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? "Đang xử lý..." : "💳 Thanh toán"}
+              </button>
+            </Form>
+            <p className="text-xs text-gray-500 mt-3">
+              Tất cả mã nguồn được mua cùng lúc. Nếu một mã nguồn không thể mua, đơn hàng sẽ không bị trừ tiền.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
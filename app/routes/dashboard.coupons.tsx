@@ -0,0 +1,359 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Form, useNavigation } from "@remix-run/react";
+import { useState } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Coupon, SourceCode, Purchase, type ICoupon, type ISourceCode } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { parseCouponInput, createCoupon, describeCoupon, CouponError } from "~/lib/coupons";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const [coupons, listings] = await Promise.all([
+    Coupon.find({ createdBy: user._id })
+      .populate('sourceCode', 'sourceId title')
+      .sort({ createdAt: -1 })
+      .lean<(Omit<ICoupon, 'sourceCode'> & { sourceCode: Pick<ISourceCode, 'sourceId' | 'title'> | null })[]>(),
+    SourceCode.find({ seller: user._id })
+      .select('sourceId title')
+      .sort({ createdAt: -1 })
+      .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title'>[]>()
+  ]);
+
+  // Discount actually given away through each coupon
+  const usage = await Purchase.aggregate<{ _id: string; discount: number }>([
+    { $match: { 'coupon.coupon': { $in: coupons.map((coupon) => coupon._id) } } },
+    { $group: { _id: '$coupon.coupon', discount: { $sum: '$discountAmount' } } }
+  ]);
+
+  return json({
+    coupons: coupons.map((coupon) => ({
+      _id: coupon._id.toString(),
+      code: coupon.code,
+      scope: coupon.scope,
+      listing: coupon.sourceCode,
+      description: describeCoupon(coupon),
+      usedCount: coupon.usedCount,
+      usageLimit: coupon.usageLimit,
+      perUserLimit: coupon.perUserLimit,
+      startsAt: coupon.startsAt,
+      expiresAt: coupon.expiresAt,
+      isActive: coupon.isActive,
+      totalDiscount: usage.find((row) => row._id.toString() === coupon._id.toString())?.discount || 0
+    })),
+    listings: listings.map((listing) => ({ sourceId: listing.sourceId, title: listing.title }))
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "create": {
+        const input = parseCouponInput(formData);
+        const scope = formData.get("scope") === "listing" ? "listing" : "seller";
+
+        let sourceCode: Pick<ISourceCode, '_id'> | null = null;
+        if (scope === "listing") {
+          sourceCode = await SourceCode.findOne({ sourceId: formData.get("sourceId"), seller: user._id })
+            .select('_id')
+            .lean<Pick<ISourceCode, '_id'>>();
+          if (!sourceCode) {
+            return json({ error: "Vui lòng chọn mã nguồn của bạn" }, { status: 400 });
+          }
+        }
+
+        await createCoupon({ input, scope, seller: user._id, sourceCode: sourceCode?._id, createdBy: user });
+
+        return json({ success: true, message: `Tạo mã giảm giá ${input.code} thành công!` });
+      }
+
+      case "toggle-status": {
+        const coupon = await Coupon.findOne({ _id: formData.get("couponId"), createdBy: user._id });
+        if (!coupon) {
+          return json({ error: "Không tìm thấy mã giảm giá" }, { status: 404 });
+        }
+
+        coupon.isActive = !coupon.isActive;
+        await coupon.save();
+
+        return json({ success: true, message: `${coupon.isActive ? 'Bật' : 'Tắt'} mã giảm giá ${coupon.code} thành công!` });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Coupon action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+const scopeLabels: Record<ICoupon['scope'], string> = {
+  site: '🌐 Toàn sàn',
+  seller: '👤 Tất cả mã nguồn của tôi',
+  listing: '📦 Một mã nguồn'
+};
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleString('vi-VN') : '—');
+
+export default function SellerCoupons() {
+  const { coupons, listings } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const [scope, setScope] = useState("seller");
+  const [discountType, setDiscountType] = useState("percentage");
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          🏷️ Mã giảm giá
+        </h1>
+        <p className="text-gray-600">
+          Tạo mã khuyến mãi cho mã nguồn của bạn. Hoa hồng và doanh thu được tính trên số tiền người mua thực trả.
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Create form */}
+        <div className="bg-white rounded-xl shadow-md p-6 h-fit">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">➕ Tạo mã mới</h2>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="_action" value="create" />
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">Mã *</label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                required
+                placeholder="VD: GIAM20"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="scope" className="block text-sm font-medium text-gray-700 mb-1">Áp dụng cho *</label>
+              <select
+                id="scope"
+                name="scope"
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              >
+                <option value="seller">{scopeLabels.seller}</option>
+                <option value="listing">{scopeLabels.listing}</option>
+              </select>
+            </div>
+
+            {scope === "listing" && (
+              <div>
+                <label htmlFor="sourceId" className="block text-sm font-medium text-gray-700 mb-1">Mã nguồn *</label>
+                <select
+                  id="sourceId"
+                  name="sourceId"
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  {listings.map((listing) => (
+                    <option key={listing.sourceId} value={listing.sourceId}>{listing.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="discountType" className="block text-sm font-medium text-gray-700 mb-1">Loại giảm *</label>
+                <select
+                  id="discountType"
+                  name="discountType"
+                  value={discountType}
+                  onChange={(e) => setDiscountType(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  <option value="percentage">Phần trăm (%)</option>
+                  <option value="fixed">Số xu cố định</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="discountValue" className="block text-sm font-medium text-gray-700 mb-1">Mức giảm *</label>
+                <input
+                  id="discountValue"
+                  name="discountValue"
+                  type="number"
+                  required
+                  min="1"
+                  max={discountType === "percentage" ? 100 : undefined}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {discountType === "percentage" && (
+                <div>
+                  <label htmlFor="maxDiscount" className="block text-sm font-medium text-gray-700 mb-1">Giảm tối đa (xu)</label>
+                  <input
+                    id="maxDiscount"
+                    name="maxDiscount"
+                    type="number"
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="minSpend" className="block text-sm font-medium text-gray-700 mb-1">Đơn tối thiểu (xu)</label>
+                <input
+                  id="minSpend"
+                  name="minSpend"
+                  type="number"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="usageLimit" className="block text-sm font-medium text-gray-700 mb-1">Tổng lượt dùng</label>
+                <input
+                  id="usageLimit"
+                  name="usageLimit"
+                  type="number"
+                  min="1"
+                  placeholder="Không giới hạn"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="perUserLimit" className="block text-sm font-medium text-gray-700 mb-1">Lượt mỗi người</label>
+                <input
+                  id="perUserLimit"
+                  name="perUserLimit"
+                  type="number"
+                  min="1"
+                  defaultValue="1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-1">Bắt đầu</label>
+              <input
+                id="startsAt"
+                name="startsAt"
+                type="datetime-local"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-1">Hết hạn</label>
+              <input
+                id="expiresAt"
+                name="expiresAt"
+                type="datetime-local"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || (scope === "listing" && listings.length === 0)}
+              className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? "Đang xử lý..." : "➕ Tạo mã giảm giá"}
+            </button>
+          </Form>
+        </div>
+
+        {/* Coupon list */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-md overflow-hidden h-fit">
+          {coupons.length === 0 ? (
+            <div className="text-center py-16 text-gray-600">
+              <div className="text-5xl mb-4">🏷️</div>
+              Bạn chưa tạo mã giảm giá nào
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mã</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Áp dụng cho</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Đã dùng</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Thời gian</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trạng thái</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {coupons.map((coupon) => (
+                    <tr key={coupon._id} className="hover:bg-gray-50">
+                      <td className="px-4 py-4">
+                        <div className="font-mono font-semibold text-gray-900">{coupon.code}</div>
+                        <div className="text-xs text-gray-500">{coupon.description}</div>
+                      </td>
+                      <td className="px-4 py-4 text-sm text-gray-900">
+                        {coupon.listing ? `📦 ${coupon.listing.title}` : scopeLabels[coupon.scope]}
+                      </td>
+                      <td className="px-4 py-4 text-sm text-gray-900 whitespace-nowrap">
+                        <div>{coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''} lượt</div>
+                        <div className="text-xs text-gray-500">-{coupon.totalDiscount.toLocaleString('vi-VN')} xu</div>
+                      </td>
+                      <td className="px-4 py-4 text-xs text-gray-500 whitespace-nowrap">
+                        <div>Từ: {formatDate(coupon.startsAt)}</div>
+                        <div>Đến: {formatDate(coupon.expiresAt)}</div>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        <Form method="post">
+                          <input type="hidden" name="_action" value="toggle-status" />
+                          <input type="hidden" name="couponId" value={coupon._id} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium disabled:opacity-50 ${
+                              coupon.isActive
+                                ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                          >
+                            {coupon.isActive ? '✅ Đang bật' : '⏸️ Đã tắt'}
+                          </button>
+                        </Form>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
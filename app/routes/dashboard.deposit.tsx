@@ -1,9 +1,14 @@
-import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
-import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
 import { Payment } from "~/lib/db/models";
 import { requireAuth, generatePaymentId } from "~/lib/auth";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { rejectPayment } from "~/lib/payments";
+import { getGateway, getEnabledGateways, GatewayError } from "~/lib/gateways";
+import { getDepositBankAccount } from "~/lib/vietqr";
+import { findSpendableOrganizations, requireMembership, OrganizationError } from "~/lib/organizations";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireAuth(request);
@@ -14,9 +19,11 @@ export async function loader({ request }: LoaderFunctionArgs) {
     user: user._id, 
     type: 'deposit' 
   })
+  .populate('organization', 'name')
   .sort({ createdAt: -1 })
   .limit(10)
   .lean();
+  const organizations = await findSpendableOrganizations(user._id);
 
   return json({ 
     user: {
@@ -24,76 +31,136 @@ export async function loader({ request }: LoaderFunctionArgs) {
       fullName: user.fullName,
       balance: user.balance
     },
-    recentDeposits 
+    recentDeposits,
+    organizations,
+    bankInfo: getDepositBankAccount(),
+    gateways: getEnabledGateways(),
+    idempotencyKey: generateIdempotencyKey()
   });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
   const user = await requireAuth(request);
   const formData = await request.formData();
-  
-  const amount = parseInt(formData.get("amount") as string);
-  const note = formData.get("note") as string;
 
-  try {
-    if (!amount || amount < 10000) {
-      return json({ error: "Số tiền nạp tối thiểu là 10,000 xu" }, { status: 400 });
-    }
+  await connectToDatabase();
 
-    if (amount > 10000000) {
-      return json({ error: "Số tiền nạp tối đa là 10,000,000 xu" }, { status: 400 });
+  // A resubmitted form replays the first response instead of creating a second deposit
+  return withIdempotency({ request, formData, user: user._id, scope: 'deposit' }, async () => {
+    const amount = parseInt(formData.get("amount") as string);
+    const note = formData.get("note") as string;
+    const method = (formData.get("method") as string) || "bank";
+
+    try {
+      if (!amount || amount < 10000) {
+        return json({ error: "Số tiền nạp tối thiểu là 10,000 xu" }, { status: 400 });
+      }
+
+      if (amount > 10000000) {
+        return json({ error: "Số tiền nạp tối đa là 10,000,000 xu" }, { status: 400 });
+      }
+
+      // Owners and purchasers may top up an organization's shared wallet instead of their own
+      const orgId = formData.get("organization") as string | null;
+      const organization = orgId ? (await requireMembership(orgId, user, ['owner', 'purchaser'])).organization : undefined;
+
+      const gateway = method === "bank" ? undefined : getGateway(method);
+      if (method !== "bank" && !gateway) {
+        return json({ error: "Phương thức thanh toán không khả dụng" }, { status: 400 });
+      }
+
+      // Generate unique payment ID
+      let paymentId: string;
+      let isPaymentIdUnique = false;
+      do {
+        paymentId = generatePaymentId();
+        const existingPayment = await Payment.findOne({ paymentId });
+        isPaymentIdUnique = !existingPayment;
+      } while (!isPaymentIdUnique);
+
+      // Create deposit request
+      const payment = new Payment({
+        paymentId,
+        user: user._id,
+        organization: organization?._id,
+        type: 'deposit',
+        amount,
+        status: 'pending',
+        note: note?.trim() || `Nạp xu - ${user.userId}`,
+        gateway: gateway?.id
+      });
+
+      await payment.save();
+
+      // Online payments are confirmed by the provider's webhook, not by an admin
+      if (gateway) {
+        const origin = new URL(request.url).origin;
+
+        try {
+          const checkoutUrl = await gateway.createCheckoutUrl({
+            payment,
+            returnUrl: `${origin}/payments/${gateway.id}/return`,
+            ipnUrl: `${origin}/webhooks/${gateway.id}`,
+            clientIp: request.headers.get("X-Forwarded-For")?.split(",")[0].trim() || "127.0.0.1"
+          });
+          return redirect(checkoutUrl);
+        } catch (error) {
+          await rejectPayment(payment, { adminNote: `Không tạo được giao dịch ${gateway.name}` });
+          if (error instanceof GatewayError) {
+            return json({ error: error.message }, { status: 502 });
+          }
+          throw error;
+        }
+      }
+
+      return json({ 
+        success: true, 
+        paymentId,
+        amount,
+        message: "Yêu cầu nạp xu đã được tạo thành công!" 
+      });
+
+    } catch (error) {
+      if (error instanceof OrganizationError) {
+        return json({ error: error.message }, { status: error.status });
+      }
+      console.error("Deposit error:", error);
+      return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
     }
-
-    await connectToDatabase();
-
-    // Generate unique payment ID
-    let paymentId: string;
-    let isPaymentIdUnique = false;
-    do {
-      paymentId = generatePaymentId();
-      const existingPayment = await Payment.findOne({ paymentId });
-      isPaymentIdUnique = !existingPayment;
-    } while (!isPaymentIdUnique);
-
-    // Create deposit request
-    const payment = new Payment({
-      paymentId,
-      user: user._id,
-      type: 'deposit',
-      amount,
-      status: 'pending',
-      note: note?.trim() || `Nạp xu - ${user.userId}`
-    });
-
-    await payment.save();
-
-    return json({ 
-      success: true, 
-      paymentId,
-      amount,
-      message: "Yêu cầu nạp xu đã được tạo thành công!" 
-    });
-
-  } catch (error) {
-    console.error("Deposit error:", error);
-    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
-  }
+  });
 }
 
 export default function Deposit() {
-  const { user, recentDeposits } = useLoaderData<typeof loader>();
+  const { user, recentDeposits, organizations, bankInfo, gateways, idempotencyKey } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
   const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState("bank");
   const [showQR, setShowQR] = useState(false);
   const isSubmitting = navigation.state === "submitting";
 
-  // Bank information (from images provided)
-  const bankInfo = {
-    accountName: "NGUYEN DINH KHOI",
-    accountNumber: "10787011779", 
-    bankName: "VietinBank CN KCN PHU TAI - PGD PHU CAT"
+  // Result passed back by the payment gateway return route
+  const gatewayStatus = searchParams.get("gatewayStatus");
+  const gatewayMessages: Record<string, { text: string; className: string }> = {
+    success: {
+      text: "Thanh toán thành công, xu đã được cộng vào tài khoản!",
+      className: "bg-green-50 border-green-200 text-green-600"
+    },
+    processing: {
+      text: "Đang chờ cổng thanh toán xác nhận, xu sẽ được cộng trong giây lát",
+      className: "bg-yellow-50 border-yellow-200 text-yellow-700"
+    },
+    failed: {
+      text: "Thanh toán không thành công hoặc đã bị hủy",
+      className: "bg-red-50 border-red-200 text-red-600"
+    },
+    invalid: {
+      text: "Không xác thực được kết quả thanh toán, vui lòng liên hệ hỗ trợ",
+      className: "bg-red-50 border-red-200 text-red-600"
+    }
   };
+  const gatewayMessage = gatewayStatus ? gatewayMessages[gatewayStatus] : undefined;
 
   const quickAmounts = [50000, 100000, 200000, 500000, 1000000, 2000000];
 
@@ -150,10 +217,17 @@ export default function Deposit() {
               
               <div className="bg-white p-4 rounded-lg mb-4">
                 <img 
-                  src="/api/placeholder/300/300" 
-                  alt="QR Code VietinBank"
+                  src={`/deposits/${actionData.paymentId}/qr`} 
+                  alt={`VietQR ${actionData.paymentId}`}
                   className="w-full max-w-xs mx-auto"
                 />
+                <a
+                  href={`/deposits/${actionData.paymentId}/qr?format=png`}
+                  download={`${actionData.paymentId}.png`}
+                  className="block text-center text-sm text-teal-600 hover:text-teal-700 mt-2"
+                >
+                  ⬇️ Tải mã QR
+                </a>
               </div>
 
               <div className="space-y-3 text-sm">
@@ -177,7 +251,7 @@ export default function Deposit() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Nội dung CK:</span>
-                  <span className="font-medium text-red-600">{user.userId}</span>
+                  <span className="font-medium text-red-600">{actionData.paymentId}</span>
                 </div>
               </div>
             </div>
@@ -193,7 +267,7 @@ export default function Deposit() {
                   <div className="w-6 h-6 bg-teal-100 text-teal-600 rounded-full flex items-center justify-center text-sm font-bold">1</div>
                   <div>
                     <p className="font-medium">Quét mã QR hoặc chuyển khoản thủ công</p>
-                    <p className="text-gray-600 text-sm">Sử dụng app ngân hàng để quét mã QR bên trái</p>
+                    <p className="text-gray-600 text-sm">Mã QR đã có sẵn số tiền và nội dung chuyển khoản</p>
                   </div>
                 </div>
                 
@@ -202,7 +276,7 @@ export default function Deposit() {
                   <div>
                     <p className="font-medium">Nhập đúng nội dung chuyển khoản</p>
                     <p className="text-gray-600 text-sm">
-                      <strong className="text-red-600">{user.userId}</strong> (Mã tài khoản của bạn)
+                      <strong className="text-red-600">{actionData.paymentId}</strong> (Mã giao dịch nạp xu)
                     </p>
                   </div>
                 </div>
@@ -226,7 +300,7 @@ export default function Deposit() {
                       ⚠️ Lưu ý quan trọng
                     </h4>
                     <ul className="text-sm text-yellow-700 space-y-1">
-                      <li>• Nhập đúng nội dung CK: <strong>{user.userId}</strong></li>
+                      <li>• Nhập đúng nội dung CK: <strong>{actionData.paymentId}</strong></li>
                       <li>• Chuyển đúng số tiền: <strong>{actionData.amount.toLocaleString('vi-VN')} VND</strong></li>
                       <li>• Xu sẽ được cộng tự động sau 5-15 phút</li>
                       <li>• Liên hệ support nếu sau 30 phút chưa nhận được xu</li>
@@ -267,6 +341,13 @@ export default function Deposit() {
         </p>
       </div>
 
+      {gatewayMessage && (
+        <div className={`mb-6 border px-4 py-3 rounded-lg ${gatewayMessage.className}`}>
+          {gatewayMessage.text}
+          {searchParams.get("paymentId") && ` (${searchParams.get("paymentId")})`}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Deposit Form */}
         <div className="lg:col-span-2">
@@ -274,12 +355,34 @@ export default function Deposit() {
             <h3 className="text-lg font-semibold text-gray-900 mb-6">Số tiền muốn nạp</h3>
             
             <Form method="post" className="space-y-6">
+              <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
               {actionData?.error && (
                 <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
                   {actionData.error}
                 </div>
               )}
 
+              {organizations.length > 0 && (
+                <div>
+                  <label htmlFor="organization" className="block text-sm font-medium text-gray-700 mb-2">
+                    Nạp vào ví:
+                  </label>
+                  <select
+                    id="organization"
+                    name="organization"
+                    defaultValue={searchParams.get("org") || ""}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  >
+                    <option value="">💰 Ví cá nhân</option>
+                    {organizations.map((organization) => (
+                      <option key={organization.orgId} value={organization.orgId}>
+                        🏢 {organization.name} ({organization.balance.toLocaleString('vi-VN')} xu)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Quick amounts */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -331,6 +434,44 @@ export default function Deposit() {
                 </p>
               </div>
 
+              {/* Payment method */}
+              {gateways.length > 0 && (
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-3">
+                    Phương thức thanh toán:
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {[{ id: "bank", name: "🏦 Chuyển khoản" }, ...gateways].map((option) => (
+                      <label
+                        key={option.id}
+                        htmlFor={`method-${option.id}`}
+                        className={`p-3 border rounded-lg text-center cursor-pointer transition-all duration-200 ${
+                          method === option.id
+                            ? 'border-teal-500 bg-teal-50 text-teal-700'
+                            : 'border-gray-300 hover:border-teal-300 hover:bg-teal-50'
+                        }`}
+                      >
+                        <input
+                          id={`method-${option.id}`}
+                          type="radio"
+                          name="method"
+                          value={option.id}
+                          checked={method === option.id}
+                          onChange={() => setMethod(option.id)}
+                          className="sr-only"
+                        />
+                        <span className="font-medium">{option.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  {method !== "bank" && (
+                    <p className="mt-2 text-sm text-gray-500">
+                      Bạn sẽ được chuyển tới cổng thanh toán, xu được cộng ngay khi giao dịch thành công
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Note */}
               <div>
                 <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-2">
@@ -372,7 +513,7 @@ export default function Deposit() {
                     Đang tạo yêu cầu...
                   </div>
                 ) : (
-                  "💰 Tạo yêu cầu nạp xu"
+                  method === "bank" ? "💰 Tạo yêu cầu nạp xu" : "💳 Thanh toán trực tuyến"
                 )}
               </button>
             </Form>
@@ -483,11 +624,24 @@ export default function Deposit() {
                         <div className="text-sm font-medium text-gray-900">
                           {deposit.paymentId}
                         </div>
+                        {deposit.status === 'pending' && !deposit.gateway && (
+                          <a
+                            href={`/deposits/${deposit.paymentId}/qr`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs text-teal-600 hover:text-teal-700"
+                          >
+                            📱 Xem mã QR
+                          </a>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
                           {deposit.amount.toLocaleString('vi-VN')} xu
                         </div>
+                        {deposit.organization && (
+                          <div className="text-xs text-gray-500">🏢 {deposit.organization.name}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full border ${getStatusColor(deposit.status)}`}>
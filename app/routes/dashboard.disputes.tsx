@@ -0,0 +1,204 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { requireAuth } from "~/lib/auth";
+import { findDisputes, respondToDispute, DisputeError, DISPUTE_REASONS } from "~/lib/disputes";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const [openedDisputes, receivedDisputes] = await Promise.all([
+    findDisputes({ buyer: user._id }, 50),
+    findDisputes({ seller: user._id }, 50)
+  ]);
+
+  return json({
+    openedDisputes,
+    receivedDisputes,
+    disputeReasons: DISPUTE_REASONS
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "respond": {
+        const disputeId = formData.get("disputeId") as string;
+        await respondToDispute(disputeId, user, formData.get("response") as string);
+        return json({ success: true, message: `Đã gửi phản hồi cho khiếu nại ${disputeId}` });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Dispute action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  open: { label: '⏳ Chờ người bán phản hồi', className: 'bg-yellow-100 text-yellow-800' },
+  seller_responded: { label: '💬 Chờ admin xử lý', className: 'bg-blue-100 text-blue-800' },
+  resolved: { label: '✅ Đã xử lý', className: 'bg-green-100 text-green-800' }
+};
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  refund_full: 'Hoàn tiền toàn bộ',
+  refund_partial: 'Hoàn tiền một phần',
+  rejected: 'Từ chối khiếu nại'
+};
+
+export default function MyDisputes() {
+  const { openedDisputes, receivedDisputes, disputeReasons } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const renderDispute = (dispute: typeof openedDisputes[number], asSeller: boolean) => (
+    <div key={dispute._id} className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2 mb-4">
+        <div>
+          <div className="flex items-center space-x-2 mb-1">
+            <span className="font-mono text-sm text-gray-500">{dispute.disputeId}</span>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[dispute.status].className}`}>
+              {STATUS_LABELS[dispute.status].label}
+            </span>
+          </div>
+          {dispute.sourceCode ? (
+            <Link to={`/source/${dispute.sourceCode.sourceId}`} className="text-lg font-semibold text-gray-900 hover:text-teal-600">
+              {dispute.sourceCode.title}
+            </Link>
+          ) : (
+            <span className="text-lg font-semibold text-gray-900">Mã nguồn đã bị xóa</span>
+          )}
+          <div className="text-sm text-gray-600">
+            {asSeller ? `Người mua: ${dispute.buyer?.fullName}` : `Người bán: ${dispute.seller?.fullName}`}
+            {dispute.purchase && ` • ${dispute.purchase.purchaseId} • ${dispute.purchase.amount.toLocaleString('vi-VN')} xu`}
+          </div>
+        </div>
+        <div className="text-sm text-gray-500">
+          {new Date(dispute.createdAt).toLocaleString('vi-VN')}
+        </div>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="bg-red-50 rounded-lg p-3">
+          <div className="font-medium text-red-800 mb-1">
+            {disputeReasons[dispute.reason]}
+          </div>
+          <p className="text-gray-700 whitespace-pre-line">{dispute.description}</p>
+        </div>
+
+        {dispute.sellerResponse && (
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="font-medium text-gray-800 mb-1">Phản hồi của người bán</div>
+            <p className="text-gray-700 whitespace-pre-line">{dispute.sellerResponse}</p>
+          </div>
+        )}
+
+        {dispute.status === 'resolved' && (
+          <div className="bg-green-50 rounded-lg p-3">
+            <div className="font-medium text-green-800 mb-1">
+              {dispute.resolution && RESOLUTION_LABELS[dispute.resolution]}
+              {dispute.refundAmount > 0 && ` - ${dispute.refundAmount.toLocaleString('vi-VN')} xu`}
+            </div>
+            {dispute.adminNote && <p className="text-gray-700">{dispute.adminNote}</p>}
+          </div>
+        )}
+
+        {asSeller && dispute.status !== 'resolved' && (
+          <Form method="post" className="space-y-2">
+            <input type="hidden" name="_action" value="respond" />
+            <input type="hidden" name="disputeId" value={dispute.disputeId} />
+            <label htmlFor={`response-${dispute._id}`} className="block font-medium text-gray-700">
+              {dispute.sellerResponse ? 'Cập nhật phản hồi' : 'Phản hồi khiếu nại'}
+            </label>
+            <textarea
+              id={`response-${dispute._id}`}
+              name="response"
+              required
+              rows={3}
+              defaultValue={dispute.sellerResponse || ''}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              placeholder="Giải thích hoặc hướng dẫn người mua khắc phục vấn đề..."
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-teal-600 text-white py-2 px-4 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? "Đang gửi..." : "Gửi phản hồi"}
+            </button>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          ⚖️ Khiếu nại
+        </h1>
+        <p className="text-gray-600">
+          Theo dõi khiếu nại bạn đã gửi và phản hồi khiếu nại về mã nguồn của bạn
+        </p>
+      </div>
+
+      {actionData?.success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      {actionData?.error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+
+      <div className="mb-10">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">
+          Khiếu nại về sản phẩm của tôi ({receivedDisputes.length})
+        </h2>
+        {receivedDisputes.length > 0 ? (
+          <div className="space-y-4">
+            {receivedDisputes.map((dispute) => renderDispute(dispute, true))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md p-8 text-center text-gray-500">
+            Chưa có khiếu nại nào về mã nguồn của bạn
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">
+          Khiếu nại của tôi ({openedDisputes.length})
+        </h2>
+        {openedDisputes.length > 0 ? (
+          <div className="space-y-4">
+            {openedDisputes.map((dispute) => renderDispute(dispute, false))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md p-8 text-center text-gray-500">
+            Bạn chưa gửi khiếu nại nào. Có thể khiếu nại từ trang{" "}
+            <Link to="/dashboard/purchases" className="text-teal-600 hover:underline">Mã nguồn đã mua</Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, Link } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Purchase } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { getEarningsHoldDays } from "~/lib/escrow";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const [pendingSales, releasedSales] = await Promise.all([
+    Purchase.find({ seller: user._id, heldEarnings: { $gt: 0 } })
+      .populate('sourceCode', 'title sourceId')
+      .sort({ earningsReleaseAt: 1 })
+      .limit(50)
+      .lean(),
+    Purchase.find({ seller: user._id, earningsReleasedAt: { $exists: true } })
+      .populate('sourceCode', 'title sourceId')
+      .sort({ earningsReleasedAt: -1 })
+      .limit(10)
+      .lean()
+  ]);
+
+  return json({
+    balance: user.balance,
+    heldBalance: user.heldBalance || 0,
+    pendingBalance: user.pendingBalance || 0,
+    holdDays: getEarningsHoldDays(),
+    pendingSales: pendingSales.map(sale => ({
+      purchaseId: sale.purchaseId,
+      title: (sale.sourceCode as unknown as { title: string } | null)?.title,
+      amount: sale.amount,
+      heldEarnings: sale.heldEarnings,
+      status: sale.status,
+      createdAt: sale.createdAt,
+      earningsReleaseAt: sale.earningsReleaseAt
+    })),
+    releasedSales: releasedSales.map(sale => ({
+      purchaseId: sale.purchaseId,
+      title: (sale.sourceCode as unknown as { title: string } | null)?.title,
+      sellerEarnings: sale.sellerEarnings,
+      earningsReleasedAt: sale.earningsReleasedAt
+    }))
+  });
+}
+
+export default function Earnings() {
+  const { balance, heldBalance, pendingBalance, holdDays, pendingSales, releasedSales } = useLoaderData<typeof loader>();
+
+  const formatReleaseDate = (date?: string) => {
+    if (!date) return '—';
+    const diffMs = new Date(date).getTime() - new Date().getTime();
+    if (diffMs <= 0) return 'Sắp được chuyển';
+    const diffDays = Math.ceil(diffMs / (1000 * 60 * 60 * 24));
+    return `${new Date(date).toLocaleDateString('vi-VN')} (còn ${diffDays} ngày)`;
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          💵 Doanh thu bán hàng
+        </h1>
+        <p className="text-gray-600">
+          Doanh thu từ mỗi đơn bán được tạm giữ {holdDays} ngày để xử lý khiếu nại trước khi chuyển vào số dư khả dụng
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Số dư khả dụng</p>
+              <p className="text-2xl font-bold text-green-600">{balance.toLocaleString('vi-VN')} xu</p>
+              <p className="text-xs text-gray-500 mt-1">Có thể rút hoặc dùng để mua</p>
+            </div>
+            <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
+              <span className="text-green-600 text-2xl">💰</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Doanh thu chờ đối soát</p>
+              <p className="text-2xl font-bold text-yellow-600">{pendingBalance.toLocaleString('vi-VN')} xu</p>
+              <p className="text-xs text-gray-500 mt-1">Chưa thể rút</p>
+            </div>
+            <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+              <span className="text-yellow-600 text-2xl">🔒</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Đang chờ rút</p>
+              <p className="text-2xl font-bold text-gray-900">{heldBalance.toLocaleString('vi-VN')} xu</p>
+              <Link to="/dashboard/withdraw" className="text-xs text-teal-600 hover:underline mt-1 inline-block">
+                Rút xu →
+              </Link>
+            </div>
+            <div className="w-12 h-12 bg-gray-100 rounded-lg flex items-center justify-center">
+              <span className="text-gray-600 text-2xl">⏳</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Pending earnings */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden mb-8">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">🔒 Doanh thu đang tạm giữ</h2>
+        </div>
+        {pendingSales.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Đơn bán</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ngày bán</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tạm giữ</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Khả dụng từ</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pendingSales.map((sale) => (
+                  <tr key={sale.purchaseId} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{sale.title || 'Mã nguồn đã bị xóa'}</div>
+                      <div className="text-xs text-gray-500">{sale.purchaseId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(sale.createdAt).toLocaleString('vi-VN')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-yellow-600">
+                      {sale.heldEarnings.toLocaleString('vi-VN')} xu
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {sale.status === 'disputed' ? (
+                        <Link to="/dashboard/disputes" className="text-red-600 hover:underline">
+                          ⚖️ Chờ xử lý khiếu nại
+                        </Link>
+                      ) : (
+                        formatReleaseDate(sale.earningsReleaseAt)
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">
+            Không có doanh thu nào đang tạm giữ
+          </div>
+        )}
+      </div>
+
+      {/* Recently released */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">✅ Mới chuyển vào số dư</h2>
+        </div>
+        {releasedSales.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {releasedSales.map((sale) => (
+              <div key={sale.purchaseId} className="px-6 py-4 flex justify-between items-center">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{sale.title || 'Mã nguồn đã bị xóa'}</div>
+                  <div className="text-xs text-gray-500">
+                    {sale.purchaseId} • {sale.earningsReleasedAt && new Date(sale.earningsReleasedAt).toLocaleString('vi-VN')}
+                  </div>
+                </div>
+                <div className="text-sm font-bold text-green-600">
+                  +{sale.sellerEarnings.toLocaleString('vi-VN')} xu
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">
+            Chưa có khoản doanh thu nào được chuyển
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
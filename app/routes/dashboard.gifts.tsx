@@ -0,0 +1,141 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, Link } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Purchase, type IPurchase, type ISourceCode, type IUser } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+
+type GiftPurchase = Pick<IPurchase, 'purchaseId' | 'amount' | 'status' | 'license' | 'createdAt'> & {
+  sourceCode: Pick<ISourceCode, 'sourceId' | 'title'> | null;
+  buyer: Pick<IUser, 'fullName'> | null;
+  gift: { sender: Pick<IUser, 'fullName'> | null; message?: string };
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const findGifts = (query: Record<string, unknown>) => Purchase.find(query)
+    .select('purchaseId amount status license createdAt sourceCode buyer gift')
+    .populate('sourceCode', 'sourceId title')
+    .populate('buyer', 'fullName')
+    .populate('gift.sender', 'fullName')
+    .sort({ createdAt: -1 })
+    .limit(100)
+    .lean<GiftPurchase[]>();
+
+  const [sent, received] = await Promise.all([
+    findGifts({ 'gift.sender': user._id }),
+    findGifts({ buyer: user._id, 'gift.sender': { $exists: true } })
+  ]);
+
+  const toGift = (purchase: GiftPurchase) => ({
+    purchaseId: purchase.purchaseId,
+    title: purchase.sourceCode?.title || 'Mã nguồn đã bị xóa',
+    sourceId: purchase.sourceCode?.sourceId,
+    licenseName: purchase.license?.name,
+    amount: purchase.amount,
+    status: purchase.status,
+    message: purchase.gift.message,
+    createdAt: purchase.createdAt
+  });
+
+  return json({
+    sent: sent.map((purchase) => ({ ...toGift(purchase), recipientName: purchase.buyer?.fullName || 'Người dùng' })),
+    received: received.map((purchase) => ({ ...toGift(purchase), senderName: purchase.gift.sender?.fullName || 'Người dùng' })),
+    totalSent: sent.filter((purchase) => purchase.status !== 'refunded').reduce((sum, purchase) => sum + purchase.amount, 0)
+  });
+}
+
+export default function Gifts() {
+  const { sent, received, totalSent } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          🎁 Quà tặng
+        </h1>
+        <p className="text-gray-600">
+          Chọn &quot;Mua làm quà tặng&quot; trên trang mã nguồn để mua tặng đồng đội. Người nhận sở hữu bản quyền và tải mã nguồn như khi tự mua; bạn thanh toán và nhận hóa đơn.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden mb-8">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">📥 Quà đã nhận ({received.length})</h2>
+        </div>
+        {received.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {received.map((gift) => (
+              <div key={gift.purchaseId} className="px-6 py-4 flex items-start justify-between text-sm">
+                <div className="min-w-0">
+                  {gift.sourceId ? (
+                    <Link to={`/source/${gift.sourceId}`} className="font-medium text-gray-900 hover:text-teal-600">
+                      {gift.title}
+                    </Link>
+                  ) : (
+                    <span className="font-medium text-gray-900">{gift.title}</span>
+                  )}
+                  <div className="text-gray-500">
+                    Từ {gift.senderName} • {new Date(gift.createdAt).toLocaleDateString('vi-VN')}
+                    {gift.licenseName && ` • ${gift.licenseName}`}
+                  </div>
+                  {gift.message && (
+                    <p className="text-gray-600 italic mt-1 whitespace-pre-line">“{gift.message}”</p>
+                  )}
+                </div>
+                {gift.status === 'refunded' ? (
+                  <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 whitespace-nowrap">Đã hoàn tiền</span>
+                ) : (
+                  <Link to="/dashboard/purchases" className="text-teal-600 hover:text-teal-700 whitespace-nowrap ml-4">
+                    📥 Tải xuống
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-600">Bạn chưa nhận được quà nào</div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">📤 Quà đã tặng ({sent.length})</h2>
+          <span className="text-sm text-gray-600">Tổng {totalSent.toLocaleString('vi-VN')} xu</span>
+        </div>
+        {sent.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {sent.map((gift) => (
+              <div key={gift.purchaseId} className="px-6 py-4 flex items-start justify-between text-sm">
+                <div className="min-w-0">
+                  {gift.sourceId ? (
+                    <Link to={`/source/${gift.sourceId}`} className="font-medium text-gray-900 hover:text-teal-600">
+                      {gift.title}
+                    </Link>
+                  ) : (
+                    <span className="font-medium text-gray-900">{gift.title}</span>
+                  )}
+                  <div className="text-gray-500">
+                    Cho {gift.recipientName} • {new Date(gift.createdAt).toLocaleDateString('vi-VN')}
+                    {gift.licenseName && ` • ${gift.licenseName}`}
+                  </div>
+                  {gift.message && (
+                    <p className="text-gray-600 italic mt-1 whitespace-pre-line">“{gift.message}”</p>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap ml-4">
+                  <div className="font-semibold text-teal-600">{gift.amount.toLocaleString('vi-VN')} xu</div>
+                  {gift.status === 'refunded' && <div className="text-xs text-gray-500">Đã hoàn tiền</div>}
+                  {gift.status === 'disputed' && <div className="text-xs text-yellow-600">Đang khiếu nại</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-600">Bạn chưa tặng quà nào</div>
+        )}
+      </div>
+    </div>
+  );
+}
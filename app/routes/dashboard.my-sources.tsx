@@ -2,8 +2,9 @@ import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-r
 import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
-import { SourceCode, Purchase, User } from "~/lib/db/models";
+import { SourceCode, Purchase, User, type IPurchase, type ISourceCode, type IUser } from "~/lib/db/models";
 import { requireAuth } from "~/lib/auth";
+import { deleteVersions } from "~/lib/archives";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireAuth(request);
@@ -20,7 +21,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
-      .lean(),
+      .select('sourceId title thumbnail price isActive rating views purchases createdAt')
+      .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'thumbnail' | 'price' | 'isActive' | 'rating' | 'views' | 'purchases' | 'createdAt'>[]>(),
     SourceCode.countDocuments({ seller: user._id })
   ]);
 
@@ -31,7 +33,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
         .populate('buyer', 'fullName')
         .sort({ createdAt: -1 })
         .limit(5)
-        .lean();
+        .select('buyer sellerEarnings createdAt')
+        .lean<(Pick<IPurchase, '_id' | 'sellerEarnings' | 'createdAt'> & { buyer: Pick<IUser, 'fullName'> })[]>();
       
       const totalEarnings = purchases.reduce((sum, purchase) => sum + purchase.sellerEarnings, 0);
       
@@ -118,6 +121,7 @@ export async function action({ request }: ActionFunctionArgs) {
         }
 
         await SourceCode.findByIdAndDelete(sourceCode._id);
+        await deleteVersions(sourceCode._id);
 
         return json({ 
           success: true, 
@@ -346,6 +350,27 @@ export default function MySources() {
                         ✏️ Sửa
                       </Link>
                     </div>
+
+                    <div className="flex space-x-2">
+                      <Link
+                        to={`/dashboard/my-sources/${source.sourceId}/versions`}
+                        className="flex-1 bg-teal-600 text-white py-2 px-3 rounded-lg hover:bg-teal-700 transition-colors text-center text-sm"
+                      >
+                        📦 Phiên bản
+                      </Link>
+                      <Link
+                        to={`/dashboard/my-sources/${source.sourceId}/licenses`}
+                        className="flex-1 bg-indigo-600 text-white py-2 px-3 rounded-lg hover:bg-indigo-700 transition-colors text-center text-sm"
+                      >
+                        📜 Bản quyền
+                      </Link>
+                      <Link
+                        to={`/dashboard/my-sources/${source.sourceId}/sales`}
+                        className="flex-1 bg-red-600 text-white py-2 px-3 rounded-lg hover:bg-red-700 transition-colors text-center text-sm"
+                      >
+                        🏷️ Khuyến mãi
+                      </Link>
+                    </div>
                     
                     <div className="flex space-x-2">
                       <Form method="post" className="flex-1">
@@ -0,0 +1,429 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { useState, useEffect } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { SourceCode, Purchase, ISourceCode } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import {
+  parseLicenseTiers,
+  applyLicenseTiers,
+  getSellableTiers,
+  describeAccess,
+  describeUpdates,
+  LicenseError,
+  LICENSE_PRESETS,
+  MAX_LICENSE_TIERS,
+  MIN_TIER_PRICE
+} from "~/lib/licenses";
+import { revokeLicenseKey, LicenseKeyError } from "~/lib/license-keys";
+import { recordPriceChange } from "~/lib/pricing";
+import { checkPriceDrops } from "~/lib/wishlist";
+
+interface TierRow {
+  key: string;
+  _id: string;
+  name: string;
+  description: string;
+  price: string;
+  accessDays: string;
+  updateDays: string;
+  commercialUse: boolean;
+}
+
+const toDaysField = (days?: number | null) => (days === undefined || days === null ? "" : String(days));
+
+const toRows = (tiers: { _id: string; name: string; description: string; price: number; accessDays?: number; updateDays?: number; commercialUse: boolean }[]): TierRow[] =>
+  tiers.map((tier, index) => ({
+    key: tier._id || `legacy-${index}`,
+    _id: tier._id,
+    name: tier.name,
+    description: tier.description,
+    price: String(tier.price),
+    accessDays: toDaysField(tier.accessDays),
+    updateDays: toDaysField(tier.updateDays),
+    commercialUse: tier.commercialUse
+  }));
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId, seller: user._id })
+    .select('sourceId title price licenseTiers')
+    .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'price' | 'licenseTiers'>>();
+
+  if (!sourceCode) {
+    throw new Response("Không tìm thấy mã nguồn", { status: 404 });
+  }
+
+  // How many buyers hold each tier, so sellers know what retiring one means
+  const sales = await Purchase.aggregate<{ _id: string | null; count: number }>([
+    { $match: { sourceCode: sourceCode._id, status: { $ne: 'refunded' } } },
+    { $group: { _id: '$license.tierId', count: { $sum: 1 } } }
+  ]);
+  const salesByTier: Record<string, number> = {};
+  for (const row of sales) {
+    salesByTier[row._id ? row._id.toString() : ''] = row.count;
+  }
+
+  const tiers = getSellableTiers(sourceCode);
+  const retiredTiers = (sourceCode.licenseTiers || []).filter((tier) => !tier.isActive);
+
+  return json({
+    sourceCode: {
+      sourceId: sourceCode.sourceId,
+      title: sourceCode.title,
+      // Listings from before license tiers sell one implicit tier that is saved on first edit
+      hasTiers: tiers.some((tier) => tier._id)
+    },
+    tiers: tiers.map((tier) => ({
+      _id: tier._id?.toString() || '',
+      name: tier.name,
+      description: tier.description,
+      // Sellers edit list prices; sales are scheduled separately
+      price: tier.listPrice,
+      accessDays: tier.accessDays,
+      updateDays: tier.updateDays,
+      commercialUse: tier.commercialUse,
+      sales: salesByTier[tier._id?.toString() || ''] || 0
+    })),
+    retiredTiers: retiredTiers.map((tier) => ({
+      _id: tier._id.toString(),
+      name: tier.name,
+      price: tier.price,
+      sales: salesByTier[tier._id.toString()] || 0
+    })),
+    maxTiers: MAX_LICENSE_TIERS,
+    minPrice: MIN_TIER_PRICE
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId, seller: user._id });
+    if (!sourceCode) {
+      return json({ error: "Không tìm thấy mã nguồn" }, { status: 404 });
+    }
+
+    switch (action) {
+      case "save-tiers": {
+        applyLicenseTiers(sourceCode, parseLicenseTiers(formData));
+        await sourceCode.save();
+        await recordPriceChange(sourceCode);
+
+        // Watchers hear about a cheaper tier right away rather than at the next scheduled check
+        try {
+          await checkPriceDrops(new URL(request.url).origin, [sourceCode._id]);
+        } catch (alertError) {
+          console.error("Price drop alert error:", alertError);
+        }
+
+        return json({ success: true, message: "Đã cập nhật các gói bản quyền" });
+      }
+
+      case "revoke-key": {
+        const purchase = await revokeLicenseKey({
+          key: formData.get("licenseKey") as string || "",
+          sourceCodeId: sourceCode._id,
+          reason: formData.get("reason") as string || ""
+        });
+        return json({ success: true, message: `Đã thu hồi khóa bản quyền của giao dịch ${purchase.purchaseId}` });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof LicenseError || error instanceof LicenseKeyError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("License tier action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function SourceLicenses() {
+  const { sourceCode, tiers, retiredTiers, maxTiers, minPrice } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const [rows, setRows] = useState<TierRow[]>(() => toRows(tiers));
+
+  // Saved tiers come back with ids, so later saves edit them instead of adding copies
+  useEffect(() => {
+    setRows(toRows(tiers));
+  }, [tiers]);
+
+  const salesByRow: Record<string, number> = {};
+  for (const tier of tiers) {
+    salesByRow[tier._id] = tier.sales;
+  }
+
+  const updateRow = (key: string, field: keyof TierRow, value: string | boolean) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, [field]: value } : row)));
+  };
+
+  const addRow = (presetIndex?: number) => {
+    const preset = presetIndex === undefined ? undefined : LICENSE_PRESETS[presetIndex];
+    setRows((prev) => [...prev, {
+      key: `new-${Date.now()}`,
+      _id: "",
+      name: preset?.name || "",
+      description: preset?.description || "",
+      price: "",
+      accessDays: toDaysField(preset?.accessDays),
+      updateDays: toDaysField(preset?.updateDays),
+      commercialUse: preset?.commercialUse || false
+    }]);
+  };
+
+  const removeRow = (key: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== key));
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Link to="/dashboard/my-sources" className="text-sm text-teal-600 hover:underline">
+          ← Mã nguồn của tôi
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">
+          📜 Gói bản quyền: {sourceCode.title}
+        </h1>
+        <p className="text-gray-600">
+          Mỗi gói có giá, thời hạn tải và thời hạn nhận cập nhật riêng. Người mua chọn một gói khi thanh toán.
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      {!sourceCode.hasTiers && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+          Mã nguồn này đang bán với gói mặc định (tải trong 24 giờ). Lưu lại để chuyển sang các gói bản quyền tùy chỉnh.
+        </div>
+      )}
+
+      <Form method="post" className="space-y-4 mb-8">
+        <input type="hidden" name="_action" value="save-tiers" />
+
+        {rows.map((row) => (
+          <div key={row.key} className="bg-white rounded-xl shadow-md p-6">
+            <input type="hidden" name="tierId" value={row._id} />
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">{row.name || "Gói mới"}</h2>
+              <div className="flex items-center space-x-3">
+                {row._id && salesByRow[row._id] > 0 && (
+                  <span className="text-xs text-gray-500">{salesByRow[row._id]} lượt mua</span>
+                )}
+                {rows.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => removeRow(row.key)}
+                    className="text-sm text-red-600 hover:text-red-700"
+                  >
+                    🗑️ Ngừng bán
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor={`${row.key}-name`} className="block text-sm font-medium text-gray-700 mb-1">Tên gói *</label>
+                <input
+                  id={`${row.key}-name`}
+                  name="tierName"
+                  type="text"
+                  required
+                  maxLength={50}
+                  value={row.name}
+                  onChange={(e) => updateRow(row.key, "name", e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder="Cá nhân, Thương mại..."
+                />
+              </div>
+              <div>
+                <label htmlFor={`${row.key}-price`} className="block text-sm font-medium text-gray-700 mb-1">Giá (xu) *</label>
+                <input
+                  id={`${row.key}-price`}
+                  name="tierPrice"
+                  type="number"
+                  required
+                  min={minPrice}
+                  value={row.price}
+                  onChange={(e) => updateRow(row.key, "price", e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder={`Tối thiểu ${minPrice.toLocaleString('vi-VN')} xu`}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${row.key}-access`} className="block text-sm font-medium text-gray-700 mb-1">Thời hạn tải (ngày)</label>
+                <input
+                  id={`${row.key}-access`}
+                  name="tierAccessDays"
+                  type="number"
+                  min={1}
+                  value={row.accessDays}
+                  onChange={(e) => updateRow(row.key, "accessDays", e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder="Để trống: trọn đời"
+                />
+                <p className="mt-1 text-xs text-gray-500">{describeAccess(parseInt(row.accessDays) || undefined)}</p>
+              </div>
+              <div>
+                <label htmlFor={`${row.key}-updates`} className="block text-sm font-medium text-gray-700 mb-1">Nhận cập nhật (ngày)</label>
+                <input
+                  id={`${row.key}-updates`}
+                  name="tierUpdateDays"
+                  type="number"
+                  min={0}
+                  value={row.updateDays}
+                  onChange={(e) => updateRow(row.key, "updateDays", e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder="Để trống: trọn đời"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {describeUpdates(row.updateDays === "" ? undefined : parseInt(row.updateDays))}
+                </p>
+              </div>
+              <div>
+                <label htmlFor={`${row.key}-commercial`} className="block text-sm font-medium text-gray-700 mb-1">Phạm vi sử dụng</label>
+                <select
+                  id={`${row.key}-commercial`}
+                  name="tierCommercialUse"
+                  value={row.commercialUse ? "true" : "false"}
+                  onChange={(e) => updateRow(row.key, "commercialUse", e.target.value === "true")}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  <option value="false">👤 Cá nhân</option>
+                  <option value="true">💼 Thương mại</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor={`${row.key}-description`} className="block text-sm font-medium text-gray-700 mb-1">Mô tả ngắn</label>
+                <input
+                  id={`${row.key}-description`}
+                  name="tierDescription"
+                  type="text"
+                  maxLength={200}
+                  value={row.description}
+                  onChange={(e) => updateRow(row.key, "description", e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {rows.length < maxTiers && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => addRow()}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium"
+            >
+              ➕ Thêm gói
+            </button>
+            {LICENSE_PRESETS.map((preset, index) => (
+              <button
+                key={preset.name}
+                type="button"
+                onClick={() => addRow(index)}
+                className="bg-teal-50 text-teal-700 px-4 py-2 rounded-lg hover:bg-teal-100 transition-colors text-sm font-medium"
+              >
+                ➕ {preset.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-500">
+          Gói bị xóa sẽ ngừng bán, người đã mua vẫn giữ nguyên quyền lợi. Giá hiển thị trên trang mã nguồn là giá của gói rẻ nhất.
+        </p>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-6 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+        >
+          {isSubmitting ? "Đang lưu..." : "💾 Lưu các gói bản quyền"}
+        </button>
+      </Form>
+
+      {/* License keys */}
+      <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">🔑 Khóa bản quyền</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Mỗi giao dịch mua có một khóa bản quyền riêng. Phần mềm của bạn có thể kiểm tra khóa người mua nhập vào:
+        </p>
+        <code className="block bg-gray-900 text-gray-100 rounded-lg px-4 py-3 text-xs mb-4 break-all">
+          GET /licenses/verify?key=SC4U-XXXXX-XXXXX-XXXXX-XXXXX&amp;sourceId={sourceCode.sourceId}
+        </code>
+        <p className="text-sm text-gray-600 mb-4">
+          Kết quả trả về <code>valid</code>, <code>status</code> (active, revoked, expired, not_found), gói bản quyền và mã người mua.
+          Khóa của giao dịch đã hoàn tiền, bị thu hồi hoặc hết thời hạn tải sẽ không còn hợp lệ.
+        </p>
+        <Form method="post" className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input type="hidden" name="_action" value="revoke-key" />
+          <input
+            name="licenseKey"
+            type="text"
+            required
+            aria-label="Khóa bản quyền"
+            className="md:col-span-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            placeholder="SC4U-..."
+          />
+          <input
+            name="reason"
+            type="text"
+            maxLength={200}
+            aria-label="Lý do thu hồi"
+            className="md:col-span-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            placeholder="Lý do (ví dụ: khóa bị chia sẻ công khai)"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            ⛔ Thu hồi khóa
+          </button>
+        </Form>
+      </div>
+
+      {retiredTiers.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">🗄️ Gói đã ngừng bán</h2>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {retiredTiers.map((tier) => (
+              <div key={tier._id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">{tier.name}</span>
+                <span className="text-gray-500">
+                  {tier.price.toLocaleString('vi-VN')} xu • {tier.sales} lượt mua
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
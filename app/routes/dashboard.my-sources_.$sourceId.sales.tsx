@@ -0,0 +1,268 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { useState } from "react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { SourceCode, ISourceCode } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { getSellableTiers } from "~/lib/licenses";
+import {
+  parseSaleInput,
+  scheduleSale,
+  endSale,
+  applySale,
+  PricingError,
+  MIN_SALE_PERCENT,
+  MAX_SALE_PERCENT,
+  MAX_SALE_DAYS
+} from "~/lib/pricing";
+import { checkPriceDrops } from "~/lib/wishlist";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId, seller: user._id })
+    .select('sourceId title price licenseTiers sales')
+    .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'price' | 'licenseTiers' | 'sales'>>();
+
+  if (!sourceCode) {
+    throw new Response("Không tìm thấy mã nguồn", { status: 404 });
+  }
+
+  const now = new Date();
+  const saleStatus = (sale: ISourceCode['sales'][number]) => {
+    if (sale.startsAt > now) return 'upcoming' as const;
+    if (sale.endsAt > now) return 'running' as const;
+    return 'ended' as const;
+  };
+
+  return json({
+    sourceCode: {
+      sourceId: sourceCode.sourceId,
+      title: sourceCode.title
+    },
+    // List prices, so sellers can preview what each tier costs during a sale
+    tiers: getSellableTiers({ price: sourceCode.price, licenseTiers: sourceCode.licenseTiers }).map((tier) => ({
+      name: tier.name,
+      listPrice: tier.listPrice
+    })),
+    sales: (sourceCode.sales || [])
+      .map((sale) => ({
+        _id: sale._id.toString(),
+        percentOff: sale.percentOff,
+        startsAt: sale.startsAt,
+        endsAt: sale.endsAt,
+        status: saleStatus(sale)
+      }))
+      .reverse(),
+    minPercent: MIN_SALE_PERCENT,
+    maxPercent: MAX_SALE_PERCENT,
+    maxDays: MAX_SALE_DAYS
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId, seller: user._id });
+    if (!sourceCode) {
+      return json({ error: "Không tìm thấy mã nguồn" }, { status: 404 });
+    }
+
+    switch (action) {
+      case "schedule-sale": {
+        const input = parseSaleInput(formData);
+        scheduleSale(sourceCode, input);
+        await sourceCode.save();
+
+        // A sale starting now alerts watchers right away; later ones are picked up by the price-alerts job
+        if (input.startsAt <= new Date()) {
+          try {
+            await checkPriceDrops(new URL(request.url).origin, [sourceCode._id]);
+          } catch (alertError) {
+            console.error("Price drop alert error:", alertError);
+          }
+        }
+
+        return json({ success: true, message: `Đã lên lịch giảm ${input.percentOff}%` });
+      }
+
+      case "end-sale": {
+        endSale(sourceCode, formData.get("saleId") as string);
+        await sourceCode.save();
+        return json({ success: true, message: "Đã dừng đợt khuyến mãi" });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Sale action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+const STATUS_LABELS = {
+  upcoming: { label: '⏳ Sắp diễn ra', className: 'bg-blue-100 text-blue-800' },
+  running: { label: '🔥 Đang diễn ra', className: 'bg-red-100 text-red-800' },
+  ended: { label: '✔️ Đã kết thúc', className: 'bg-gray-100 text-gray-600' }
+};
+
+export default function SourceSales() {
+  const { sourceCode, tiers, sales, minPercent, maxPercent, maxDays } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const [percentOff, setPercentOff] = useState("20");
+
+  const previewPercent = Number(percentOff);
+  const validPreview = Number.isInteger(previewPercent) && previewPercent >= minPercent && previewPercent <= maxPercent;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Link to="/dashboard/my-sources" className="text-sm text-teal-600 hover:underline">
+          ← Mã nguồn của tôi
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">
+          🏷️ Khuyến mãi: {sourceCode.title}
+        </h1>
+        <p className="text-gray-600">
+          Giảm giá theo phần trăm cho mọi gói bản quyền trong một khoảng thời gian. Người mua thấy giá gốc và giá khuyến mãi trên trang mã nguồn.
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      {/* Schedule a sale */}
+      <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">➕ Lên lịch khuyến mãi</h2>
+        <Form method="post" className="space-y-4">
+          <input type="hidden" name="_action" value="schedule-sale" />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="percentOff" className="block text-sm font-medium text-gray-700 mb-1">Mức giảm (%) *</label>
+              <input
+                id="percentOff"
+                name="percentOff"
+                type="number"
+                required
+                min={minPercent}
+                max={maxPercent}
+                value={percentOff}
+                onChange={(e) => setPercentOff(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-1">Bắt đầu</label>
+              <input
+                id="startsAt"
+                name="startsAt"
+                type="datetime-local"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Để trống để bắt đầu ngay</p>
+            </div>
+            <div>
+              <label htmlFor="endsAt" className="block text-sm font-medium text-gray-700 mb-1">Kết thúc *</label>
+              <input
+                id="endsAt"
+                name="endsAt"
+                type="datetime-local"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Tối đa {maxDays} ngày</p>
+            </div>
+          </div>
+
+          {validPreview && (
+            <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+              {tiers.map((tier) => (
+                <div key={tier.name} className="flex justify-between">
+                  <span className="text-gray-700">{tier.name}</span>
+                  <span>
+                    <span className="text-gray-400 line-through mr-2">{tier.listPrice.toLocaleString('vi-VN')} xu</span>
+                    <span className="font-semibold text-teal-600">
+                      {applySale(tier.listPrice, { percentOff: previewPercent }).toLocaleString('vi-VN')} xu
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+          >
+            {isSubmitting ? "Đang lưu..." : "🏷️ Lên lịch khuyến mãi"}
+          </button>
+        </Form>
+      </div>
+
+      {/* Sales */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">📅 Các đợt khuyến mãi</h2>
+        </div>
+        {sales.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {sales.map((sale) => (
+              <div key={sale._id} className="px-6 py-4 flex items-center justify-between text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">Giảm {sale.percentOff}%</div>
+                  <div className="text-gray-500">
+                    {new Date(sale.startsAt).toLocaleString('vi-VN')} → {new Date(sale.endsAt).toLocaleString('vi-VN')}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[sale.status].className}`}>
+                    {STATUS_LABELS[sale.status].label}
+                  </span>
+                  {sale.status !== 'ended' && (
+                    <Form method="post">
+                      <input type="hidden" name="_action" value="end-sale" />
+                      <input type="hidden" name="saleId" value={sale._id} />
+                      <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        {sale.status === 'running' ? '⏹️ Dừng' : '🗑️ Hủy'}
+                      </button>
+                    </Form>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-600">
+            Chưa có đợt khuyến mãi nào
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { SourceCode, SourceCodeVersion, ISourceCode, ISourceCodeVersion } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import {
+  publishVersion,
+  formatFileSize,
+  ArchiveError,
+  ARCHIVE_ACCEPT,
+  VERSION_SUMMARY_FIELDS,
+  getArchiveSizeLimit,
+  type VersionSummary
+} from "~/lib/archives";
+import { FINDING_LABELS } from "~/lib/inspection";
+import { setPreviewFiles, isPreviewable, PreviewError, MAX_PREVIEW_FILES } from "~/lib/previews";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId, seller: user._id })
+    .select('sourceId title currentVersion sourceLink previewFiles')
+    .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'currentVersion' | 'sourceLink' | 'previewFiles'>>();
+
+  if (!sourceCode) {
+    throw new Response("Không tìm thấy mã nguồn", { status: 404 });
+  }
+
+  // Sellers see the inspection report of each upload so they can fix what was flagged
+  const versions = await SourceCodeVersion.find({ sourceCode: sourceCode._id })
+    .select(`${VERSION_SUMMARY_FIELDS} inspection`)
+    .sort({ versionNumber: -1 })
+    .lean<(VersionSummary & Pick<ISourceCodeVersion, 'inspection'>)[]>();
+
+  // Files of the current version the seller may offer as a preview
+  const currentVersion = sourceCode.currentVersion
+    ? await SourceCodeVersion.findById(sourceCode.currentVersion)
+      .select('files inspection.findings previews.path')
+      .lean<Pick<ISourceCodeVersion, 'files' | 'inspection' | 'previews'>>()
+    : null;
+  const previewCandidates = currentVersion
+    ? currentVersion.files.filter((file) => isPreviewable(file, currentVersion.inspection.findings)).slice(0, 500)
+    : [];
+
+  return json({
+    sourceCode: {
+      sourceId: sourceCode.sourceId,
+      title: sourceCode.title,
+      currentVersion: sourceCode.currentVersion?.toString(),
+      hasExternalLink: !!sourceCode.sourceLink,
+      previewFiles: sourceCode.previewFiles || []
+    },
+    versions,
+    previewCandidates,
+    previewedPaths: currentVersion?.previews.map((preview) => preview.path) || [],
+    maxPreviewFiles: MAX_PREVIEW_FILES,
+    archiveAccept: ARCHIVE_ACCEPT,
+    archiveSizeLimitMb: Math.round(getArchiveSizeLimit() / 1024 / 1024)
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId, seller: user._id });
+    if (!sourceCode) {
+      return json({ error: "Không tìm thấy mã nguồn" }, { status: 404 });
+    }
+
+    switch (action) {
+      case "publish": {
+        const version = await publishVersion({
+          sourceCode,
+          file: formData.get("archive") as File,
+          version: formData.get("version") as string,
+          changelog: formData.get("changelog") as string,
+          user
+        });
+        return json({ success: true, message: `Đã phát hành phiên bản ${version.version}` });
+      }
+
+      case "set-previews": {
+        await setPreviewFiles(sourceCode, formData.getAll("previewFiles") as string[]);
+        return json({ success: true, message: "Đã cập nhật tệp xem trước" });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof ArchiveError || error instanceof PreviewError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Source version action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function SourceVersions() {
+  const {
+    sourceCode,
+    versions,
+    previewCandidates,
+    previewedPaths,
+    maxPreviewFiles,
+    archiveAccept,
+    archiveSizeLimitMb
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Link to="/dashboard/my-sources" className="text-sm text-teal-600 hover:underline">
+          ← Mã nguồn của tôi
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">
+          📦 Phiên bản: {sourceCode.title}
+        </h1>
+        <p className="text-gray-600">
+          Người mua được tải phiên bản họ đã mua và các phiên bản mới hơn trong thời hạn cập nhật của gói bản quyền
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      {sourceCode.hasExternalLink && versions.length === 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+          Mã nguồn này đang dùng link bên ngoài. Sau khi phát hành phiên bản đầu tiên, người mua sẽ tải tệp được lưu trên hệ thống thay cho link.
+        </div>
+      )}
+
+      {/* Publish form */}
+      <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">🚀 Phát hành phiên bản mới</h2>
+        <Form method="post" encType="multipart/form-data" className="space-y-4">
+          <input type="hidden" name="_action" value="publish" />
+
+          <div>
+            <label htmlFor="archive" className="block text-sm font-medium text-gray-700 mb-2">
+              Tệp nén mã nguồn *
+            </label>
+            <input
+              id="archive"
+              name="archive"
+              type="file"
+              accept={archiveAccept}
+              required
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-sm text-gray-500">ZIP, TAR, TAR.GZ tối đa {archiveSizeLimitMb}MB</p>
+          </div>
+
+          <div>
+            <label htmlFor="version" className="block text-sm font-medium text-gray-700 mb-2">
+              Phiên bản *
+            </label>
+            <input
+              id="version"
+              name="version"
+              type="text"
+              required
+              maxLength={50}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              placeholder={versions[0] ? `Mới hơn ${versions[0].version}` : "1.0.0"}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="changelog" className="block text-sm font-medium text-gray-700 mb-2">
+              Thay đổi trong phiên bản này
+            </label>
+            <textarea
+              id="changelog"
+              name="changelog"
+              rows={4}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              placeholder="Sửa lỗi đăng nhập, thêm tính năng xuất báo cáo..."
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-6 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+          >
+            {isSubmitting ? "Đang tải lên..." : "📤 Phát hành"}
+          </button>
+        </Form>
+      </div>
+
+      {/* Preview files */}
+      {versions.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">👀 Tệp xem trước</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Chọn tối đa {maxPreviewFiles} tệp (ví dụ README, một module mẫu) để người mua xem trước.
+            Chỉ phần đầu của mỗi tệp được hiển thị. Nếu không chọn, README sẽ được dùng.
+            {previewedPaths.length > 0 && ` Đang hiển thị: ${previewedPaths.join(', ')}.`}
+          </p>
+          {previewCandidates.length > 0 ? (
+            <Form method="post" className="space-y-4">
+              <input type="hidden" name="_action" value="set-previews" />
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {previewCandidates.map((file) => (
+                  <label key={file.path} className="flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+                    <span className="flex items-center space-x-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        name="previewFiles"
+                        value={file.path}
+                        defaultChecked={sourceCode.previewFiles.includes(file.path)}
+                        className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-gray-300 rounded"
+                      />
+                      <code className="truncate">{file.path}</code>
+                    </span>
+                    <span className="text-xs text-gray-500 ml-2">{formatFileSize(file.size)}</span>
+                  </label>
+                ))}
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                💾 Lưu tệp xem trước
+              </button>
+            </Form>
+          ) : (
+            <p className="text-sm text-gray-500">Phiên bản hiện tại không có tệp văn bản nào có thể xem trước</p>
+          )}
+        </div>
+      )}
+
+      {/* Version history */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">🕘 Lịch sử phiên bản</h2>
+        </div>
+        {versions.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {versions.map((version) => (
+              <div key={version._id} className="px-6 py-4">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-semibold text-gray-900">v{version.version}</span>
+                    {version._id === sourceCode.currentVersion && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Hiện tại</span>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-500">{new Date(version.createdAt).toLocaleString('vi-VN')}</span>
+                </div>
+                <div className="text-xs text-gray-500 mb-2">
+                  {version.fileName} • {formatFileSize(version.fileSize)}
+                </div>
+                {version.changelog && (
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{version.changelog}</p>
+                )}
+                <div className="mt-3 text-xs text-gray-600">
+                  🔍 {version.inspection.fileCount} tệp • {version.inspection.linesOfCode.toLocaleString('vi-VN')} dòng code
+                  {version.inspection.languages.length > 0 && ` • ${version.inspection.languages.map((language) => language.name).join(', ')}`}
+                  {version.inspection.frameworks.length > 0 && ` • ${version.inspection.frameworks.join(', ')}`}
+                </div>
+                {version.inspection.findings.length > 0 && (
+                  <div className="mt-2 bg-orange-50 border border-orange-200 rounded-lg p-3">
+                    <p className="text-sm font-medium text-orange-800 mb-1">
+                      ⚠️ Kiểm tra tự động phát hiện {version.inspection.findings.length} tệp cần xem lại
+                    </p>
+                    <ul className="text-xs text-orange-700 space-y-1">
+                      {version.inspection.findings.map((finding) => (
+                        <li key={`${finding.kind}:${finding.path}`}>
+                          {FINDING_LABELS[finding.kind]}: <code className="break-all">{finding.path}</code> — {finding.detail}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-orange-700 mt-2">
+                      Hãy xóa các tệp này khỏi gói mã nguồn và phát hành phiên bản mới.
+                    </p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">
+            Chưa có phiên bản nào được phát hành
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Organization, type IOrganization } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import {
+  parseOrganizationName,
+  createOrganization,
+  getMemberRole,
+  OrganizationError,
+  ORGANIZATION_ROLES
+} from "~/lib/organizations";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const organizations = await Organization.find({ 'members.user': user._id })
+    .select('orgId name balance members')
+    .sort({ name: 1 })
+    .lean<Pick<IOrganization, 'orgId' | 'name' | 'balance' | 'members'>[]>();
+
+  return json({
+    organizations: organizations.map((organization) => ({
+      orgId: organization.orgId,
+      name: organization.name,
+      balance: organization.balance,
+      memberCount: organization.members.length,
+      roleName: ORGANIZATION_ROLES[getMemberRole(organization, user._id)!]
+    }))
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+
+  try {
+    await connectToDatabase();
+
+    const organization = await createOrganization(user, parseOrganizationName(formData));
+    return redirect(`/dashboard/organizations/${organization.orgId}`);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Organization action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function Organizations() {
+  const { organizations } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          🏢 Tổ chức
+        </h1>
+        <p className="text-gray-600">
+          Mua mã nguồn cho cả nhóm bằng một ví chung. Mọi thành viên tải được những gì tổ chức đã mua; chủ sở hữu và người mua hàng được nạp xu và thanh toán bằng ví của tổ chức.
+        </p>
+      </div>
+
+      {actionData?.error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="bg-white rounded-xl shadow-md p-6 h-fit">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">➕ Tạo tổ chức</h2>
+          <Form method="post" className="space-y-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Tên tổ chức *</label>
+              <input
+                id="name"
+                name="name"
+                type="text"
+                required
+                maxLength={100}
+                placeholder="VD: Công ty ABC"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? "Đang xử lý..." : "🏢 Tạo tổ chức"}
+            </button>
+          </Form>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-md overflow-hidden h-fit">
+          {organizations.length === 0 ? (
+            <div className="text-center py-16 text-gray-600">
+              <div className="text-5xl mb-4">🏢</div>
+              Bạn chưa thuộc tổ chức nào
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {organizations.map((organization) => (
+                <Link
+                  key={organization.orgId}
+                  to={`/dashboard/organizations/${organization.orgId}`}
+                  className="p-4 flex items-center justify-between hover:bg-gray-50"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">{organization.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {organization.roleName} • {organization.memberCount} thành viên
+                    </div>
+                  </div>
+                  <span className="font-semibold text-teal-600 whitespace-nowrap">
+                    {organization.balance.toLocaleString('vi-VN')} xu
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Purchase, Payment, User, type IPurchase, type IPayment, type ISourceCode, type IUser } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import {
+  requireMembership,
+  parseOrganizationName,
+  addMember,
+  changeMemberRole,
+  removeMember,
+  canSpend,
+  OrganizationError,
+  ORGANIZATION_ROLES
+} from "~/lib/organizations";
+
+type OrganizationPurchase = Pick<IPurchase, 'purchaseId' | 'amount' | 'status' | 'license' | 'accessExpiresAt' | 'createdAt'> & {
+  sourceCode: Pick<ISourceCode, 'sourceId' | 'title'> | null;
+  buyer: Pick<IUser, 'fullName'> | null;
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const membership = await requireMembership(params.orgId!, user).catch((error) => {
+    if (error instanceof OrganizationError) {
+      throw new Response(error.message, { status: error.status });
+    }
+    throw error;
+  });
+  const { organization, role } = membership;
+
+  const [memberUsers, purchases, deposits] = await Promise.all([
+    User.find({ _id: { $in: organization.members.map((member) => member.user) } })
+      .select('fullName email userId')
+      .lean<Pick<IUser, '_id' | 'fullName' | 'email' | 'userId'>[]>(),
+    Purchase.find({ organization: organization._id })
+      .select('purchaseId amount status license accessExpiresAt createdAt sourceCode buyer')
+      .populate('sourceCode', 'sourceId title')
+      .populate('buyer', 'fullName')
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .lean<OrganizationPurchase[]>(),
+    Payment.find({ organization: organization._id, type: 'deposit' })
+      .select('paymentId amount status createdAt user')
+      .populate('user', 'fullName')
+      .sort({ createdAt: -1 })
+      .limit(10)
+      .lean<(Pick<IPayment, 'paymentId' | 'amount' | 'status' | 'createdAt'> & { user: Pick<IUser, 'fullName'> | null })[]>()
+  ]);
+
+  const usersById = new Map(memberUsers.map((memberUser) => [memberUser._id.toString(), memberUser]));
+  const now = new Date();
+  return json({
+    organization: {
+      orgId: organization.orgId,
+      name: organization.name,
+      balance: organization.balance
+    },
+    role,
+    canSpend: canSpend(role),
+    currentUserId: user._id.toString(),
+    members: organization.members.flatMap((member) => {
+      const memberUser = usersById.get(member.user.toString());
+      return memberUser ? [{
+        _id: memberUser._id.toString(),
+        fullName: memberUser.fullName,
+        // Only owners see contact details of other members
+        email: role === 'owner' ? memberUser.email : null,
+        userId: memberUser.userId,
+        role: member.role,
+        addedAt: member.addedAt
+      }] : [];
+    }),
+    purchases: purchases.map((purchase) => ({
+      purchaseId: purchase.purchaseId,
+      title: purchase.sourceCode?.title || 'Mã nguồn đã bị xóa',
+      sourceId: purchase.sourceCode?.sourceId,
+      licenseName: purchase.license?.name,
+      amount: purchase.amount,
+      buyerName: purchase.buyer?.fullName || 'Người dùng',
+      canDownload: purchase.status !== 'refunded' && !!purchase.sourceCode
+        && (!purchase.accessExpiresAt || purchase.accessExpiresAt > now),
+      status: purchase.status,
+      createdAt: purchase.createdAt
+    })),
+    deposits: deposits.map((deposit) => ({
+      paymentId: deposit.paymentId,
+      amount: deposit.amount,
+      status: deposit.status,
+      userName: deposit.user?.fullName || 'Người dùng',
+      createdAt: deposit.createdAt
+    })),
+    roles: ORGANIZATION_ROLES
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "rename": {
+        const { organization } = await requireMembership(params.orgId!, user, ['owner']);
+        organization.name = parseOrganizationName(formData);
+        await organization.save();
+        return json({ success: true, message: "Đã đổi tên tổ chức" });
+      }
+
+      case "add-member": {
+        const { organization } = await requireMembership(params.orgId!, user, ['owner']);
+        const member = await addMember(organization, (formData.get("identifier") as string) || '', formData.get("role"), user);
+        return json({ success: true, message: `Đã thêm ${member.fullName} vào tổ chức` });
+      }
+
+      case "change-role": {
+        const { organization } = await requireMembership(params.orgId!, user, ['owner']);
+        await changeMemberRole(organization, formData.get("memberId") as string, formData.get("role"));
+        return json({ success: true, message: "Đã cập nhật vai trò" });
+      }
+
+      case "remove-member": {
+        const { organization } = await requireMembership(params.orgId!, user, ['owner']);
+        await removeMember(organization, formData.get("memberId") as string);
+        return json({ success: true, message: "Đã xóa thành viên khỏi tổ chức" });
+      }
+
+      case "leave": {
+        const { organization } = await requireMembership(params.orgId!, user);
+        await removeMember(organization, user._id.toString());
+        return redirect("/dashboard/organizations");
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Organization action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function OrganizationDetail() {
+  const { organization, role, canSpend, currentUserId, members, purchases, deposits, roles } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const isOwner = role === 'owner';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <Link to="/dashboard/organizations" className="text-sm text-teal-600 hover:underline">
+            ← Tổ chức
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-1">
+            🏢 {organization.name}
+          </h1>
+          <p className="text-gray-600">
+            ID: {organization.orgId} • Vai trò của bạn: {roles[role]}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-sm text-gray-600">Số dư ví chung</div>
+          <div className="text-2xl font-bold text-teal-600">{organization.balance.toLocaleString('vi-VN')} xu</div>
+          {canSpend && (
+            <Link to={`/dashboard/deposit?org=${organization.orgId}`} className="text-sm text-teal-600 hover:underline">
+              💰 Nạp xu vào ví tổ chức
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Shared library */}
+        <div className="lg:col-span-2 space-y-8">
+          <div className="bg-white rounded-xl shadow-md overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">📚 Mã nguồn của tổ chức ({purchases.length})</h2>
+            </div>
+            {purchases.length > 0 ? (
+              <div className="divide-y divide-gray-200">
+                {purchases.map((purchase) => (
+                  <div key={purchase.purchaseId} className="px-6 py-4 flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      {purchase.sourceId ? (
+                        <Link to={`/source/${purchase.sourceId}`} className="font-medium text-gray-900 hover:text-teal-600">
+                          {purchase.title}
+                        </Link>
+                      ) : (
+                        <span className="font-medium text-gray-900">{purchase.title}</span>
+                      )}
+                      <div className="text-gray-500">
+                        {purchase.buyerName} mua {new Date(purchase.createdAt).toLocaleDateString('vi-VN')}
+                        {' • '}{purchase.amount.toLocaleString('vi-VN')} xu
+                        {purchase.licenseName && ` • ${purchase.licenseName}`}
+                      </div>
+                    </div>
+                    {purchase.canDownload ? (
+                      <a href={`/downloads/${purchase.purchaseId}`} className="text-teal-600 hover:text-teal-700 whitespace-nowrap ml-4">
+                        📥 Tải xuống
+                      </a>
+                    ) : (
+                      <span className="text-gray-400 whitespace-nowrap ml-4">
+                        {purchase.status === 'refunded' ? 'Đã hoàn tiền' : 'Hết hạn'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-600">
+                Tổ chức chưa mua mã nguồn nào. Chọn ví của tổ chức khi thanh toán trên trang mã nguồn.
+              </div>
+            )}
+          </div>
+
+          {deposits.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">💰 Nạp xu gần đây</h2>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {deposits.map((deposit) => (
+                  <div key={deposit.paymentId} className="px-6 py-3 flex items-center justify-between text-sm">
+                    <div>
+                      <div className="font-medium text-gray-900">{deposit.paymentId}</div>
+                      <div className="text-gray-500">
+                        {deposit.userName} • {new Date(deposit.createdAt).toLocaleDateString('vi-VN')}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-semibold text-gray-900">{deposit.amount.toLocaleString('vi-VN')} xu</div>
+                      <div className="text-xs text-gray-500">
+                        {deposit.status === 'approved' ? 'Đã duyệt' : deposit.status === 'rejected' ? 'Bị từ chối' : 'Đang chờ'}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Members */}
+        <div className="space-y-8">
+          <div className="bg-white rounded-xl shadow-md overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">👥 Thành viên ({members.length})</h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {members.map((member) => (
+                <div key={member._id} className="px-6 py-3 text-sm">
+                  <div className="font-medium text-gray-900">
+                    {member.fullName}
+                    {member._id === currentUserId && <span className="text-gray-500 font-normal"> (bạn)</span>}
+                  </div>
+                  <div className="text-gray-500">{member.email || `ID: ${member.userId}`}</div>
+                  {isOwner && member._id !== currentUserId ? (
+                    <div className="flex items-center space-x-2 mt-2">
+                      <Form method="post" className="flex-1">
+                        <input type="hidden" name="_action" value="change-role" />
+                        <input type="hidden" name="memberId" value={member._id} />
+                        <select
+                          name="role"
+                          defaultValue={member.role}
+                          onChange={(event) => event.currentTarget.form?.requestSubmit()}
+                          disabled={isSubmitting}
+                          aria-label="Vai trò"
+                          className="w-full px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                        >
+                          {Object.entries(roles).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </Form>
+                      <Form method="post">
+                        <input type="hidden" name="_action" value="remove-member" />
+                        <input type="hidden" name="memberId" value={member._id} />
+                        <button type="submit" disabled={isSubmitting} className="text-red-600 hover:text-red-700 text-xs disabled:opacity-50">
+                          Xóa
+                        </button>
+                      </Form>
+                    </div>
+                  ) : (
+                    <div className="text-xs text-teal-700 mt-1">{roles[member.role]}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isOwner && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">➕ Thêm thành viên</h2>
+              <Form method="post" className="space-y-3">
+                <input type="hidden" name="_action" value="add-member" />
+                <input
+                  type="text"
+                  name="identifier"
+                  required
+                  aria-label="Email hoặc ID thành viên"
+                  placeholder="Email hoặc ID người dùng"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <select
+                  name="role"
+                  defaultValue="purchaser"
+                  aria-label="Vai trò"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  {Object.entries(roles).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-2 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+                >
+                  Thêm thành viên
+                </button>
+              </Form>
+              <p className="text-xs text-gray-500 mt-3">
+                Chủ sở hữu quản lý thành viên; người mua hàng được nạp xu và mua bằng ví chung; người xem chỉ tải mã nguồn tổ chức đã mua.
+              </p>
+            </div>
+          )}
+
+          {isOwner && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">✏️ Đổi tên</h2>
+              <Form method="post" className="flex space-x-2">
+                <input type="hidden" name="_action" value="rename" />
+                <input
+                  type="text"
+                  name="name"
+                  required
+                  maxLength={100}
+                  defaultValue={organization.name}
+                  aria-label="Tên tổ chức"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <button type="submit" disabled={isSubmitting} className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 font-medium disabled:opacity-50">
+                  Lưu
+                </button>
+              </Form>
+            </div>
+          )}
+
+          <Form method="post">
+            <input type="hidden" name="_action" value="leave" />
+            <button type="submit" disabled={isSubmitting} className="w-full text-sm text-red-600 hover:text-red-700 py-2 disabled:opacity-50">
+              🚪 Rời tổ chức
+            </button>
+          </Form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
-import { json, type LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData, Link } from "@remix-run/react";
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
 import { Purchase, SourceCode, User } from "~/lib/db/models";
 import { requireAuth } from "~/lib/auth";
+import { openDispute, DisputeError, DISPUTE_REASONS, DISPUTE_WINDOW_DAYS } from "~/lib/disputes";
+import { getDownloadLimit, findDownloadableVersions } from "~/lib/downloads";
+import { formatFileSize, type VersionSummary } from "~/lib/archives";
+import { issueLicenseKey } from "~/lib/license-keys";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireAuth(request);
@@ -23,11 +27,15 @@ export async function loader({ request }: LoaderFunctionArgs) {
     Purchase.find(query)
       .populate({
         path: 'sourceCode',
+        // Archives are only reachable through the signed download route
+        select: '-sourceLink',
         populate: {
           path: 'seller',
           select: 'fullName avatar email userId'
         }
       })
+      .populate('order', 'orderId')
+      .populate('gift.sender', 'fullName')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
@@ -35,12 +43,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
     Purchase.countDocuments(query)
   ]);
 
-  // Filter by access status if needed
+  // Filter by access status if needed; purchases without an expiry have lifetime access
+  const isActive = (expiresAt?: Date) => !expiresAt || new Date() < new Date(expiresAt);
   let filteredPurchases = purchases;
   if (filter === "active") {
-    filteredPurchases = purchases.filter(p => new Date() < new Date(p.accessExpiresAt));
+    filteredPurchases = purchases.filter(p => isActive(p.accessExpiresAt));
   } else if (filter === "expired") {
-    filteredPurchases = purchases.filter(p => new Date() >= new Date(p.accessExpiresAt));
+    filteredPurchases = purchases.filter(p => !isActive(p.accessExpiresAt));
   }
 
   const totalPages = Math.ceil(totalCount / limit);
@@ -48,13 +57,33 @@ export async function loader({ request }: LoaderFunctionArgs) {
   // Calculate stats
   const stats = {
     totalPurchases: totalCount,
-    totalSpent: purchases.reduce((sum, purchase) => sum + purchase.amount, 0),
-    activePurchases: purchases.filter(p => new Date() < new Date(p.accessExpiresAt)).length,
-    expiredPurchases: purchases.filter(p => new Date() >= new Date(p.accessExpiresAt)).length
+    // Gifts were paid for by the sender, organization purchases by the organization's wallet
+    totalSpent: purchases.filter(p => !p.gift?.sender && !p.organization).reduce((sum, purchase) => sum + purchase.amount, 0),
+    activePurchases: purchases.filter(p => isActive(p.accessExpiresAt)).length,
+    expiredPurchases: purchases.filter(p => !isActive(p.accessExpiresAt)).length
   };
 
+  for (const purchase of filteredPurchases) {
+    if (!purchase.licenseKey && purchase.status !== 'refunded' && purchase.sourceCode) {
+      purchase.licenseKey = await issueLicenseKey({
+        purchaseId: purchase.purchaseId,
+        buyer: purchase.buyer,
+        sourceCode: purchase.sourceCode._id
+      });
+    }
+  }
+
+  // Versions the buyer may download: the one bought and newer releases covered by the license
+  const downloadableVersions: Record<string, VersionSummary[]> = {};
+  for (const purchase of filteredPurchases) {
+    downloadableVersions[purchase.purchaseId] = purchase.sourceCode
+      ? await findDownloadableVersions({ sourceCode: purchase.sourceCode._id, version: purchase.version, updatesUntil: purchase.updatesUntil })
+      : [];
+  }
+
   return json({
     purchases: filteredPurchases,
+    downloadableVersions,
     stats,
     pagination: {
       currentPage: page,
@@ -63,14 +92,67 @@ export async function loader({ request }: LoaderFunctionArgs) {
       hasNext: page < totalPages,
       hasPrev: page > 1
     },
-    currentFilter: filter
+    currentFilter: filter,
+    disputeReasons: DISPUTE_REASONS,
+    disputeWindowDays: DISPUTE_WINDOW_DAYS,
+    downloadLimit: getDownloadLimit(),
+    downloadError: url.searchParams.get("downloadError")
   });
 }
 
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "open-dispute": {
+        const dispute = await openDispute({
+          purchaseId: formData.get("purchaseId") as string,
+          buyer: user,
+          reason: formData.get("reason") as string,
+          description: formData.get("description") as string
+        });
+
+        return json({
+          success: true,
+          message: `Đã gửi khiếu nại ${dispute.disputeId}, người bán sẽ phản hồi sớm`
+        });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Purchase action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
 export default function MyPurchases() {
-  const { purchases, stats, pagination, currentFilter } = useLoaderData<typeof loader>();
+  const {
+    purchases,
+    stats,
+    pagination,
+    currentFilter,
+    disputeReasons,
+    disputeWindowDays,
+    downloadLimit,
+    downloadError,
+    downloadableVersions
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
   const [selectedPurchase, setSelectedPurchase] = useState<any>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [disputePurchase, setDisputePurchase] = useState<{ purchaseId: string; amount: number; title: string } | null>(null);
+  const isSubmitting = navigation.state === "submitting";
 
   const formatTimeAgo = (date: string) => {
     const now = new Date();
@@ -85,25 +167,35 @@ export default function MyPurchases() {
     return past.toLocaleDateString('vi-VN');
   };
 
-  const formatTimeRemaining = (expiresAt: string) => {
+  const formatTimeRemaining = (expiresAt?: string) => {
+    if (!expiresAt) return "Trọn đời";
+
     const now = new Date();
     const expires = new Date(expiresAt);
     const diffMs = expires.getTime() - now.getTime();
     
     if (diffMs <= 0) return "Đã hết hạn";
     
+    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
     const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
     const diffMinutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
     
-    if (diffHours > 0) {
+    if (diffDays > 1) {
+      return `Còn ${diffDays} ngày`;
+    } else if (diffHours > 0) {
       return `Còn ${diffHours}h ${diffMinutes}m`;
     } else {
       return `Còn ${diffMinutes}m`;
     }
   };
 
-  const canAccess = (expiresAt: string) => {
-    return new Date() < new Date(expiresAt);
+  const canAccess = (expiresAt?: string) => {
+    return !expiresAt || new Date() < new Date(expiresAt);
+  };
+
+  const canDispute = (status: string, purchasedAt: string) => {
+    const ageMs = new Date().getTime() - new Date(purchasedAt).getTime();
+    return status === 'completed' && ageMs <= disputeWindowDays * 24 * 60 * 60 * 1000;
   };
 
   const showDetail = (purchase: any) => {
@@ -128,6 +220,24 @@ export default function MyPurchases() {
         </p>
       </div>
 
+      {actionData?.success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message} • <Link to="/dashboard/disputes" className="underline">Xem khiếu nại</Link>
+        </div>
+      )}
+
+      {actionData?.error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+
+      {downloadError && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          📥 {downloadError}
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
@@ -216,13 +326,19 @@ export default function MyPurchases() {
                   <div className="absolute top-3 right-3 bg-gradient-to-r from-teal-500 to-blue-600 text-white px-3 py-1 rounded-full text-sm font-medium">
                     {purchase.amount.toLocaleString('vi-VN')} xu
                   </div>
-                  <div className={`absolute top-3 left-3 px-3 py-1 rounded-full text-sm font-medium ${
-                    canAccess(purchase.accessExpiresAt)
-                      ? 'bg-green-500 text-white'
-                      : 'bg-red-500 text-white'
-                  }`}>
-                    {canAccess(purchase.accessExpiresAt) ? '🔓 Có thể truy cập' : '🔒 Đã hết hạn'}
-                  </div>
+                  {purchase.status === 'refunded' ? (
+                    <div className="absolute top-3 left-3 px-3 py-1 rounded-full text-sm font-medium bg-gray-600 text-white">
+                      ↩️ Đã hoàn {purchase.refundedAmount.toLocaleString('vi-VN')} xu
+                    </div>
+                  ) : (
+                    <div className={`absolute top-3 left-3 px-3 py-1 rounded-full text-sm font-medium ${
+                      canAccess(purchase.accessExpiresAt)
+                        ? 'bg-green-500 text-white'
+                        : 'bg-red-500 text-white'
+                    }`}>
+                      {canAccess(purchase.accessExpiresAt) ? '🔓 Có thể truy cập' : '🔒 Đã hết hạn'}
+                    </div>
+                  )}
                 </div>
 
                 <div className="p-6">
@@ -248,12 +364,32 @@ export default function MyPurchases() {
                       <span className="text-gray-600">Ngày mua:</span>
                       <span className="font-medium">{formatTimeAgo(purchase.createdAt)}</span>
                     </div>
+                    {purchase.gift?.sender && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Quà tặng từ:</span>
+                        <span className="font-medium">🎁 {purchase.gift.sender.fullName}</span>
+                      </div>
+                    )}
+                    {purchase.license && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Bản quyền:</span>
+                        <span className="font-medium">{purchase.license.name}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-600">Truy cập:</span>
                       <span className={`font-medium ${canAccess(purchase.accessExpiresAt) ? 'text-green-600' : 'text-red-600'}`}>
                         {formatTimeRemaining(purchase.accessExpiresAt)}
                       </span>
                     </div>
+                    {purchase.licenseKey && purchase.status !== 'refunded' && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Khóa:</span>
+                        <code className={`font-medium text-xs ${purchase.licenseRevokedAt ? 'text-red-600 line-through' : 'text-gray-900'}`}>
+                          {purchase.licenseKey}
+                        </code>
+                      </div>
+                    )}
                   </div>
 
                   {/* Contact info for active purchases */}
@@ -286,20 +422,43 @@ export default function MyPurchases() {
                       </button>
                     </div>
                     
-                    {canAccess(purchase.accessExpiresAt) ? (
+                    {canAccess(purchase.accessExpiresAt) && purchase.downloadCount >= downloadLimit ? (
+                      <div className="w-full bg-gray-400 text-white py-2 px-3 rounded-lg text-center text-sm font-medium cursor-not-allowed">
+                        🚫 Đã hết {downloadLimit} lượt tải
+                      </div>
+                    ) : canAccess(purchase.accessExpiresAt) ? (
                       <a
-                        href={purchase.sourceCode.sourceLink}
-                        target="_blank"
-                        rel="noopener noreferrer"
+                        href={`/downloads/${purchase.purchaseId}`}
                         className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-2 px-3 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 text-center text-sm font-medium block"
                       >
-                        📥 Tải mã nguồn
+                        📥 Tải mã nguồn{downloadableVersions[purchase.purchaseId]?.[0] && ` v${downloadableVersions[purchase.purchaseId][0].version}`} ({purchase.downloadCount}/{downloadLimit})
                       </a>
                     ) : (
                       <div className="w-full bg-gray-400 text-white py-2 px-3 rounded-lg text-center text-sm font-medium cursor-not-allowed">
                         🔒 Đã hết hạn truy cập
                       </div>
                     )}
+
+                    {canDispute(purchase.status, purchase.createdAt) && (
+                      <button
+                        onClick={() => setDisputePurchase({
+                          purchaseId: purchase.purchaseId,
+                          amount: purchase.amount,
+                          title: purchase.sourceCode.title
+                        })}
+                        className="w-full bg-white border border-red-300 text-red-600 py-2 px-3 rounded-lg hover:bg-red-50 transition-colors text-sm"
+                      >
+                        ⚠️ Khiếu nại / Yêu cầu hoàn tiền
+                      </button>
+                    )}
+                    {purchase.status === 'disputed' && (
+                      <Link
+                        to="/dashboard/disputes"
+                        className="w-full bg-yellow-50 border border-yellow-300 text-yellow-700 py-2 px-3 rounded-lg hover:bg-yellow-100 transition-colors text-center text-sm block"
+                      >
+                        ⚖️ Đang khiếu nại - xem tiến độ
+                      </Link>
+                    )}
                   </div>
                 </div>
               </div>
@@ -418,12 +577,35 @@ export default function MyPurchases() {
                     <span className="text-gray-600">Ngày mua:</span>
                     <div className="font-medium">{new Date(selectedPurchase.createdAt).toLocaleString('vi-VN')}</div>
                   </div>
+                  {selectedPurchase.order && (
+                    <div>
+                      <span className="text-gray-600">Đơn hàng:</span>
+                      <div className="font-medium">{selectedPurchase.order.orderId}</div>
+                    </div>
+                  )}
                   <div>
                     <span className="text-gray-600">Hết hạn truy cập:</span>
                     <div className={`font-medium ${canAccess(selectedPurchase.accessExpiresAt) ? 'text-green-600' : 'text-red-600'}`}>
-                      {new Date(selectedPurchase.accessExpiresAt).toLocaleString('vi-VN')}
+                      {selectedPurchase.accessExpiresAt ? new Date(selectedPurchase.accessExpiresAt).toLocaleString('vi-VN') : 'Trọn đời'}
                     </div>
                   </div>
+                  {selectedPurchase.license && (
+                    <>
+                      <div>
+                        <span className="text-gray-600">Gói bản quyền:</span>
+                        <div className="font-medium">
+                          {selectedPurchase.license.name}
+                          {selectedPurchase.license.commercialUse ? ' · Thương mại' : ' · Cá nhân'}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="text-gray-600">Nhận cập nhật đến:</span>
+                        <div className="font-medium">
+                          {selectedPurchase.updatesUntil ? new Date(selectedPurchase.updatesUntil).toLocaleDateString('vi-VN') : 'Trọn đời'}
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -468,6 +650,28 @@ export default function MyPurchases() {
                 </div>
               </div>
 
+              {/* License Key */}
+              {selectedPurchase.licenseKey && (
+                <div className="bg-indigo-50 rounded-lg p-4">
+                  <h4 className="font-semibold text-gray-900 mb-3">🔑 Khóa bản quyền</h4>
+                  <code className="block bg-white border border-indigo-200 rounded-lg px-3 py-2 text-sm font-medium text-gray-900 break-all select-all">
+                    {selectedPurchase.licenseKey}
+                  </code>
+                  {selectedPurchase.status === 'refunded' ? (
+                    <p className="text-sm text-red-600 mt-2">⛔ Khóa không còn hiệu lực vì giao dịch đã được hoàn tiền</p>
+                  ) : selectedPurchase.licenseRevokedAt ? (
+                    <p className="text-sm text-red-600 mt-2">
+                      ⛔ Người bán đã thu hồi khóa này ngày {new Date(selectedPurchase.licenseRevokedAt).toLocaleDateString('vi-VN')}
+                      {selectedPurchase.licenseRevokedReason && `: ${selectedPurchase.licenseRevokedReason}`}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-indigo-700 mt-2">
+                      Dùng khóa này làm bằng chứng bản quyền. Người bán có thể kiểm tra khóa tại <code>/licenses/verify?key=...</code>
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Access Status */}
               <div className={`rounded-lg p-4 ${canAccess(selectedPurchase.accessExpiresAt) ? 'bg-green-50' : 'bg-red-50'}`}>
                 <h4 className="font-semibold text-gray-900 mb-3">
@@ -476,18 +680,45 @@ export default function MyPurchases() {
                 {canAccess(selectedPurchase.accessExpiresAt) ? (
                   <div>
                     <p className="text-green-700 mb-2">✅ Bạn có thể truy cập mã nguồn này</p>
-                    <p className="text-sm text-green-600 mb-3">
+                    <p className="text-sm text-green-600 mb-1">
                       ⏰ Thời gian còn lại: {formatTimeRemaining(selectedPurchase.accessExpiresAt)}
                     </p>
-                    <a
-                      href={selectedPurchase.sourceCode.sourceLink}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
-                    >
-                      📥 Tải mã nguồn
-                      <span className="ml-1">↗️</span>
-                    </a>
+                    <p className="text-sm text-green-600 mb-3">
+                      📥 Đã tải: {selectedPurchase.downloadCount}/{downloadLimit} lượt
+                    </p>
+                    {selectedPurchase.downloadCount < downloadLimit && downloadableVersions[selectedPurchase.purchaseId]?.length > 0 && (
+                      <div className="space-y-2">
+                        {downloadableVersions[selectedPurchase.purchaseId].map((version) => (
+                          <div key={version._id} className="bg-white rounded-lg p-3 border border-green-200">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <span className="font-medium text-gray-900">v{version.version}</span>
+                                <span className="text-xs text-gray-500 ml-2">
+                                  {new Date(version.createdAt).toLocaleDateString('vi-VN')} • {formatFileSize(version.fileSize)}
+                                </span>
+                              </div>
+                              <a
+                                href={`/downloads/${selectedPurchase.purchaseId}?version=${version.versionNumber}`}
+                                className="bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+                              >
+                                📥 Tải
+                              </a>
+                            </div>
+                            {version.changelog && (
+                              <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{version.changelog}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {selectedPurchase.downloadCount < downloadLimit && !downloadableVersions[selectedPurchase.purchaseId]?.length && (
+                      <a
+                        href={`/downloads/${selectedPurchase.purchaseId}`}
+                        className="inline-flex items-center bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+                      >
+                        📥 Tải mã nguồn
+                      </a>
+                    )}
                   </div>
                 ) : (
                   <div>
@@ -519,6 +750,91 @@ export default function MyPurchases() {
         </div>
       )}
 
+      {/* Dispute Modal */}
+      {disputePurchase && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-lg w-full mx-4">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-semibold text-gray-900">
+                ⚠️ Khiếu nại giao dịch
+              </h3>
+              <button
+                onClick={() => setDisputePurchase(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                </svg>
+              </button>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-4 mb-6 text-sm">
+              <div className="font-medium text-gray-900">{disputePurchase.title}</div>
+              <div className="text-gray-600">
+                {disputePurchase.purchaseId} • {disputePurchase.amount.toLocaleString('vi-VN')} xu
+              </div>
+            </div>
+
+            <Form method="post" className="space-y-4" onSubmit={() => setDisputePurchase(null)}>
+              <input type="hidden" name="_action" value="open-dispute" />
+              <input type="hidden" name="purchaseId" value={disputePurchase.purchaseId} />
+
+              <div>
+                <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-2">
+                  Lý do *
+                </label>
+                <select
+                  id="reason"
+                  name="reason"
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  {Object.entries(disputeReasons).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+                  Mô tả chi tiết *
+                </label>
+                <textarea
+                  id="description"
+                  name="description"
+                  required
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder="Mô tả vấn đề bạn gặp phải với mã nguồn này..."
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Người bán sẽ được thông báo để phản hồi, sau đó admin sẽ xem xét và quyết định hoàn tiền.
+                Nếu được hoàn tiền, quyền truy cập mã nguồn sẽ bị thu hồi.
+              </p>
+
+              <div className="flex space-x-4">
+                <button
+                  type="button"
+                  onClick={() => setDisputePurchase(null)}
+                  className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Hủy bỏ
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {isSubmitting ? "Đang gửi..." : "Gửi khiếu nại"}
+                </button>
+              </div>
+            </Form>
+          </div>
+        </div>
+      )}
+
       {/* Tips */}
       <div className="mt-12 bg-yellow-50 border border-yellow-200 rounded-xl p-6">
         <h3 className="text-lg font-semibold text-yellow-900 mb-4">💡 Lưu ý quan trọng:</h3>
@@ -526,7 +842,7 @@ export default function MyPurchases() {
           <li>• Link tải mã nguồn chỉ có hiệu lực trong 24 giờ sau khi mua</li>
           <li>• Thông tin liên hệ người bán chỉ hiển thị khi bạn có quyền truy cập</li>
           <li>• Hãy tải và backup mã nguồn ngay sau khi mua</li>
-          <li>• Liên hệ người bán nếu gặp vấn đề với mã nguồn</li>
+          <li>• Liên hệ người bán nếu gặp vấn đề với mã nguồn, hoặc gửi khiếu nại trong vòng {disputeWindowDays} ngày sau khi mua</li>
           <li>• Đánh giá sản phẩm để giúp cộng đồng</li>
         </ul>
       </div>
@@ -5,14 +5,30 @@ import { connectToDatabase } from "~/lib/db/connection";
 import { SourceCode, Category } from "~/lib/db/models";
 import { requireAuth, generateSourceId } from "~/lib/auth";
 import { uploadToCloudinary } from "~/lib/cloudinary";
+import { resolveCommission } from "~/lib/commission";
+import { publishVersion, validateArchive, ArchiveError, ARCHIVE_ACCEPT, getArchiveSizeLimit } from "~/lib/archives";
+import { describeAccess } from "~/lib/licenses";
+import { recordPriceChange } from "~/lib/pricing";
+import { parseSourceLink } from "~/lib/downloads";
+
+// Download windows offered for the first license tier; more tiers can be added after publishing
+const ACCESS_DAY_OPTIONS = [1, 7, 30, 365, 0];
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  await requireAuth(request);
+  const user = await requireAuth(request);
   await connectToDatabase();
   
   const categories = await Category.find({ isActive: true }).lean();
+
+  // Rate for this seller, not counting category-specific rules
+  const commission = await resolveCommission({ category: '', seller: user._id });
   
-  return json({ categories });
+  return json({
+    categories,
+    commissionRate: commission.rate,
+    archiveAccept: ARCHIVE_ACCEPT,
+    archiveSizeLimitMb: Math.round(getArchiveSizeLimit() / 1024 / 1024)
+  });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
@@ -22,26 +38,47 @@ export async function action({ request }: ActionFunctionArgs) {
   const title = formData.get("title") as string;
   const description = formData.get("description") as string;
   const price = parseInt(formData.get("price") as string);
+  const accessDays = parseInt(formData.get("accessDays") as string) || undefined;
   const category = formData.get("category") as string;
   const tags = (formData.get("tags") as string).split(',').map(tag => tag.trim()).filter(Boolean);
-  const sourceLink = formData.get("sourceLink") as string;
+  const deliveryMethod = formData.get("deliveryMethod") === "link" ? "link" : "upload";
+  const sourceLink = (formData.get("sourceLink") as string || "").trim();
+  const archiveFile = formData.get("archive") as File;
+  const version = (formData.get("version") as string || "").trim() || "1.0.0";
+  const changelog = formData.get("changelog") as string;
   const demoVideo = formData.get("demoVideo") as string;
   const thumbnailFile = formData.get("thumbnail") as File;
 
   try {
     // Validate input
-    if (!title || !description || !price || !category || !sourceLink || !thumbnailFile) {
+    if (!title || !description || !price || !category || !thumbnailFile) {
       return json({ error: "Vui lòng nhập đầy đủ thông tin bắt buộc" }, { status: 400 });
     }
 
+    if (deliveryMethod === "link" && !sourceLink) {
+      return json({ error: "Vui lòng nhập link tải mã nguồn" }, { status: 400 });
+    }
+
+    if (deliveryMethod === "link" && !parseSourceLink(sourceLink)) {
+      return json({ error: "Link tải mã nguồn phải bắt đầu bằng http:// hoặc https://" }, { status: 400 });
+    }
+
     if (price < 1000) {
       return json({ error: "Giá tối thiểu là 1,000 xu" }, { status: 400 });
     }
 
+    if (accessDays !== undefined && !ACCESS_DAY_OPTIONS.includes(accessDays)) {
+      return json({ error: "Thời hạn tải không hợp lệ" }, { status: 400 });
+    }
+
     if (thumbnailFile.size > 5 * 1024 * 1024) {
       return json({ error: "Ảnh đại diện không được vượt quá 5MB" }, { status: 400 });
     }
 
+    if (deliveryMethod === "upload") {
+      await validateArchive(archiveFile);
+    }
+
     await connectToDatabase();
 
     // Generate unique source ID
@@ -65,12 +102,20 @@ export async function action({ request }: ActionFunctionArgs) {
       title: title.trim(),
       description: description.trim(),
       price,
+      licenseTiers: [{
+        name: "Tiêu chuẩn",
+        description: "",
+        price,
+        accessDays,
+        commercialUse: false,
+        isActive: true
+      }],
       seller: user._id,
       category,
       tags,
       thumbnail: thumbnailUrl,
       demoVideo: demoVideo.trim() || undefined,
-      sourceLink: sourceLink.trim(),
+      sourceLink: deliveryMethod === "link" ? sourceLink : undefined,
       views: 0,
       purchases: 0,
       rating: 0,
@@ -80,6 +125,17 @@ export async function action({ request }: ActionFunctionArgs) {
     });
 
     await sourceCode.save();
+    await recordPriceChange(sourceCode);
+
+    if (deliveryMethod === "upload") {
+      try {
+        await publishVersion({ sourceCode, file: archiveFile, version, changelog, user });
+      } catch (error) {
+        // Don't leave a listing behind that buyers could pay for but never download
+        await SourceCode.deleteOne({ _id: sourceCode._id });
+        throw error;
+      }
+    }
 
     return json({ 
       success: true, 
@@ -88,24 +144,32 @@ export async function action({ request }: ActionFunctionArgs) {
     });
 
   } catch (error) {
+    if (error instanceof ArchiveError) {
+      return json({ error: error.message }, { status: error.status });
+    }
     console.error("Upload source error:", error);
     return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
   }
 }
 
 export default function SellSource() {
-  const { categories } = useLoaderData<typeof loader>();
+  const { categories, commissionRate, archiveAccept, archiveSizeLimitMb } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const [formData, setFormData] = useState({
     title: "",
     description: "",
     price: "",
+    accessDays: "1",
     category: "",
     tags: "",
     sourceLink: "",
-    demoVideo: ""
+    demoVideo: "",
+    version: "1.0.0",
+    changelog: ""
   });
+  const [deliveryMethod, setDeliveryMethod] = useState<"upload" | "link">("upload");
+  const [archiveName, setArchiveName] = useState<string>("");
   const [thumbnail, setThumbnail] = useState<File | null>(null);
   const [thumbnailPreview, setThumbnailPreview] = useState<string>("");
   const isSubmitting = navigation.state === "submitting";
@@ -245,7 +309,27 @@ export default function SellSource() {
                   placeholder="Tối thiểu 1,000 xu"
                 />
                 <p className="mt-1 text-sm text-gray-500">
-                  Bạn sẽ nhận được 80% sau khi bán thành công
+                  Bạn sẽ nhận được {100 - commissionRate}% sau khi bán thành công (có thể thay đổi theo danh mục và chương trình khuyến mãi)
+                </p>
+              </div>
+
+              <div className="lg:col-span-2">
+                <label htmlFor="accessDays" className="block text-sm font-medium text-gray-700 mb-2">
+                  Thời hạn tải cho người mua *
+                </label>
+                <select
+                  id="accessDays"
+                  name="accessDays"
+                  value={formData.accessDays}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  {ACCESS_DAY_OPTIONS.map((days) => (
+                    <option key={days} value={days}>{describeAccess(days)}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  Đây là gói bản quyền Tiêu chuẩn. Sau khi đăng, bạn có thể thêm các gói khác (thương mại, mở rộng...) với giá riêng
                 </p>
               </div>
 
@@ -364,45 +448,125 @@ export default function SellSource() {
             </div>
           </div>
 
-          {/* Source Link */}
+          {/* Source Files */}
           <div className="space-y-6">
             <h3 className="text-lg font-semibold text-gray-900 border-b border-gray-200 pb-2">
-              🔗 Link mã nguồn
+              📦 Tệp mã nguồn
             </h3>
 
-            <div>
-              <label htmlFor="sourceLink" className="block text-sm font-medium text-gray-700 mb-2">
-                Link tải mã nguồn *
-              </label>
-              <input
-                id="sourceLink"
-                name="sourceLink"
-                type="url"
-                required
-                value={formData.sourceLink}
-                onChange={handleInputChange}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                placeholder="https://drive.google.com/... hoặc https://github.com/..."
-              />
-              <div className="mt-2 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <div className="flex items-start">
-                  <svg className="w-5 h-5 text-yellow-600 mt-0.5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"></path>
-                  </svg>
-                  <div>
-                    <h4 className="text-sm font-medium text-yellow-800 mb-1">
-                      ⚠️ Lưu ý quan trọng
-                    </h4>
-                    <ul className="text-sm text-yellow-700 space-y-1">
-                      <li>• Link này chỉ hiển thị cho người mua trong 24h sau khi mua</li>
-                      <li>• Đảm bảo link luôn hoạt động và có thể truy cập</li>
-                      <li>• Nên sử dụng Google Drive hoặc GitHub với quyền truy cập công khai</li>
-                      <li>• Không chia sẻ link này ở nơi khác</li>
-                    </ul>
+            <input type="hidden" name="deliveryMethod" value={deliveryMethod} />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <button
+                type="button"
+                onClick={() => setDeliveryMethod("upload")}
+                className={`p-4 border-2 rounded-lg text-left transition-colors ${
+                  deliveryMethod === "upload" ? "border-teal-500 bg-teal-50" : "border-gray-200 hover:border-gray-300"
+                }`}
+              >
+                <div className="font-medium text-gray-900">📤 Tải tệp lên SourceCode4U</div>
+                <div className="text-sm text-gray-600 mt-1">Lưu trữ trên hệ thống, hỗ trợ cập nhật phiên bản mới</div>
+              </button>
+              <button
+                type="button"
+                onClick={() => setDeliveryMethod("link")}
+                className={`p-4 border-2 rounded-lg text-left transition-colors ${
+                  deliveryMethod === "link" ? "border-teal-500 bg-teal-50" : "border-gray-200 hover:border-gray-300"
+                }`}
+              >
+                <div className="font-medium text-gray-900">🔗 Dùng link bên ngoài</div>
+                <div className="text-sm text-gray-600 mt-1">Google Drive, GitHub hoặc nơi lưu trữ khác</div>
+              </button>
+            </div>
+
+            {deliveryMethod === "upload" ? (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="lg:col-span-2">
+                  <label htmlFor="archive" className="block text-sm font-medium text-gray-700 mb-2">
+                    Tệp nén mã nguồn *
+                  </label>
+                  <input
+                    id="archive"
+                    name="archive"
+                    type="file"
+                    accept={archiveAccept}
+                    required
+                    onChange={(e) => setArchiveName(e.target.files?.[0]?.name || "")}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    {archiveName || `ZIP, TAR, TAR.GZ tối đa ${archiveSizeLimitMb}MB`}
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="version" className="block text-sm font-medium text-gray-700 mb-2">
+                    Phiên bản
+                  </label>
+                  <input
+                    id="version"
+                    name="version"
+                    type="text"
+                    maxLength={50}
+                    value={formData.version}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="1.0.0"
+                  />
+                </div>
+
+                <div className="lg:col-span-2">
+                  <label htmlFor="changelog" className="block text-sm font-medium text-gray-700 mb-2">
+                    Ghi chú phiên bản (tùy chọn)
+                  </label>
+                  <textarea
+                    id="changelog"
+                    name="changelog"
+                    rows={3}
+                    value={formData.changelog}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="Phiên bản đầu tiên"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    Sau khi đăng, bạn có thể phát hành phiên bản mới trong mục Mã nguồn của tôi. Người mua sẽ được thông báo khi có bản cập nhật.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="sourceLink" className="block text-sm font-medium text-gray-700 mb-2">
+                  Link tải mã nguồn *
+                </label>
+                <input
+                  id="sourceLink"
+                  name="sourceLink"
+                  type="url"
+                  required
+                  value={formData.sourceLink}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder="https://drive.google.com/... hoặc https://github.com/..."
+                />
+                <div className="mt-2 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <div className="flex items-start">
+                    <svg className="w-5 h-5 text-yellow-600 mt-0.5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"></path>
+                    </svg>
+                    <div>
+                      <h4 className="text-sm font-medium text-yellow-800 mb-1">
+                        ⚠️ Lưu ý quan trọng
+                      </h4>
+                      <ul className="text-sm text-yellow-700 space-y-1">
+                        <li>• Link này chỉ hiển thị cho người mua trong 24h sau khi mua</li>
+                        <li>• Đảm bảo link luôn hoạt động và có thể truy cập</li>
+                        <li>• Nên sử dụng Google Drive hoặc GitHub với quyền truy cập công khai</li>
+                        <li>• Không chia sẻ link này ở nơi khác</li>
+                      </ul>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
 
           {/* Preview */}
@@ -0,0 +1,336 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Subscription, SubscriptionPlan, type ISubscription, type ISubscriptionPlan, type IUser } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import {
+  parsePlanInput,
+  savePlan,
+  cancelSubscription,
+  resumeSubscription,
+  retrySubscriptionPayment,
+  getAccessEnd,
+  countActiveSubscribers,
+  SubscriptionError,
+  LIVE_SUBSCRIPTION_STATUSES,
+  SUBSCRIPTION_GRACE_DAYS
+} from "~/lib/subscriptions";
+import { MIN_TIER_PRICE } from "~/lib/licenses";
+
+type SubscriptionWithUser<K extends 'seller' | 'subscriber'> = Omit<ISubscription, K> & { [key in K]: Pick<IUser, 'fullName'> | null };
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const [subscriptions, plan] = await Promise.all([
+    Subscription.find({ subscriber: user._id })
+      .populate('seller', 'fullName')
+      .sort({ createdAt: -1 })
+      .lean<SubscriptionWithUser<'seller'>[]>(),
+    SubscriptionPlan.findOne({ seller: user._id }).lean<ISubscriptionPlan>()
+  ]);
+
+  const [subscribers, subscriberCount, [earnings]] = plan
+    ? await Promise.all([
+        Subscription.find({ seller: user._id, status: { $in: LIVE_SUBSCRIPTION_STATUSES } })
+          .populate('subscriber', 'fullName')
+          .sort({ createdAt: -1 })
+          .limit(50)
+          .lean<SubscriptionWithUser<'subscriber'>[]>(),
+        countActiveSubscribers(user._id),
+        Subscription.aggregate([
+          { $match: { seller: user._id } },
+          { $unwind: '$charges' },
+          { $group: { _id: null, total: { $sum: '$charges.sellerEarnings' }, charges: { $sum: 1 } } }
+        ])
+      ])
+    : [[], 0, []];
+
+  return json({
+    subscriptions: subscriptions.map((subscription) => ({
+      subscriptionId: subscription.subscriptionId,
+      sellerName: subscription.seller?.fullName || 'Người bán',
+      price: subscription.price,
+      status: subscription.status,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      accessUntil: getAccessEnd(subscription),
+      totalPaid: subscription.charges.reduce((sum, charge) => sum + charge.amount, 0),
+      createdAt: subscription.createdAt
+    })),
+    plan: plan ? { price: plan.price, description: plan.description, isActive: plan.isActive } : null,
+    subscribers: subscribers.map((subscription) => ({
+      subscriptionId: subscription.subscriptionId,
+      subscriberName: subscription.subscriber?.fullName || 'Người dùng',
+      price: subscription.price,
+      status: subscription.status,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      createdAt: subscription.createdAt
+    })),
+    subscriberCount,
+    earnings: { total: earnings?.total || 0, charges: earnings?.charges || 0 },
+    minPrice: MIN_TIER_PRICE,
+    graceDays: SUBSCRIPTION_GRACE_DAYS
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+  const subscriptionId = formData.get("subscriptionId") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "save-plan": {
+        await savePlan(user, parsePlanInput(formData));
+        return json({ success: true, message: "Đã lưu gói đăng ký. Giá mới chỉ áp dụng cho người đăng ký mới" });
+      }
+
+      case "toggle-plan": {
+        const plan = await SubscriptionPlan.findOne({ seller: user._id });
+        if (!plan) {
+          return json({ error: "Bạn chưa tạo gói đăng ký" }, { status: 404 });
+        }
+
+        plan.isActive = !plan.isActive;
+        await plan.save();
+
+        return json({
+          success: true,
+          message: plan.isActive
+            ? "Đã mở lại gói đăng ký"
+            : "Đã đóng gói đăng ký. Người đang đăng ký vẫn dùng được đến hết tháng đã trả nhưng sẽ không được gia hạn"
+        });
+      }
+
+      case "cancel": {
+        const subscription = await cancelSubscription(user, subscriptionId);
+        return json({
+          success: true,
+          message: subscription.status === 'canceled'
+            ? "Đã hủy gói đăng ký"
+            : `Đã hủy gia hạn. Bạn vẫn truy cập được đến ${subscription.currentPeriodEnd.toLocaleDateString('vi-VN')}`
+        });
+      }
+
+      case "resume": {
+        await resumeSubscription(user, subscriptionId);
+        return json({ success: true, message: "Gói đăng ký sẽ tiếp tục tự động gia hạn" });
+      }
+
+      case "retry-payment": {
+        const subscription = await retrySubscriptionPayment(user, subscriptionId);
+        return json({ success: true, message: `Gia hạn thành công đến ${subscription.currentPeriodEnd.toLocaleDateString('vi-VN')}` });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Subscription action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+const STATUS_LABELS: Record<ISubscription['status'], { label: string; className: string }> = {
+  active: { label: '✅ Đang hoạt động', className: 'bg-green-100 text-green-800' },
+  past_due: { label: '⚠️ Chờ thanh toán', className: 'bg-yellow-100 text-yellow-800' },
+  canceled: { label: '⏹️ Đã hủy', className: 'bg-gray-100 text-gray-600' },
+  expired: { label: '⌛ Đã hết hạn', className: 'bg-gray-100 text-gray-600' }
+};
+
+export default function Subscriptions() {
+  const { subscriptions, plan, subscribers, subscriberCount, earnings, minPrice, graceDays } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          🔁 Gói đăng ký
+        </h1>
+        <p className="text-gray-600">
+          Đăng ký theo tháng để truy cập toàn bộ mã nguồn của một người bán. Xu được trừ tự động từ ví khi gia hạn; nếu số dư không đủ, bạn có {graceDays} ngày để nạp thêm trước khi mất quyền truy cập.
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      {/* My subscriptions */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden mb-8">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">📋 Gói tôi đang đăng ký</h2>
+        </div>
+        {subscriptions.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {subscriptions.map((subscription) => (
+              <div key={subscription.subscriptionId} className="px-6 py-4 flex items-center justify-between text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">{subscription.sellerName}</div>
+                  <div className="text-gray-500">
+                    {subscription.price.toLocaleString('vi-VN')} xu/tháng • Đã trả {subscription.totalPaid.toLocaleString('vi-VN')} xu
+                  </div>
+                  <div className="text-gray-500">
+                    {subscription.status === 'active' && !subscription.cancelAtPeriodEnd && (
+                      <>Gia hạn ngày {new Date(subscription.currentPeriodEnd).toLocaleDateString('vi-VN')}</>
+                    )}
+                    {subscription.status === 'active' && subscription.cancelAtPeriodEnd && (
+                      <>Kết thúc ngày {new Date(subscription.currentPeriodEnd).toLocaleDateString('vi-VN')}</>
+                    )}
+                    {subscription.status === 'past_due' && (
+                      <>Truy cập đến {new Date(subscription.accessUntil).toLocaleString('vi-VN')}, hãy nạp thêm xu để gia hạn</>
+                    )}
+                    {(subscription.status === 'canceled' || subscription.status === 'expired') && (
+                      <>Kết thúc ngày {new Date(subscription.accessUntil).toLocaleDateString('vi-VN')}</>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_LABELS[subscription.status].className}`}>
+                    {STATUS_LABELS[subscription.status].label}
+                  </span>
+                  {subscription.status === 'past_due' && (
+                    <Form method="post">
+                      <input type="hidden" name="_action" value="retry-payment" />
+                      <input type="hidden" name="subscriptionId" value={subscription.subscriptionId} />
+                      <button type="submit" disabled={isSubmitting} className="text-teal-600 hover:text-teal-700 disabled:opacity-50 whitespace-nowrap">
+                        💳 Thanh toán
+                      </button>
+                    </Form>
+                  )}
+                  {subscription.status === 'active' && subscription.cancelAtPeriodEnd && (
+                    <Form method="post">
+                      <input type="hidden" name="_action" value="resume" />
+                      <input type="hidden" name="subscriptionId" value={subscription.subscriptionId} />
+                      <button type="submit" disabled={isSubmitting} className="text-teal-600 hover:text-teal-700 disabled:opacity-50 whitespace-nowrap">
+                        ▶️ Tiếp tục
+                      </button>
+                    </Form>
+                  )}
+                  {(subscription.status === 'past_due' || (subscription.status === 'active' && !subscription.cancelAtPeriodEnd)) && (
+                    <Form method="post">
+                      <input type="hidden" name="_action" value="cancel" />
+                      <input type="hidden" name="subscriptionId" value={subscription.subscriptionId} />
+                      <button type="submit" disabled={isSubmitting} className="text-red-600 hover:text-red-700 disabled:opacity-50 whitespace-nowrap">
+                        ⏹️ Hủy
+                      </button>
+                    </Form>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-600">
+            Bạn chưa đăng ký gói nào. Tìm nút &quot;Đăng ký hằng tháng&quot; trên trang mã nguồn của người bán có gói đăng ký.
+          </div>
+        )}
+      </div>
+
+      {/* Seller plan */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="bg-white rounded-xl shadow-md p-6 h-fit">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">💼 Gói đăng ký bạn bán</h2>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="_action" value="save-plan" />
+            <div>
+              <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-1">Giá mỗi tháng (xu) *</label>
+              <input
+                id="price"
+                name="price"
+                type="number"
+                required
+                min={minPrice}
+                defaultValue={plan?.price}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Mô tả</label>
+              <textarea
+                id="description"
+                name="description"
+                rows={3}
+                defaultValue={plan?.description}
+                placeholder="VD: Mọi template hiện có và sắp ra mắt"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+            >
+              {plan ? "💾 Lưu gói đăng ký" : "➕ Mở gói đăng ký"}
+            </button>
+          </Form>
+          {plan && (
+            <Form method="post" className="mt-3">
+              <input type="hidden" name="_action" value="toggle-plan" />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className={`w-full py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-50 ${
+                  plan.isActive
+                    ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {plan.isActive ? '✅ Đang nhận người đăng ký' : '⏸️ Đã đóng gói đăng ký'}
+              </button>
+            </Form>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-md overflow-hidden h-fit">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">👥 Người đăng ký ({subscriberCount})</h2>
+            <span className="text-sm text-gray-600">
+              Đã nhận {earnings.total.toLocaleString('vi-VN')} xu từ {earnings.charges} lượt thanh toán
+            </span>
+          </div>
+          {subscribers.length > 0 ? (
+            <div className="divide-y divide-gray-200">
+              {subscribers.map((subscription) => (
+                <div key={subscription.subscriptionId} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">{subscription.subscriberName}</div>
+                    <div className="text-gray-500">
+                      Từ {new Date(subscription.createdAt).toLocaleDateString('vi-VN')} • {subscription.price.toLocaleString('vi-VN')} xu/tháng
+                      {subscription.cancelAtPeriodEnd && ' • Đã hủy gia hạn'}
+                    </div>
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[subscription.status].className}`}>
+                    {STATUS_LABELS[subscription.status].label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-gray-600">
+              {plan ? 'Chưa có ai đăng ký gói của bạn' : 'Mở gói đăng ký để người mua trả theo tháng cho toàn bộ mã nguồn của bạn'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
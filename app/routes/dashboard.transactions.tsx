@@ -2,9 +2,32 @@ import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData, Link, useSearchParams } from "@remix-run/react";
 import { useState } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
-import { Payment, Purchase } from "~/lib/db/models";
+import { Payment, Purchase, Invoice, type IInvoice, type IPayment, type IPurchase, type ISourceCode, type IUser } from "~/lib/db/models";
 import { requireAuth } from "~/lib/auth";
 
+type ListedPurchase = Omit<IPurchase, 'sourceCode' | 'buyer'> & {
+  sourceCode: Pick<ISourceCode, 'title' | 'thumbnail'> | null;
+  buyer: Pick<IUser, 'fullName'>;
+};
+
+// One row of the combined history; payments and purchases each fill in the fields they have
+interface TransactionRow {
+  _id: unknown;
+  transactionType: 'payment' | 'purchase' | 'sale';
+  displayType: string;
+  amount: number;
+  status: IPayment['status'] | IPurchase['status'];
+  createdAt: Date;
+  invoiceNumber?: string;
+  type?: IPayment['type'];
+  paymentId?: string;
+  bankInfo?: IPayment['bankInfo'];
+  purchaseId?: string;
+  sourceCode?: ListedPurchase['sourceCode'];
+  buyer?: ListedPurchase['buyer'];
+  refundedAmount?: number;
+}
+
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireAuth(request);
   await connectToDatabase();
@@ -32,7 +55,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limit)
-          .lean()
+          .lean<IPayment[]>()
       : [],
     type === "all" || type === "purchase"
       ? Purchase.find({ buyer: user._id })
@@ -40,7 +63,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limit)
-          .lean()
+          .lean<ListedPurchase[]>()
       : [],
     type === "all" || type === "sale"
       ? Purchase.find()
@@ -53,31 +76,48 @@ export async function loader({ request }: LoaderFunctionArgs) {
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limit)
-          .lean()
+          .lean<ListedPurchase[]>()
       : []
   ]);
 
   // Filter sales to only include user's products
   const userSales = sales.filter(sale => sale.sourceCode);
 
+  // Invoices for approved deposits and for the orders this page's purchases belong to
+  const invoices = await Invoice.find({
+    user: user._id,
+    $or: [
+      { payment: { $in: payments.map(p => p._id) } },
+      { order: { $in: purchases.map(p => p.order).filter(Boolean) } }
+    ]
+  })
+    .select('invoiceNumber payment order')
+    .lean<Pick<IInvoice, 'invoiceNumber' | 'payment' | 'order'>[]>();
+  const findInvoiceNumber = (field: 'payment' | 'order', id: unknown) => {
+    return id ? invoices.find(invoice => String(invoice[field]) === String(id))?.invoiceNumber : undefined;
+  };
+
   // Combine and sort all transactions
   const allTransactions = [
-    ...payments.map(p => ({
+    ...payments.map((p): TransactionRow => ({
       ...p,
       transactionType: 'payment',
-      displayType: p.type === 'deposit' ? 'Nạp xu' : 'Rút xu'
+      displayType: p.type === 'deposit' ? 'Nạp xu' : 'Rút xu',
+      invoiceNumber: findInvoiceNumber('payment', p._id)
     })),
-    ...purchases.map(p => ({
+    ...purchases.map((p): TransactionRow => ({
       ...p,
       transactionType: 'purchase',
       displayType: 'Mua mã nguồn',
-      amount: -p.amount // Negative for expense
+      amount: -p.amount, // Negative for expense
+      invoiceNumber: findInvoiceNumber('order', p.order)
     })),
-    ...userSales.map(s => ({
+    ...userSales.map((s): TransactionRow => ({
       ...s,
       transactionType: 'sale',
       displayType: 'Bán mã nguồn',
-      amount: s.sellerEarnings // Positive for income
+      amount: s.sellerEarnings, // Positive for income
+      invoiceNumber: undefined
     }))
   ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
@@ -343,12 +383,22 @@ export default function Transactions() {
                       )}
                       {(transaction.transactionType === 'purchase' || transaction.transactionType === 'sale') && (
                         <div>
-                          <div className="font-medium">{transaction.sourceCode.title}</div>
+                          <div className="font-medium">{transaction.sourceCode?.title}</div>
                           {transaction.transactionType === 'sale' && (
-                            <div className="text-gray-500">Khách hàng: {transaction.buyer.fullName}</div>
+                            <div className="text-gray-500">Khách hàng: {transaction.buyer?.fullName}</div>
                           )}
                         </div>
                       )}
+                      {transaction.invoiceNumber && (
+                        <div className="mt-1 space-x-2 text-xs">
+                          <Link to={`/invoices/${transaction.invoiceNumber}`} className="text-teal-600 hover:text-teal-700 font-medium">
+                            🧾 Hóa đơn {transaction.invoiceNumber}
+                          </Link>
+                          <a href={`/invoices/${transaction.invoiceNumber}/pdf`} className="text-gray-500 hover:text-gray-700">
+                            PDF
+                          </a>
+                        </div>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -362,6 +412,14 @@ export default function Transactions() {
                         {transaction.status === 'approved' ? 'Đã duyệt' : 
                          transaction.status === 'pending' ? 'Chờ duyệt' : 'Đã từ chối'}
                       </span>
+                    ) : transaction.status === 'refunded' ? (
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full border text-gray-600 bg-gray-50 border-gray-200">
+                        Đã hoàn {(transaction.refundedAmount || 0).toLocaleString('vi-VN')} xu
+                      </span>
+                    ) : transaction.status === 'disputed' ? (
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full border text-yellow-600 bg-yellow-50 border-yellow-200">
+                        Đang khiếu nại
+                      </span>
                     ) : (
                       <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full border text-green-600 bg-green-50 border-green-200">
                         Hoàn thành
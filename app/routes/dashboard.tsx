@@ -16,10 +16,16 @@ export async function loader({ request }: LoaderFunctionArgs) {
     Notification.find({ user: user._id, isRead: false }).limit(5).lean()
   ]);
 
+  // Revenue comes from the split actually applied to each sale
+  const revenue = await Purchase.aggregate([
+    { $match: { sourceCode: { $in: sourceCodes.map(code => code._id) } } },
+    { $group: { _id: null, total: { $sum: "$sellerEarnings" } } }
+  ]);
+
   const stats = {
     totalSourceCodes: sourceCodes.length,
     totalSales: sourceCodes.reduce((sum, code) => sum + code.purchases, 0),
-    totalRevenue: sourceCodes.reduce((sum, code) => sum + (code.purchases * code.price * 0.8), 0),
+    totalRevenue: revenue[0]?.total || 0,
     totalPurchases: purchases.length
   };
 
@@ -30,15 +36,18 @@ export async function loader({ request }: LoaderFunctionArgs) {
       email: user.email,
       avatar: user.avatar,
       balance: user.balance,
+      heldBalance: user.heldBalance || 0,
+      pendingBalance: user.pendingBalance || 0,
       role: user.role
     },
     stats,
-    notifications
+    notifications,
+    cartCount: user.cart?.length || 0
   });
 }
 
 export default function Dashboard() {
-  const { user, stats, notifications } = useLoaderData<typeof loader>();
+  const { user, stats, notifications, cartCount } = useLoaderData<typeof loader>();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
@@ -47,7 +56,16 @@ export default function Dashboard() {
     { name: 'Tổng quan', href: '/dashboard', icon: '📊', current: location.pathname === '/dashboard' },
     { name: 'Mã nguồn của tôi', href: '/dashboard/my-sources', icon: '💻', current: location.pathname === '/dashboard/my-sources' },
     { name: 'Đăng bán mã nguồn', href: '/dashboard/sell', icon: '📤', current: location.pathname === '/dashboard/sell' },
+    { name: 'Doanh thu', href: '/dashboard/earnings', icon: '💵', current: location.pathname === '/dashboard/earnings' },
+    { name: 'Mã giảm giá', href: '/dashboard/coupons', icon: '🏷️', current: location.pathname === '/dashboard/coupons' },
+    { name: 'Gói combo', href: '/dashboard/bundles', icon: '📦', current: location.pathname === '/dashboard/bundles' },
+    { name: 'Gói đăng ký', href: '/dashboard/subscriptions', icon: '🔁', current: location.pathname === '/dashboard/subscriptions' },
     { name: 'Mã nguồn đã mua', href: '/dashboard/purchases', icon: '🛒', current: location.pathname === '/dashboard/purchases' },
+    { name: 'Giỏ hàng', href: '/dashboard/cart', icon: '🛍️', current: location.pathname === '/dashboard/cart' },
+    { name: 'Yêu thích', href: '/dashboard/wishlist', icon: '❤️', current: location.pathname === '/dashboard/wishlist' },
+    { name: 'Quà tặng', href: '/dashboard/gifts', icon: '🎁', current: location.pathname === '/dashboard/gifts' },
+    { name: 'Tổ chức', href: '/dashboard/organizations', icon: '🏢', current: location.pathname.startsWith('/dashboard/organizations') },
+    { name: 'Khiếu nại', href: '/dashboard/disputes', icon: '⚖️', current: location.pathname === '/dashboard/disputes' },
     { name: 'Nạp xu', href: '/dashboard/deposit', icon: '💰', current: location.pathname === '/dashboard/deposit' },
     { name: 'Rút xu', href: '/dashboard/withdraw', icon: '💸', current: location.pathname === '/dashboard/withdraw' },
     { name: 'Lịch sử giao dịch', href: '/dashboard/transactions', icon: '📈', current: location.pathname === '/dashboard/transactions' },
@@ -60,6 +78,7 @@ export default function Dashboard() {
     { name: 'Quản lý mã nguồn', href: '/admin/sources', icon: '📁' },
     { name: 'Duyệt nạp xu', href: '/admin/deposits', icon: '💰' },
     { name: 'Duyệt rút xu', href: '/admin/withdrawals', icon: '💸' },
+    { name: 'Xử lý khiếu nại', href: '/admin/disputes', icon: '⚖️' },
     { name: 'Thống kê', href: '/admin/analytics', icon: '📊' },
   ];
 
@@ -135,6 +154,19 @@ export default function Dashboard() {
                   </div>
                 </div>
 
+                {/* Cart */}
+                <Link
+                  to="/dashboard/cart"
+                  className="relative p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <span className="text-xl">🛍️</span>
+                  {cartCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-teal-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                      {cartCount}
+                    </span>
+                  )}
+                </Link>
+
                 {/* Notifications */}
                 <Link
                   to="/dashboard/notifications"
@@ -282,10 +314,20 @@ function DashboardOverview({ user, stats, notifications }: { user: any, stats: a
         <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Số dư tài khoản</p>
+              <p className="text-sm font-medium text-gray-600">Số dư khả dụng</p>
               <p className="text-2xl font-bold text-gray-900">
                 {user.balance.toLocaleString('vi-VN')} xu
               </p>
+              {user.heldBalance > 0 && (
+                <p className="text-xs text-yellow-700 mt-1">
+                  ⏳ Tạm giữ: {user.heldBalance.toLocaleString('vi-VN')} xu
+                </p>
+              )}
+              {user.pendingBalance > 0 && (
+                <Link to="/dashboard/earnings" className="block text-xs text-yellow-700 mt-1 hover:underline">
+                  🔒 Chờ đối soát: {user.pendingBalance.toLocaleString('vi-VN')} xu
+                </Link>
+              )}
             </div>
             <div className="w-12 h-12 bg-gradient-to-r from-green-400 to-green-600 rounded-lg flex items-center justify-center">
               <span className="text-white text-2xl">💰</span>
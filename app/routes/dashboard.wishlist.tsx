@@ -0,0 +1,171 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { User, type IUser, type ISourceCode, type IWishlistItem } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { getActiveSale, getEffectivePrice } from "~/lib/pricing";
+import { removeFromWishlist, WishlistError } from "~/lib/wishlist";
+
+type WishlistSourceCode = Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'thumbnail' | 'price' | 'sales' | 'isActive'> & {
+  seller: Pick<IUser, 'fullName'> | null;
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const { wishlist = [] } = await User.findById(user._id)
+    .select('wishlist')
+    .populate({
+      path: 'wishlist.sourceCode',
+      select: 'sourceId title thumbnail price sales isActive seller',
+      populate: { path: 'seller', select: 'fullName' }
+    })
+    .lean<{ wishlist: (Omit<IWishlistItem, 'sourceCode'> & { sourceCode: WishlistSourceCode | null })[] }>() || {};
+
+  const items = wishlist
+    .filter((item) => item.sourceCode) // Deleted listings silently drop out
+    .sort((a, b) => new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime())
+    .map((item) => {
+      const sourceCode = item.sourceCode!;
+      const sale = getActiveSale(sourceCode.sales);
+      return {
+        sourceCodeId: sourceCode._id.toString(),
+        sourceId: sourceCode.sourceId,
+        title: sourceCode.title,
+        thumbnail: sourceCode.thumbnail,
+        sellerName: sourceCode.seller?.fullName || '',
+        isActive: sourceCode.isActive,
+        listPrice: sourceCode.price,
+        price: getEffectivePrice(sourceCode),
+        sale: sale ? { percentOff: sale.percentOff, endsAt: sale.endsAt } : null,
+        addedPrice: item.addedPrice,
+        addedAt: item.addedAt
+      };
+    });
+
+  return json({ items });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const formData = await request.formData();
+  const action = formData.get("_action") as string;
+
+  try {
+    await connectToDatabase();
+
+    switch (action) {
+      case "remove-item": {
+        await removeFromWishlist(user, formData.get("sourceCodeId") as string);
+        return json({ success: true, message: "Đã bỏ khỏi danh sách yêu thích" });
+      }
+
+      default:
+        return json({ error: "Hành động không hợp lệ" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Wishlist action error:", error);
+    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
+  }
+}
+
+export default function Wishlist() {
+  const { items } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          ❤️ Yêu thích
+        </h1>
+        <p className="text-gray-600">
+          Lưu mã nguồn để mua sau. Bạn sẽ nhận thông báo và email khi mã nguồn giảm giá hoặc có khuyến mãi.
+        </p>
+      </div>
+
+      {actionData && 'error' in actionData && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {actionData.error}
+        </div>
+      )}
+      {actionData && 'success' in actionData && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
+          {actionData.message}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center">
+          <div className="text-6xl mb-4">🤍</div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Chưa có mã nguồn yêu thích</h3>
+          <p className="text-gray-600 mb-6">Nhấn vào biểu tượng trái tim trên mã nguồn để lưu lại</p>
+          <Link
+            to="/browse"
+            className="inline-block bg-gradient-to-r from-teal-500 to-blue-600 text-white px-6 py-3 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium"
+          >
+            🔍 Khám phá mã nguồn
+          </Link>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md divide-y divide-gray-200">
+          {items.map((item) => (
+            <div key={item.sourceCodeId} className="p-4 flex items-center space-x-4">
+              <img
+                src={item.thumbnail}
+                alt={item.title}
+                className="w-20 h-14 object-cover rounded-lg flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <Link to={`/source/${item.sourceId}`} className="font-medium text-gray-900 hover:text-teal-600 line-clamp-1">
+                  {item.title}
+                </Link>
+                <p className="text-sm text-gray-500">
+                  {item.sellerName} • Thêm ngày {new Date(item.addedAt).toLocaleDateString('vi-VN')}
+                </p>
+                {!item.isActive && (
+                  <p className="text-sm text-red-600 mt-1">⚠️ Mã nguồn đã ngừng bán</p>
+                )}
+                {item.isActive && item.sale && (
+                  <p className="text-sm text-red-600 mt-1">
+                    🔥 Giảm {item.sale.percentOff}% đến {new Date(item.sale.endsAt).toLocaleString('vi-VN')}
+                  </p>
+                )}
+                {item.isActive && item.price < item.addedPrice && (
+                  <p className="text-sm text-green-600 mt-1">
+                    📉 Rẻ hơn {(item.addedPrice - item.price).toLocaleString('vi-VN')} xu so với lúc bạn thêm
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                {item.listPrice > item.price && (
+                  <div className="text-xs text-gray-400 line-through">{item.listPrice.toLocaleString('vi-VN')} xu</div>
+                )}
+                <div className={`font-semibold ${item.isActive ? 'text-teal-600' : 'text-gray-400 line-through'}`}>
+                  {item.price.toLocaleString('vi-VN')} xu
+                </div>
+                <Form method="post">
+                  <input type="hidden" name="_action" value="remove-item" />
+                  <input type="hidden" name="sourceCodeId" value={item.sourceCodeId} />
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="text-sm text-red-600 hover:text-red-700 mt-1 disabled:opacity-50"
+                  >
+                    🗑️ Bỏ
+                  </button>
+                </Form>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
-import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
 import { useState } from "react";
-import { connectToDatabase } from "~/lib/db/connection";
+import { connectToDatabase, withTransaction } from "~/lib/db/connection";
 import { Payment } from "~/lib/db/models";
 import { requireAuth, generatePaymentId } from "~/lib/auth";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { holdWithdrawal, InsufficientBalanceError } from "~/lib/ledger";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireAuth(request);
@@ -22,78 +24,91 @@ export async function loader({ request }: LoaderFunctionArgs) {
     user: {
       userId: user.userId,
       fullName: user.fullName,
-      balance: user.balance
+      balance: user.balance,
+      heldBalance: user.heldBalance || 0,
+      pendingBalance: user.pendingBalance || 0
     },
-    recentWithdrawals 
+    recentWithdrawals,
+    idempotencyKey: generateIdempotencyKey()
   });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
   const user = await requireAuth(request);
   const formData = await request.formData();
-  
-  const amount = parseInt(formData.get("amount") as string);
-  const accountName = formData.get("accountName") as string;
-  const accountNumber = formData.get("accountNumber") as string;
-  const bankName = formData.get("bankName") as string;
-  const note = formData.get("note") as string;
-
-  try {
-    if (!amount || amount < 50000) {
-      return json({ error: "Số tiền rút tối thiểu là 50,000 xu" }, { status: 400 });
-    }
 
-    if (!accountName || !accountNumber || !bankName) {
-      return json({ error: "Vui lòng nhập đầy đủ thông tin ngân hàng" }, { status: 400 });
-    }
+  await connectToDatabase();
 
-    if (user.balance < amount) {
-      return json({ error: "Số dư không đủ để thực hiện giao dịch" }, { status: 400 });
+  // A resubmitted form replays the first response instead of holding funds twice
+  return withIdempotency({ request, formData, user: user._id, scope: 'withdrawal' }, async () => {
+    const amount = parseInt(formData.get("amount") as string);
+    const accountName = formData.get("accountName") as string;
+    const accountNumber = formData.get("accountNumber") as string;
+    const bankName = formData.get("bankName") as string;
+    const note = formData.get("note") as string;
+
+    try {
+      if (!amount || amount < 50000) {
+        return json({ error: "Số tiền rút tối thiểu là 50,000 xu" }, { status: 400 });
+      }
+
+      if (!accountName || !accountNumber || !bankName) {
+        return json({ error: "Vui lòng nhập đầy đủ thông tin ngân hàng" }, { status: 400 });
+      }
+
+      if (user.balance < amount) {
+        return json({ error: "Số dư không đủ để thực hiện giao dịch" }, { status: 400 });
+      }
+
+      // Generate unique payment ID
+      let paymentId: string;
+      let isPaymentIdUnique = false;
+      do {
+        paymentId = generatePaymentId();
+        const existingPayment = await Payment.findOne({ paymentId });
+        isPaymentIdUnique = !existingPayment;
+      } while (!isPaymentIdUnique);
+
+      // Create withdrawal request and lock the funds until an admin processes it
+      await withTransaction(async (session) => {
+        const payment = new Payment({
+          paymentId,
+          user: user._id,
+          type: 'withdrawal',
+          amount,
+          status: 'pending',
+          bankInfo: {
+            accountName: accountName.trim(),
+            accountNumber: accountNumber.trim(),
+            bankName: bankName.trim()
+          },
+          note: note?.trim() || `Rút xu - ${user.userId}`,
+          fundsHeld: true
+        });
+
+        await payment.save({ session });
+        await holdWithdrawal(payment, session);
+      });
+
+      return json({ 
+        success: true, 
+        paymentId,
+        amount,
+        message: "Yêu cầu rút xu đã được tạo thành công!" 
+      });
+
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return json({ error: "Số dư không đủ để thực hiện giao dịch" }, { status: 400 });
+      }
+      console.error("Withdrawal error:", error);
+      return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
     }
-
-    await connectToDatabase();
-
-    // Generate unique payment ID
-    let paymentId: string;
-    let isPaymentIdUnique = false;
-    do {
-      paymentId = generatePaymentId();
-      const existingPayment = await Payment.findOne({ paymentId });
-      isPaymentIdUnique = !existingPayment;
-    } while (!isPaymentIdUnique);
-
-    // Create withdrawal request
-    const payment = new Payment({
-      paymentId,
-      user: user._id,
-      type: 'withdrawal',
-      amount,
-      status: 'pending',
-      bankInfo: {
-        accountName: accountName.trim(),
-        accountNumber: accountNumber.trim(),
-        bankName: bankName.trim()
-      },
-      note: note?.trim() || `Rút xu - ${user.userId}`
-    });
-
-    await payment.save();
-
-    return json({ 
-      success: true, 
-      paymentId,
-      amount,
-      message: "Yêu cầu rút xu đã được tạo thành công!" 
-    });
-
-  } catch (error) {
-    console.error("Withdrawal error:", error);
-    return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
-  }
+  });
 }
 
 export default function Withdraw() {
-  const { user, recentWithdrawals } = useLoaderData<typeof loader>();
+  const { user, recentWithdrawals, idempotencyKey } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const [formData, setFormData] = useState({
@@ -207,6 +222,7 @@ export default function Withdraw() {
             <h3 className="text-lg font-semibold text-gray-900 mb-6">💰 Thông tin rút xu</h3>
             
             <Form method="post" className="space-y-6">
+              <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
               {actionData?.error && (
                 <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
                   {actionData.error}
@@ -405,8 +421,20 @@ export default function Withdraw() {
               <div className="text-3xl font-bold text-green-600 mb-2">
                 {user.balance.toLocaleString('vi-VN')}
               </div>
-              <div className="text-gray-600">xu</div>
+              <div className="text-gray-600">xu khả dụng</div>
             </div>
+            {user.heldBalance > 0 && (
+              <div className="mt-4 pt-4 border-t border-green-200 flex justify-between text-sm">
+                <span className="text-gray-600">⏳ Đang tạm giữ:</span>
+                <span className="font-medium text-yellow-700">{user.heldBalance.toLocaleString('vi-VN')} xu</span>
+              </div>
+            )}
+            {user.pendingBalance > 0 && (
+              <div className="mt-2 flex justify-between text-sm">
+                <Link to="/dashboard/earnings" className="text-gray-600 hover:underline">🔒 Doanh thu chờ đối soát:</Link>
+                <span className="font-medium text-gray-700">{user.pendingBalance.toLocaleString('vi-VN')} xu</span>
+              </div>
+            )}
           </div>
 
           {/* Withdrawal Info */}
@@ -466,6 +494,7 @@ export default function Withdraw() {
             <ul className="space-y-2 text-sm text-red-800">
               <li>• Kiểm tra kỹ thông tin ngân hàng trước khi gửi</li>
               <li>• Tên chủ tài khoản phải chính xác</li>
+              <li>• Số xu rút sẽ được tạm giữ cho đến khi yêu cầu được xử lý</li>
               <li>• Không thể hủy sau khi đã gửi yêu cầu</li>
               <li>• Liên hệ support nếu có vấn đề</li>
             </ul>
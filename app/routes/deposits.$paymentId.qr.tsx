@@ -0,0 +1,41 @@
+import { type LoaderFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Payment } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { getDepositBankAccount, buildVietQrPayload, renderQrSvg, renderQrPng } from "~/lib/vietqr";
+
+// VietQR image for one pending bank-transfer deposit, as SVG or ?format=png
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  await connectToDatabase();
+
+  const payment = await Payment.findOne({
+    paymentId: params.paymentId,
+    user: user._id,
+    type: 'deposit',
+    status: 'pending',
+    gateway: null
+  });
+
+  if (!payment) {
+    throw new Response("Không tìm thấy yêu cầu nạp xu", { status: 404 });
+  }
+
+  const payload = buildVietQrPayload({
+    account: getDepositBankAccount(),
+    amount: payment.amount,
+    memo: payment.paymentId
+  });
+
+  const headers = { "Cache-Control": "private, max-age=3600" };
+
+  if (new URL(request.url).searchParams.get("format") === "png") {
+    return new Response(await renderQrPng(payload), {
+      headers: { ...headers, "Content-Type": "image/png" }
+    });
+  }
+
+  return new Response(await renderQrSvg(payload), {
+    headers: { ...headers, "Content-Type": "image/svg+xml" }
+  });
+}
@@ -0,0 +1,52 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { requireAuth } from "~/lib/auth";
+import {
+  findDownloadablePurchase,
+  resolveDownloadVersion,
+  createSignedDownloadUrl,
+  verifySignedDownload,
+  serveDownload,
+  DownloadError
+} from "~/lib/downloads";
+
+// Buyers hit /downloads/<purchaseId> and are redirected to a short-lived signed URL that streams the archive
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const purchaseId = params.purchaseId || "";
+  const url = new URL(request.url);
+  const requestedVersion = parseInt(url.searchParams.get("version") || "");
+  const versionNumber = Number.isNaN(requestedVersion) ? undefined : requestedVersion;
+
+  if (!url.searchParams.has("signature")) {
+    const user = await requireAuth(request);
+
+    let resolvedVersionNumber: number | undefined;
+    try {
+      await connectToDatabase();
+      const purchase = await findDownloadablePurchase(purchaseId, user);
+      resolvedVersionNumber = (await resolveDownloadVersion(purchase, versionNumber))?.versionNumber;
+    } catch (error) {
+      if (error instanceof DownloadError) {
+        return redirect(`/dashboard/purchases?downloadError=${encodeURIComponent(error.message)}`);
+      }
+      throw error;
+    }
+
+    return redirect(createSignedDownloadUrl(purchaseId, resolvedVersionNumber));
+  }
+
+  if (!verifySignedDownload(purchaseId, versionNumber, url.searchParams.get("expires"), url.searchParams.get("signature"))) {
+    return new Response("Link tải không hợp lệ hoặc đã hết hạn", { status: 403 });
+  }
+
+  try {
+    await connectToDatabase();
+    return await serveDownload(purchaseId, versionNumber);
+  } catch (error) {
+    if (error instanceof DownloadError) {
+      return new Response(error.message, { status: error.status });
+    }
+    console.error("Download error:", error);
+    return new Response("Đã có lỗi xảy ra, vui lòng thử lại", { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { type LoaderFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { requireAuth } from "~/lib/auth";
+import { findInvoiceForUser, renderInvoicePdf, invoiceFileName, InvoiceError } from "~/lib/invoices";
+
+// PDF copy of one invoice, rendered on the fly from the stored document
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+
+  try {
+    await connectToDatabase();
+    const invoice = await findInvoiceForUser(params.invoiceNumber || "", user);
+
+    return new Response(renderInvoicePdf(invoice), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${invoiceFileName(invoice)}"`,
+        "Cache-Control": "private, max-age=3600"
+      }
+    });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return new Response(error.message, { status: error.status });
+    }
+    console.error("Invoice PDF error:", error);
+    return new Response("Đã có lỗi xảy ra, vui lòng thử lại", { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, Link } from "@remix-run/react";
+import { connectToDatabase } from "~/lib/db/connection";
+import { requireAuth } from "~/lib/auth";
+import { findInvoiceForUser, describeInvoiceType, describeInvoiceReference, InvoiceError } from "~/lib/invoices";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+
+  try {
+    await connectToDatabase();
+    const invoice = await findInvoiceForUser(params.invoiceNumber || "", user);
+
+    return json({
+      invoice: {
+        invoiceNumber: invoice.invoiceNumber,
+        title: describeInvoiceType(invoice.type),
+        reference: describeInvoiceReference(invoice),
+        billedTo: invoice.billedTo,
+        lines: invoice.lines.map((line) => ({ description: line.description, detail: line.detail, amount: line.amount })),
+        totalAmount: invoice.totalAmount,
+        issuedAt: invoice.issuedAt
+      }
+    });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      throw new Response(error.message, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export default function InvoicePage() {
+  const { invoice } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 print:bg-white print:p-0">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between mb-4 print:hidden">
+          <Link to="/dashboard/transactions" className="text-teal-600 hover:text-teal-700 font-medium">
+            ← Lịch sử giao dịch
+          </Link>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => window.print()}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              🖨️ In
+            </button>
+            <a
+              href={`/invoices/${invoice.invoiceNumber}/pdf`}
+              className="bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium"
+            >
+              📄 Tải PDF
+            </a>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-10 print:shadow-none print:rounded-none">
+          <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4 mb-6">
+            <div>
+              <div className="text-2xl font-bold text-gray-900">SourceCode4U</div>
+              <div className="text-sm text-gray-500">Chợ mã nguồn trực tuyến</div>
+            </div>
+            <div className="text-right">
+              <div className="text-xl font-bold text-gray-900">HÓA ĐƠN</div>
+              <div className="text-sm text-gray-600">Số: {invoice.invoiceNumber}</div>
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-3 gap-y-2 text-sm mb-8">
+            <dt className="font-semibold text-gray-700">Loại</dt>
+            <dd className="col-span-2 text-gray-900">{invoice.title}</dd>
+            <dt className="font-semibold text-gray-700">Ngày phát hành</dt>
+            <dd className="col-span-2 text-gray-900">{new Date(invoice.issuedAt).toLocaleString('vi-VN')}</dd>
+            <dt className="font-semibold text-gray-700">Tham chiếu</dt>
+            <dd className="col-span-2 text-gray-900">{invoice.reference}</dd>
+            <dt className="font-semibold text-gray-700">Khách hàng</dt>
+            <dd className="col-span-2 text-gray-900">{invoice.billedTo.fullName} ({invoice.billedTo.userId})</dd>
+            <dt className="font-semibold text-gray-700">Email</dt>
+            <dd className="col-span-2 text-gray-900">{invoice.billedTo.email}</dd>
+          </dl>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-900">
+                <th className="py-2 text-left font-semibold text-gray-700 w-12">STT</th>
+                <th className="py-2 text-left font-semibold text-gray-700">Nội dung</th>
+                <th className="py-2 text-right font-semibold text-gray-700">Thành tiền</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.lines.map((line, index) => (
+                <tr key={index} className="border-b border-gray-200">
+                  <td className="py-3 align-top text-gray-900">{index + 1}</td>
+                  <td className="py-3">
+                    <div className="text-gray-900">{line.description}</div>
+                    {line.detail && <div className="text-xs text-gray-500">{line.detail}</div>}
+                  </td>
+                  <td className="py-3 align-top text-right text-gray-900 whitespace-nowrap">
+                    {line.amount.toLocaleString('vi-VN')} xu
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={2} className="pt-4 text-right font-bold text-gray-900">Tổng cộng</td>
+                <td className="pt-4 text-right font-bold text-teal-600 whitespace-nowrap">
+                  {invoice.totalAmount.toLocaleString('vi-VN')} xu
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <p className="text-xs text-gray-500 mt-10 pt-4 border-t border-gray-200">
+            Hóa đơn được tạo tự động bởi SourceCode4U. 1 xu tương đương 1 VND.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
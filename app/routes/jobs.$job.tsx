@@ -0,0 +1,24 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { getJob, isAuthorizedJobRequest } from "~/lib/jobs";
+
+// e.g. curl -X POST -H "Authorization: Bearer $CRON_SECRET" https://<host>/jobs/release-earnings
+export async function action({ request, params }: ActionFunctionArgs) {
+  const job = getJob(params.job || "");
+  if (!job) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  if (!isAuthorizedJobRequest(request)) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    await connectToDatabase();
+    const result = await job(new URL(request.url).origin);
+    return json({ job: params.job, ...result });
+  } catch (error) {
+    console.error(`Job ${params.job} error:`, error);
+    return json({ job: params.job, error: "Job failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { verifyLicenseKey } from "~/lib/license-keys";
+
+// Sellers call this from their own software, which may run in a browser on another origin
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+  "Cache-Control": "no-store"
+};
+
+// Keys arrive as ?key=...&sourceId=... on GET, or as a JSON or form body on POST
+const readVerifyParams = async (request: Request): Promise<{ key: string; sourceId: string | null }> => {
+  if (request.method === "GET") {
+    const url = new URL(request.url);
+    return { key: url.searchParams.get("key") || "", sourceId: url.searchParams.get("sourceId") };
+  }
+
+  const contentType = request.headers.get("Content-Type") || "";
+  const body = contentType.includes("application/json")
+    ? await request.json().catch(() => ({}))
+    : Object.fromEntries(await request.formData());
+
+  return {
+    key: typeof body.key === "string" ? body.key : "",
+    sourceId: typeof body.sourceId === "string" ? body.sourceId : null
+  };
+};
+
+const handleVerify = async (request: Request) => {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  try {
+    const { key, sourceId } = await readVerifyParams(request);
+    if (!key) {
+      return json({ valid: false, error: "Thiếu khóa bản quyền" }, { status: 400, headers: CORS_HEADERS });
+    }
+
+    await connectToDatabase();
+    const result = await verifyLicenseKey(key, sourceId);
+    return json(result, { status: result.status === "not_found" ? 404 : 200, headers: CORS_HEADERS });
+  } catch (error) {
+    console.error("License verification error:", error);
+    return json({ valid: false, error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500, headers: CORS_HEADERS });
+  }
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  return handleVerify(request);
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  return handleVerify(request);
+}
@@ -0,0 +1,39 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { Payment } from "~/lib/db/models";
+import { requireAuth } from "~/lib/auth";
+import { getGateway, InvalidGatewaySignatureError } from "~/lib/gateways";
+
+// Where the provider sends the user back; the IPN webhook is what actually credits the deposit
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireAuth(request);
+  const gateway = getGateway(params.gateway || "");
+  if (!gateway) {
+    throw new Response("Không tìm thấy cổng thanh toán", { status: 404 });
+  }
+
+  const query = Object.fromEntries(new URL(request.url).searchParams);
+
+  try {
+    const callback = gateway.parseCallback(query);
+
+    await connectToDatabase();
+    const payment = await Payment.findOne({ paymentId: callback.paymentId, user: user._id });
+
+    let status = 'processing';
+    if (!payment) {
+      status = 'invalid';
+    } else if (payment.status === 'approved') {
+      status = 'success';
+    } else if (payment.status === 'rejected' || !callback.success) {
+      status = 'failed';
+    }
+
+    return redirect(`/dashboard/deposit?gatewayStatus=${status}&paymentId=${callback.paymentId}`);
+  } catch (error) {
+    if (error instanceof InvalidGatewaySignatureError) {
+      return redirect("/dashboard/deposit?gatewayStatus=invalid");
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,131 @@
+import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
+import { requireAuth } from "~/lib/auth";
+import { getGateway } from "~/lib/gateways";
+import { verifyMockParams, buildMockCallback } from "~/lib/gateways/mock";
+
+const CHECKOUT_FIELDS = ["paymentId", "amount", "returnUrl", "ipnUrl", "signature"];
+
+const requireMockGateway = () => {
+  if (!getGateway("mock")) {
+    throw new Response("Không tìm thấy cổng thanh toán", { status: 404 });
+  }
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAuth(request);
+  requireMockGateway();
+
+  const checkout = Object.fromEntries(new URL(request.url).searchParams);
+  if (!verifyMockParams(checkout)) {
+    throw new Response("Chữ ký không hợp lệ", { status: 400 });
+  }
+
+  return json({ checkout });
+}
+
+// Plays the provider's part: notify the webhook server-to-server, then send the user back
+export async function action({ request }: ActionFunctionArgs) {
+  await requireAuth(request);
+  requireMockGateway();
+
+  const formData = await request.formData();
+  const checkout = Object.fromEntries(
+    CHECKOUT_FIELDS.map((field) => [field, (formData.get(field) as string) || ""])
+  );
+
+  if (!verifyMockParams(checkout)) {
+    return json({ error: "Chữ ký không hợp lệ" }, { status: 400 });
+  }
+
+  const callback = buildMockCallback(checkout.paymentId, checkout.amount, formData.get("result") === "success");
+
+  try {
+    const response = await fetch(checkout.ipnUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(callback)
+    });
+
+    if (!response.ok) {
+      return json({ error: `Webhook trả về lỗi ${response.status}` }, { status: 502 });
+    }
+  } catch (error) {
+    console.error("Mock gateway IPN error:", error);
+    return json({ error: "Không gửi được thông báo thanh toán tới webhook" }, { status: 502 });
+  }
+
+  return redirect(`${checkout.returnUrl}?${new URLSearchParams(callback).toString()}`);
+}
+
+export default function MockGateway() {
+  const { checkout } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <Link to="/" className="inline-flex items-center space-x-2 mb-6">
+            <div className="w-10 h-10 bg-gradient-to-r from-teal-500 to-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold">S4U</span>
+            </div>
+            <span className="text-2xl font-bold text-gray-900">SourceCode4U</span>
+          </Link>
+
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">
+            🧪 Cổng thanh toán thử nghiệm
+          </h2>
+          <p className="text-gray-600">
+            Không có tiền thật được chuyển. Chọn kết quả để mô phỏng thông báo từ nhà cung cấp.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          {actionData?.error && (
+            <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+              {actionData.error}
+            </div>
+          )}
+
+          <div className="space-y-3 text-sm mb-6">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Mã giao dịch:</span>
+              <span className="font-medium">{checkout.paymentId}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Số tiền:</span>
+              <span className="font-bold text-teal-600">{parseInt(checkout.amount).toLocaleString('vi-VN')} VND</span>
+            </div>
+          </div>
+
+          <Form method="post" className="flex space-x-4">
+            {CHECKOUT_FIELDS.map((field) => (
+              <input key={field} type="hidden" name={field} value={checkout[field]} />
+            ))}
+            <button
+              type="submit"
+              name="result"
+              value="failed"
+              disabled={isSubmitting}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+            >
+              ❌ Thất bại
+            </button>
+            <button
+              type="submit"
+              name="result"
+              value="success"
+              disabled={isSubmitting}
+              className="flex-1 bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? "Đang xử lý..." : "✅ Thanh toán"}
+            </button>
+          </Form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,14 +2,46 @@ import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-r
 import { useLoaderData, useActionData, Link, Form, useNavigation } from "@remix-run/react";
 import { useState, useEffect } from "react";
 import { connectToDatabase } from "~/lib/db/connection";
-import { SourceCode, User, Purchase, Review, Comment } from "~/lib/db/models";
-import { getUserFromRequest, generatePurchaseId } from "~/lib/auth";
+import {
+  SourceCode,
+  SourceCodeVersion,
+  Purchase,
+  Review,
+  Comment,
+  Bundle,
+  SubscriptionPlan,
+  type ISourceCode,
+  type ISourceCodeVersion,
+  type IPurchase,
+  type IBundle,
+  type IOrganization,
+  type ISubscription,
+  type ISubscriptionPlan,
+  type IUser
+} from "~/lib/db/models";
+import { getUserFromRequest } from "~/lib/auth";
 import { sendPurchaseNotificationEmail } from "~/lib/email";
+import { purchaseSourceCode, CheckoutError } from "~/lib/checkout";
+import { withIdempotency, generateIdempotencyKey, IDEMPOTENCY_KEY_FIELD } from "~/lib/idempotency";
+import { findVersions, formatFileSize } from "~/lib/archives";
+import { buildFileTree, type FileTreeNode } from "~/lib/previews";
+import { highlight, languageForPath, type TokenKind } from "~/lib/highlight";
+import { getSellableTiers, findSellableTier, describeAccess, describeUpdates, LicenseError } from "~/lib/licenses";
+import { addToCart, CartError } from "~/lib/cart";
+import { addToWishlist, removeFromWishlist, isInWishlist, WishlistError } from "~/lib/wishlist";
+import { emailInvoice } from "~/lib/invoices";
+import { quoteCoupon, describeCoupon, CouponError } from "~/lib/coupons";
+import { getActiveSale, getPriceHistory, PRICE_HISTORY_DAYS } from "~/lib/pricing";
+import { subscribe, claimSubscriptionAccess, findLiveSubscription, getAccessEnd, SubscriptionError } from "~/lib/subscriptions";
+import { parseGiftInput, notifyGiftRecipient, GiftError, MAX_GIFT_MESSAGE_LENGTH } from "~/lib/gifts";
+import { findMemberOrganizationIds, findSpendableOrganizations, requireMembership, OrganizationError } from "~/lib/organizations";
 
 export async function loader({ params, request }: LoaderFunctionArgs) {
   await connectToDatabase();
   
+  // Archives are only reachable through the signed download route; inspection findings are for moderators
   const sourceCode = await SourceCode.findOne({ sourceId: params.sourceId })
+    .select('-sourceLink -inspection.findings -inspection.reviewedBy -inspection.reviewedAt')
     .populate('seller', 'fullName avatar userId email')
     .lean();
 
@@ -28,10 +60,19 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
   let purchaseInfo = null;
   
   if (currentUser) {
+    // The user's own copy, or one bought by an organization they belong to; their own sorts first
     const purchase = await Purchase.findOne({ 
-      buyer: currentUser._id, 
-      sourceCode: sourceCode._id 
-    }).lean();
+      sourceCode: sourceCode._id,
+      status: { $ne: 'refunded' },
+      subscription: { $exists: false },
+      $or: [
+        { buyer: currentUser._id, organization: { $exists: false } },
+        { organization: { $in: await findMemberOrganizationIds(currentUser._id) } }
+      ]
+    })
+      .sort({ organization: 1 })
+      .populate('organization', 'name')
+      .lean<Pick<IPurchase, 'purchaseId' | 'createdAt' | 'accessExpiresAt' | 'license'> & { organization?: Pick<IOrganization, 'name'> }>();
     
     if (purchase) {
       hasPurchased = true;
@@ -39,13 +80,15 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
         purchaseId: purchase.purchaseId,
         purchaseDate: purchase.createdAt,
         accessExpiresAt: purchase.accessExpiresAt,
-        canAccess: new Date() < new Date(purchase.accessExpiresAt)
+        licenseName: purchase.license?.name,
+        organizationName: purchase.organization?.name || null,
+        canAccess: !purchase.accessExpiresAt || new Date() < new Date(purchase.accessExpiresAt)
       };
     }
   }
 
-  // Get reviews and comments
-  const [reviews, comments] = await Promise.all([
+  // Get reviews, comments and the release history
+  const [reviews, comments, versions] = await Promise.all([
     Review.find({ sourceCode: sourceCode._id })
       .populate('buyer', 'fullName avatar')
       .sort({ createdAt: -1 })
@@ -57,7 +100,8 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
         populate: { path: 'user', select: 'fullName avatar' }
       })
       .sort({ createdAt: -1 })
-      .lean()
+      .lean(),
+    findVersions(sourceCode._id)
   ]);
 
   // Get related sources
@@ -70,6 +114,81 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
   .limit(4)
   .lean();
 
+  // Summary of the automated inspection of the current version
+  const { _id: sourceCodeId, seller, inspection, currentVersion, licenseTiers, price, sales, createdAt } = sourceCode as unknown as Pick<
+    ISourceCode, '_id' | 'inspection' | 'currentVersion' | 'licenseTiers' | 'price' | 'sales' | 'createdAt'
+  > & { seller: Pick<IUser, '_id'> };
+  const techStack = inspection ? {
+    linesOfCode: inspection.linesOfCode,
+    languages: inspection.languages.slice(0, 4).map((language) => language.name),
+    frameworks: inspection.frameworks
+  } : null;
+
+  // Bundles this listing can also be bought in
+  const bundles = await Bundle.find({ sourceCodes: sourceCodeId, isActive: true })
+    .select('bundleId title price sourceCodes')
+    .sort({ purchases: -1 })
+    .limit(3)
+    .lean<Pick<IBundle, 'bundleId' | 'title' | 'price' | 'sourceCodes'>[]>();
+
+  // A subscription to the seller opens this listing without buying it
+  const plan = await SubscriptionPlan.findOne({ seller: seller._id, isActive: true })
+    .select('price description')
+    .lean<Pick<ISubscriptionPlan, 'price' | 'description'>>();
+  const planListingCount = plan ? await SourceCode.countDocuments({ seller: seller._id, isActive: true }) : 0;
+  let subscription = null;
+  if (currentUser && !hasPurchased) {
+    const live = await findLiveSubscription(currentUser._id, seller._id)
+      .select('status currentPeriodEnd graceEndsAt endedAt cancelAtPeriodEnd')
+      .lean<Pick<ISubscription, '_id' | 'status' | 'currentPeriodEnd' | 'graceEndsAt' | 'endedAt' | 'cancelAtPeriodEnd'>>();
+    if (live) {
+      const grant = await Purchase.findOne({ buyer: currentUser._id, sourceCode: sourceCodeId, subscription: live._id })
+        .select('purchaseId')
+        .lean<Pick<IPurchase, 'purchaseId'>>();
+      subscription = {
+        status: live.status,
+        accessUntil: getAccessEnd(live),
+        cancelAtPeriodEnd: live.cancelAtPeriodEnd,
+        purchaseId: grant?.purchaseId || null
+      };
+    }
+  }
+
+  // Tiers on sale, cheapest first; retired tiers only matter to past buyers
+  const licenses = getSellableTiers({ price, licenseTiers, sales }).map((tier) => ({
+    _id: tier._id?.toString() || '',
+    name: tier.name,
+    description: tier.description,
+    price: tier.price,
+    listPrice: tier.listPrice,
+    access: describeAccess(tier.accessDays),
+    updates: describeUpdates(tier.updateDays),
+    commercialUse: tier.commercialUse
+  }));
+
+  // Only the running sale is shown; upcoming ones stay private so buyers don't hold off
+  const activeSale = getActiveSale(sales);
+  delete (sourceCode as { sales?: unknown }).sales;
+  const priceHistory = await getPriceHistory({ _id: sourceCodeId, price, sales, createdAt });
+
+  // File names and the seller's chosen excerpts only; the archive itself stays behind the purchase
+  const previewSource = currentVersion
+    ? await SourceCodeVersion.findById(currentVersion)
+      .select('files filesTruncated previews')
+      .lean<Pick<ISourceCodeVersion, 'files' | 'filesTruncated' | 'previews'>>()
+    : null;
+  const codePreview = previewSource ? {
+    fileTree: buildFileTree(previewSource.files),
+    fileCount: previewSource.files.length,
+    filesTruncated: previewSource.filesTruncated,
+    previews: previewSource.previews.map((preview) => ({
+      path: preview.path,
+      language: languageForPath(preview.path),
+      truncated: preview.truncated,
+      lines: highlight(preview.content, preview.path)
+    }))
+  } : null;
+
   return json({
     sourceCode: {
       ...sourceCode,
@@ -84,9 +203,29 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
     } : null,
     hasPurchased,
     purchaseInfo,
+    inCart: !!currentUser?.cart?.some((item) => item.sourceCode.toString() === sourceCodeId.toString()),
+    inWishlist: isInWishlist(currentUser, sourceCodeId),
     reviews,
     comments,
-    relatedSources
+    versions,
+    techStack,
+    codePreview,
+    licenses,
+    sale: activeSale ? { percentOff: activeSale.percentOff, endsAt: activeSale.endsAt } : null,
+    priceHistory,
+    priceHistoryDays: PRICE_HISTORY_DAYS,
+    relatedSources,
+    bundles: bundles.map((bundle) => ({
+      bundleId: bundle.bundleId,
+      title: bundle.title,
+      price: bundle.price,
+      itemCount: bundle.sourceCodes.length
+    })),
+    subscriptionPlan: plan ? { price: plan.price, description: plan.description, listingCount: planListingCount } : null,
+    subscription,
+    maxGiftMessageLength: MAX_GIFT_MESSAGE_LENGTH,
+    organizations: currentUser ? await findSpendableOrganizations(currentUser._id) : [],
+    idempotencyKey: generateIdempotencyKey()
   });
 }
 
@@ -111,80 +250,142 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
     switch (action) {
       case "purchase": {
-        // Check if user has enough balance
-        if (currentUser.balance < sourceCode.price) {
-          return json({ error: "Số dư không đủ để mua mã nguồn này" }, { status: 400 });
-        }
+        // Double-clicks and retried requests replay the first purchase result
+        return withIdempotency({
+          request,
+          formData,
+          user: currentUser._id,
+          scope: `purchase:${sourceCode.sourceId}`
+        }, async () => {
+          const gift = await parseGiftInput(formData, currentUser);
+          const orgId = formData.get("organization") as string | null;
+          const organization = orgId
+            ? (await requireMembership(orgId, currentUser, ['owner', 'purchaser'])).organization
+            : undefined;
+
+          // Balance check, debit, credit and Purchase creation are one transaction
+          const { purchases: [purchase], invoice } = await purchaseSourceCode({
+            buyer: currentUser,
+            sourceCode,
+            tierId: formData.get("licenseTier") as string | null,
+            couponCode: (formData.get("couponCode") as string | null)?.trim() || null,
+            gift,
+            organization
+          });
 
-        // Check if already purchased
-        const existingPurchase = await Purchase.findOne({
-          buyer: currentUser._id,
-          sourceCode: sourceCode._id
+          // Send notification email to seller
+          try {
+            await sendPurchaseNotificationEmail(
+              sourceCode.seller.email,
+              currentUser.fullName,
+              sourceCode.title,
+              purchase.amount,
+              purchase.sellerEarnings,
+              purchase.earningsReleaseAt
+            );
+          } catch (emailError) {
+            console.error("Failed to send notification email:", emailError);
+          }
+
+          try {
+            await emailInvoice(invoice, new URL(request.url).origin);
+          } catch (emailError) {
+            console.error("Failed to send invoice email:", emailError);
+          }
+
+          if (gift) {
+            await notifyGiftRecipient(purchase, { sender: currentUser, recipient: gift.recipient, sourceCode }, new URL(request.url).origin);
+            return json({
+              success: true,
+              message: `Đã tặng "${sourceCode.title}" cho ${gift.recipient.fullName}!`,
+              giftSent: true,
+              invoiceNumber: invoice.invoiceNumber
+            });
+          }
+
+          return json({ 
+            success: true, 
+            message: organization ? `Mua mã nguồn cho tổ chức "${organization.name}" thành công!` : "Mua mã nguồn thành công!",
+            purchaseId: purchase.purchaseId,
+            invoiceNumber: invoice.invoiceNumber
+          });
         });
+      }
 
-        if (existingPurchase) {
-          return json({ error: "Bạn đã mua mã nguồn này rồi" }, { status: 400 });
+      case "check-coupon": {
+        const code = (formData.get("couponCode") as string | null)?.trim();
+        if (!code) {
+          return json({ error: "Vui lòng nhập mã giảm giá" }, { status: 400 });
         }
 
-        // Generate purchase ID
-        let purchaseId: string;
-        let isPurchaseIdUnique = false;
-        do {
-          purchaseId = generatePurchaseId();
-          const existingPurchaseId = await Purchase.findOne({ purchaseId });
-          isPurchaseIdUnique = !existingPurchaseId;
-        } while (!isPurchaseIdUnique);
-
-        // Calculate amounts
-        const sellerEarnings = Math.floor(sourceCode.price * 0.8);
-        const adminCommission = sourceCode.price - sellerEarnings;
-
-        // Create purchase
-        const purchase = new Purchase({
-          purchaseId,
-          buyer: currentUser._id,
-          sourceCode: sourceCode._id,
-          amount: sourceCode.price,
-          sellerEarnings,
-          adminCommission,
-          accessExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+        // Quoted against the tier currently selected; the purchase re-checks everything at checkout
+        const tier = findSellableTier(sourceCode, formData.get("licenseTier") as string | null);
+        const { coupon, discount, finalPrice } = await quoteCoupon({
+          code,
+          sourceCode,
+          seller: sourceCode.seller._id,
+          price: tier.price,
+          buyer: currentUser._id
         });
 
-        // Update balances and statistics
-        await Promise.all([
-          purchase.save(),
-          User.findByIdAndUpdate(currentUser._id, { $inc: { balance: -sourceCode.price } }),
-          User.findByIdAndUpdate(sourceCode.seller._id, { $inc: { balance: sellerEarnings } }),
-          SourceCode.findByIdAndUpdate(sourceCode._id, { $inc: { purchases: 1 } })
-        ]);
-
-        // Send notification email to seller
-        try {
-          await sendPurchaseNotificationEmail(
-            sourceCode.seller.email,
-            currentUser.fullName,
-            sourceCode.title,
-            sourceCode.price
-          );
-        } catch (emailError) {
-          console.error("Failed to send notification email:", emailError);
-        }
+        return json({
+          success: true,
+          message: `Áp dụng mã ${coupon.code}: ${describeCoupon(coupon)}`,
+          couponQuote: {
+            code: coupon.code,
+            tierId: tier._id?.toString() || '',
+            discount,
+            finalPrice
+          }
+        });
+      }
 
-        return json({ 
-          success: true, 
-          message: "Mua mã nguồn thành công!",
-          purchaseId 
+      case "subscribe": {
+        return withIdempotency({
+          request,
+          formData,
+          user: currentUser._id,
+          scope: `subscribe:${sourceCode.seller._id}`
+        }, async () => {
+          const subscription = await subscribe({ subscriber: currentUser, seller: sourceCode.seller._id, sourceCode });
+          return json({
+            success: true,
+            message: `Đăng ký thành công! Bạn được tải mọi mã nguồn của ${sourceCode.seller.fullName} đến ${subscription.currentPeriodEnd.toLocaleDateString('vi-VN')} và gói sẽ tự động gia hạn hằng tháng.`
+          });
         });
       }
 
+      case "claim-subscription-access": {
+        await claimSubscriptionAccess({ subscriber: currentUser, sourceCode });
+        return json({ success: true, message: "Đã mở mã nguồn qua gói đăng ký" });
+      }
+
+      case "add-to-cart": {
+        await addToCart(currentUser, sourceCode, formData.get("licenseTier") as string | null);
+        return json({ success: true, message: "Đã thêm vào giỏ hàng" });
+      }
+
+      case "add-to-wishlist": {
+        await addToWishlist(currentUser, sourceCode);
+        return json({ success: true, message: "Đã thêm vào danh sách yêu thích. Bạn sẽ được báo khi mã nguồn giảm giá" });
+      }
+
+      case "remove-from-wishlist": {
+        await removeFromWishlist(currentUser, sourceCode._id.toString());
+        return json({ success: true, message: "Đã bỏ khỏi danh sách yêu thích" });
+      }
+
       case "review": {
         const rating = parseInt(formData.get("rating") as string);
         const comment = formData.get("comment") as string;
 
-        // Check if user has purchased this source
+        // Only a paid copy the user still owns counts: refunds don't, and neither does access through a
+        // subscription, which pays for the seller's catalog rather than this listing
         const purchase = await Purchase.findOne({
           buyer: currentUser._id,
-          sourceCode: sourceCode._id
+          sourceCode: sourceCode._id,
+          status: { $ne: 'refunded' },
+          subscription: { $exists: false }
         });
 
         if (!purchase) {
@@ -251,33 +452,119 @@ export async function action({ request, params }: ActionFunctionArgs) {
         return json({ error: "Hành động không hợp lệ" }, { status: 400 });
     }
   } catch (error) {
+    if (error instanceof CheckoutError || error instanceof CartError || error instanceof CouponError || error instanceof LicenseError || error instanceof WishlistError || error instanceof SubscriptionError || error instanceof GiftError || error instanceof OrganizationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
     console.error("Action error:", error);
     return json({ error: "Đã có lỗi xảy ra, vui lòng thử lại" }, { status: 500 });
   }
 }
 
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-400',
+  keyword: 'text-purple-400',
+  number: 'text-orange-300',
+  tag: 'text-blue-400'
+};
+
+function FileTree({ nodes, depth }: { nodes: FileTreeNode[]; depth: number }) {
+  return (
+    <ul className={depth > 0 ? "pl-4 border-l border-gray-100" : ""}>
+      {nodes.map((node) => (
+        <li key={node.path}>
+          {node.children ? (
+            <details open={depth === 0}>
+              <summary className="cursor-pointer py-0.5 text-gray-800 hover:text-teal-600">📁 {node.name}</summary>
+              <FileTree nodes={node.children} depth={depth + 1} />
+            </details>
+          ) : (
+            <div className="flex justify-between py-0.5 text-gray-700">
+              <span className="truncate">📄 {node.name}</span>
+              <span className="text-xs text-gray-400 ml-4 whitespace-nowrap">{formatFileSize(node.size)}</span>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Step line of the cheapest tier's price; the dashed line is the list price while a sale runs
+function PriceHistoryChart({ points }: { points: { at: string; price: number; listPrice: number }[] }) {
+  const width = 300;
+  const height = 120;
+  const padding = 8;
+
+  const times = points.map((point) => new Date(point.at).getTime());
+  const prices = points.flatMap((point) => [point.price, point.listPrice]);
+  const [start, end] = [times[0], times[times.length - 1]];
+  const [low, high] = [Math.min(...prices), Math.max(...prices)];
+
+  const x = (time: number) => padding + (end > start ? (time - start) / (end - start) : 1) * (width - padding * 2);
+  const y = (price: number) => height - padding - (high > low ? (price - low) / (high - low) : 0.5) * (height - padding * 2);
+  const stepPath = (field: 'price' | 'listPrice') => points
+    .map((point, index) => (index === 0 ? `M ${x(times[0])} ${y(point[field])}` : `H ${x(times[index])} V ${y(point[field])}`))
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32" role="img" aria-label="Biểu đồ lịch sử giá">
+      <path d={stepPath('listPrice')} fill="none" stroke="#9ca3af" strokeWidth="1.5" strokeDasharray="4 3" />
+      <path d={stepPath('price')} fill="none" stroke="#0d9488" strokeWidth="2" />
+    </svg>
+  );
+}
+
 export default function SourceDetail() {
   const { 
     sourceCode, 
     currentUser, 
     hasPurchased, 
     purchaseInfo, 
+    inCart,
+    inWishlist,
     reviews, 
     comments, 
-    relatedSources 
+    versions,
+    techStack,
+    codePreview,
+    licenses,
+    sale,
+    priceHistory,
+    priceHistoryDays,
+    relatedSources,
+    bundles,
+    subscriptionPlan,
+    subscription,
+    maxGiftMessageLength,
+    organizations,
+    idempotencyKey
   } = useLoaderData<typeof loader>();
   
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const [activeTab, setActiveTab] = useState("description");
+  const [activePreview, setActivePreview] = useState(0);
+  const [selectedLicense, setSelectedLicense] = useState(0);
   const [showReviewForm, setShowReviewForm] = useState(false);
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [asGift, setAsGift] = useState(false);
   const isSubmitting = navigation.state === "submitting";
 
+  // Start over after a gift goes through so the next click doesn't send a second one
+  useEffect(() => {
+    if (actionData && 'giftSent' in actionData) {
+      setAsGift(false);
+    }
+  }, [actionData]);
+
   const tabs = [
     { id: "description", name: "Mô tả", icon: "📝" },
+    ...(codePreview ? [{ id: "files", name: "Cấu trúc mã nguồn", icon: "📂" }] : []),
     { id: "reviews", name: `Đánh giá (${reviews.length})`, icon: "⭐" },
     { id: "comments", name: `Bình luận (${comments.length})`, icon: "💬" },
+    ...(versions.length > 0 ? [{ id: "versions", name: `Phiên bản (${versions.length})`, icon: "📦" }] : []),
   ];
 
   const formatTimeAgo = (date: string) => {
@@ -294,8 +581,34 @@ export default function SourceDetail() {
   };
 
   const canAccess = purchaseInfo?.canAccess || false;
+  const license = licenses[selectedLicense] || licenses[0];
+  // A checked coupon only shows its price while the tier it was quoted for is selected
+  const checkedCoupon = actionData && 'couponQuote' in actionData
+    ? actionData.couponQuote as { code: string; tierId: string; discount: number; finalPrice: number }
+    : null;
+  const couponQuote = checkedCoupon?.tierId === license._id ? checkedCoupon : null;
   const isOwner = currentUser?._id === sourceCode.seller._id;
 
+  const giftFields = (
+    <div className="space-y-2 pb-2">
+      <input
+        type="text"
+        name="giftRecipient"
+        aria-label="Người nhận quà"
+        placeholder="Email hoặc ID người nhận"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+      />
+      <textarea
+        name="giftMessage"
+        rows={2}
+        maxLength={maxGiftMessageLength}
+        aria-label="Lời nhắn"
+        placeholder="Lời nhắn (không bắt buộc)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+      />
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -330,6 +643,11 @@ export default function SourceDetail() {
         {actionData?.success && (
           <div className="mb-6 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-lg">
             {actionData.message}
+            {'invoiceNumber' in actionData && typeof actionData.invoiceNumber === 'string' && (
+              <Link to={`/invoices/${actionData.invoiceNumber}`} className="block mt-1 font-medium underline">
+                🧾 Xem hóa đơn {actionData.invoiceNumber}
+              </Link>
+            )}
           </div>
         )}
 
@@ -351,7 +669,7 @@ export default function SourceDetail() {
                   className="w-full h-full object-cover"
                 />
                 <div className="absolute top-4 right-4 bg-gradient-to-r from-teal-500 to-blue-600 text-white px-4 py-2 rounded-full text-lg font-bold">
-                  {sourceCode.price.toLocaleString('vi-VN')} xu
+                  {licenses.length > 1 && 'Từ '}{sourceCode.price.toLocaleString('vi-VN')} xu
                 </div>
                 {sourceCode.isAdminPost && (
                   <div className="absolute top-4 left-4 bg-yellow-500 text-white px-3 py-1 rounded-full text-sm font-medium">
@@ -444,22 +762,26 @@ export default function SourceDetail() {
                     {canAccess ? (
                       <div>
                         <a
-                          href={sourceCode.sourceLink}
-                          target="_blank"
-                          rel="noopener noreferrer"
+                          href={`/downloads/${purchaseInfo!.purchaseId}`}
                           className="inline-flex items-center text-teal-600 hover:text-teal-700 font-medium"
                         >
                           <span className="mr-2">📥</span>
                           Tải mã nguồn
-                          <span className="ml-1">↗️</span>
                         </a>
                         <p className="text-sm text-green-700 mt-2">
-                          ⏰ Link có hiệu lực đến: {new Date(purchaseInfo!.accessExpiresAt).toLocaleString('vi-VN')}
+                          ⏰ Link có hiệu lực đến: {purchaseInfo!.accessExpiresAt
+                            ? new Date(purchaseInfo!.accessExpiresAt).toLocaleString('vi-VN')
+                            : 'Trọn đời'}
                         </p>
+                        {purchaseInfo!.licenseName && (
+                          <p className="text-sm text-green-700 mt-1">
+                            📜 Gói bản quyền: {purchaseInfo!.licenseName}
+                          </p>
+                        )}
                       </div>
                     ) : (
                       <p className="text-red-600">
-                        ⚠️ Link tải đã hết hạn (chỉ có hiệu lực trong 24h sau khi mua)
+                        ⚠️ Link tải đã hết hạn theo gói bản quyền bạn đã mua
                       </p>
                     )}
                   </div>
@@ -499,6 +821,93 @@ export default function SourceDetail() {
                   </div>
                 )}
 
+                {/* Files Tab */}
+                {activeTab === "files" && codePreview && (
+                  <div className="space-y-6">
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">📂 Cấu trúc thư mục</h3>
+                      <p className="text-sm text-gray-500 mb-4">
+                        {codePreview.fileCount.toLocaleString('vi-VN')} tệp
+                        {codePreview.filesTruncated && ' (chỉ hiển thị một phần)'} • Chỉ xem tên tệp, nội dung đầy đủ có sau khi mua
+                      </p>
+                      <div className="max-h-96 overflow-auto border border-gray-200 rounded-lg p-3 font-mono text-sm">
+                        <FileTree nodes={codePreview.fileTree} depth={0} />
+                      </div>
+                    </div>
+
+                    {codePreview.previews.length > 0 && (
+                      <div>
+                        <h3 className="text-lg font-semibold mb-4">👀 Xem trước mã nguồn</h3>
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          {codePreview.previews.map((preview, index) => (
+                            <button
+                              key={preview.path}
+                              onClick={() => setActivePreview(index)}
+                              className={`px-3 py-1 rounded-lg text-sm font-mono ${
+                                index === activePreview ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {preview.path.split('/').pop()}
+                            </button>
+                          ))}
+                        </div>
+                        {codePreview.previews[activePreview] && (
+                          <div className="rounded-lg overflow-hidden border border-gray-800">
+                            <div className="flex justify-between items-center bg-gray-800 text-gray-300 px-4 py-2 text-xs">
+                              <span className="font-mono">{codePreview.previews[activePreview].path}</span>
+                              <span>{codePreview.previews[activePreview].language}</span>
+                            </div>
+                            <pre className="bg-gray-900 text-gray-100 text-sm overflow-x-auto max-h-[32rem] p-4">
+                              <code>
+                                {codePreview.previews[activePreview].lines.map((line, lineIndex) => (
+                                  <div key={lineIndex} className="table-row">
+                                    <span className="table-cell pr-4 text-right text-gray-500 select-none">{lineIndex + 1}</span>
+                                    <span className="table-cell whitespace-pre">
+                                      {line.map((token, tokenIndex) => (
+                                        <span key={tokenIndex} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                                      ))}
+                                    </span>
+                                  </div>
+                                ))}
+                              </code>
+                            </pre>
+                            {codePreview.previews[activePreview].truncated && (
+                              <div className="bg-gray-800 text-gray-400 px-4 py-2 text-xs text-center">
+                                … Phần còn lại của tệp có sau khi mua
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Versions Tab */}
+                {activeTab === "versions" && (
+                  <div>
+                    <h3 className="text-lg font-semibold mb-6">📦 Lịch sử phiên bản</h3>
+                    <div className="space-y-4">
+                      {versions.map((version, index) => (
+                        <div key={version._id} className="border-l-4 border-teal-500 pl-4">
+                          <div className="flex items-center space-x-2 mb-1">
+                            <span className="font-semibold text-gray-900">v{version.version}</span>
+                            {index === 0 && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Mới nhất</span>
+                            )}
+                            <span className="text-sm text-gray-500">
+                              {formatTimeAgo(version.createdAt)} • {formatFileSize(version.fileSize)}
+                            </span>
+                          </div>
+                          {version.changelog && (
+                            <p className="text-gray-700 whitespace-pre-line">{version.changelog}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Reviews Tab */}
                 {activeTab === "reviews" && (
                   <div>
@@ -768,14 +1177,85 @@ export default function SourceDetail() {
             {/* Purchase Card */}
             <div className="bg-white rounded-xl shadow-md p-6">
               <div className="text-center mb-6">
-                <div className="text-3xl font-bold text-teal-600 mb-2">
-                  {sourceCode.price.toLocaleString('vi-VN')} xu
-                </div>
-                <p className="text-gray-600">
-                  ≈ {sourceCode.price.toLocaleString('vi-VN')} VND
-                </p>
+                {couponQuote ? (
+                  <>
+                    <div className="text-lg text-gray-400 line-through">
+                      {license.price.toLocaleString('vi-VN')} xu
+                    </div>
+                    <div className="text-3xl font-bold text-teal-600 mb-2">
+                      {couponQuote.finalPrice.toLocaleString('vi-VN')} xu
+                    </div>
+                    <p className="text-green-600 text-sm">
+                      🏷️ Mã {couponQuote.code}: -{couponQuote.discount.toLocaleString('vi-VN')} xu
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    {license.listPrice > license.price && (
+                      <div className="text-lg text-gray-400 line-through">
+                        {license.listPrice.toLocaleString('vi-VN')} xu
+                      </div>
+                    )}
+                    <div className="text-3xl font-bold text-teal-600 mb-2">
+                      {license.price.toLocaleString('vi-VN')} xu
+                    </div>
+                    <p className="text-gray-600">
+                      ≈ {license.price.toLocaleString('vi-VN')} VND
+                    </p>
+                  </>
+                )}
+                {sale && (
+                  <div className="mt-3 inline-block bg-red-50 text-red-600 text-sm font-medium px-3 py-1 rounded-full">
+                    🔥 Giảm {sale.percentOff}% đến {new Date(sale.endsAt).toLocaleString('vi-VN')}
+                  </div>
+                )}
               </div>
 
+              {/* License tiers */}
+              {(!hasPurchased || asGift) && !isOwner && (
+                <div className="space-y-2 mb-6">
+                  {licenses.map((tier, index) => (
+                    <label
+                      key={tier._id || tier.name}
+                      className={`block border rounded-lg p-3 cursor-pointer transition-colors ${
+                        index === selectedLicense ? 'border-teal-500 bg-teal-50' : 'border-gray-200 hover:border-teal-300'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center">
+                          <input
+                            type="radio"
+                            form="purchase-form"
+                            name="licenseTier"
+                            value={tier._id}
+                            checked={index === selectedLicense}
+                            onChange={() => setSelectedLicense(index)}
+                            className="mr-2 text-teal-600 focus:ring-teal-500"
+                          />
+                          <span className="font-medium text-gray-900">{tier.name}</span>
+                        </div>
+                        <span className="text-right">
+                          {tier.listPrice > tier.price && (
+                            <span className="text-xs text-gray-400 line-through mr-1">{tier.listPrice.toLocaleString('vi-VN')}</span>
+                          )}
+                          <span className="font-semibold text-teal-600">{tier.price.toLocaleString('vi-VN')} xu</span>
+                        </span>
+                      </div>
+                      {tier.description && (
+                        <p className="text-xs text-gray-600 mt-1 ml-6">{tier.description}</p>
+                      )}
+                      <div className="flex flex-wrap gap-1 mt-2 ml-6">
+                        <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">⏰ {tier.access}</span>
+                        <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">🔄 {tier.updates}</span>
+                        <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
+                          {tier.commercialUse ? '💼 Thương mại' : '👤 Cá nhân'}
+                        </span>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+
               {!currentUser ? (
                 <Link
                   to="/login"
@@ -798,13 +1278,13 @@ export default function SourceDetail() {
               ) : hasPurchased ? (
                 <div className="text-center">
                   <div className="bg-green-50 text-green-700 py-3 px-4 rounded-lg mb-4">
-                    ✅ Bạn đã mua sản phẩm này
+                    {purchaseInfo?.organizationName
+                      ? `✅ Tổ chức ${purchaseInfo.organizationName} đã mua sản phẩm này`
+                      : '✅ Bạn đã mua sản phẩm này'}
                   </div>
                   {canAccess ? (
                     <a
-                      href={sourceCode.sourceLink}
-                      target="_blank"
-                      rel="noopener noreferrer"
+                      href={`/downloads/${purchaseInfo!.purchaseId}`}
                       className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-all duration-200 font-medium text-center block"
                     >
                       📥 Tải mã nguồn
@@ -814,12 +1294,81 @@ export default function SourceDetail() {
                       ⚠️ Link tải đã hết hạn
                     </div>
                   )}
+                  {asGift ? (
+                    <Form method="post" id="purchase-form" className="mt-4 text-left">
+                      <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
+                      <input type="hidden" name="asGift" value="on" />
+                      {giftFields}
+                      <button
+                        type="submit"
+                        name="_action"
+                        value="purchase"
+                        disabled={isSubmitting}
+                        className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSubmitting ? "Đang xử lý..." : `🎁 Tặng với giá ${license.price.toLocaleString('vi-VN')} xu`}
+                      </button>
+                    </Form>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setAsGift(true)}
+                      className="w-full text-sm text-teal-600 hover:text-teal-700 py-2 mt-2 transition-colors"
+                    >
+                      🎁 Tặng mã nguồn này cho người khác
+                    </button>
+                  )}
                 </div>
               ) : (
-                <Form method="post">
-                  <input type="hidden" name="_action" value="purchase" />
+                <Form method="post" id="purchase-form" className="space-y-2">
+                  <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
+                  <div className="flex space-x-2 pb-2">
+                    <input
+                      type="text"
+                      name="couponCode"
+                      aria-label="Mã giảm giá"
+                      placeholder="Mã giảm giá"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                    <button
+                      type="submit"
+                      name="_action"
+                      value="check-coupon"
+                      disabled={isSubmitting}
+                      className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+                    >
+                      Áp dụng
+                    </button>
+                  </div>
+                  <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      name="asGift"
+                      checked={asGift}
+                      onChange={(event) => setAsGift(event.target.checked)}
+                      className="mr-2 rounded text-teal-600 focus:ring-teal-500"
+                    />
+                    🎁 Mua làm quà tặng
+                  </label>
+                  {asGift && giftFields}
+                  {organizations.length > 0 && !asGift && (
+                    <select
+                      name="organization"
+                      aria-label="Thanh toán bằng"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    >
+                      <option value="">💰 Ví cá nhân ({currentUser!.balance.toLocaleString('vi-VN')} xu)</option>
+                      {organizations.map((organization) => (
+                        <option key={organization.orgId} value={organization.orgId}>
+                          🏢 {organization.name} ({organization.balance.toLocaleString('vi-VN')} xu)
+                        </option>
+                      ))}
+                    </select>
+                  )}
                   <button
                     type="submit"
+                    name="_action"
+                    value="purchase"
                     disabled={isSubmitting}
                     className="w-full bg-gradient-to-r from-teal-500 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                   >
@@ -832,16 +1381,45 @@ export default function SourceDetail() {
                         Đang xử lý...
                       </div>
                     ) : (
-                      "🛒 Mua ngay"
+                      asGift ? "🎁 Tặng ngay" : "🛒 Mua ngay"
                     )}
                   </button>
+                  {!asGift && (
+                    <button
+                      type="submit"
+                      name="_action"
+                      value="add-to-cart"
+                      disabled={isSubmitting}
+                      className="w-full bg-white border border-teal-500 text-teal-600 py-3 px-4 rounded-lg hover:bg-teal-50 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {inCart ? "🔁 Cập nhật gói trong giỏ hàng" : "🛍️ Thêm vào giỏ hàng"}
+                    </button>
+                  )}
+                  {inCart && (
+                    <Link to="/dashboard/cart" className="block text-center text-sm text-teal-600 hover:underline">
+                      Xem giỏ hàng →
+                    </Link>
+                  )}
+                </Form>
+              )}
+
+              {currentUser && !isOwner && !hasPurchased && (
+                <Form method="post" className="mt-3">
+                  <input type="hidden" name="_action" value={inWishlist ? "remove-from-wishlist" : "add-to-wishlist"} />
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full text-sm text-gray-600 hover:text-red-600 py-2 transition-colors disabled:opacity-50"
+                  >
+                    {inWishlist ? "❤️ Đã yêu thích — bỏ khỏi danh sách" : "🤍 Thêm vào yêu thích để nhận báo giảm giá"}
+                  </button>
                 </Form>
               )}
 
               {currentUser && !isOwner && !hasPurchased && (
                 <p className="text-sm text-gray-500 mt-3 text-center">
                   💰 Số dư của bạn: {currentUser.balance.toLocaleString('vi-VN')} xu
-                  {currentUser.balance < sourceCode.price && (
+                  {currentUser.balance < license.price && (
                     <span className="block text-red-600 mt-1">
                       ⚠️ Số dư không đủ. <Link to="/dashboard/deposit" className="underline">Nạp thêm xu</Link>
                     </span>
@@ -855,6 +1433,32 @@ export default function SourceDetail() {
                     <span className="text-gray-600">💡 Hỗ trợ:</span>
                     <span className="font-medium">24/7</span>
                   </div>
+                  {versions[0] && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">📦 Phiên bản:</span>
+                      <span className="font-medium">v{versions[0].version}</span>
+                    </div>
+                  )}
+                  {techStack && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">📄 Dòng code:</span>
+                        <span className="font-medium">{techStack.linesOfCode.toLocaleString('vi-VN')}</span>
+                      </div>
+                      {techStack.languages.length > 0 && (
+                        <div className="flex justify-between gap-4">
+                          <span className="text-gray-600 whitespace-nowrap">🧰 Ngôn ngữ:</span>
+                          <span className="font-medium text-right">{techStack.languages.join(', ')}</span>
+                        </div>
+                      )}
+                      {techStack.frameworks.length > 0 && (
+                        <div className="flex justify-between gap-4">
+                          <span className="text-gray-600 whitespace-nowrap">🏗️ Framework:</span>
+                          <span className="font-medium text-right">{techStack.frameworks.join(', ')}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-600">🔄 Cập nhật:</span>
                     <span className="font-medium">Miễn phí</span>
@@ -867,6 +1471,129 @@ export default function SourceDetail() {
               </div>
             </div>
 
+            {/* Seller Subscription */}
+            {!isOwner && !hasPurchased && (subscription || subscriptionPlan) && (
+              <div className="bg-white rounded-xl shadow-md p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                  🔁 Gói đăng ký của người bán
+                </h3>
+                {subscription ? (
+                  <>
+                    <p className="text-sm text-gray-600 mb-4">
+                      {subscription.status === 'past_due'
+                        ? `⚠️ Chưa gia hạn được vì số dư không đủ. Bạn vẫn truy cập được đến ${new Date(subscription.accessUntil).toLocaleString('vi-VN')}.`
+                        : `✅ Bạn đang đăng ký, truy cập được đến ${new Date(subscription.accessUntil).toLocaleDateString('vi-VN')}${subscription.cancelAtPeriodEnd ? ' (đã hủy gia hạn)' : ''}.`}
+                    </p>
+                    {subscription.purchaseId ? (
+                      <a
+                        href={`/downloads/${subscription.purchaseId}`}
+                        className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-all duration-200 font-medium text-center block"
+                      >
+                        📥 Tải mã nguồn
+                      </a>
+                    ) : (
+                      <Form method="post">
+                        <input type="hidden" name="_action" value="claim-subscription-access" />
+                        <button
+                          type="submit"
+                          disabled={isSubmitting}
+                          className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-all duration-200 font-medium disabled:opacity-50"
+                        >
+                          🔓 Mở mã nguồn qua gói đăng ký
+                        </button>
+                      </Form>
+                    )}
+                    <Link to="/dashboard/subscriptions" className="block text-center text-sm text-teal-600 hover:underline mt-3">
+                      Quản lý gói đăng ký →
+                    </Link>
+                  </>
+                ) : subscriptionPlan && (
+                  <>
+                    <p className="text-sm text-gray-600 mb-1">
+                      Truy cập toàn bộ {subscriptionPlan.listingCount} mã nguồn của người bán này khi còn đăng ký.
+                    </p>
+                    {subscriptionPlan.description && (
+                      <p className="text-sm text-gray-500 mb-3">{subscriptionPlan.description}</p>
+                    )}
+                    <div className="text-2xl font-bold text-teal-600 mb-4">
+                      {subscriptionPlan.price.toLocaleString('vi-VN')} xu<span className="text-sm font-normal text-gray-500">/tháng</span>
+                    </div>
+                    {currentUser ? (
+                      <Form method="post">
+                        <input type="hidden" name="_action" value="subscribe" />
+                        <input type="hidden" name={IDEMPOTENCY_KEY_FIELD} value={idempotencyKey} />
+                        <button
+                          type="submit"
+                          disabled={isSubmitting}
+                          className="w-full bg-white border border-teal-500 text-teal-600 py-3 px-4 rounded-lg hover:bg-teal-50 transition-all duration-200 font-medium disabled:opacity-50"
+                        >
+                          🔁 Đăng ký hằng tháng
+                        </button>
+                      </Form>
+                    ) : (
+                      <Link to="/login" className="block text-center text-sm text-teal-600 hover:underline">
+                        Đăng nhập để đăng ký
+                      </Link>
+                    )}
+                    <p className="text-xs text-gray-500 mt-3">
+                      Xu được trừ từ ví mỗi tháng. Hủy bất cứ lúc nào, bạn vẫn dùng được đến hết tháng đã trả.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Price History */}
+            {priceHistory.length > 1 && (
+              <div className="bg-white rounded-xl shadow-md p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  📈 Lịch sử giá
+                </h3>
+                <PriceHistoryChart points={priceHistory} />
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{new Date(priceHistory[0].at).toLocaleDateString('vi-VN')}</span>
+                  <span>Hôm nay</span>
+                </div>
+                <div className="mt-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Thấp nhất:</span>
+                    <span className="font-medium">{Math.min(...priceHistory.map((point) => point.price)).toLocaleString('vi-VN')} xu</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Cao nhất:</span>
+                    <span className="font-medium">{Math.max(...priceHistory.map((point) => point.price)).toLocaleString('vi-VN')} xu</span>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-3">Giá của gói rẻ nhất trong {priceHistoryDays} ngày gần đây, đã gồm khuyến mãi.</p>
+              </div>
+            )}
+
+            {/* Bundles */}
+            {bundles.length > 0 && (
+              <div className="bg-white rounded-xl shadow-md p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  📦 Có trong gói combo
+                </h3>
+                <div className="space-y-2">
+                  {bundles.map((bundle) => (
+                    <Link
+                      key={bundle.bundleId}
+                      to={`/bundle/${bundle.bundleId}`}
+                      className="flex justify-between items-center p-3 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 line-clamp-1">{bundle.title}</div>
+                        <div className="text-xs text-gray-500">{bundle.itemCount} mã nguồn</div>
+                      </div>
+                      <span className="text-sm font-medium text-teal-600 whitespace-nowrap ml-2">
+                        {bundle.price.toLocaleString('vi-VN')} xu
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Related Sources */}
             {relatedSources.length > 0 && (
               <div className="bg-white rounded-xl shadow-md p-6">
@@ -0,0 +1,48 @@
+import { type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { connectToDatabase } from "~/lib/db/connection";
+import { getGateway, processGatewayCallback } from "~/lib/gateways";
+
+// Providers deliver IPNs as GET query strings (VNPay), JSON bodies (MoMo) or form posts
+const readCallbackParams = async (request: Request): Promise<Record<string, string>> => {
+  if (request.method === "GET") {
+    return Object.fromEntries(new URL(request.url).searchParams);
+  }
+
+  const contentType = request.headers.get("Content-Type") || "";
+  const body = contentType.includes("application/json")
+    ? await request.json()
+    : Object.fromEntries(await request.formData());
+
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [key, String(value)])
+  );
+};
+
+const handleWebhook = async (request: Request, gatewayId: string | undefined) => {
+  const gateway = getGateway(gatewayId || "");
+  if (!gateway) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  try {
+    await connectToDatabase();
+    const outcome = await processGatewayCallback(gateway, await readCallbackParams(request));
+
+    if (outcome !== 'confirmed' && outcome !== 'failed') {
+      console.warn(`Payment webhook ${gateway.id}: ${outcome}`);
+    }
+
+    return gateway.acknowledge(outcome);
+  } catch (error) {
+    console.error("Payment webhook error:", error);
+    return gateway.acknowledge('error');
+  }
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  return handleWebhook(request, params.gateway);
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  return handleWebhook(request, params.gateway);
+}
@@ -0,0 +1,214 @@
+// lib/archives.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { SourceCode, SourceCodeVersion, Purchase, Notification, ISourceCode, ISourceCodeVersion, IUser } from './db/models';
+import { getDefaultStorage, getStorage } from './storage';
+import { readArchiveEntries, inspectArchive, InspectionError, InspectionResult } from './inspection';
+import { extractPreviews, defaultPreviewFiles, isPreviewable } from './previews';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class ArchiveError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export const getArchiveSizeLimit = (): number => {
+  const megabytes = parseInt(process.env.ARCHIVE_MAX_SIZE_MB || '');
+  return (Number.isNaN(megabytes) || megabytes <= 0 ? 100 : megabytes) * 1024 * 1024;
+};
+
+const ARCHIVE_TYPES = [
+  { extensions: ['.zip'], contentType: 'application/zip' },
+  { extensions: ['.tar.gz', '.tgz'], contentType: 'application/gzip' },
+  { extensions: ['.tar'], contentType: 'application/x-tar' }
+];
+
+export const ARCHIVE_ACCEPT = ARCHIVE_TYPES.flatMap((type) => type.extensions).join(',');
+
+// Trusts the file's leading bytes rather than the extension or the browser's MIME type
+const matchesSignature = (contentType: string, data: Buffer): boolean => {
+  switch (contentType) {
+    case 'application/zip':
+      // Local file header, or the end-of-directory record of an empty archive
+      return data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+        || data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    case 'application/gzip':
+      return data[0] === 0x1f && data[1] === 0x8b;
+    case 'application/x-tar':
+      return data.subarray(257, 262).toString('ascii') === 'ustar';
+    default:
+      return false;
+  }
+};
+
+const safeFileName = (fileName: string): string => {
+  return fileName.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '').slice(-100) || 'archive';
+};
+
+const readArchive = async (file: File): Promise<{ data: Buffer; fileName: string; contentType: string }> => {
+  if (!file || typeof file === 'string' || file.size === 0) {
+    throw new ArchiveError('Vui lòng chọn tệp mã nguồn để tải lên');
+  }
+
+  if (file.size > getArchiveSizeLimit()) {
+    throw new ArchiveError(`Tệp mã nguồn không được vượt quá ${Math.round(getArchiveSizeLimit() / 1024 / 1024)}MB`);
+  }
+
+  const fileName = safeFileName(file.name);
+  const archiveType = ARCHIVE_TYPES.find((type) => type.extensions.some((extension) => fileName.toLowerCase().endsWith(extension)));
+  if (!archiveType) {
+    throw new ArchiveError('Chỉ chấp nhận tệp .zip, .tar, .tar.gz hoặc .tgz');
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+  if (!matchesSignature(archiveType.contentType, data)) {
+    throw new ArchiveError('Tệp tải lên không phải là tệp nén hợp lệ');
+  }
+
+  return { data, fileName, contentType: archiveType.contentType };
+};
+
+// Checks the upload before anything is created, so a bad archive never leaves a half-made listing
+export const validateArchive = async (file: File): Promise<void> => {
+  await readArchive(file);
+};
+
+interface PublishVersionOptions {
+  sourceCode: ISourceCode;
+  file: File;
+  version: string;
+  changelog?: string;
+  user: IUser;
+}
+
+// Stores the archive, makes it the listing's current version and tells existing buyers about it
+export const publishVersion = async ({ sourceCode, file, version, changelog, user }: PublishVersionOptions): Promise<ISourceCodeVersion> => {
+  const label = version?.trim();
+  if (!label || label.length > 50) {
+    throw new ArchiveError('Vui lòng nhập số phiên bản (tối đa 50 ký tự)');
+  }
+
+  const { data, fileName, contentType } = await readArchive(file);
+
+  // Every archive is inspected before it can reach buyers
+  let inspection: InspectionResult;
+  let previews: ISourceCodeVersion['previews'];
+  try {
+    const entries = readArchiveEntries(data, contentType);
+    inspection = inspectArchive(entries);
+
+    // Keep previewing the files the seller picked, as long as this version still has them
+    const previewPaths = sourceCode.previewFiles?.length ? sourceCode.previewFiles : defaultPreviewFiles(inspection.files);
+    previews = extractPreviews(
+      entries,
+      previewPaths.filter((previewPath) => {
+        const file = inspection.files.find((candidate) => candidate.path === previewPath);
+        return file && isPreviewable(file, inspection.report.findings);
+      })
+    );
+  } catch (error) {
+    if (error instanceof InspectionError) {
+      throw new ArchiveError(error.message);
+    }
+    throw error;
+  }
+
+  const latest = await SourceCodeVersion.findOne({ sourceCode: sourceCode._id }).sort({ versionNumber: -1 });
+  if (latest?.version === label) {
+    throw new ArchiveError(`Phiên bản ${label} đã tồn tại`);
+  }
+  const versionNumber = (latest?.versionNumber || 0) + 1;
+
+  const storage = getDefaultStorage();
+  const storageKey = `sources/${sourceCode.sourceId}/${versionNumber}-${fileName}`;
+  await storage.put(storageKey, data);
+
+  let sourceCodeVersion: ISourceCodeVersion;
+  try {
+    sourceCodeVersion = await SourceCodeVersion.create({
+      sourceCode: sourceCode._id,
+      versionNumber,
+      version: label,
+      changelog: changelog?.trim() || '',
+      storageBackend: storage.id,
+      storageKey,
+      fileName,
+      fileSize: data.length,
+      contentType,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      files: inspection.files,
+      filesTruncated: inspection.filesTruncated,
+      inspection: inspection.report,
+      previews,
+      createdBy: user._id
+    });
+  } catch (error) {
+    // Someone published concurrently and took this version number
+    await storage.delete(storageKey);
+    throw error;
+  }
+
+  // A new report replaces the previous one, including any admin review of it
+  await SourceCode.updateOne(
+    { _id: sourceCode._id },
+    { currentVersion: sourceCodeVersion._id, inspection: { ...inspection.report, version: sourceCodeVersion._id } }
+  );
+
+  if (inspection.report.status === 'flagged') {
+    await Notification.create({
+      user: sourceCode.seller,
+      title: 'Phát hiện vấn đề trong tệp mã nguồn',
+      message: `Phiên bản ${label} của "${sourceCode.title}" có ${inspection.report.findings.length} tệp cần kiểm tra (thông tin bí mật, tệp thực thi hoặc tệp nhị phân lớn). Quản trị viên sẽ xem xét mã nguồn này.`,
+      type: 'system',
+      relatedId: sourceCode.sourceId
+    });
+  }
+
+  if (latest) {
+    const buyers: string[] = await Purchase.distinct('buyer', { sourceCode: sourceCode._id, status: { $ne: 'refunded' } });
+    if (buyers.length > 0) {
+      await Notification.insertMany(buyers.map((buyer) => ({
+        user: buyer,
+        title: 'Mã nguồn có phiên bản mới',
+        message: `"${sourceCode.title}" vừa được cập nhật lên phiên bản ${label}. Bạn có thể tải phiên bản mới trong mục Mã nguồn đã mua.`,
+        type: 'system',
+        relatedId: sourceCode.sourceId
+      })));
+    }
+  }
+
+  return sourceCodeVersion;
+};
+
+// What buyers and sellers get to see of a version; storage details stay on the server
+export type VersionSummary = Pick<
+  ISourceCodeVersion,
+  '_id' | 'versionNumber' | 'version' | 'changelog' | 'fileName' | 'fileSize' | 'createdAt'
+>;
+
+export const VERSION_SUMMARY_FIELDS = 'versionNumber version changelog fileName fileSize createdAt';
+
+// Newest first, optionally only from a given version number upwards
+export const findVersions = async (sourceCodeId: mongoose.Types.ObjectId, fromVersionNumber = 0): Promise<VersionSummary[]> => {
+  return SourceCodeVersion.find({ sourceCode: sourceCodeId, versionNumber: { $gte: fromVersionNumber } })
+    .select(VERSION_SUMMARY_FIELDS)
+    .sort({ versionNumber: -1 })
+    .lean<VersionSummary[]>();
+};
+
+// Removes every stored archive of a listing that is being deleted
+export const deleteVersions = async (sourceCodeId: mongoose.Types.ObjectId): Promise<void> => {
+  const versions = await SourceCodeVersion.find({ sourceCode: sourceCodeId });
+  for (const version of versions) {
+    await getStorage(version.storageBackend).delete(version.storageKey);
+  }
+  await SourceCodeVersion.deleteMany({ sourceCode: sourceCodeId });
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
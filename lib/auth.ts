@@ -42,10 +42,34 @@ export const generatePurchaseId = (): string => {
   return 'PUR' + crypto.randomBytes(6).toString('hex').toUpperCase();
 };
 
+export const generateOrderId = (): string => {
+  return 'ORD' + crypto.randomBytes(6).toString('hex').toUpperCase();
+};
+
+export const generateBundleId = (): string => {
+  return 'BDL' + crypto.randomBytes(6).toString('hex').toUpperCase();
+};
+
+export const generateSubscriptionId = (): string => {
+  return 'SUB' + crypto.randomBytes(6).toString('hex').toUpperCase();
+};
+
+export const generateOrganizationId = (): string => {
+  return 'ORG' + crypto.randomBytes(6).toString('hex').toUpperCase();
+};
+
 export const generatePaymentId = (): string => {
   return 'PAY' + crypto.randomBytes(6).toString('hex').toUpperCase();
 };
 
+export const generateDisputeId = (): string => {
+  return 'DSP' + crypto.randomBytes(6).toString('hex').toUpperCase();
+};
+
+export const generateLedgerEntryId = (): string => {
+  return 'LED' + crypto.randomBytes(6).toString('hex').toUpperCase();
+};
+
 export const generateVerificationToken = (): string => {
   return crypto.randomBytes(32).toString('hex');
 };
@@ -0,0 +1,257 @@
+// lib/bank-statement.ts
+
+export interface StatementLine {
+  transactionDate: Date;
+  amount: number; // Money received, lines without a credit are dropped
+  description: string;
+  reference?: string;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+// Header names seen in CSV/Excel exports from VietinBank, Vietcombank, Techcombank,
+// MB, BIDV and ACB, compared without diacritics and case
+const COLUMN_ALIASES = {
+  date: [
+    'ngay giao dich', 'ngay gd', 'ngay hach toan', 'ngay hieu luc', 'thoi gian giao dich', 'thoi gian',
+    'ngay', 'transaction date', 'posting date', 'value date', 'date'
+  ],
+  credit: [
+    'so tien ghi co', 'ghi co', 'phat sinh co', 'so tien vao', 'tien vao', 'co', 'credit amount', 'credit'
+  ],
+  debit: [
+    'so tien ghi no', 'ghi no', 'phat sinh no', 'so tien ra', 'tien ra', 'no', 'debit amount', 'debit'
+  ],
+  amount: ['so tien giao dich', 'so tien', 'amount'],
+  description: [
+    'noi dung giao dich', 'noi dung chi tiet', 'noi dung', 'mo ta giao dich', 'mo ta', 'dien giai',
+    'chi tiet giao dich', 'transaction details', 'description', 'remark', 'narrative'
+  ],
+  reference: [
+    'so tham chieu', 'ma giao dich', 'ma gd', 'so but toan', 'so ct', 'so chung tu',
+    'reference number', 'reference', 'ref no', 'transaction id'
+  ]
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const normalizeHeader = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/gi, 'd')
+    .replace(/\(.*?\)/g, '')
+    .replace(/[^a-zA-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+const decodeHtmlEntities = (value: string): string => {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)));
+};
+
+// Several banks export "Excel" files that are really HTML tables
+const parseHtmlTable = (content: string): string[][] => {
+  const rows: string[][] = [];
+  const rowPattern = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+  const cellPattern = /<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi;
+
+  for (const [, row] of content.matchAll(rowPattern)) {
+    const cells = [...row.matchAll(cellPattern)].map(([, cell]) =>
+      decodeHtmlEntities(cell.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+    );
+    rows.push(cells);
+  }
+
+  return rows;
+};
+
+const detectDelimiter = (content: string): string => {
+  const sample = content.split('\n').slice(0, 20).join('\n');
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    sample.split(candidate).length > sample.split(best).length ? candidate : best
+  );
+};
+
+const parseDelimited = (content: string): string[][] => {
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Accepts "1.000.000", "1,000,000", "1,000,000.00", "1.000.000,00" and "+500000 VND"
+export const parseStatementAmount = (value: string): number => {
+  let cleaned = value.replace(/[^0-9.,-]/g, '');
+  if (!cleaned || !/\d/.test(cleaned)) {
+    return 0;
+  }
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Whichever separator comes last is the decimal point
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    cleaned = cleaned.split(thousands).join('').replace(decimal, '.');
+  } else {
+    const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+    if (separator) {
+      const groups = cleaned.split(separator);
+      const isThousands = groups.length > 2 || groups[groups.length - 1].length === 3;
+      cleaned = isThousands ? groups.join('') : groups.join('.');
+    }
+  }
+
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? 0 : Math.round(amount);
+};
+
+// Vietnamese exports use dd/mm/yyyy, optionally followed by a time
+export const parseStatementDate = (value: string): Date | null => {
+  const trimmed = value.trim();
+
+  const local = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (local) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = local;
+    const date = new Date(
+      parseInt(year), parseInt(month) - 1, parseInt(day),
+      parseInt(hours), parseInt(minutes), parseInt(seconds)
+    );
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const iso = trimmed.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+};
+
+const findColumn = (headers: string[], column: Column, taken: Set<number>): number => {
+  for (const alias of COLUMN_ALIASES[column]) {
+    const index = headers.findIndex((header, i) => !taken.has(i) && header === alias);
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// Bank exports start with account details, so the header row is searched for
+const locateHeader = (rows: string[][]): { headerIndex: number; columns: Record<Column, number> } => {
+  for (let i = 0; i < Math.min(rows.length, 50); i++) {
+    const headers = rows[i].map(normalizeHeader);
+    const taken = new Set<number>();
+    const columns = {} as Record<Column, number>;
+
+    // Specific money columns are claimed before the generic "so tien"
+    for (const column of ['date', 'credit', 'debit', 'amount', 'description', 'reference'] as Column[]) {
+      columns[column] = findColumn(headers, column, taken);
+      if (columns[column] !== -1) {
+        taken.add(columns[column]);
+      }
+    }
+
+    const hasMoney = columns.credit !== -1 || columns.amount !== -1;
+    if (columns.date !== -1 && columns.description !== -1 && hasMoney) {
+      return { headerIndex: i, columns };
+    }
+  }
+
+  throw new StatementParseError('Không tìm thấy dòng tiêu đề (ngày giao dịch, số tiền, nội dung) trong tệp sao kê');
+};
+
+export const parseBankStatement = (content: string): StatementLine[] => {
+  const text = content.replace(/^\uFEFF/, '');
+
+  if (text.startsWith('PK')) {
+    throw new StatementParseError('Tệp .xlsx chưa được hỗ trợ, vui lòng xuất sao kê dạng CSV');
+  }
+
+  const rows = /<table[\s>]/i.test(text) ? parseHtmlTable(text) : parseDelimited(text);
+  const { headerIndex, columns } = locateHeader(rows);
+  const lines: StatementLine[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cell = (column: Column) => (columns[column] !== -1 ? row[columns[column]] || '' : '');
+
+    const transactionDate = parseStatementDate(cell('date'));
+    if (!transactionDate) {
+      // Totals, page breaks and footer rows have no date
+      continue;
+    }
+
+    // Signed single-column exports list incoming money as positive amounts
+    const amount = columns.credit !== -1
+      ? parseStatementAmount(cell('credit'))
+      : parseStatementAmount(cell('amount'));
+
+    if (amount <= 0) {
+      continue;
+    }
+
+    lines.push({
+      transactionDate,
+      amount,
+      description: cell('description'),
+      reference: cell('reference') || undefined
+    });
+  }
+
+  return lines;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { allocateBundlePrice } from './bundles';
+
+vi.mock('./db/connection', () => ({
+  connectToDatabase: vi.fn(),
+  withTransaction: vi.fn()
+}));
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('allocateBundlePrice', () => {
+  it('splits in proportion to list prices', () => {
+    expect(allocateBundlePrice(600, [100, 200, 300])).toEqual([100, 200, 300]);
+    expect(allocateBundlePrice(300, [100, 200, 300])).toEqual([50, 100, 150]);
+  });
+
+  it('gives leftover xu to the largest remainders so the shares add up exactly', () => {
+    const shares = allocateBundlePrice(100, [1, 1, 1]);
+    expect(shares).toEqual([34, 33, 33]);
+    expect(sum(shares)).toBe(100);
+
+    expect(allocateBundlePrice(10, [1, 2])).toEqual([3, 7]);
+  });
+
+  it('always adds up to the bundle price and never goes negative', () => {
+    const cases: [number, number[]][] = [
+      [999, [333, 333, 334]],
+      [12345, [1000, 2500, 7000, 1]],
+      [1001, [50000, 1, 1]],
+      [7, [10, 20, 30, 40, 50]]
+    ];
+    for (const [price, weights] of cases) {
+      const shares = allocateBundlePrice(price, weights);
+      expect(shares).toHaveLength(weights.length);
+      expect(sum(shares)).toBe(price);
+      expect(shares.every((share) => Number.isInteger(share) && share >= 0)).toBe(true);
+    }
+  });
+
+  it('splits evenly when every listing is free', () => {
+    expect(allocateBundlePrice(10, [0, 0, 0])).toEqual([4, 3, 3]);
+  });
+});
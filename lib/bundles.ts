@@ -0,0 +1,105 @@
+// lib/bundles.ts
+import mongoose from 'mongoose';
+import { Bundle, SourceCode, IBundle, IUser, ISourceCode } from './db/models';
+import { generateBundleId } from './auth';
+import { getSellableTiers, MIN_TIER_PRICE } from './licenses';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class BundleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+export const MIN_BUNDLE_ITEMS = 2;
+export const MAX_BUNDLE_ITEMS = 10;
+
+export interface BundleInput {
+  title: string;
+  description: string;
+  sourceCodeIds: string[];
+  price: number;
+}
+
+export const parseBundleInput = (formData: FormData): BundleInput => {
+  const title = ((formData.get('title') as string) || '').trim();
+  if (title.length < 3 || title.length > 120) {
+    throw new BundleError('Tên gói phải dài 3-120 ký tự');
+  }
+
+  const sourceCodeIds = [...new Set(formData.getAll('sourceCodeIds').map(String))];
+  if (sourceCodeIds.length < MIN_BUNDLE_ITEMS || sourceCodeIds.length > MAX_BUNDLE_ITEMS) {
+    throw new BundleError(`Mỗi gói gồm ${MIN_BUNDLE_ITEMS}-${MAX_BUNDLE_ITEMS} mã nguồn`);
+  }
+  if (!sourceCodeIds.every((id) => mongoose.isValidObjectId(id))) {
+    throw new BundleError('Mã nguồn không hợp lệ');
+  }
+
+  const price = Number(formData.get('price'));
+  if (!Number.isInteger(price) || price < MIN_TIER_PRICE) {
+    throw new BundleError(`Giá gói phải là số nguyên từ ${MIN_TIER_PRICE.toLocaleString('vi-VN')} xu trở lên`);
+  }
+
+  return {
+    title,
+    description: ((formData.get('description') as string) || '').trim(),
+    sourceCodeIds,
+    price
+  };
+};
+
+// A bundle grants each listing's cheapest tier, so that tier's list price is what the listing is worth inside it
+export const getBundledListPrice = (sourceCode: Pick<ISourceCode, 'price' | 'licenseTiers'>): number => {
+  return getSellableTiers(sourceCode)[0].listPrice;
+};
+
+// Sellers bundle their own active listings, at less than buying each of them separately
+export const createBundle = async ({ seller, input }: { seller: IUser; input: BundleInput }): Promise<IBundle> => {
+  const sourceCodes = await SourceCode.find({ _id: { $in: input.sourceCodeIds }, seller: seller._id, isActive: true })
+    .select('price licenseTiers')
+    .lean<Pick<ISourceCode, '_id' | 'price' | 'licenseTiers'>[]>();
+  if (sourceCodes.length !== input.sourceCodeIds.length) {
+    throw new BundleError('Chỉ được đưa vào gói các mã nguồn đang bán của bạn');
+  }
+
+  const separatePrice = sourceCodes.reduce((sum, sourceCode) => sum + getBundledListPrice(sourceCode), 0);
+  if (input.price >= separatePrice) {
+    throw new BundleError(`Giá gói phải thấp hơn tổng giá mua lẻ (${separatePrice.toLocaleString('vi-VN')} xu)`);
+  }
+
+  let bundleId: string;
+  do {
+    bundleId = generateBundleId();
+  } while (await Bundle.exists({ bundleId }));
+
+  return Bundle.create({
+    bundleId,
+    title: input.title,
+    description: input.description,
+    seller: seller._id,
+    sourceCodes: input.sourceCodeIds,
+    price: input.price,
+    isActive: true
+  });
+};
+
+// Splits the bundle price across its listings in proportion to their list prices. Largest remainders
+// take the leftover xu, so the shares always add up to exactly the bundle price.
+export const allocateBundlePrice = (price: number, weights: number[]): number[] => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map((weight) => (total > 0 ? price * weight / total : price / weights.length));
+  const shares = exact.map(Math.floor);
+
+  let leftover = price - shares.reduce((sum, share) => sum + share, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover === 0) break;
+    shares[index]++;
+    leftover--;
+  }
+
+  return shares;
+};
@@ -0,0 +1,146 @@
+// lib/cart.ts
+import mongoose from 'mongoose';
+import { User, SourceCode, Purchase, IUser, ISourceCode, IOrganization } from './db/models';
+import { findSellableTier, LicenseError, SellableTier } from './licenses';
+import { findMemberOrganizationIds } from './organizations';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class CartError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CartError';
+  }
+}
+
+export const MAX_CART_ITEMS = 20;
+
+type CartSourceCode = Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'thumbnail' | 'price' | 'licenseTiers' | 'sales' | 'seller' | 'isActive'>;
+
+export interface CartLine {
+  sourceCode: CartSourceCode;
+  tier?: SellableTier;
+  // Why the line can't be checked out right now; lines with a problem block checkout until removed
+  problem?: string;
+}
+
+const resolveTier = (sourceCode: CartSourceCode, tierId?: mongoose.Types.ObjectId | string | null): SellableTier => {
+  try {
+    return findSellableTier(sourceCode, tierId ? tierId.toString() : null);
+  } catch (error) {
+    if (error instanceof LicenseError) {
+      throw new CartError(error.message, error.status);
+    }
+    throw error;
+  }
+};
+
+const isOwnedBy = (sourceCode: CartSourceCode, user: IUser): boolean => {
+  const sellerId = (sourceCode.seller as unknown as { _id?: mongoose.Types.ObjectId })._id || sourceCode.seller;
+  return sellerId.toString() === user._id.toString();
+};
+
+export const addToCart = async (user: IUser, sourceCode: CartSourceCode, tierId?: string | null): Promise<void> => {
+  if (!sourceCode.isActive) {
+    throw new CartError('Mã nguồn này đã ngừng bán');
+  }
+  if (isOwnedBy(sourceCode, user)) {
+    throw new CartError('Bạn không thể mua mã nguồn của chính mình');
+  }
+
+  const tier = resolveTier(sourceCode, tierId);
+
+  const purchased = await Purchase.exists({ buyer: user._id, sourceCode: sourceCode._id, status: { $ne: 'refunded' }, subscription: { $exists: false }, organization: { $exists: false } });
+  if (purchased) {
+    throw new CartError('Bạn đã mua mã nguồn này rồi');
+  }
+
+  // A copy bought by one of the user's organizations already gives them access, as the listing page shows
+  const organizationCopy = await Purchase.exists({
+    organization: { $in: await findMemberOrganizationIds(user._id) },
+    sourceCode: sourceCode._id,
+    status: { $ne: 'refunded' }
+  });
+  if (organizationCopy) {
+    throw new CartError('Tổ chức của bạn đã mua mã nguồn này rồi');
+  }
+
+  // Adding a listing that is already in the cart just switches its tier
+  const updated = await User.updateOne(
+    { _id: user._id, 'cart.sourceCode': sourceCode._id },
+    { $set: { 'cart.$.licenseTier': tier._id, 'cart.$.addedAt': new Date() } }
+  );
+  if (updated.matchedCount > 0) {
+    return;
+  }
+
+  const added = await User.updateOne(
+    { _id: user._id, [`cart.${MAX_CART_ITEMS - 1}`]: { $exists: false } },
+    { $push: { cart: { sourceCode: sourceCode._id, licenseTier: tier._id, addedAt: new Date() } } }
+  );
+  if (added.matchedCount === 0) {
+    throw new CartError(`Giỏ hàng chỉ chứa tối đa ${MAX_CART_ITEMS} mã nguồn`);
+  }
+};
+
+export const removeFromCart = async (user: IUser, sourceCodeId: string, session?: mongoose.ClientSession): Promise<void> => {
+  if (!mongoose.isValidObjectId(sourceCodeId)) {
+    throw new CartError('Mã nguồn không có trong giỏ hàng', 404);
+  }
+  await User.updateOne({ _id: user._id }, { $pull: { cart: { sourceCode: sourceCodeId } } }, { session });
+};
+
+// Prices come from the listing's current tiers, never from what was shown when the item was added.
+// Ownership is checked against whoever pays: the user, or the organization the cart is checked out for.
+export const getCartLines = async (
+  user: IUser,
+  session?: mongoose.ClientSession,
+  organization?: Pick<IOrganization, '_id' | 'name'>
+): Promise<CartLine[]> => {
+  const { cart = [] } = await User.findById(user._id).select('cart').session(session || null).lean<Pick<IUser, 'cart'>>() || {};
+  if (cart.length === 0) {
+    return [];
+  }
+
+  const sourceCodeIds = cart.map((item) => item.sourceCode);
+  // Sequential on purpose: a transaction session can't run operations in parallel
+  const sourceCodes = await SourceCode.find({ _id: { $in: sourceCodeIds } })
+    .select('sourceId title thumbnail price licenseTiers sales seller isActive')
+    .populate('seller', 'fullName')
+    .session(session || null)
+    .lean<CartSourceCode[]>();
+  const purchased = await Purchase.distinct('sourceCode', {
+    ...(organization ? { organization: organization._id } : { buyer: user._id, organization: { $exists: false } }),
+    sourceCode: { $in: sourceCodeIds },
+    status: { $ne: 'refunded' },
+    subscription: { $exists: false }
+  })
+    .session(session || null);
+  const purchasedIds = new Set(purchased.map((id: mongoose.Types.ObjectId) => id.toString()));
+
+  const lines: CartLine[] = [];
+  for (const item of cart) {
+    const sourceCode = sourceCodes.find((candidate) => candidate._id.toString() === item.sourceCode.toString());
+    if (!sourceCode) continue; // Deleted listings silently drop out of the cart
+
+    const line: CartLine = { sourceCode };
+    if (!sourceCode.isActive) {
+      line.problem = 'Mã nguồn đã ngừng bán';
+    } else if (purchasedIds.has(sourceCode._id.toString())) {
+      line.problem = organization ? `Tổ chức "${organization.name}" đã mua mã nguồn này` : 'Bạn đã mua mã nguồn này';
+    } else {
+      try {
+        line.tier = resolveTier(sourceCode, item.licenseTier);
+      } catch (error) {
+        if (!(error instanceof CartError)) throw error;
+        line.problem = error.message;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+export const clearCart = async (userId: mongoose.Types.ObjectId, session?: mongoose.ClientSession): Promise<void> => {
+  await User.updateOne({ _id: userId }, { $set: { cart: [] } }, { session });
+};
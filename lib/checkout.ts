@@ -0,0 +1,310 @@
+// lib/checkout.ts
+import { ClientSession } from 'mongoose';
+import { Purchase, SourceCode, Order, Bundle, IUser, ISourceCode, IPurchase, IOrder, IInvoice, IBundle, IOrganization } from './db/models';
+import { withTransaction } from './db/connection';
+import { generatePurchaseId, generateOrderId } from './auth';
+import { recordPurchase, InsufficientBalanceError } from './ledger';
+import { resolveCommission, splitDiscountedAmount } from './commission';
+import { getEarningsReleaseDate } from './escrow';
+import { generateLicenseKey } from './license-keys';
+import { getCartLines, removeFromCart, clearCart, CartError } from './cart';
+import { issueOrderInvoice } from './invoices';
+import { quoteCoupon, redeemCoupon, CouponError } from './coupons';
+import { getSellableTiers, findSellableTier, toPurchaseLicense, getAccessExpiry, getUpdatesUntil, LicenseError } from './licenses';
+import { allocateBundlePrice, getBundledListPrice } from './bundles';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class CheckoutError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+const createPurchaseId = async (session: ClientSession): Promise<string> => {
+  let purchaseId: string;
+  let isPurchaseIdUnique = false;
+  do {
+    purchaseId = generatePurchaseId();
+    const existingPurchaseId = await Purchase.findOne({ purchaseId }).session(session);
+    isPurchaseIdUnique = !existingPurchaseId;
+  } while (!isPurchaseIdUnique);
+
+  return purchaseId;
+};
+
+export interface PurchaseGift {
+  recipient: IUser;
+  message?: string;
+}
+
+interface CreatePurchaseOptions {
+  buyer: IUser;
+  sourceCode: ISourceCode;
+  tierId?: string | null;
+  couponCode?: string | null;
+  bundle?: { bundle: IBundle; amount: number }; // Buys the cheapest tier for this listing's share of the bundle price
+  gift?: PurchaseGift;
+  organization?: IOrganization; // Charged to this organization's wallet; callers check the buyer may spend it
+  order?: IOrder['_id'];
+  session: ClientSession;
+}
+
+// Debits the buyer, credits the seller's escrow and records one Purchase inside the caller's transaction.
+// For gifts the buyer pays but the Purchase, and so the license, belongs to the recipient.
+const createPurchase = async ({ buyer, sourceCode, tierId, couponCode, bundle, gift, organization, order, session }: CreatePurchaseOptions): Promise<IPurchase> => {
+  if (gift && organization) {
+    throw new CheckoutError('Quà tặng chỉ thanh toán được bằng ví cá nhân');
+  }
+
+  const owner = gift?.recipient ?? buyer;
+
+  // Refunded purchases no longer grant anything, so the buyer may buy again; subscribers may buy a copy to keep.
+  // An organization buys each listing once for all of its members.
+  const existingPurchase = await Purchase.findOne({
+    ...(organization ? { organization: organization._id } : { buyer: owner._id, organization: { $exists: false } }),
+    sourceCode: sourceCode._id,
+    status: { $ne: 'refunded' },
+    subscription: { $exists: false }
+  }).session(session);
+
+  if (existingPurchase) {
+    throw new CheckoutError(organization
+      ? `Tổ chức "${organization.name}" đã mua "${sourceCode.title}" rồi`
+      : gift
+        ? `${gift.recipient.fullName} đã sở hữu "${sourceCode.title}" rồi`
+        : `Bạn đã mua "${sourceCode.title}" rồi`);
+  }
+
+  const tier = bundle ? getSellableTiers(sourceCode)[0] : findSellableTier(sourceCode, tierId);
+  const price = bundle ? bundle.amount : tier.price;
+  const purchasedAt = new Date();
+  const purchaseId = await createPurchaseId(session);
+
+  // Routes usually hand us the listing with its seller populated
+  const sellerId = sourceCode.populated('seller') || sourceCode.seller;
+
+  const quote = couponCode
+    ? await quoteCoupon({ code: couponCode, sourceCode, seller: sellerId, price, buyer: buyer._id, session })
+    : null;
+  const discountAmount = quote?.discount ?? 0;
+
+  // Calculate amounts from the commission policy in force right now, on the price actually paid
+  const commission = await resolveCommission({ category: sourceCode.category, seller: sellerId }, purchasedAt, session);
+  const { sellerEarnings, adminCommission } = splitDiscountedAmount(
+    price,
+    discountAmount,
+    commission.rate,
+    quote?.coupon.fundedBy ?? 'seller'
+  );
+
+  const purchase = new Purchase({
+    purchaseId,
+    buyer: owner._id,
+    seller: sellerId,
+    sourceCode: sourceCode._id,
+    version: sourceCode.currentVersion,
+    order,
+    amount: price - discountAmount,
+    listPrice: price,
+    discountAmount,
+    coupon: quote ? { coupon: quote.coupon._id, code: quote.coupon.code, fundedBy: quote.coupon.fundedBy } : undefined,
+    bundle: bundle ? { bundle: bundle.bundle._id, bundleId: bundle.bundle.bundleId, title: bundle.bundle.title } : undefined,
+    gift: gift ? { sender: buyer._id, message: gift.message || undefined } : undefined,
+    organization: organization?._id,
+    sellerEarnings,
+    adminCommission,
+    commissionRate: commission.rate,
+    commissionRule: commission.rule,
+    heldEarnings: sellerEarnings,
+    earningsReleaseAt: getEarningsReleaseDate(purchasedAt),
+    license: toPurchaseLicense(tier),
+    accessExpiresAt: getAccessExpiry(tier, purchasedAt),
+    updatesUntil: getUpdatesUntil(tier, purchasedAt),
+    licenseKey: generateLicenseKey({ purchaseId, buyer: owner._id, sourceCode: sourceCode._id })
+  });
+
+  await purchase.save({ session });
+  if (quote) {
+    await redeemCoupon(quote.coupon, session);
+  }
+  await recordPurchase(purchase, buyer._id, sellerId, session);
+  await SourceCode.updateOne({ _id: sourceCode._id }, { $inc: { purchases: 1 } }, { session });
+
+  return purchase;
+};
+
+const toCheckoutError = (error: unknown): unknown => {
+  if (error instanceof InsufficientBalanceError) {
+    return new CheckoutError('Số dư không đủ để thanh toán');
+  }
+  if (error instanceof LicenseError || error instanceof CartError || error instanceof CouponError) {
+    return new CheckoutError(error.message, error.status);
+  }
+  return error;
+};
+
+const createOrderId = async (session: ClientSession): Promise<string> => {
+  let orderId: string;
+  do {
+    orderId = generateOrderId();
+  } while (await Order.exists({ orderId }).session(session));
+
+  return orderId;
+};
+
+const createOrder = async (buyer: IUser, session: ClientSession): Promise<IOrder> => {
+  return new Order({ orderId: await createOrderId(session), buyer: buyer._id, items: [], totalAmount: 0 });
+};
+
+const addOrderItem = (order: IOrder, purchase: IPurchase, title: string, giftRecipient?: string): void => {
+  order.items.push({
+    purchase: purchase._id,
+    sourceCode: purchase.sourceCode,
+    seller: purchase.seller!,
+    title,
+    licenseName: purchase.license?.name || '',
+    amount: purchase.amount,
+    discountAmount: purchase.discountAmount,
+    couponCode: purchase.coupon?.code,
+    bundleTitle: purchase.bundle?.title,
+    giftRecipient,
+    sellerEarnings: purchase.sellerEarnings
+  });
+  order.totalAmount += purchase.amount;
+};
+
+export interface CheckoutResult {
+  order: IOrder;
+  purchases: IPurchase[];
+  invoice: IInvoice;
+}
+
+interface PurchaseSourceCodeOptions {
+  buyer: IUser;
+  sourceCode: ISourceCode;
+  tierId?: string | null;
+  couponCode?: string | null;
+  gift?: PurchaseGift;
+  organization?: IOrganization;
+}
+
+// Buys a single listing in its own transaction, as a one-item order. Gifts are ordered and invoiced to the buyer.
+export const purchaseSourceCode = async ({ buyer, sourceCode, tierId, couponCode, gift, organization }: PurchaseSourceCodeOptions): Promise<CheckoutResult> => {
+  try {
+    return await withTransaction(async (session) => {
+      const order = await createOrder(buyer, session);
+      const purchase = await createPurchase({ buyer, sourceCode, tierId, couponCode, gift, organization, order: order._id, session });
+      addOrderItem(order, purchase, sourceCode.title, gift?.recipient.fullName);
+
+      await order.save({ session });
+      // A gift leaves the buyer's own cart alone
+      if (!gift) {
+        await removeFromCart(buyer, sourceCode._id.toString(), session);
+      }
+      const invoice = await issueOrderInvoice(order, buyer, session);
+
+      return { order, purchases: [purchase], invoice };
+    });
+  } catch (error) {
+    throw toCheckoutError(error);
+  }
+};
+
+// Buys everything in the cart or nothing: one transaction, one Purchase per listing and one Order tying them together.
+// With an organization, every listing is charged to its wallet and must not already be owned by it.
+export const checkoutCart = async ({ buyer, organization }: { buyer: IUser; organization?: IOrganization }): Promise<CheckoutResult> => {
+  try {
+    return await withTransaction(async (session) => {
+      const lines = await getCartLines(buyer, session, organization);
+      if (lines.length === 0) {
+        throw new CheckoutError('Giỏ hàng của bạn đang trống');
+      }
+
+      const blocked = lines.find((line) => line.problem);
+      if (blocked) {
+        throw new CheckoutError(`"${blocked.sourceCode.title}": ${blocked.problem}. Vui lòng bỏ mã nguồn này khỏi giỏ hàng`);
+      }
+
+      const order = await createOrder(buyer, session);
+      const purchases: IPurchase[] = [];
+
+      for (const line of lines) {
+        const sourceCode = await SourceCode.findById(line.sourceCode._id).session(session);
+        if (!sourceCode) {
+          throw new CheckoutError(`"${line.sourceCode.title}" không còn tồn tại`);
+        }
+
+        const purchase = await createPurchase({
+          buyer,
+          sourceCode,
+          tierId: line.tier?._id?.toString(),
+          organization,
+          order: order._id,
+          session
+        });
+        purchases.push(purchase);
+        addOrderItem(order, purchase, sourceCode.title);
+      }
+
+      await order.save({ session });
+      await clearCart(buyer._id, session);
+      const invoice = await issueOrderInvoice(order, buyer, session);
+
+      return { order, purchases, invoice };
+    });
+  } catch (error) {
+    throw toCheckoutError(error);
+  }
+};
+
+// Buys every listing in the bundle as one order. Each listing becomes its own Purchase carrying its share of the
+// bundle price, so each seller is paid, and commission taken, per listing exactly as for a separate sale.
+export const purchaseBundle = async ({ buyer, bundle, organization }: {
+  buyer: IUser;
+  bundle: IBundle;
+  organization?: IOrganization;
+}): Promise<CheckoutResult> => {
+  try {
+    return await withTransaction(async (session) => {
+      if (!bundle.isActive) {
+        throw new CheckoutError('Gói này đã ngừng bán');
+      }
+
+      const sourceCodes: ISourceCode[] = [];
+      for (const sourceCodeId of bundle.sourceCodes) {
+        const sourceCode = await SourceCode.findById(sourceCodeId).session(session);
+        if (!sourceCode || !sourceCode.isActive) {
+          throw new CheckoutError('Một mã nguồn trong gói đã ngừng bán nên gói tạm thời không thể mua');
+        }
+        sourceCodes.push(sourceCode);
+      }
+
+      const shares = allocateBundlePrice(bundle.price, sourceCodes.map(getBundledListPrice));
+      const order = await createOrder(buyer, session);
+      const purchases: IPurchase[] = [];
+
+      for (const [index, sourceCode] of sourceCodes.entries()) {
+        const purchase = await createPurchase({
+          buyer,
+          sourceCode,
+          bundle: { bundle, amount: shares[index] },
+          organization,
+          order: order._id,
+          session
+        });
+        purchases.push(purchase);
+        addOrderItem(order, purchase, sourceCode.title);
+        await removeFromCart(buyer, sourceCode._id.toString(), session);
+      }
+
+      await order.save({ session });
+      await Bundle.updateOne({ _id: bundle._id }, { $inc: { purchases: 1 } }, { session });
+      const invoice = await issueOrderInvoice(order, buyer, session);
+
+      return { order, purchases, invoice };
+    });
+  } catch (error) {
+    throw toCheckoutError(error);
+  }
+};
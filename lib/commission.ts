@@ -0,0 +1,85 @@
+// lib/commission.ts
+import mongoose, { ClientSession } from 'mongoose';
+import { CommissionRule, ICommissionRule } from './db/models';
+
+// Used until an admin defines a default rule
+export const FALLBACK_COMMISSION_RATE = 20;
+
+// When several rules match a sale, the most specific scope wins
+const SCOPE_PRIORITY: Record<ICommissionRule['scope'], number> = {
+  promotion: 3,
+  seller: 2,
+  category: 1,
+  default: 0
+};
+
+export interface ResolvedCommission {
+  rate: number;
+  rule?: mongoose.Types.ObjectId;
+}
+
+interface CommissionTarget {
+  category?: string; // Unset for sales that span a seller's whole catalog, such as subscriptions
+  seller: mongoose.Types.ObjectId;
+}
+
+export const resolveCommission = async (
+  target: CommissionTarget,
+  at: Date = new Date(),
+  session?: ClientSession
+): Promise<ResolvedCommission> => {
+  const rules = await CommissionRule.find({
+    isActive: true,
+    $and: [
+      { $or: [{ startsAt: null }, { startsAt: { $lte: at } }] },
+      { $or: [{ endsAt: null }, { endsAt: { $gt: at } }] },
+      {
+        $or: [
+          { scope: 'default' },
+          ...(target.category ? [{ scope: 'category', category: target.category }] : []),
+          { scope: 'seller', seller: target.seller },
+          // Promotions are site-wide unless narrowed to a category or seller
+          { scope: 'promotion', category: { $in: [null, target.category ?? null] }, seller: { $in: [null, target.seller] } }
+        ]
+      }
+    ]
+  })
+    .session(session || null)
+    .lean<ICommissionRule[]>();
+
+  // Ties within a scope go to the rate that favours the seller
+  const [rule] = rules.sort((a, b) =>
+    SCOPE_PRIORITY[b.scope] - SCOPE_PRIORITY[a.scope] || a.rate - b.rate
+  );
+
+  return rule ? { rate: rule.rate, rule: rule._id } : { rate: FALLBACK_COMMISSION_RATE };
+};
+
+// The platform keeps the rounding remainder, as with the original 80/20 split
+export const splitAmount = (amount: number, rate: number): { sellerEarnings: number; adminCommission: number } => {
+  const sellerEarnings = Math.floor(amount * (100 - rate) / 100);
+  return {
+    sellerEarnings,
+    adminCommission: amount - sellerEarnings
+  };
+};
+
+// Seller-funded coupons shrink both shares in proportion; platform-funded coupons come out of the commission
+// first and only touch the seller's share once the commission is used up
+export const splitDiscountedAmount = (
+  listPrice: number,
+  discount: number,
+  rate: number,
+  fundedBy: 'seller' | 'platform'
+): { sellerEarnings: number; adminCommission: number } => {
+  const amount = listPrice - discount;
+  if (fundedBy === 'seller' || discount === 0) {
+    return splitAmount(amount, rate);
+  }
+
+  const adminCommission = Math.max(0, splitAmount(listPrice, rate).adminCommission - discount);
+  return {
+    sellerEarnings: amount - adminCommission,
+    adminCommission
+  };
+};
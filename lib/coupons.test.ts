@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Coupon, Purchase } from './db/models';
+import { quoteCoupon, CouponError } from './coupons';
+
+const id = () => new mongoose.Types.ObjectId();
+const buyer = id();
+const seller = id();
+const sourceCode = { _id: id() };
+
+const inSession = <T>(value: T) => ({ session: () => Promise.resolve(value) }) as never;
+
+const setUp = (couponFields: Record<string, unknown> = {}, usedByBuyer = 0) => {
+  const coupon = Coupon.hydrate({
+    _id: id(),
+    code: 'SALE10',
+    scope: 'site',
+    discountType: 'percentage',
+    discountValue: 10,
+    minSpend: 0,
+    perUserLimit: 1,
+    usedCount: 0,
+    fundedBy: 'platform',
+    isActive: true,
+    ...couponFields
+  });
+  vi.spyOn(Coupon, 'findOne').mockReturnValue(inSession(coupon));
+  const countUses = vi.spyOn(Purchase, 'countDocuments').mockReturnValue(inSession(usedByBuyer));
+  return { coupon, countUses };
+};
+
+const quote = (price = 1000) => quoteCoupon({ code: ' sale10 ', sourceCode, seller, price, buyer });
+
+describe('quoteCoupon', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prices a valid code without using it up', async () => {
+    const { coupon } = setUp();
+
+    await expect(quote()).resolves.toEqual({ coupon, discount: 100, finalPrice: 900 });
+    expect(Coupon.findOne).toHaveBeenCalledWith({ code: 'SALE10', isActive: true });
+  });
+
+  it('caps percentage discounts at maxDiscount', async () => {
+    setUp({ discountValue: 50, maxDiscount: 200 });
+
+    await expect(quote()).resolves.toMatchObject({ discount: 200, finalPrice: 800 });
+  });
+
+  it('refuses a code whose total uses are gone', async () => {
+    setUp({ usageLimit: 5, usedCount: 5 });
+
+    await expect(quote()).rejects.toThrow('hết lượt sử dụng');
+  });
+
+  it('refuses a buyer who has used up their own limit', async () => {
+    setUp({ perUserLimit: 2 }, 2);
+
+    await expect(quote()).rejects.toThrow('Bạn đã dùng hết lượt');
+  });
+
+  it('lets a buyer under their limit use the code again', async () => {
+    setUp({ perUserLimit: 2 }, 1);
+
+    await expect(quote()).resolves.toMatchObject({ discount: 100 });
+  });
+
+  it('counts unrefunded uses against the payer, including gifts they bought for someone else', async () => {
+    const { coupon, countUses } = setUp();
+
+    await quote();
+
+    expect(countUses).toHaveBeenCalledWith({
+      'coupon.coupon': coupon._id,
+      status: { $ne: 'refunded' },
+      $or: [{ buyer, 'gift.sender': { $exists: false } }, { 'gift.sender': buyer }]
+    });
+  });
+
+  it('only applies inside its validity window', async () => {
+    setUp({ startsAt: new Date(Date.now() + 60_000) });
+    await expect(quote()).rejects.toThrow('chưa đến thời gian áp dụng');
+
+    setUp({ expiresAt: new Date(Date.now() - 60_000) });
+    await expect(quote()).rejects.toThrow('đã hết hạn');
+  });
+
+  it('only applies to the seller or listing it was made for', async () => {
+    setUp({ scope: 'seller', seller: id() });
+    await expect(quote()).rejects.toBeInstanceOf(CouponError);
+
+    setUp({ scope: 'listing', seller, sourceCode: id() });
+    await expect(quote()).rejects.toThrow('không áp dụng cho mã nguồn này');
+
+    setUp({ scope: 'listing', seller, sourceCode: sourceCode._id });
+    await expect(quote()).resolves.toMatchObject({ discount: 100 });
+  });
+
+  it('enforces the minimum spend', async () => {
+    setUp({ minSpend: 2000 });
+
+    await expect(quote()).rejects.toThrow('chỉ áp dụng cho đơn từ');
+  });
+});
@@ -0,0 +1,210 @@
+// lib/coupons.ts
+import mongoose, { ClientSession } from 'mongoose';
+import { Coupon, Purchase, ICoupon, IUser } from './db/models';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class CouponError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,30}$/;
+
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+export interface CouponInput {
+  code: string;
+  discountType: ICoupon['discountType'];
+  discountValue: number;
+  maxDiscount?: number;
+  minSpend: number;
+  usageLimit?: number;
+  perUserLimit: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+}
+
+const parseOptionalInteger = (value: FormDataEntryValue | null, label: string, min: number): number | undefined => {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new CouponError(`${label} phải là số nguyên từ ${min.toLocaleString('vi-VN')} trở lên`);
+  }
+  return number;
+};
+
+const parseOptionalDate = (value: FormDataEntryValue | null): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) {
+    throw new CouponError('Thời gian không hợp lệ');
+  }
+  return date;
+};
+
+// Shared by the seller and admin coupon forms; scope is resolved by each route
+export const parseCouponInput = (formData: FormData): CouponInput => {
+  const code = normalizeCouponCode((formData.get('code') as string) || '');
+  if (!COUPON_CODE_PATTERN.test(code)) {
+    throw new CouponError('Mã giảm giá gồm 3-30 ký tự chữ, số, gạch ngang hoặc gạch dưới');
+  }
+
+  const discountType = formData.get('discountType') as string;
+  if (discountType !== 'percentage' && discountType !== 'fixed') {
+    throw new CouponError('Loại giảm giá không hợp lệ');
+  }
+
+  const discountValue = parseOptionalInteger(formData.get('discountValue'), 'Mức giảm', 1);
+  if (discountValue === undefined) {
+    throw new CouponError('Vui lòng nhập mức giảm');
+  }
+  if (discountType === 'percentage' && discountValue > 100) {
+    throw new CouponError('Mức giảm theo phần trăm không được vượt quá 100%');
+  }
+
+  const startsAt = parseOptionalDate(formData.get('startsAt'));
+  const expiresAt = parseOptionalDate(formData.get('expiresAt'));
+  if (startsAt && expiresAt && startsAt >= expiresAt) {
+    throw new CouponError('Thời gian hết hạn phải sau thời gian bắt đầu');
+  }
+
+  return {
+    code,
+    discountType,
+    discountValue,
+    maxDiscount: discountType === 'percentage' ? parseOptionalInteger(formData.get('maxDiscount'), 'Mức giảm tối đa', 1) : undefined,
+    minSpend: parseOptionalInteger(formData.get('minSpend'), 'Giá trị đơn tối thiểu', 0) ?? 0,
+    usageLimit: parseOptionalInteger(formData.get('usageLimit'), 'Tổng lượt sử dụng', 1),
+    perUserLimit: parseOptionalInteger(formData.get('perUserLimit'), 'Lượt sử dụng mỗi người', 1) ?? 1,
+    startsAt,
+    expiresAt
+  };
+};
+
+interface CreateCouponOptions {
+  input: CouponInput;
+  scope: ICoupon['scope'];
+  seller?: mongoose.Types.ObjectId;
+  sourceCode?: mongoose.Types.ObjectId;
+  createdBy: IUser;
+}
+
+// Admins fund their coupons from the platform's commission; sellers fund their own
+export const createCoupon = async ({ input, scope, seller, sourceCode, createdBy }: CreateCouponOptions): Promise<ICoupon> => {
+  if (await Coupon.exists({ code: input.code })) {
+    throw new CouponError('Mã giảm giá này đã tồn tại, vui lòng chọn mã khác');
+  }
+
+  return Coupon.create({
+    ...input,
+    scope,
+    seller: scope === 'site' ? undefined : seller,
+    sourceCode: scope === 'listing' ? sourceCode : undefined,
+    fundedBy: createdBy.role === 'admin' ? 'platform' : 'seller',
+    isActive: true,
+    createdBy: createdBy._id
+  });
+};
+
+export const calculateDiscount = (coupon: Pick<ICoupon, 'discountType' | 'discountValue' | 'maxDiscount'>, price: number): number => {
+  const discount = coupon.discountType === 'percentage'
+    ? Math.floor(price * coupon.discountValue / 100)
+    : coupon.discountValue;
+  return Math.min(price, coupon.maxDiscount ? Math.min(discount, coupon.maxDiscount) : discount);
+};
+
+export const describeCoupon = (coupon: Pick<ICoupon, 'discountType' | 'discountValue' | 'maxDiscount' | 'minSpend'>): string => {
+  const amount = coupon.discountType === 'percentage'
+    ? `${coupon.discountValue}%${coupon.maxDiscount ? ` (tối đa ${coupon.maxDiscount.toLocaleString('vi-VN')} xu)` : ''}`
+    : `${coupon.discountValue.toLocaleString('vi-VN')} xu`;
+  return `Giảm ${amount}${coupon.minSpend > 0 ? ` cho đơn từ ${coupon.minSpend.toLocaleString('vi-VN')} xu` : ''}`;
+};
+
+export interface CouponQuote {
+  coupon: ICoupon;
+  discount: number;
+  finalPrice: number;
+}
+
+interface QuoteCouponOptions {
+  code: string;
+  sourceCode: { _id: mongoose.Types.ObjectId };
+  seller: mongoose.Types.ObjectId;
+  price: number;
+  buyer: mongoose.Types.ObjectId;
+  session?: ClientSession;
+}
+
+// Checks every restriction on the code for this buyer and listing, without using it up
+export const quoteCoupon = async ({ code, sourceCode, seller, price, buyer, session }: QuoteCouponOptions): Promise<CouponQuote> => {
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code), isActive: true }).session(session || null);
+  if (!coupon) {
+    throw new CouponError('Mã giảm giá không tồn tại hoặc đã ngừng áp dụng');
+  }
+
+  const now = new Date();
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new CouponError('Mã giảm giá chưa đến thời gian áp dụng');
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    throw new CouponError('Mã giảm giá đã hết hạn');
+  }
+
+  const appliesToListing = coupon.scope === 'site'
+    || (coupon.scope === 'seller' && coupon.seller?.toString() === seller.toString())
+    || (coupon.scope === 'listing' && coupon.sourceCode?.toString() === sourceCode._id.toString());
+  if (!appliesToListing) {
+    throw new CouponError('Mã giảm giá không áp dụng cho mã nguồn này');
+  }
+
+  if (price === 0) {
+    throw new CouponError('Mã nguồn miễn phí không cần mã giảm giá');
+  }
+  if (price < coupon.minSpend) {
+    throw new CouponError(`Mã giảm giá chỉ áp dụng cho đơn từ ${coupon.minSpend.toLocaleString('vi-VN')} xu`);
+  }
+
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    throw new CouponError('Mã giảm giá đã hết lượt sử dụng');
+  }
+  // Uses count against whoever paid: gifts store the recipient as buyer and the payer as gift.sender.
+  // A refund gives its use back (see releaseCoupon), so refunded purchases don't count.
+  const usedByBuyer = await Purchase.countDocuments({
+    'coupon.coupon': coupon._id,
+    status: { $ne: 'refunded' },
+    $or: [{ buyer, 'gift.sender': { $exists: false } }, { 'gift.sender': buyer }]
+  }).session(session || null);
+  if (usedByBuyer >= coupon.perUserLimit) {
+    throw new CouponError('Bạn đã dùng hết lượt của mã giảm giá này');
+  }
+
+  const discount = calculateDiscount(coupon, price);
+  return { coupon, discount, finalPrice: price - discount };
+};
+
+// Takes one use inside the checkout transaction; the guard loses the race cleanly when the last use is taken concurrently
+export const redeemCoupon = async (coupon: ICoupon, session: ClientSession): Promise<void> => {
+  const redeemed = await Coupon.updateOne(
+    {
+      _id: coupon._id,
+      isActive: true,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }]
+    },
+    { $inc: { usedCount: 1 } },
+    { session }
+  );
+  if (redeemed.modifiedCount === 0) {
+    throw new CouponError('Mã giảm giá đã hết lượt sử dụng');
+  }
+};
+
+// Gives the use back when the purchase it was spent on is refunded, in the refund's transaction
+export const releaseCoupon = async (couponId: mongoose.Types.ObjectId, session: ClientSession): Promise<void> => {
+  await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } }, { session });
+};
@@ -1,5 +1,5 @@
 // lib/db/connection.ts
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 
 const MONGODB_URI = process.env.MONGODB_URI!;
 
@@ -41,4 +41,10 @@ export async function connectToDatabase() {
   }
 
   return cached.conn;
+}
+
+// Runs fn inside a MongoDB transaction, retrying on transient errors
+export async function withTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+  const conn = await connectToDatabase();
+  return conn.connection.transaction(fn);
 }
\ No newline at end of file
@@ -1,7 +1,35 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// Listings a user has put aside to buy together, with the license tier they picked
+export interface ICartItem {
+  sourceCode: mongoose.Types.ObjectId;
+  licenseTier?: mongoose.Types.ObjectId; // Unset for listings sold without license tiers
+  addedAt: Date;
+}
+
+const CartItemSchema = new Schema<ICartItem>({
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  licenseTier: { type: Schema.Types.ObjectId },
+  addedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+// Listings a user is watching; lastKnownPrice tracks what they were last told so only real drops alert them
+export interface IWishlistItem {
+  sourceCode: mongoose.Types.ObjectId;
+  addedAt: Date;
+  addedPrice: number;
+  lastKnownPrice: number;
+}
+
+const WishlistItemSchema = new Schema<IWishlistItem>({
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  addedAt: { type: Date, default: Date.now },
+  addedPrice: { type: Number, required: true },
+  lastKnownPrice: { type: Number, required: true },
+}, { _id: false });
+
 // User Model
-export interface IUser extends Document {
+export interface IUser extends Document<mongoose.Types.ObjectId> {
   userId: string;
   email: string;
   password: string;
@@ -9,11 +37,15 @@ export interface IUser extends Document {
   avatar?: string;
   phone?: string;
   balance: number;
+  heldBalance: number;
+  pendingBalance: number;
   role: 'user' | 'admin';
   isVerified: boolean;
   verificationToken?: string;
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
+  cart: ICartItem[];
+  wishlist: IWishlistItem[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,25 +58,113 @@ const UserSchema = new Schema<IUser>({
   avatar: { type: String, default: '' },
   phone: { type: String, default: '' },
   balance: { type: Number, default: 0 },
+  heldBalance: { type: Number, default: 0 },
+  pendingBalance: { type: Number, default: 0 },
   role: { type: String, enum: ['user', 'admin'], default: 'user' },
   isVerified: { type: Boolean, default: false },
   verificationToken: { type: String },
   resetPasswordToken: { type: String },
   resetPasswordExpires: { type: Date },
+  cart: [CartItemSchema],
+  wishlist: [WishlistItemSchema],
 }, { timestamps: true });
 
+UserSchema.index({ 'wishlist.sourceCode': 1 });
+
+// Archive inspection, shared by SourceCode and SourceCodeVersion
+export interface IInspectionFinding {
+  kind: 'secret' | 'executable' | 'large_binary';
+  path: string;
+  detail: string;
+}
+
+export interface IArchiveInspection {
+  status: 'clean' | 'flagged';
+  version?: mongoose.Types.ObjectId;
+  fileCount: number;
+  totalSize: number;
+  linesOfCode: number;
+  languages: { name: string; files: number; lines: number }[];
+  frameworks: string[];
+  findings: IInspectionFinding[];
+  inspectedAt: Date;
+  reviewedBy?: mongoose.Types.ObjectId; // Admin who looked at the findings
+  reviewedAt?: Date;
+}
+
+const InspectionFindingSchema = new Schema<IInspectionFinding>({
+  kind: { type: String, enum: ['secret', 'executable', 'large_binary'], required: true },
+  path: { type: String, required: true },
+  detail: { type: String, required: true },
+}, { _id: false });
+
+const ArchiveInspectionSchema = new Schema<IArchiveInspection>({
+  status: { type: String, enum: ['clean', 'flagged'], required: true },
+  version: { type: Schema.Types.ObjectId, ref: 'SourceCodeVersion' },
+  fileCount: { type: Number, required: true },
+  totalSize: { type: Number, required: true },
+  linesOfCode: { type: Number, required: true },
+  languages: [{ name: String, files: Number, lines: Number, _id: false }],
+  frameworks: [{ type: String }],
+  findings: [InspectionFindingSchema],
+  inspectedAt: { type: Date, required: true },
+  reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reviewedAt: { type: Date },
+}, { _id: false });
+
+// License tiers a listing is sold under
+export interface ILicenseTier {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description: string;
+  price: number;
+  accessDays?: number; // Download window; unset means lifetime access
+  updateDays?: number; // How long newer versions are included; unset means all future updates
+  commercialUse: boolean;
+  isActive: boolean; // Retired tiers stay so past purchases keep pointing at them
+}
+
+const LicenseTierSchema = new Schema<ILicenseTier>({
+  name: { type: String, required: true },
+  description: { type: String, default: '' },
+  price: { type: Number, required: true, min: 0 },
+  accessDays: { type: Number, min: 1 },
+  updateDays: { type: Number, min: 0 },
+  commercialUse: { type: Boolean, default: false },
+  isActive: { type: Boolean, default: true },
+});
+
+// Scheduled percentage-off sales, applied to every license tier while running
+export interface ISourceCodeSale {
+  _id: mongoose.Types.ObjectId;
+  percentOff: number;
+  startsAt: Date;
+  endsAt: Date; // Ending a sale early moves this to the moment it was stopped, so history stays accurate
+}
+
+const SourceCodeSaleSchema = new Schema<ISourceCodeSale>({
+  percentOff: { type: Number, required: true, min: 1, max: 100 },
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date, required: true },
+});
+
 // SourceCode Model
-export interface ISourceCode extends Document {
+export interface ISourceCode extends Document<mongoose.Types.ObjectId> {
   sourceId: string;
   title: string;
   description: string;
-  price: number;
+  price: number; // Lowest active license tier price, used for browsing and sorting
+  licenseTiers: ILicenseTier[];
+  sales: ISourceCodeSale[];
   seller: mongoose.Types.ObjectId;
   category: string;
   tags: string[];
   thumbnail: string;
   demoVideo?: string;
-  sourceLink: string;
+  sourceLink?: string; // External link, for listings without a hosted archive
+  currentVersion?: mongoose.Types.ObjectId;
+  inspection?: IArchiveInspection; // Report for the current version
+  previewFiles: string[]; // Paths the seller lets buyers preview before purchase
   views: number;
   purchases: number;
   rating: number;
@@ -60,12 +180,17 @@ const SourceCodeSchema = new Schema<ISourceCode>({
   title: { type: String, required: true },
   description: { type: String, required: true },
   price: { type: Number, required: true, min: 0 },
+  licenseTiers: [LicenseTierSchema],
+  sales: [SourceCodeSaleSchema],
   seller: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   category: { type: String, required: true },
   tags: [{ type: String }],
   thumbnail: { type: String, required: true },
   demoVideo: { type: String },
-  sourceLink: { type: String, required: true },
+  sourceLink: { type: String },
+  currentVersion: { type: Schema.Types.ObjectId, ref: 'SourceCodeVersion' },
+  inspection: { type: ArchiveInspectionSchema },
+  previewFiles: [{ type: String }],
   views: { type: Number, default: 0 },
   purchases: { type: Number, default: 0 },
   rating: { type: Number, default: 0 },
@@ -74,32 +199,189 @@ const SourceCodeSchema = new Schema<ISourceCode>({
   isAdminPost: { type: Boolean, default: false },
 }, { timestamps: true });
 
+SourceCodeSchema.index({ 'inspection.status': 1, 'inspection.reviewedAt': 1 });
+
+// PriceHistory Model
+export interface IPriceHistory extends Document<mongoose.Types.ObjectId> {
+  sourceCode: mongoose.Types.ObjectId;
+  price: number; // Listing price (lowest tier) from this point on, before any sale
+  changedAt: Date;
+}
+
+const PriceHistorySchema = new Schema<IPriceHistory>({
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  price: { type: Number, required: true, min: 0 },
+  changedAt: { type: Date, default: Date.now },
+});
+
+PriceHistorySchema.index({ sourceCode: 1, changedAt: 1 });
+
 // Purchase Model
-export interface IPurchase extends Document {
+export interface IPurchaseLicense {
+  tierId?: mongoose.Types.ObjectId; // Unset for listings sold before license tiers existed
+  name: string;
+  accessDays?: number;
+  updateDays?: number;
+  commercialUse: boolean;
+}
+
+export interface IPurchaseCoupon {
+  coupon: mongoose.Types.ObjectId;
+  code: string;
+  fundedBy: 'seller' | 'platform';
+}
+
+export interface IPurchaseBundle {
+  bundle: mongoose.Types.ObjectId;
+  bundleId: string;
+  title: string;
+}
+
+export interface IPurchaseGift {
+  sender: mongoose.Types.ObjectId; // Paid for the purchase; buyer is the recipient
+  message?: string;
+}
+
+export interface IPurchase extends Document<mongoose.Types.ObjectId> {
   purchaseId: string;
   buyer: mongoose.Types.ObjectId;
+  seller?: mongoose.Types.ObjectId;
   sourceCode: mongoose.Types.ObjectId;
-  amount: number;
+  version?: mongoose.Types.ObjectId; // Version that was current when bought
+  amount: number; // What the buyer paid, after any coupon
+  listPrice?: number; // Tier price before the coupon; unset on purchases made before coupons existed
+  discountAmount: number;
+  coupon?: IPurchaseCoupon;
+  bundle?: IPurchaseBundle; // Set when the listing was bought as part of a bundle; amount is its share of the bundle price
+  subscription?: mongoose.Types.ObjectId; // Free access granted by a seller subscription; accessExpiresAt follows the subscription
+  gift?: IPurchaseGift; // Set when someone else bought the listing for the buyer
+  organization?: mongoose.Types.ObjectId; // Paid from this organization's wallet; every member gets access
   sellerEarnings: number;
   adminCommission: number;
-  accessExpiresAt: Date;
+  commissionRate: number;
+  commissionRule?: mongoose.Types.ObjectId;
+  order?: mongoose.Types.ObjectId; // Unset on purchases made before orders existed
+  license?: IPurchaseLicense; // Snapshot of the tier that was bought
+  accessExpiresAt?: Date; // Unset means lifetime access
+  updatesUntil?: Date; // Versions published after this are not included; unset means all updates
+  licenseKey?: string; // Signed key buyers hand to the seller's software as proof of license
+  licenseRevokedAt?: Date;
+  licenseRevokedReason?: string;
+  status: 'completed' | 'disputed' | 'refunded';
+  refundedAmount: number;
+  refundedAt?: Date;
+  heldEarnings: number; // Seller earnings still in escrow
+  earningsReleaseAt?: Date;
+  earningsReleasedAt?: Date;
+  downloadCount: number;
+  lastDownloadedAt?: Date;
   createdAt: Date;
 }
 
 const PurchaseSchema = new Schema<IPurchase>({
   purchaseId: { type: String, required: true, unique: true },
   buyer: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  seller: { type: Schema.Types.ObjectId, ref: 'User' },
   sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  version: { type: Schema.Types.ObjectId, ref: 'SourceCodeVersion' },
   amount: { type: Number, required: true },
+  listPrice: { type: Number },
+  discountAmount: { type: Number, default: 0 },
+  coupon: {
+    coupon: { type: Schema.Types.ObjectId, ref: 'Coupon' },
+    code: { type: String },
+    fundedBy: { type: String, enum: ['seller', 'platform'] },
+  },
+  bundle: {
+    bundle: { type: Schema.Types.ObjectId, ref: 'Bundle' },
+    bundleId: { type: String },
+    title: { type: String },
+  },
+  subscription: { type: Schema.Types.ObjectId, ref: 'Subscription', index: true, sparse: true },
+  gift: {
+    sender: { type: Schema.Types.ObjectId, ref: 'User' },
+    message: { type: String },
+  },
+  organization: { type: Schema.Types.ObjectId, ref: 'Organization', index: true, sparse: true },
   sellerEarnings: { type: Number, required: true },
   adminCommission: { type: Number, required: true },
-  accessExpiresAt: { type: Date, required: true },
+  commissionRate: { type: Number, default: 20 },
+  commissionRule: { type: Schema.Types.ObjectId, ref: 'CommissionRule' },
+  order: { type: Schema.Types.ObjectId, ref: 'Order' },
+  license: {
+    tierId: { type: Schema.Types.ObjectId },
+    name: { type: String },
+    accessDays: { type: Number },
+    updateDays: { type: Number },
+    commercialUse: { type: Boolean },
+  },
+  accessExpiresAt: { type: Date },
+  updatesUntil: { type: Date },
+  licenseKey: { type: String, unique: true, sparse: true },
+  licenseRevokedAt: { type: Date },
+  licenseRevokedReason: { type: String },
+  status: { type: String, enum: ['completed', 'disputed', 'refunded'], default: 'completed' },
+  refundedAmount: { type: Number, default: 0 },
+  refundedAt: { type: Date },
+  heldEarnings: { type: Number, default: 0 },
+  earningsReleaseAt: { type: Date },
+  earningsReleasedAt: { type: Date },
+  downloadCount: { type: Number, default: 0 },
+  lastDownloadedAt: { type: Date },
+}, { timestamps: true });
+
+PurchaseSchema.index({ earningsReleaseAt: 1 }, { partialFilterExpression: { heldEarnings: { $gt: 0 } } });
+PurchaseSchema.index({ 'gift.sender': 1, createdAt: -1 }, { sparse: true });
+
+// Order Model
+export interface IOrderItem {
+  purchase: mongoose.Types.ObjectId;
+  sourceCode: mongoose.Types.ObjectId;
+  seller: mongoose.Types.ObjectId;
+  title: string; // Snapshot so the order still reads right if the listing is renamed or deleted
+  licenseName: string;
+  amount: number;
+  discountAmount: number;
+  couponCode?: string;
+  bundleTitle?: string;
+  giftRecipient?: string; // Recipient's name, for gifts
+  sellerEarnings: number;
+}
+
+export interface IOrder extends Document<mongoose.Types.ObjectId> {
+  orderId: string;
+  buyer: mongoose.Types.ObjectId;
+  items: IOrderItem[];
+  totalAmount: number;
+  createdAt: Date;
+}
+
+const OrderItemSchema = new Schema<IOrderItem>({
+  purchase: { type: Schema.Types.ObjectId, ref: 'Purchase', required: true },
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  seller: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  title: { type: String, required: true },
+  licenseName: { type: String, required: true },
+  amount: { type: Number, required: true },
+  discountAmount: { type: Number, default: 0 },
+  couponCode: { type: String },
+  bundleTitle: { type: String },
+  giftRecipient: { type: String },
+  sellerEarnings: { type: Number, required: true },
+}, { _id: false });
+
+const OrderSchema = new Schema<IOrder>({
+  orderId: { type: String, required: true, unique: true },
+  buyer: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  items: [OrderItemSchema],
+  totalAmount: { type: Number, required: true },
 }, { timestamps: true });
 
 // Payment Model
-export interface IPayment extends Document {
+export interface IPayment extends Document<mongoose.Types.ObjectId> {
   paymentId: string;
   user: mongoose.Types.ObjectId;
+  organization?: mongoose.Types.ObjectId; // Deposits into an organization's wallet rather than the user's own
   type: 'deposit' | 'withdrawal';
   amount: number;
   status: 'pending' | 'approved' | 'rejected';
@@ -110,6 +392,9 @@ export interface IPayment extends Document {
   };
   note?: string;
   adminNote?: string;
+  fundsHeld: boolean;
+  gateway?: string; // Online payment provider, unset for manual bank transfers
+  gatewayTransactionId?: string;
   processedBy?: mongoose.Types.ObjectId;
   processedAt?: Date;
   createdAt: Date;
@@ -118,6 +403,7 @@ export interface IPayment extends Document {
 const PaymentSchema = new Schema<IPayment>({
   paymentId: { type: String, required: true, unique: true },
   user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  organization: { type: Schema.Types.ObjectId, ref: 'Organization' },
   type: { type: String, enum: ['deposit', 'withdrawal'], required: true },
   amount: { type: Number, required: true },
   status: { type: String, enum: ['pending', 'approved', 'rejected'], default: 'pending' },
@@ -128,12 +414,15 @@ const PaymentSchema = new Schema<IPayment>({
   },
   note: { type: String },
   adminNote: { type: String },
+  fundsHeld: { type: Boolean, default: false },
+  gateway: { type: String },
+  gatewayTransactionId: { type: String },
   processedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   processedAt: { type: Date },
 }, { timestamps: true });
 
 // Review Model
-export interface IReview extends Document {
+export interface IReview extends Document<mongoose.Types.ObjectId> {
   buyer: mongoose.Types.ObjectId;
   sourceCode: mongoose.Types.ObjectId;
   rating: number;
@@ -149,7 +438,7 @@ const ReviewSchema = new Schema<IReview>({
 }, { timestamps: true });
 
 // Comment Model
-export interface IComment extends Document {
+export interface IComment extends Document<mongoose.Types.ObjectId> {
   user: mongoose.Types.ObjectId;
   sourceCode: mongoose.Types.ObjectId;
   content: string;
@@ -167,7 +456,7 @@ const CommentSchema = new Schema<IComment>({
 }, { timestamps: true });
 
 // Notification Model
-export interface INotification extends Document {
+export interface INotification extends Document<mongoose.Types.ObjectId> {
   user: mongoose.Types.ObjectId;
   title: string;
   message: string;
@@ -187,7 +476,7 @@ const NotificationSchema = new Schema<INotification>({
 }, { timestamps: true });
 
 // Category Model
-export interface ICategory extends Document {
+export interface ICategory extends Document<mongoose.Types.ObjectId> {
   name: string;
   slug: string;
   description: string;
@@ -204,12 +493,536 @@ const CategorySchema = new Schema<ICategory>({
   isActive: { type: Boolean, default: true },
 }, { timestamps: true });
 
+// CommissionRule Model
+export interface ICommissionRule extends Document<mongoose.Types.ObjectId> {
+  name: string;
+  scope: 'default' | 'category' | 'seller' | 'promotion';
+  rate: number; // Platform commission in percent
+  category?: string;
+  seller?: mongoose.Types.ObjectId;
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const CommissionRuleSchema = new Schema<ICommissionRule>({
+  name: { type: String, required: true },
+  scope: { type: String, enum: ['default', 'category', 'seller', 'promotion'], required: true },
+  rate: { type: Number, required: true, min: 0, max: 100 },
+  category: { type: String },
+  seller: { type: Schema.Types.ObjectId, ref: 'User' },
+  startsAt: { type: Date },
+  endsAt: { type: Date },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+}, { timestamps: true });
+
+// Coupon Model
+export interface ICoupon extends Document<mongoose.Types.ObjectId> {
+  code: string; // Stored uppercase; codes are unique across the site
+  scope: 'site' | 'seller' | 'listing';
+  seller?: mongoose.Types.ObjectId; // Whose listings a seller or listing coupon applies to
+  sourceCode?: mongoose.Types.ObjectId;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number; // Percent for percentage coupons, xu for fixed ones
+  maxDiscount?: number; // Cap in xu for percentage coupons
+  minSpend: number;
+  usageLimit?: number; // Unset means unlimited
+  perUserLimit: number;
+  usedCount: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  fundedBy: 'seller' | 'platform'; // Sellers' coupons come out of both shares, admins' out of the commission first
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>({
+  code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+  scope: { type: String, enum: ['site', 'seller', 'listing'], required: true },
+  seller: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode' },
+  discountType: { type: String, enum: ['percentage', 'fixed'], required: true },
+  discountValue: { type: Number, required: true, min: 0 },
+  maxDiscount: { type: Number, min: 0 },
+  minSpend: { type: Number, default: 0 },
+  usageLimit: { type: Number, min: 1 },
+  perUserLimit: { type: Number, default: 1, min: 1 },
+  usedCount: { type: Number, default: 0 },
+  startsAt: { type: Date },
+  expiresAt: { type: Date },
+  fundedBy: { type: String, enum: ['seller', 'platform'], required: true },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+}, { timestamps: true });
+
+// LedgerEntry Model
+export type LedgerReason =
+  | 'deposit'
+  | 'withdrawal'
+  | 'withdrawal_hold'
+  | 'withdrawal_release'
+  | 'purchase'
+  | 'earnings_release'
+  | 'refund'
+  | 'adjustment'
+  | 'opening_balance'
+  | 'subscription';
+
+export interface ILedgerLeg {
+  account: string;
+  user?: mongoose.Types.ObjectId;
+  organization?: mongoose.Types.ObjectId;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+export interface ILedgerEntry extends Document<mongoose.Types.ObjectId> {
+  entryId: string;
+  reason: LedgerReason;
+  legs: ILedgerLeg[];
+  purchase?: mongoose.Types.ObjectId;
+  payment?: mongoose.Types.ObjectId;
+  subscription?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+const LedgerLegSchema = new Schema<ILedgerLeg>({
+  account: { type: String, required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User' },
+  organization: { type: Schema.Types.ObjectId, ref: 'Organization' },
+  direction: { type: String, enum: ['debit', 'credit'], required: true },
+  amount: { type: Number, required: true, min: 0 },
+}, { _id: false });
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>({
+  entryId: { type: String, required: true, unique: true },
+  reason: {
+    type: String,
+    enum: [
+      'deposit',
+      'withdrawal',
+      'withdrawal_hold',
+      'withdrawal_release',
+      'purchase',
+      'earnings_release',
+      'refund',
+      'adjustment',
+      'opening_balance',
+      'subscription'
+    ],
+    required: true
+  },
+  legs: { type: [LedgerLegSchema], required: true },
+  purchase: { type: Schema.Types.ObjectId, ref: 'Purchase' },
+  payment: { type: Schema.Types.ObjectId, ref: 'Payment' },
+  subscription: { type: Schema.Types.ObjectId, ref: 'Subscription' },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  note: { type: String },
+}, { timestamps: true });
+
+LedgerEntrySchema.index({ 'legs.account': 1, createdAt: -1 });
+
+// IdempotencyKey Model
+export interface IIdempotencyKey extends Document<mongoose.Types.ObjectId> {
+  key: string;
+  user: mongoose.Types.ObjectId;
+  scope: string;
+  requestHash: string;
+  status: 'processing' | 'completed';
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>({
+  key: { type: String, required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  scope: { type: String, required: true },
+  requestHash: { type: String, required: true },
+  status: { type: String, enum: ['processing', 'completed'], default: 'processing' },
+  response: {
+    status: { type: Number },
+    headers: { type: Schema.Types.Mixed },
+    body: { type: String },
+  },
+  expiresAt: { type: Date, required: true },
+}, { timestamps: true });
+
+IdempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// BankStatementImport Model
+export interface IBankStatementImport extends Document<mongoose.Types.ObjectId> {
+  fileName: string;
+  uploadedBy: mongoose.Types.ObjectId;
+  totalLines: number;
+  matchedCount: number;
+  queuedCount: number;
+  duplicateCount: number;
+  createdAt: Date;
+}
+
+const BankStatementImportSchema = new Schema<IBankStatementImport>({
+  fileName: { type: String, required: true },
+  uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  totalLines: { type: Number, default: 0 },
+  matchedCount: { type: Number, default: 0 },
+  queuedCount: { type: Number, default: 0 },
+  duplicateCount: { type: Number, default: 0 },
+}, { timestamps: true });
+
+// BankTransaction Model
+export type BankTransactionIssue =
+  | 'no_payment_id'
+  | 'payment_not_found'
+  | 'amount_mismatch'
+  | 'payment_not_pending';
+
+export interface IBankTransaction extends Document<mongoose.Types.ObjectId> {
+  statementImport: mongoose.Types.ObjectId;
+  fingerprint: string;
+  transactionDate: Date;
+  amount: number;
+  description: string;
+  reference?: string;
+  paymentId?: string;
+  payment?: mongoose.Types.ObjectId;
+  status: 'matched' | 'pending_review' | 'resolved' | 'ignored';
+  issue?: BankTransactionIssue;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+const BankTransactionSchema = new Schema<IBankTransaction>({
+  statementImport: { type: Schema.Types.ObjectId, ref: 'BankStatementImport', required: true },
+  fingerprint: { type: String, required: true, unique: true },
+  transactionDate: { type: Date, required: true },
+  amount: { type: Number, required: true },
+  description: { type: String, default: '' },
+  reference: { type: String },
+  paymentId: { type: String },
+  payment: { type: Schema.Types.ObjectId, ref: 'Payment' },
+  status: { type: String, enum: ['matched', 'pending_review', 'resolved', 'ignored'], required: true },
+  issue: { type: String, enum: ['no_payment_id', 'payment_not_found', 'amount_mismatch', 'payment_not_pending'] },
+  resolvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  resolvedAt: { type: Date },
+}, { timestamps: true });
+
+BankTransactionSchema.index({ status: 1, transactionDate: -1 });
+
+// Dispute Model
+export interface IDispute extends Document<mongoose.Types.ObjectId> {
+  disputeId: string;
+  purchase: mongoose.Types.ObjectId;
+  buyer: mongoose.Types.ObjectId;
+  seller: mongoose.Types.ObjectId;
+  sourceCode: mongoose.Types.ObjectId;
+  reason: 'not_as_described' | 'not_working' | 'missing_files' | 'no_access' | 'other';
+  description: string;
+  status: 'open' | 'seller_responded' | 'resolved';
+  sellerResponse?: string;
+  sellerRespondedAt?: Date;
+  resolution?: 'refund_full' | 'refund_partial' | 'rejected';
+  refundAmount: number;
+  adminNote?: string;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+const DisputeSchema = new Schema<IDispute>({
+  disputeId: { type: String, required: true, unique: true },
+  purchase: { type: Schema.Types.ObjectId, ref: 'Purchase', required: true },
+  buyer: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  seller: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  reason: {
+    type: String,
+    enum: ['not_as_described', 'not_working', 'missing_files', 'no_access', 'other'],
+    required: true
+  },
+  description: { type: String, required: true },
+  status: { type: String, enum: ['open', 'seller_responded', 'resolved'], default: 'open' },
+  sellerResponse: { type: String },
+  sellerRespondedAt: { type: Date },
+  resolution: { type: String, enum: ['refund_full', 'refund_partial', 'rejected'] },
+  refundAmount: { type: Number, default: 0 },
+  adminNote: { type: String },
+  resolvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  resolvedAt: { type: Date },
+}, { timestamps: true });
+
 // Create and export models
+// SourceCodeVersion Model
+export interface ISourceCodeVersion extends Document<mongoose.Types.ObjectId> {
+  sourceCode: mongoose.Types.ObjectId;
+  versionNumber: number; // Sequential per listing, used to compare versions
+  version: string; // Label chosen by the seller, e.g. "1.2.0"
+  changelog: string;
+  storageBackend: string;
+  storageKey: string;
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+  sha256: string;
+  files: { path: string; size: number }[];
+  filesTruncated: boolean; // Very large archives only keep the first entries
+  inspection: IArchiveInspection;
+  previews: { path: string; content: string; truncated: boolean }[]; // Excerpts of the listing's preview files
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const SourceCodeVersionSchema = new Schema<ISourceCodeVersion>({
+  sourceCode: { type: Schema.Types.ObjectId, ref: 'SourceCode', required: true },
+  versionNumber: { type: Number, required: true },
+  version: { type: String, required: true },
+  changelog: { type: String, default: '' },
+  storageBackend: { type: String, required: true },
+  storageKey: { type: String, required: true },
+  fileName: { type: String, required: true },
+  fileSize: { type: Number, required: true },
+  contentType: { type: String, required: true },
+  sha256: { type: String, required: true },
+  files: [{ path: String, size: Number, _id: false }],
+  filesTruncated: { type: Boolean, default: false },
+  inspection: { type: ArchiveInspectionSchema, required: true },
+  previews: [{ path: String, content: String, truncated: Boolean, _id: false }],
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+}, { timestamps: true });
+
+SourceCodeVersionSchema.index({ sourceCode: 1, versionNumber: 1 }, { unique: true });
+
+// Counter Model
+export interface ICounter {
+  _id: string; // Sequence name, e.g. "invoice:2026"
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 },
+});
+
+// Invoice Model
+export interface IInvoiceLine {
+  description: string;
+  detail?: string;
+  amount: number;
+}
+
+export interface IInvoice extends Document<mongoose.Types.ObjectId> {
+  invoiceNumber: string; // Sequential per year, e.g. "HD2026-000042"
+  type: 'order' | 'deposit';
+  user: mongoose.Types.ObjectId;
+  order?: mongoose.Types.ObjectId;
+  payment?: mongoose.Types.ObjectId;
+  reference: string; // orderId or paymentId the invoice was issued for
+  // Buyer details are copied so the invoice never changes after it is issued
+  billedTo: {
+    fullName: string;
+    email: string;
+    userId: string;
+  };
+  lines: IInvoiceLine[];
+  totalAmount: number;
+  issuedAt: Date;
+  createdAt: Date;
+}
+
+const InvoiceLineSchema = new Schema<IInvoiceLine>({
+  description: { type: String, required: true },
+  detail: { type: String },
+  amount: { type: Number, required: true },
+}, { _id: false });
+
+const InvoiceSchema = new Schema<IInvoice>({
+  invoiceNumber: { type: String, required: true, unique: true },
+  type: { type: String, enum: ['order', 'deposit'], required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  order: { type: Schema.Types.ObjectId, ref: 'Order', unique: true, sparse: true },
+  payment: { type: Schema.Types.ObjectId, ref: 'Payment', unique: true, sparse: true },
+  reference: { type: String, required: true },
+  billedTo: {
+    fullName: { type: String, required: true },
+    email: { type: String, required: true },
+    userId: { type: String, required: true },
+  },
+  lines: [InvoiceLineSchema],
+  totalAmount: { type: Number, required: true },
+  issuedAt: { type: Date, required: true },
+}, { timestamps: true });
+
+// Bundle Model
+export interface IBundle extends Document<mongoose.Types.ObjectId> {
+  bundleId: string;
+  title: string;
+  description: string;
+  seller: mongoose.Types.ObjectId;
+  sourceCodes: mongoose.Types.ObjectId[];
+  price: number; // Charged once for every listing in the bundle
+  purchases: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BundleSchema = new Schema<IBundle>({
+  bundleId: { type: String, required: true, unique: true },
+  title: { type: String, required: true },
+  description: { type: String, default: '' },
+  seller: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  sourceCodes: [{ type: Schema.Types.ObjectId, ref: 'SourceCode', required: true }],
+  price: { type: Number, required: true, min: 0 },
+  purchases: { type: Number, default: 0 },
+  isActive: { type: Boolean, default: true },
+}, { timestamps: true });
+
+BundleSchema.index({ sourceCodes: 1, isActive: 1 });
+
+// SubscriptionPlan Model
+export interface ISubscriptionPlan extends Document<mongoose.Types.ObjectId> {
+  seller: mongoose.Types.ObjectId;
+  price: number; // Charged every month for access to all of the seller's listings
+  description: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubscriptionPlanSchema = new Schema<ISubscriptionPlan>({
+  seller: { type: Schema.Types.ObjectId, ref: 'User', required: true, unique: true },
+  price: { type: Number, required: true, min: 0 },
+  description: { type: String, default: '' },
+  isActive: { type: Boolean, default: true },
+}, { timestamps: true });
+
+// Subscription Model
+export interface ISubscriptionCharge {
+  amount: number;
+  sellerEarnings: number;
+  adminCommission: number;
+  periodStart: Date;
+  periodEnd: Date;
+  ledgerEntry?: mongoose.Types.ObjectId;
+  chargedAt: Date;
+}
+
+export interface ISubscription extends Document<mongoose.Types.ObjectId> {
+  subscriptionId: string;
+  plan: mongoose.Types.ObjectId;
+  subscriber: mongoose.Types.ObjectId;
+  seller: mongoose.Types.ObjectId;
+  price: number; // Locked in when subscribing; later plan price changes apply to new subscribers only
+  // past_due keeps access until graceEndsAt while renewal is retried; canceled and expired are final
+  status: 'active' | 'past_due' | 'canceled' | 'expired';
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  graceEndsAt?: Date;
+  lastPaymentError?: string;
+  canceledAt?: Date;
+  endedAt?: Date;
+  charges: ISubscriptionCharge[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubscriptionChargeSchema = new Schema<ISubscriptionCharge>({
+  amount: { type: Number, required: true },
+  sellerEarnings: { type: Number, required: true },
+  adminCommission: { type: Number, required: true },
+  periodStart: { type: Date, required: true },
+  periodEnd: { type: Date, required: true },
+  ledgerEntry: { type: Schema.Types.ObjectId, ref: 'LedgerEntry' },
+  chargedAt: { type: Date, required: true },
+}, { _id: false });
+
+const SubscriptionSchema = new Schema<ISubscription>({
+  subscriptionId: { type: String, required: true, unique: true },
+  plan: { type: Schema.Types.ObjectId, ref: 'SubscriptionPlan', required: true },
+  subscriber: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  seller: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  price: { type: Number, required: true, min: 0 },
+  status: { type: String, enum: ['active', 'past_due', 'canceled', 'expired'], default: 'active' },
+  currentPeriodStart: { type: Date, required: true },
+  currentPeriodEnd: { type: Date, required: true },
+  cancelAtPeriodEnd: { type: Boolean, default: false },
+  graceEndsAt: { type: Date },
+  lastPaymentError: { type: String },
+  canceledAt: { type: Date },
+  endedAt: { type: Date },
+  charges: [SubscriptionChargeSchema],
+}, { timestamps: true });
+
+SubscriptionSchema.index({ subscriber: 1, seller: 1, status: 1 });
+SubscriptionSchema.index({ status: 1, currentPeriodEnd: 1 });
+
+// Organization Model
+export interface IOrganizationMember {
+  user: mongoose.Types.ObjectId;
+  role: 'owner' | 'purchaser' | 'viewer';
+  addedAt: Date;
+}
+
+export interface IOrganization extends Document<mongoose.Types.ObjectId> {
+  orgId: string;
+  name: string;
+  balance: number; // Shared wallet, mirrored from the org ledger account
+  members: IOrganizationMember[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrganizationMemberSchema = new Schema<IOrganizationMember>({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  role: { type: String, enum: ['owner', 'purchaser', 'viewer'], required: true },
+  addedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const OrganizationSchema = new Schema<IOrganization>({
+  orgId: { type: String, required: true, unique: true },
+  name: { type: String, required: true, trim: true },
+  balance: { type: Number, default: 0 },
+  members: [OrganizationMemberSchema],
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+}, { timestamps: true });
+
+OrganizationSchema.index({ 'members.user': 1 });
+
 export const User = mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
 export const SourceCode = mongoose.models.SourceCode || mongoose.model<ISourceCode>('SourceCode', SourceCodeSchema);
+export const PriceHistory = mongoose.models.PriceHistory || mongoose.model<IPriceHistory>('PriceHistory', PriceHistorySchema);
 export const Purchase = mongoose.models.Purchase || mongoose.model<IPurchase>('Purchase', PurchaseSchema);
+export const Order = mongoose.models.Order || mongoose.model<IOrder>('Order', OrderSchema);
 export const Payment = mongoose.models.Payment || mongoose.model<IPayment>('Payment', PaymentSchema);
 export const Review = mongoose.models.Review || mongoose.model<IReview>('Review', ReviewSchema);
 export const Comment = mongoose.models.Comment || mongoose.model<IComment>('Comment', CommentSchema);
 export const Notification = mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
-export const Category = mongoose.models.Category || mongoose.model<ICategory>('Category', CategorySchema);
\ No newline at end of file
+export const Category = mongoose.models.Category || mongoose.model<ICategory>('Category', CategorySchema);
+export const Coupon = mongoose.models.Coupon || mongoose.model<ICoupon>('Coupon', CouponSchema);
+export const LedgerEntry = mongoose.models.LedgerEntry || mongoose.model<ILedgerEntry>('LedgerEntry', LedgerEntrySchema);
+export const CommissionRule = mongoose.models.CommissionRule || mongoose.model<ICommissionRule>('CommissionRule', CommissionRuleSchema);
+export const IdempotencyKey = mongoose.models.IdempotencyKey || mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
+export const BankStatementImport = mongoose.models.BankStatementImport || mongoose.model<IBankStatementImport>('BankStatementImport', BankStatementImportSchema);
+export const BankTransaction = mongoose.models.BankTransaction || mongoose.model<IBankTransaction>('BankTransaction', BankTransactionSchema);
+export const Dispute = mongoose.models.Dispute || mongoose.model<IDispute>('Dispute', DisputeSchema);
+export const SourceCodeVersion = mongoose.models.SourceCodeVersion || mongoose.model<ISourceCodeVersion>('SourceCodeVersion', SourceCodeVersionSchema);
+export const Counter = mongoose.models.Counter || mongoose.model<ICounter>('Counter', CounterSchema);
+export const Invoice = mongoose.models.Invoice || mongoose.model<IInvoice>('Invoice', InvoiceSchema);
+export const Bundle = mongoose.models.Bundle || mongoose.model<IBundle>('Bundle', BundleSchema);
+export const SubscriptionPlan = mongoose.models.SubscriptionPlan || mongoose.model<ISubscriptionPlan>('SubscriptionPlan', SubscriptionPlanSchema);
+export const Subscription = mongoose.models.Subscription || mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
+export const Organization = mongoose.models.Organization || mongoose.model<IOrganization>('Organization', OrganizationSchema);
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose, { ClientSession } from 'mongoose';
+import { Dispute, Purchase, SourceCode, Coupon, Notification, INotification, IUser } from './db/models';
+import { resolveDispute, DisputeError } from './disputes';
+import { recordRefund } from './ledger';
+
+vi.mock('./db/connection', () => ({
+  connectToDatabase: vi.fn(),
+  withTransaction: (fn: (session: ClientSession) => Promise<unknown>) => fn({} as ClientSession)
+}));
+
+vi.mock('./ledger', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./ledger')>(),
+  recordRefund: vi.fn()
+}));
+
+const id = () => new mongoose.Types.ObjectId();
+const admin = { _id: id() } as IUser;
+const buyer = id();
+const seller = id();
+const sender = id();
+
+const inSession = <T>(value: T) => ({ session: () => Promise.resolve(value) }) as never;
+
+// The purchase is hydrated like the one resolveDispute loads, nested gift path included
+const setUp = (purchaseFields: Record<string, unknown> = {}) => {
+  const purchase = Purchase.hydrate({
+    _id: id(),
+    purchaseId: 'PUR000000000001',
+    buyer,
+    seller,
+    sourceCode: id(),
+    amount: 1000,
+    sellerEarnings: 900,
+    adminCommission: 100,
+    heldEarnings: 900,
+    status: 'disputed',
+    ...purchaseFields
+  });
+  const dispute = Dispute.hydrate({ _id: id(), disputeId: 'DSP000000000001', purchase: purchase._id, buyer, seller, status: 'open' });
+
+  vi.spyOn(Dispute, 'findOne').mockReturnValue(inSession(dispute));
+  vi.spyOn(Purchase, 'findById').mockReturnValue(inSession(purchase));
+  vi.spyOn(Dispute, 'findOneAndUpdate').mockResolvedValue(dispute);
+  const purchaseUpdate = vi.spyOn(Purchase, 'updateOne').mockResolvedValue({} as never);
+  vi.spyOn(SourceCode, 'updateOne').mockResolvedValue({} as never);
+  const couponUpdate = vi.spyOn(Coupon, 'updateOne').mockResolvedValue({} as never);
+
+  // Validates like the real create, so a notification without a recipient fails the way it would in MongoDB
+  const notifications: Partial<INotification>[] = [];
+  vi.spyOn(Notification, 'create').mockImplementation((async (docs: Partial<INotification>[]) => {
+    for (const doc of docs) {
+      await new Notification(doc).validate();
+      notifications.push(doc);
+    }
+    return docs;
+  }) as never);
+
+  return { purchase, purchaseUpdate, couponUpdate, notifications };
+};
+
+describe('resolveDispute', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(recordRefund).mockReset();
+  });
+
+  it('refunds a purchase that is not a gift to the buyer', async () => {
+    const { purchase, purchaseUpdate, notifications } = setUp();
+
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_full' });
+
+    expect(recordRefund).toHaveBeenCalledWith(
+      purchase,
+      buyer,
+      seller,
+      { sellerClawback: 900, commissionClawback: 100, fromEscrow: 900 },
+      admin._id,
+      'Hoàn tiền khiếu nại DSP000000000001',
+      expect.anything()
+    );
+    expect(purchaseUpdate).toHaveBeenCalledWith(
+      { _id: purchase._id },
+      expect.objectContaining({ status: 'refunded', refundedAmount: 1000, heldEarnings: 0 }),
+      expect.anything()
+    );
+    expect(notifications.map((notification) => notification.user)).toEqual([buyer, seller]);
+    expect(notifications[0].message).not.toContain('người tặng');
+  });
+
+  it('refunds a gift to the sender and tells them', async () => {
+    const { purchase, notifications } = setUp({ gift: { sender, message: 'Chúc mừng' } });
+
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_full' });
+
+    expect(vi.mocked(recordRefund).mock.calls[0][1]).toEqual(sender);
+    expect(notifications.map((notification) => notification.user)).toEqual([buyer, seller, sender]);
+    expect(notifications[0].message).toContain('cho người tặng');
+    expect(purchase.gift?.sender).toEqual(sender);
+  });
+
+  it('splits partial refunds pro rata and leaves the rest in escrow', async () => {
+    const { purchaseUpdate } = setUp({ heldEarnings: 100 });
+
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_partial', refundAmount: 500 });
+
+    expect(vi.mocked(recordRefund).mock.calls[0][3]).toEqual({ sellerClawback: 450, commissionClawback: 50, fromEscrow: 100 });
+    expect(purchaseUpdate).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ refundedAmount: 500, heldEarnings: 0 }),
+      expect.anything()
+    );
+  });
+
+  it('gives the coupon use back in the refund transaction', async () => {
+    const coupon = id();
+    const { couponUpdate } = setUp({ coupon: { coupon, code: 'GIAM10', fundedBy: 'seller' } });
+
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_full' });
+
+    expect(couponUpdate).toHaveBeenCalledWith({ _id: coupon, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } }, expect.anything());
+  });
+
+  it('leaves coupon uses alone when the dispute is rejected or no coupon was used', async () => {
+    const { couponUpdate } = setUp({ coupon: { coupon: id(), code: 'GIAM10', fundedBy: 'seller' } });
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'rejected' });
+    expect(couponUpdate).not.toHaveBeenCalled();
+
+    const withoutCoupon = setUp();
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_full' });
+    expect(withoutCoupon.couponUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects partial refunds outside 1 to amount - 1', async () => {
+    for (const refundAmount of [0, 1000, 12.5]) {
+      setUp();
+      await expect(resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_partial', refundAmount }))
+        .rejects.toBeInstanceOf(DisputeError);
+    }
+    expect(recordRefund).not.toHaveBeenCalled();
+  });
+
+  it('puts the purchase back to completed when the dispute is rejected', async () => {
+    const { purchase, purchaseUpdate } = setUp();
+
+    await resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'rejected' });
+
+    expect(recordRefund).not.toHaveBeenCalled();
+    expect(purchaseUpdate).toHaveBeenCalledWith({ _id: purchase._id }, { status: 'completed' }, expect.anything());
+  });
+
+  it('refuses a dispute another admin already resolved', async () => {
+    setUp();
+    vi.spyOn(Dispute, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(resolveDispute({ disputeId: 'DSP000000000001', admin, resolution: 'refund_full' }))
+      .rejects.toThrow('Khiếu nại đã được xử lý');
+    expect(recordRefund).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,304 @@
+// lib/disputes.ts
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import { Dispute, Purchase, SourceCode, Notification, IDispute, IUser } from './db/models';
+import { withTransaction } from './db/connection';
+import { generateDisputeId } from './auth';
+import { recordRefund } from './ledger';
+import { releaseCoupon } from './coupons';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class DisputeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+// Buyers can only open a dispute this long after buying
+export const DISPUTE_WINDOW_DAYS = 7;
+
+export const DISPUTE_REASONS: Record<IDispute['reason'], string> = {
+  not_as_described: 'Không đúng như mô tả',
+  not_working: 'Mã nguồn không chạy được',
+  missing_files: 'Thiếu file hoặc tài liệu',
+  no_access: 'Không truy cập được link tải',
+  other: 'Lý do khác'
+};
+
+interface DisputeParty {
+  _id: mongoose.Types.ObjectId;
+  fullName: string;
+  userId: string;
+}
+
+// Disputes as listed on the dashboard and admin pages, with everything they reference populated
+export interface DisputeListItem extends Pick<
+  IDispute,
+  'disputeId' | 'reason' | 'description' | 'status' | 'sellerResponse' | 'resolution' | 'refundAmount' | 'adminNote' | 'resolvedAt' | 'createdAt'
+> {
+  _id: mongoose.Types.ObjectId;
+  purchase: { purchaseId: string; amount: number; sellerEarnings: number; adminCommission: number } | null;
+  sourceCode: { title: string; sourceId: string } | null;
+  buyer: DisputeParty | null;
+  seller: DisputeParty | null;
+  resolvedBy?: DisputeParty | null;
+}
+
+export const findDisputes = (filter: FilterQuery<IDispute>, limit = 100): Promise<DisputeListItem[]> => {
+  return Dispute.find(filter)
+    .populate('sourceCode', 'title sourceId')
+    .populate('purchase', 'purchaseId amount sellerEarnings adminCommission')
+    .populate('buyer', 'fullName userId')
+    .populate('seller', 'fullName userId')
+    .populate('resolvedBy', 'fullName userId')
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean<DisputeListItem[]>()
+    .exec();
+};
+
+const createDisputeId = async (session: ClientSession): Promise<string> => {
+  let disputeId: string;
+  let isDisputeIdUnique = false;
+  do {
+    disputeId = generateDisputeId();
+    const existingDispute = await Dispute.findOne({ disputeId }).session(session);
+    isDisputeIdUnique = !existingDispute;
+  } while (!isDisputeIdUnique);
+
+  return disputeId;
+};
+
+const notify = async (
+  userId: IDispute['buyer'],
+  title: string,
+  message: string,
+  type: 'purchase' | 'sale',
+  disputeId: string,
+  session: ClientSession
+): Promise<void> => {
+  await Notification.create([{ user: userId, title, message, type, relatedId: disputeId }], { session });
+};
+
+interface OpenDisputeOptions {
+  purchaseId: string;
+  buyer: IUser;
+  reason: string;
+  description: string;
+}
+
+export const openDispute = async ({ purchaseId, buyer, reason, description }: OpenDisputeOptions): Promise<IDispute> => {
+  if (!(reason in DISPUTE_REASONS)) {
+    throw new DisputeError('Vui lòng chọn lý do khiếu nại');
+  }
+
+  if (!description?.trim()) {
+    throw new DisputeError('Vui lòng mô tả vấn đề bạn gặp phải');
+  }
+
+  const purchase = await Purchase.findOne({ purchaseId, buyer: buyer._id });
+  if (!purchase) {
+    throw new DisputeError('Không tìm thấy giao dịch mua', 404);
+  }
+
+  if (purchase.status === 'refunded') {
+    throw new DisputeError('Giao dịch này đã được hoàn tiền');
+  }
+
+  if (purchase.subscription) {
+    throw new DisputeError('Mã nguồn nhận qua gói đăng ký không thể khiếu nại; bạn có thể hủy gói đăng ký bất cứ lúc nào');
+  }
+
+  if (Date.now() - purchase.createdAt.getTime() > DISPUTE_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    throw new DisputeError(`Chỉ có thể khiếu nại trong vòng ${DISPUTE_WINDOW_DAYS} ngày sau khi mua`);
+  }
+
+  const sourceCode = await SourceCode.findById(purchase.sourceCode);
+  if (!sourceCode) {
+    throw new DisputeError('Không tìm thấy mã nguồn', 404);
+  }
+
+  return withTransaction(async (session) => {
+    // Only one dispute can be open per purchase. Purchases from before statuses were tracked have none stored.
+    const claimed = await Purchase.findOneAndUpdate(
+      { _id: purchase._id, status: { $nin: ['disputed', 'refunded'] } },
+      { status: 'disputed' },
+      { session }
+    );
+    if (!claimed) {
+      throw new DisputeError('Giao dịch này đang có khiếu nại');
+    }
+
+    const dispute = new Dispute({
+      disputeId: await createDisputeId(session),
+      purchase: purchase._id,
+      buyer: buyer._id,
+      seller: sourceCode.seller,
+      sourceCode: sourceCode._id,
+      reason,
+      description: description.trim()
+    });
+    await dispute.save({ session });
+
+    await notify(
+      sourceCode.seller,
+      'Khiếu nại mới',
+      `${buyer.fullName} đã mở khiếu nại cho "${sourceCode.title}". Vui lòng phản hồi sớm.`,
+      'sale',
+      dispute.disputeId,
+      session
+    );
+
+    return dispute;
+  });
+};
+
+export const respondToDispute = async (disputeId: string, seller: IUser, response: string): Promise<void> => {
+  if (!response?.trim()) {
+    throw new DisputeError('Vui lòng nhập nội dung phản hồi');
+  }
+
+  await withTransaction(async (session) => {
+    // Sellers may revise their response until an admin steps in
+    const dispute = await Dispute.findOneAndUpdate(
+      { disputeId, seller: seller._id, status: { $in: ['open', 'seller_responded'] } },
+      { status: 'seller_responded', sellerResponse: response.trim(), sellerRespondedAt: new Date() },
+      { session }
+    );
+    if (!dispute) {
+      throw new DisputeError('Khiếu nại không tồn tại hoặc đã được xử lý', 404);
+    }
+
+    await notify(
+      dispute.buyer,
+      'Người bán đã phản hồi khiếu nại',
+      `${seller.fullName} đã phản hồi khiếu nại ${disputeId} của bạn.`,
+      'purchase',
+      disputeId,
+      session
+    );
+  });
+};
+
+interface ResolveDisputeOptions {
+  disputeId: string;
+  admin: IUser;
+  resolution: IDispute['resolution'];
+  refundAmount?: number;
+  adminNote?: string;
+}
+
+// Refunds reverse the sale: the buyer (or the gift sender) is credited, seller and platform give back their shares,
+// the listing's sales count drops, any coupon use is given back and download access ends immediately
+export const resolveDispute = async ({
+  disputeId,
+  admin,
+  resolution,
+  refundAmount,
+  adminNote
+}: ResolveDisputeOptions): Promise<IDispute> => {
+  if (!resolution || !['refund_full', 'refund_partial', 'rejected'].includes(resolution)) {
+    throw new DisputeError('Hướng xử lý không hợp lệ');
+  }
+
+  return withTransaction(async (session) => {
+    const dispute = await Dispute.findOne({ disputeId }).session(session);
+    if (!dispute) {
+      throw new DisputeError('Không tìm thấy khiếu nại', 404);
+    }
+
+    const purchase = await Purchase.findById(dispute.purchase).session(session);
+    if (!purchase) {
+      throw new DisputeError('Không tìm thấy giao dịch mua', 404);
+    }
+
+    // gift is a nested path, so the hydrated document always has one; only a sender marks a real gift
+    const giftSender = purchase.gift?.sender;
+    const amount = resolution === 'refund_full' ? purchase.amount : resolution === 'refund_partial' ? refundAmount || 0 : 0;
+    if (resolution === 'refund_partial' && (!Number.isInteger(amount) || amount <= 0 || amount >= purchase.amount)) {
+      throw new DisputeError(`Số tiền hoàn một phần phải từ 1 đến ${(purchase.amount - 1).toLocaleString('vi-VN')} xu`);
+    }
+
+    const claimed = await Dispute.findOneAndUpdate(
+      { _id: dispute._id, status: { $in: ['open', 'seller_responded'] } },
+      {
+        status: 'resolved',
+        resolution,
+        refundAmount: amount,
+        adminNote,
+        resolvedBy: admin._id,
+        resolvedAt: new Date()
+      },
+      { session, new: true }
+    );
+    if (!claimed) {
+      throw new DisputeError('Khiếu nại đã được xử lý');
+    }
+
+    if (resolution === 'rejected') {
+      await Purchase.updateOne({ _id: purchase._id }, { status: 'completed' }, { session });
+    } else {
+      // A full refund returns exactly what each side received; partial ones split pro rata
+      const sellerClawback = resolution === 'refund_full'
+        ? purchase.sellerEarnings
+        : Math.floor(amount * purchase.sellerEarnings / purchase.amount);
+      const fromEscrow = Math.min(purchase.heldEarnings, sellerClawback);
+
+      if (amount > 0) {
+        // Gifts are refunded to whoever paid for them, not the recipient
+        await recordRefund(
+          purchase,
+          giftSender ?? dispute.buyer,
+          dispute.seller,
+          { sellerClawback, commissionClawback: amount - sellerClawback, fromEscrow },
+          admin._id,
+          `Hoàn tiền khiếu nại ${disputeId}`,
+          session
+        );
+      }
+
+      const now = new Date();
+      await Purchase.updateOne(
+        { _id: purchase._id },
+        {
+          status: 'refunded',
+          refundedAmount: amount,
+          refundedAt: now,
+          accessExpiresAt: now,
+          // Whatever a partial refund leaves in escrow is still released on schedule
+          heldEarnings: purchase.heldEarnings - fromEscrow
+        },
+        { session }
+      );
+
+      await SourceCode.updateOne(
+        { _id: purchase.sourceCode, purchases: { $gt: 0 } },
+        { $inc: { purchases: -1 } },
+        { session }
+      );
+
+      if (purchase.coupon?.coupon) {
+        await releaseCoupon(purchase.coupon.coupon, session);
+      }
+    }
+
+    const outcome = resolution === 'rejected'
+      ? 'đã bị từ chối'
+      : `đã được chấp nhận, hoàn ${amount.toLocaleString('vi-VN')} xu${giftSender ? ' cho người tặng' : ''}`;
+
+    await notify(dispute.buyer, 'Khiếu nại đã được xử lý', `Khiếu nại ${disputeId} ${outcome}.`, 'purchase', disputeId, session);
+    await notify(dispute.seller, 'Khiếu nại đã được xử lý', `Khiếu nại ${disputeId} ${outcome}.`, 'sale', disputeId, session);
+    if (giftSender && resolution !== 'rejected') {
+      await notify(
+        giftSender,
+        'Quà tặng đã được hoàn tiền',
+        `Khiếu nại ${disputeId} về món quà bạn tặng đã được chấp nhận, ${amount.toLocaleString('vi-VN')} xu đã được hoàn vào ví của bạn.`,
+        'purchase',
+        disputeId,
+        session
+      );
+    }
+
+    return claimed;
+  });
+};
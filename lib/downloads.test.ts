@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import mongoose, { ClientSession } from 'mongoose';
+import { Purchase, SourceCode, SourceCodeVersion } from './db/models';
+import { serveDownload, parseSourceLink, DownloadError } from './downloads';
+import { findVersions } from './archives';
+
+vi.mock('./db/connection', () => ({
+  connectToDatabase: vi.fn(),
+  withTransaction: (fn: (session: ClientSession) => Promise<unknown>) => fn({} as ClientSession)
+}));
+
+// Listings in these tests only have an external link, never hosted versions
+vi.mock('./archives', () => ({
+  findVersions: vi.fn()
+}));
+
+const id = () => new mongoose.Types.ObjectId();
+
+// Literal addresses keep the host check off the network
+const setUp = (sourceLink: string) => {
+  const purchase = Purchase.hydrate({
+    _id: id(),
+    purchaseId: 'PUR000000000001',
+    buyer: id(),
+    seller: id(),
+    sourceCode: id(),
+    amount: 1000,
+    status: 'completed',
+    downloadCount: 0
+  });
+  const sourceCode = SourceCode.hydrate({ _id: purchase.sourceCode, sourceId: 'SRC000000001', sourceLink });
+
+  vi.spyOn(Purchase, 'findOne').mockResolvedValue(purchase);
+  vi.spyOn(Purchase, 'findOneAndUpdate').mockResolvedValue(purchase);
+  vi.spyOn(SourceCode, 'findById').mockResolvedValue(sourceCode);
+  vi.spyOn(SourceCodeVersion, 'exists').mockResolvedValue(null);
+};
+
+const archive = () => new Response('zip', { status: 200, headers: { 'Content-Type': 'application/zip' } });
+const redirectTo = (location: string) => new Response(null, { status: 302, headers: { Location: location } });
+
+describe('serveDownload from an external link', () => {
+  let fetchMock: Mock<typeof fetch>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(findVersions).mockResolvedValue([]);
+    fetchMock = vi.fn<typeof fetch>();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('streams an archive from a public host', async () => {
+    setUp('https://93.184.216.34/files/app.zip');
+    fetchMock.mockResolvedValue(archive());
+
+    const response = await serveDownload('PUR000000000001');
+
+    expect(fetchMock).toHaveBeenCalledWith(expect.any(URL), { redirect: 'manual' });
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="app.zip"');
+    expect(await response.text()).toBe('zip');
+  });
+
+  it('refuses loopback, private and link-local hosts without connecting', async () => {
+    for (const sourceLink of ['http://127.0.0.1/a.zip', 'http://10.1.2.3/a.zip', 'http://[::1]/a.zip', 'http://[::ffff:192.168.0.1]/a.zip']) {
+      setUp(sourceLink);
+      await expect(serveDownload('PUR000000000001')).rejects.toBeInstanceOf(DownloadError);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('checks every redirect hop', async () => {
+    setUp('https://93.184.216.34/a.zip');
+    fetchMock.mockResolvedValue(redirectTo('http://169.254.169.254/latest/meta-data/'));
+
+    await expect(serveDownload('PUR000000000001')).rejects.toBeInstanceOf(DownloadError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows redirects between public hosts up to a limit', async () => {
+    setUp('https://93.184.216.34/a.zip');
+    fetchMock.mockResolvedValueOnce(redirectTo('/b.zip')).mockResolvedValueOnce(archive());
+
+    const response = await serveDownload('PUR000000000001');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="b.zip"');
+
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => redirectTo('/loop.zip'));
+    await expect(serveDownload('PUR000000000001')).rejects.toBeInstanceOf(DownloadError);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('reports upstream network failures as a download error', async () => {
+    setUp('https://93.184.216.34/a.zip');
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(serveDownload('PUR000000000001')).rejects.toMatchObject({ status: 502 });
+  });
+});
+
+describe('parseSourceLink', () => {
+  it('accepts only http and https links', () => {
+    expect(parseSourceLink('https://example.com/a.zip')?.hostname).toBe('example.com');
+    expect(parseSourceLink('file:///etc/passwd')).toBeNull();
+    expect(parseSourceLink('gopher://example.com')).toBeNull();
+    expect(parseSourceLink('not a url')).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+// lib/downloads.ts
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { Purchase, SourceCode, SourceCodeVersion, IPurchase, ISourceCode, IUser } from './db/models';
+import { getStorage, StorageObjectNotFoundError } from './storage';
+import { findVersions, VersionSummary } from './archives';
+import { findMemberOrganizationIds } from './organizations';
+
+// Errors carrying a user-facing message and HTTP status for the download route
+export class DownloadError extends Error {
+  constructor(message: string, public status: number = 403) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+// Signed links only need to live long enough for the browser to follow the redirect
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+// No built-in fallback: anyone who knew it could sign their own download links
+const getDownloadSecret = (): string => {
+  const secret = process.env.DOWNLOAD_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('DOWNLOAD_SECRET or JWT_SECRET must be set to sign download links');
+  }
+  return secret;
+};
+
+export const getDownloadLimit = (): number => {
+  const limit = parseInt(process.env.DOWNLOAD_LIMIT_PER_PURCHASE || '');
+  return Number.isNaN(limit) || limit <= 0 ? 10 : limit;
+};
+
+// The version is part of the signature so a signed link can't be reused for another version
+const signDownload = (purchaseId: string, versionNumber: number | undefined, expires: number): string => {
+  return crypto.createHmac('sha256', getDownloadSecret()).update(`${purchaseId}:${versionNumber ?? ''}:${expires}`).digest('hex');
+};
+
+export const createSignedDownloadUrl = (purchaseId: string, versionNumber?: number): string => {
+  const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS;
+  const params = new URLSearchParams({ expires: String(expires), signature: signDownload(purchaseId, versionNumber, expires) });
+  if (versionNumber !== undefined) {
+    params.set('version', String(versionNumber));
+  }
+  return `/downloads/${purchaseId}?${params.toString()}`;
+};
+
+export const verifySignedDownload = (
+  purchaseId: string,
+  versionNumber: number | undefined,
+  expires: string | null,
+  signature: string | null
+): boolean => {
+  const expiresAt = parseInt(expires || '');
+  if (!signature || Number.isNaN(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(signDownload(purchaseId, versionNumber, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Explains why a purchase can no longer be downloaded
+const assertDownloadable = (purchase: IPurchase): void => {
+  if (purchase.status === 'refunded') {
+    throw new DownloadError('Giao dịch đã được hoàn tiền, bạn không còn quyền tải mã nguồn này');
+  }
+
+  if (purchase.accessExpiresAt && purchase.accessExpiresAt <= new Date()) {
+    throw new DownloadError('Đã hết thời hạn tải mã nguồn này');
+  }
+
+  if (purchase.downloadCount >= getDownloadLimit()) {
+    throw new DownloadError(`Bạn đã dùng hết ${getDownloadLimit()} lượt tải cho giao dịch này`, 429);
+  }
+};
+
+// Members of an organization share everything it bought, whoever placed the order; leaving it ends that access
+export const findDownloadablePurchase = async (purchaseId: string, buyer: IUser): Promise<IPurchase> => {
+  const organizationIds = await findMemberOrganizationIds(buyer._id);
+  const purchase = await Purchase.findOne({
+    purchaseId,
+    $or: [{ buyer: buyer._id, organization: { $exists: false } }, { organization: { $in: organizationIds } }]
+  });
+  if (!purchase) {
+    throw new DownloadError('Không tìm thấy giao dịch mua', 404);
+  }
+
+  assertDownloadable(purchase);
+  return purchase;
+};
+
+// Buyers get the version they paid for and later ones published while their license includes updates;
+// purchases made before versioning get them all
+export const findDownloadableVersions = async (
+  purchase: Pick<IPurchase, 'sourceCode' | 'version' | 'updatesUntil'>
+): Promise<VersionSummary[]> => {
+  let fromVersionNumber = 0;
+  if (purchase.version) {
+    const purchasedVersion = await SourceCodeVersion.findById(purchase.version).select('versionNumber');
+    fromVersionNumber = purchasedVersion?.versionNumber || 0;
+  }
+
+  const versions = await findVersions(purchase.sourceCode, fromVersionNumber);
+  const { updatesUntil } = purchase;
+  if (!updatesUntil) {
+    return versions;
+  }
+
+  return versions.filter((version) => version.versionNumber === fromVersionNumber
+    || new Date(version.createdAt) <= new Date(updatesUntil));
+};
+
+// Picks the requested version, or the newest one; undefined means the listing only has an external link
+export const resolveDownloadVersion = async (
+  purchase: IPurchase,
+  versionNumber?: number
+): Promise<VersionSummary | undefined> => {
+  const versions = await findDownloadableVersions(purchase);
+  if (versions.length === 0) {
+    const hasVersions = await SourceCodeVersion.exists({ sourceCode: purchase.sourceCode });
+    if (hasVersions) {
+      throw new DownloadError('Không tìm thấy phiên bản bạn đã mua', 404);
+    }
+    return undefined;
+  }
+
+  if (versionNumber === undefined) {
+    return versions[0];
+  }
+
+  const version = versions.find((candidate) => candidate.versionNumber === versionNumber);
+  if (!version) {
+    throw new DownloadError('Bạn không có quyền tải phiên bản này', 404);
+  }
+  return version;
+};
+
+// Counts the download only while the purchase is still within its window and limit
+const claimDownload = async (purchaseId: string): Promise<void> => {
+  const now = new Date();
+  const purchase = await Purchase.findOneAndUpdate(
+    {
+      purchaseId,
+      status: { $ne: 'refunded' },
+      $or: [{ accessExpiresAt: { $exists: false } }, { accessExpiresAt: { $gt: now } }],
+      downloadCount: { $lt: getDownloadLimit() }
+    },
+    { $inc: { downloadCount: 1 }, lastDownloadedAt: now }
+  );
+
+  if (!purchase) {
+    const existing = await Purchase.findOne({ purchaseId });
+    if (!existing) {
+      throw new DownloadError('Không tìm thấy giao dịch mua', 404);
+    }
+    assertDownloadable(existing);
+    throw new DownloadError('Không thể tải mã nguồn lúc này, vui lòng thử lại');
+  }
+};
+
+const attachmentName = (sourceCode: ISourceCode, url: URL): string => {
+  const fileName = url.pathname.split('/').pop() || '';
+  return /\.[A-Za-z0-9]{1,8}$/.test(fileName) ? fileName : `${sourceCode.sourceId}.zip`;
+};
+
+// Seller-supplied links must never reach our own network or the cloud metadata endpoint
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], ['10.0.0.0', 8, 'ipv4'], ['100.64.0.0', 10, 'ipv4'], ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], ['172.16.0.0', 12, 'ipv4'], ['192.168.0.0', 16, 'ipv4'],
+  ['::', 128, 'ipv6'], ['::1', 128, 'ipv6'], ['fc00::', 7, 'ipv6'], ['fe80::', 10, 'ipv6']
+];
+const blockedAddresses = new net.BlockList();
+BLOCKED_SUBNETS.forEach(([address, prefix, type]) => blockedAddresses.addSubnet(address, prefix, type));
+
+const MAX_ARCHIVE_REDIRECTS = 3;
+
+// Only plain http(s) links can be offered as a listing's download
+export const parseSourceLink = (value: string, base?: URL): URL | null => {
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const assertPublicHost = async (url: URL): Promise<void> => {
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true });
+  } catch {
+    throw new DownloadError('Không tải được mã nguồn từ nơi lưu trữ, vui lòng liên hệ người bán', 502);
+  }
+
+  const blocked = addresses.length === 0 || addresses.some(({ address, family }) =>
+    blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  if (blocked) {
+    throw new DownloadError('Link tải mã nguồn không hợp lệ, vui lòng liên hệ người bán', 502);
+  }
+};
+
+// Follows redirects by hand so every hop is checked before we connect to it
+const fetchArchive = async (sourceLink: string): Promise<{ upstream: Response; url: URL }> => {
+  let url = parseSourceLink(sourceLink);
+  for (let hop = 0; url && hop <= MAX_ARCHIVE_REDIRECTS; hop++) {
+    await assertPublicHost(url);
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(url, { redirect: 'manual' });
+    } catch {
+      throw new DownloadError('Không tải được mã nguồn từ nơi lưu trữ, vui lòng liên hệ người bán', 502);
+    }
+
+    const location = upstream.headers.get('Location');
+    if (upstream.status < 300 || upstream.status >= 400 || !location) {
+      return { upstream, url };
+    }
+
+    await upstream.body?.cancel();
+    url = parseSourceLink(location, url);
+  }
+
+  throw new DownloadError('Link tải mã nguồn không hợp lệ, vui lòng liên hệ người bán', 502);
+};
+
+// Streams the archive through our server so buyers never see where it is stored
+const proxyArchive = async (sourceCode: ISourceCode): Promise<Response> => {
+  if (!sourceCode.sourceLink) {
+    throw new DownloadError('Mã nguồn này chưa có tệp để tải, vui lòng liên hệ người bán', 404);
+  }
+
+  const { upstream, url } = await fetchArchive(sourceCode.sourceLink);
+  if (!upstream.ok || !upstream.body) {
+    throw new DownloadError('Không tải được mã nguồn từ nơi lưu trữ, vui lòng liên hệ người bán', 502);
+  }
+
+  const headers = new Headers({
+    'Content-Type': upstream.headers.get('Content-Type') || 'application/octet-stream',
+    'Content-Disposition': upstream.headers.get('Content-Disposition')
+      || `attachment; filename="${attachmentName(sourceCode, url).replace(/"/g, '_')}"`,
+    'Cache-Control': 'private, no-store'
+  });
+  const contentLength = upstream.headers.get('Content-Length');
+  if (contentLength) {
+    headers.set('Content-Length', contentLength);
+  }
+
+  return new Response(upstream.body, { status: 200, headers });
+};
+
+const streamStoredVersion = async (versionId: VersionSummary['_id']): Promise<Response> => {
+  const version = await SourceCodeVersion.findById(versionId);
+  if (!version) {
+    throw new DownloadError('Không tìm thấy phiên bản này', 404);
+  }
+
+  let stored;
+  try {
+    stored = await getStorage(version.storageBackend).get(version.storageKey);
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      throw new DownloadError('Không tải được mã nguồn từ nơi lưu trữ, vui lòng liên hệ người bán', 502);
+    }
+    throw error;
+  }
+
+  return new Response(stored.body, {
+    status: 200,
+    headers: {
+      'Content-Type': version.contentType,
+      'Content-Disposition': `attachment; filename="${version.fileName.replace(/"/g, '_')}"`,
+      'Content-Length': String(stored.size),
+      'Cache-Control': 'private, no-store'
+    }
+  });
+};
+
+// Only downloads that actually start count against the purchase's limit
+export const serveDownload = async (purchaseId: string, versionNumber?: number): Promise<Response> => {
+  const purchase = await Purchase.findOne({ purchaseId });
+  if (!purchase) {
+    throw new DownloadError('Không tìm thấy giao dịch mua', 404);
+  }
+  assertDownloadable(purchase);
+
+  const sourceCode = await SourceCode.findById(purchase.sourceCode);
+  if (!sourceCode) {
+    throw new DownloadError('Mã nguồn không còn tồn tại', 404);
+  }
+
+  const version = await resolveDownloadVersion(purchase, versionNumber);
+  const response = version ? await streamStoredVersion(version._id) : await proxyArchive(sourceCode);
+  try {
+    await claimDownload(purchaseId);
+  } catch (error) {
+    await response.body?.cancel();
+    throw error;
+  }
+
+  return response;
+};
@@ -11,10 +11,17 @@ const transporter = nodemailer.createTransporter({
   },
 });
 
+interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
 interface EmailOptions {
   to: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
 }
 
 export const sendEmail = async (options: EmailOptions): Promise<void> => {
@@ -24,6 +31,7 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
       to: options.to,
       subject: options.subject,
       html: options.html,
+      attachments: options.attachments,
     });
   } catch (error) {
     console.error('Email sending failed:', error);
@@ -125,8 +133,12 @@ export const sendPurchaseNotificationEmail = async (
   sellerEmail: string,
   buyerName: string,
   sourceTitle: string,
-  amount: number
+  amount: number,
+  sellerEarnings: number,
+  earningsReleaseAt?: Date
 ): Promise<void> => {
+  const sellerShare = amount > 0 ? Math.round((sellerEarnings / amount) * 100) : 0;
+
   const html = `
     <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
       <div style="background: linear-gradient(135deg, #0C969C 0%, #274D60 100%); padding: 40px; text-align: center;">
@@ -147,12 +159,14 @@ export const sendPurchaseNotificationEmail = async (
             <strong>Số tiền:</strong> ${amount.toLocaleString('vi-VN')} xu
           </p>
           <p style="color: #666; line-height: 1.6; margin: 10px 0;">
-            <strong>Bạn nhận được:</strong> ${(amount * 0.8).toLocaleString('vi-VN')} xu (80%)
+            <strong>Bạn nhận được:</strong> ${sellerEarnings.toLocaleString('vi-VN')} xu (${sellerShare}%)
           </p>
         </div>
         
         <p style="color: #666; line-height: 1.6;">
-          Số xu đã được cộng vào tài khoản của bạn. Bạn có thể đăng nhập để kiểm tra và rút xu.
+          ${earningsReleaseAt
+            ? `Số xu đang được tạm giữ và sẽ chuyển vào số dư khả dụng từ ngày ${earningsReleaseAt.toLocaleDateString('vi-VN')}. Bạn có thể đăng nhập để theo dõi doanh thu.`
+            : 'Số xu đã được cộng vào tài khoản của bạn. Bạn có thể đăng nhập để kiểm tra và rút xu.'}
         </p>
       </div>
       
@@ -167,4 +181,229 @@ export const sendPurchaseNotificationEmail = async (
     subject: `🎉 Bạn có giao dịch mới trên SourceCode4U`,
     html,
   });
+};
+
+export const sendInvoiceEmail = async (
+  email: string,
+  invoice: {
+    invoiceNumber: string;
+    title: string;
+    reference: string;
+    lines: { description: string; detail?: string; amount: number }[];
+    totalAmount: number;
+  },
+  invoiceUrl: string,
+  pdf: Buffer
+): Promise<void> => {
+  const rows = invoice.lines.map((line) => `
+          <tr>
+            <td style="padding: 8px 0; color: #333; border-bottom: 1px solid #eee;">
+              ${line.description}
+              ${line.detail ? `<div style="color: #999; font-size: 13px;">${line.detail}</div>` : ''}
+            </td>
+            <td style="padding: 8px 0; color: #333; border-bottom: 1px solid #eee; text-align: right; white-space: nowrap;">
+              ${line.amount.toLocaleString('vi-VN')} xu
+            </td>
+          </tr>`).join('');
+
+  const html = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #0C969C 0%, #274D60 100%); padding: 40px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">SourceCode4U</h1>
+      </div>
+      
+      <div style="padding: 40px; background: #f8f9fa;">
+        <h2 style="color: #333; margin-bottom: 20px;">🧾 ${invoice.title} ${invoice.invoiceNumber}</h2>
+        <p style="color: #666; line-height: 1.6;">
+          Cảm ơn bạn đã sử dụng SourceCode4U. ${invoice.reference}
+        </p>
+        
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <table style="width: 100%; border-collapse: collapse;">
+            ${rows}
+            <tr>
+              <td style="padding: 12px 0 0; font-weight: bold; color: #333;">Tổng cộng</td>
+              <td style="padding: 12px 0 0; font-weight: bold; color: #0C969C; text-align: right; white-space: nowrap;">
+                ${invoice.totalAmount.toLocaleString('vi-VN')} xu
+              </td>
+            </tr>
+          </table>
+        </div>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${invoiceUrl}" style="background: #0C969C; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Xem hóa đơn
+          </a>
+        </div>
+        
+        <p style="color: #999; font-size: 14px; margin-top: 30px;">
+          Bản PDF của hóa đơn được đính kèm trong email này.
+        </p>
+      </div>
+      
+      <div style="background: #333; color: white; padding: 20px; text-align: center; font-size: 14px;">
+        © 2025 SourceCode4U. All rights reserved.
+      </div>
+    </div>
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `🧾 ${invoice.title} ${invoice.invoiceNumber} - SourceCode4U`,
+    html,
+    attachments: [{ filename: `${invoice.invoiceNumber}.pdf`, content: pdf, contentType: 'application/pdf' }],
+  });
+};
+
+export const sendPriceDropEmail = async (
+  email: string,
+  listing: { title: string; previousPrice: number; price: number; saleEndsAt?: Date },
+  listingUrl: string
+): Promise<void> => {
+  const html = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #0C969C 0%, #274D60 100%); padding: 40px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">SourceCode4U</h1>
+      </div>
+      
+      <div style="padding: 40px; background: #f8f9fa;">
+        <h2 style="color: #333; margin-bottom: 20px;">💸 Mã nguồn bạn yêu thích vừa giảm giá</h2>
+        
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="color: #333; line-height: 1.6; margin: 10px 0; font-weight: bold;">
+            ${listing.title}
+          </p>
+          <p style="color: #666; line-height: 1.6; margin: 10px 0;">
+            <span style="text-decoration: line-through; color: #999;">${listing.previousPrice.toLocaleString('vi-VN')} xu</span>
+            &nbsp;→&nbsp;
+            <strong style="color: #0C969C;">${listing.price.toLocaleString('vi-VN')} xu</strong>
+          </p>
+          ${listing.saleEndsAt ? `
+          <p style="color: #666; line-height: 1.6; margin: 10px 0;">
+            Khuyến mãi kết thúc lúc ${listing.saleEndsAt.toLocaleString('vi-VN')}.
+          </p>` : ''}
+        </div>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${listingUrl}" style="background: #0C969C; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Xem mã nguồn
+          </a>
+        </div>
+        
+        <p style="color: #999; font-size: 14px; margin-top: 30px;">
+          Bạn nhận được email này vì đã thêm mã nguồn vào danh sách yêu thích. Bỏ mã nguồn khỏi danh sách để ngừng nhận thông báo.
+        </p>
+      </div>
+      
+      <div style="background: #333; color: white; padding: 20px; text-align: center; font-size: 14px;">
+        © 2025 SourceCode4U. All rights reserved.
+      </div>
+    </div>
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `💸 "${listing.title}" vừa giảm giá - SourceCode4U`,
+    html,
+  });
+};
+
+export const sendSubscriptionPaymentFailedEmail = async (
+  email: string,
+  subscription: { sellerName: string; price: number; graceEndsAt: Date },
+  manageUrl: string
+): Promise<void> => {
+  const html = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #0C969C 0%, #274D60 100%); padding: 40px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">SourceCode4U</h1>
+      </div>
+      
+      <div style="padding: 40px; background: #f8f9fa;">
+        <h2 style="color: #333; margin-bottom: 20px;">⚠️ Không thể gia hạn gói đăng ký</h2>
+        
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="color: #666; line-height: 1.6; margin: 10px 0;">
+            Số dư ví của bạn không đủ để gia hạn gói đăng ký của <strong>${subscription.sellerName}</strong>
+            (${subscription.price.toLocaleString('vi-VN')} xu/tháng).
+          </p>
+          <p style="color: #666; line-height: 1.6; margin: 10px 0;">
+            Bạn vẫn truy cập được mã nguồn đến ${subscription.graceEndsAt.toLocaleString('vi-VN')}. Hãy nạp thêm xu trước thời điểm này, hệ thống sẽ tự động thử gia hạn lại.
+          </p>
+        </div>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${manageUrl}" style="background: #0C969C; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Quản lý gói đăng ký
+          </a>
+        </div>
+      </div>
+      
+      <div style="background: #333; color: white; padding: 20px; text-align: center; font-size: 14px;">
+        © 2025 SourceCode4U. All rights reserved.
+      </div>
+    </div>
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: '⚠️ Không thể gia hạn gói đăng ký - SourceCode4U',
+    html,
+  });
+};
+
+// Gift messages are written by another user, so they must not be able to inject markup into the email
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+};
+
+export const sendGiftReceivedEmail = async (
+  email: string,
+  gift: { senderName: string; title: string; licenseName?: string; message?: string },
+  giftsUrl: string
+): Promise<void> => {
+  const html = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #0C969C 0%, #274D60 100%); padding: 40px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">SourceCode4U</h1>
+      </div>
+      
+      <div style="padding: 40px; background: #f8f9fa;">
+        <h2 style="color: #333; margin-bottom: 20px;">🎁 Bạn nhận được một món quà</h2>
+        
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="color: #666; line-height: 1.6; margin: 10px 0;">
+            <strong>${gift.senderName}</strong> đã tặng bạn mã nguồn:
+          </p>
+          <p style="color: #333; line-height: 1.6; margin: 10px 0; font-weight: bold;">
+            ${gift.title}${gift.licenseName ? ` (${gift.licenseName})` : ''}
+          </p>
+          ${gift.message ? `
+          <p style="color: #666; line-height: 1.6; margin: 10px 0; font-style: italic; white-space: pre-line;">
+            “${escapeHtml(gift.message)}”
+          </p>` : ''}
+        </div>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${giftsUrl}" style="background: #0C969C; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Xem quà tặng
+          </a>
+        </div>
+        
+        <p style="color: #999; font-size: 14px; margin-top: 30px;">
+          Mã nguồn đã có trong mục "Mã nguồn đã mua" của bạn và có thể tải xuống ngay.
+        </p>
+      </div>
+      
+      <div style="background: #333; color: white; padding: 20px; text-align: center; font-size: 14px;">
+        © 2025 SourceCode4U. All rights reserved.
+      </div>
+    </div>
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `🎁 ${gift.senderName} đã tặng bạn một mã nguồn - SourceCode4U`,
+    html,
+  });
 };
\ No newline at end of file
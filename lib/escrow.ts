@@ -0,0 +1,75 @@
+// lib/escrow.ts
+import mongoose from 'mongoose';
+import { Purchase, Notification } from './db/models';
+import { withTransaction } from './db/connection';
+import { releaseEarnings } from './ledger';
+import { DISPUTE_WINDOW_DAYS } from './disputes';
+
+// Earnings stay in escrow at least as long as buyers can still open a dispute
+export const getEarningsHoldDays = (): number => {
+  const days = parseInt(process.env.EARNINGS_HOLD_DAYS || '');
+  return Number.isNaN(days) || days < 0 ? DISPUTE_WINDOW_DAYS : days;
+};
+
+export const getEarningsReleaseDate = (purchasedAt: Date): Date => {
+  return new Date(purchasedAt.getTime() + getEarningsHoldDays() * 24 * 60 * 60 * 1000);
+};
+
+interface ReleaseSummary {
+  released: number;
+  amount: number;
+}
+
+// Purchases under dispute keep their earnings in escrow until the dispute is resolved
+export const releaseMaturedEarnings = async (now: Date = new Date(), batchSize = 500): Promise<ReleaseSummary> => {
+  const matured = await Purchase.find({
+    heldEarnings: { $gt: 0 },
+    earningsReleaseAt: { $lte: now },
+    status: { $ne: 'disputed' },
+    seller: { $exists: true }
+  })
+    .select('purchaseId seller heldEarnings')
+    .sort({ earningsReleaseAt: 1 })
+    .limit(batchSize)
+    .lean<{ _id: mongoose.Types.ObjectId; purchaseId: string; seller: mongoose.Types.ObjectId; heldEarnings: number }[]>();
+
+  const releasedBySeller = new Map<string, number>();
+  let released = 0;
+
+  for (const purchase of matured) {
+    const amount = await withTransaction(async (session) => {
+      // A dispute or refund may have touched the purchase since it was listed
+      const claimed = await Purchase.findOneAndUpdate(
+        { _id: purchase._id, heldEarnings: purchase.heldEarnings, status: { $ne: 'disputed' } },
+        { heldEarnings: 0, earningsReleasedAt: now },
+        { session }
+      );
+      if (!claimed) {
+        return 0;
+      }
+
+      await releaseEarnings(purchase, purchase.seller, purchase.heldEarnings, session);
+      return purchase.heldEarnings;
+    });
+
+    if (amount > 0) {
+      released++;
+      const sellerId = purchase.seller.toString();
+      releasedBySeller.set(sellerId, (releasedBySeller.get(sellerId) || 0) + amount);
+    }
+  }
+
+  for (const [sellerId, amount] of releasedBySeller) {
+    await Notification.create({
+      user: sellerId,
+      title: 'Doanh thu đã khả dụng',
+      message: `${amount.toLocaleString('vi-VN')} xu doanh thu đã hết thời gian tạm giữ và được chuyển vào số dư khả dụng.`,
+      type: 'sale'
+    });
+  }
+
+  return {
+    released,
+    amount: [...releasedBySeller.values()].reduce((sum, amount) => sum + amount, 0)
+  };
+};
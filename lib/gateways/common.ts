@@ -0,0 +1,71 @@
+// lib/gateways/common.ts
+import crypto from 'crypto';
+import { IPayment } from '../db/models';
+
+export interface CheckoutRequest {
+  payment: IPayment;
+  returnUrl: string;
+  ipnUrl: string;
+  clientIp: string;
+}
+
+// What a provider tells us about a payment, after its signature has been checked
+export interface GatewayCallback {
+  paymentId: string;
+  amount: number;
+  success: boolean;
+  transactionId?: string;
+}
+
+export type CallbackOutcome =
+  | 'confirmed'
+  | 'failed'
+  | 'already_processed'
+  | 'not_found'
+  | 'invalid_amount'
+  | 'invalid_signature'
+  | 'error';
+
+export interface PaymentGateway {
+  id: string;
+  name: string;
+  isConfigured: () => boolean;
+  createCheckoutUrl: (request: CheckoutRequest) => Promise<string>;
+  // Throws InvalidGatewaySignatureError unless the payload was signed by the provider
+  parseCallback: (params: Record<string, string>) => GatewayCallback;
+  // Acknowledgement in the format the provider expects for its IPN call
+  acknowledge: (outcome: CallbackOutcome) => Response;
+}
+
+export class InvalidGatewaySignatureError extends Error {
+  constructor(public gateway: string) {
+    super(`Invalid ${gateway} callback signature`);
+    this.name = 'InvalidGatewaySignatureError';
+  }
+}
+
+// Errors carrying a user-facing message, e.g. when a provider refuses to create a checkout
+export class GatewayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+export const hmac = (algorithm: 'sha256' | 'sha512', secret: string, data: string): string => {
+  return crypto.createHmac(algorithm, secret).update(data, 'utf8').digest('hex');
+};
+
+export const signatureMatches = (expected: string, actual: string | undefined): boolean => {
+  if (!actual || expected.length !== actual.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(expected.toLowerCase()), Buffer.from(actual.toLowerCase()));
+};
+
+export const jsonResponse = (body: unknown, status: number = 200): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' }
+  });
+};
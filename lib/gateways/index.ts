@@ -0,0 +1,78 @@
+// lib/gateways/index.ts
+import { Payment } from '../db/models';
+import { approvePayment, rejectPayment, PaymentAlreadyProcessedError } from '../payments';
+import { PaymentGateway, CallbackOutcome, GatewayCallback, InvalidGatewaySignatureError } from './common';
+import { vnpayGateway } from './vnpay';
+import { momoGateway } from './momo';
+import { mockGateway } from './mock';
+
+export { GatewayError, InvalidGatewaySignatureError } from './common';
+export type { PaymentGateway, CallbackOutcome, GatewayCallback } from './common';
+
+const GATEWAYS: PaymentGateway[] = [vnpayGateway, momoGateway, mockGateway];
+
+// Providers without credentials are hidden from users and reject webhooks
+export const getGateway = (id: string): PaymentGateway | undefined => {
+  return GATEWAYS.find((gateway) => gateway.id === id && gateway.isConfigured());
+};
+
+export const getEnabledGateways = (): { id: string; name: string }[] => {
+  return GATEWAYS
+    .filter((gateway) => gateway.isConfigured())
+    .map(({ id, name }) => ({ id, name }));
+};
+
+// Applies a provider's IPN to the matching deposit; safe to call repeatedly for the same payment
+export const processGatewayCallback = async (
+  gateway: PaymentGateway,
+  params: Record<string, string>
+): Promise<CallbackOutcome> => {
+  let callback: GatewayCallback;
+  try {
+    callback = gateway.parseCallback(params);
+  } catch (error) {
+    if (error instanceof InvalidGatewaySignatureError) {
+      return 'invalid_signature';
+    }
+    throw error;
+  }
+
+  const payment = await Payment.findOne({
+    paymentId: callback.paymentId,
+    type: 'deposit',
+    gateway: gateway.id
+  });
+
+  if (!payment) {
+    return 'not_found';
+  }
+
+  if (payment.status !== 'pending') {
+    return 'already_processed';
+  }
+
+  if (payment.amount !== callback.amount) {
+    return 'invalid_amount';
+  }
+
+  try {
+    if (callback.transactionId) {
+      await Payment.updateOne({ _id: payment._id }, { gatewayTransactionId: callback.transactionId });
+    }
+
+    if (callback.success) {
+      await approvePayment(payment, {
+        adminNote: `Thanh toán qua ${gateway.name}${callback.transactionId ? ` (mã GD ${callback.transactionId})` : ''}`
+      });
+      return 'confirmed';
+    }
+
+    await rejectPayment(payment, { adminNote: `Thanh toán qua ${gateway.name} không thành công` });
+    return 'failed';
+  } catch (error) {
+    if (error instanceof PaymentAlreadyProcessedError) {
+      return 'already_processed';
+    }
+    throw error;
+  }
+};
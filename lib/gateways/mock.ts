@@ -0,0 +1,74 @@
+// lib/gateways/mock.ts
+import crypto from 'crypto';
+import {
+  PaymentGateway,
+  InvalidGatewaySignatureError,
+  hmac,
+  signatureMatches,
+  jsonResponse
+} from './common';
+
+// Local stand-in for a real provider so deposits can be tested offline. Whoever knows the secret can
+// confirm deposits, so it needs its own secret and an explicit PAYMENT_MOCK_ENABLED=1 on every environment.
+const MOCK_SECRET = process.env.PAYMENT_MOCK_SECRET;
+
+const canonicalize = (params: Record<string, string>): string => {
+  return Object.keys(params)
+    .filter((key) => key !== 'signature')
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+};
+
+export const signMockParams = (params: Record<string, string>): Record<string, string> => {
+  return { ...params, signature: hmac('sha256', MOCK_SECRET!, canonicalize(params)) };
+};
+
+export const verifyMockParams = (params: Record<string, string>): boolean => {
+  return Boolean(MOCK_SECRET) && signatureMatches(hmac('sha256', MOCK_SECRET!, canonicalize(params)), params.signature);
+};
+
+// Builds the signed IPN payload the mock checkout page sends to the webhook
+export const buildMockCallback = (paymentId: string, amount: string, success: boolean): Record<string, string> => {
+  return signMockParams({
+    paymentId,
+    amount,
+    status: success ? 'success' : 'failed',
+    transactionId: 'MOCK' + crypto.randomBytes(6).toString('hex').toUpperCase()
+  });
+};
+
+export const mockGateway: PaymentGateway = {
+  id: 'mock',
+  name: 'Cổng thử nghiệm',
+
+  isConfigured: () => Boolean(MOCK_SECRET) && process.env.PAYMENT_MOCK_ENABLED === '1',
+
+  createCheckoutUrl: async ({ payment, returnUrl, ipnUrl }) => {
+    const params = signMockParams({
+      paymentId: payment.paymentId,
+      amount: String(payment.amount),
+      returnUrl,
+      ipnUrl
+    });
+    return `/payments/mock?${new URLSearchParams(params).toString()}`;
+  },
+
+  parseCallback: (params) => {
+    if (!verifyMockParams(params)) {
+      throw new InvalidGatewaySignatureError('mock');
+    }
+
+    return {
+      paymentId: params.paymentId,
+      amount: parseInt(params.amount),
+      success: params.status === 'success',
+      transactionId: params.transactionId
+    };
+  },
+
+  acknowledge: (outcome) => {
+    const status = outcome === 'invalid_signature' ? 400 : outcome === 'error' ? 500 : 200;
+    return jsonResponse({ outcome }, status);
+  }
+};
@@ -0,0 +1,97 @@
+// lib/gateways/momo.ts
+import crypto from 'crypto';
+import {
+  PaymentGateway,
+  InvalidGatewaySignatureError,
+  GatewayError,
+  hmac,
+  signatureMatches
+} from './common';
+
+const MOMO_ENDPOINT = process.env.MOMO_ENDPOINT || 'https://test-payment.momo.vn/v2/gateway/api/create';
+const MOMO_PARTNER_CODE = process.env.MOMO_PARTNER_CODE;
+const MOMO_ACCESS_KEY = process.env.MOMO_ACCESS_KEY;
+const MOMO_SECRET_KEY = process.env.MOMO_SECRET_KEY;
+
+// MoMo signs "key=value" pairs in a fixed alphabetical order
+const rawSignature = (fields: string[], values: Record<string, string>): string => {
+  return fields.map((field) => `${field}=${values[field] ?? ''}`).join('&');
+};
+
+const CREATE_FIELDS = [
+  'accessKey', 'amount', 'extraData', 'ipnUrl', 'orderId', 'orderInfo',
+  'partnerCode', 'redirectUrl', 'requestId', 'requestType'
+];
+
+const CALLBACK_FIELDS = [
+  'accessKey', 'amount', 'extraData', 'message', 'orderId', 'orderInfo', 'orderType',
+  'partnerCode', 'payType', 'requestId', 'responseTime', 'resultCode', 'transId'
+];
+
+export const momoGateway: PaymentGateway = {
+  id: 'momo',
+  name: 'MoMo',
+
+  isConfigured: () => Boolean(MOMO_PARTNER_CODE && MOMO_ACCESS_KEY && MOMO_SECRET_KEY),
+
+  createCheckoutUrl: async ({ payment, returnUrl, ipnUrl }) => {
+    const request: Record<string, string> = {
+      accessKey: MOMO_ACCESS_KEY!,
+      amount: String(payment.amount),
+      extraData: '',
+      ipnUrl,
+      orderId: payment.paymentId,
+      orderInfo: `Nap xu ${payment.paymentId}`,
+      partnerCode: MOMO_PARTNER_CODE!,
+      redirectUrl: returnUrl,
+      requestId: crypto.randomUUID(),
+      requestType: 'captureWallet'
+    };
+
+    const response = await fetch(MOMO_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...request,
+        amount: payment.amount,
+        lang: 'vi',
+        signature: hmac('sha256', MOMO_SECRET_KEY!, rawSignature(CREATE_FIELDS, request))
+      })
+    });
+
+    const result = await response.json();
+    if (result.resultCode !== 0 || !result.payUrl) {
+      console.error('MoMo create payment failed:', result);
+      throw new GatewayError(result.message || 'Không thể tạo giao dịch MoMo');
+    }
+
+    return result.payUrl;
+  },
+
+  parseCallback: (params) => {
+    const values = { ...params, accessKey: MOMO_ACCESS_KEY! };
+    const expected = hmac('sha256', MOMO_SECRET_KEY!, rawSignature(CALLBACK_FIELDS, values));
+
+    if (params.partnerCode !== MOMO_PARTNER_CODE || !signatureMatches(expected, params.signature)) {
+      throw new InvalidGatewaySignatureError('momo');
+    }
+
+    return {
+      paymentId: params.orderId,
+      amount: parseInt(params.amount),
+      success: params.resultCode === '0',
+      transactionId: params.transId
+    };
+  },
+
+  // MoMo only needs 204 No Content, anything else makes it retry
+  acknowledge: (outcome) => {
+    if (outcome === 'invalid_signature') {
+      return new Response('Invalid signature', { status: 400 });
+    }
+    if (outcome === 'error') {
+      return new Response('Error', { status: 500 });
+    }
+    return new Response(null, { status: 204 });
+  }
+};
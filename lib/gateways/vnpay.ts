@@ -0,0 +1,89 @@
+// lib/gateways/vnpay.ts
+import {
+  PaymentGateway,
+  CallbackOutcome,
+  InvalidGatewaySignatureError,
+  hmac,
+  signatureMatches,
+  jsonResponse
+} from './common';
+
+const VNPAY_URL = process.env.VNPAY_URL || 'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html';
+const VNPAY_TMN_CODE = process.env.VNPAY_TMN_CODE;
+const VNPAY_HASH_SECRET = process.env.VNPAY_HASH_SECRET;
+
+// Response codes from the VNPay IPN specification
+const IPN_RESPONSES: Record<CallbackOutcome, { RspCode: string; Message: string }> = {
+  confirmed: { RspCode: '00', Message: 'Confirm Success' },
+  failed: { RspCode: '00', Message: 'Confirm Success' },
+  already_processed: { RspCode: '02', Message: 'Order already confirmed' },
+  not_found: { RspCode: '01', Message: 'Order not found' },
+  invalid_amount: { RspCode: '04', Message: 'Invalid amount' },
+  invalid_signature: { RspCode: '97', Message: 'Invalid signature' },
+  error: { RspCode: '99', Message: 'Unknown error' }
+};
+
+// VNPay signs the sorted, form-encoded query string
+const buildQuery = (params: Record<string, string>): string => {
+  return Object.keys(params)
+    .sort()
+    .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(params[key]).replace(/%20/g, '+')}`)
+    .join('&');
+};
+
+// yyyyMMddHHmmss in Vietnam time, as VNPay expects
+const formatVnpayDate = (date: Date): string => {
+  const local = new Date(date.getTime() + 7 * 60 * 60 * 1000);
+  return local.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+};
+
+export const vnpayGateway: PaymentGateway = {
+  id: 'vnpay',
+  name: 'VNPay',
+
+  isConfigured: () => Boolean(VNPAY_TMN_CODE && VNPAY_HASH_SECRET),
+
+  createCheckoutUrl: async ({ payment, returnUrl, clientIp }) => {
+    const now = new Date();
+    const params: Record<string, string> = {
+      vnp_Version: '2.1.0',
+      vnp_Command: 'pay',
+      vnp_TmnCode: VNPAY_TMN_CODE!,
+      vnp_Amount: String(payment.amount * 100),
+      vnp_CurrCode: 'VND',
+      vnp_TxnRef: payment.paymentId,
+      vnp_OrderInfo: `Nap xu ${payment.paymentId}`,
+      vnp_OrderType: 'other',
+      vnp_Locale: 'vn',
+      vnp_ReturnUrl: returnUrl,
+      vnp_IpAddr: clientIp,
+      vnp_CreateDate: formatVnpayDate(now),
+      vnp_ExpireDate: formatVnpayDate(new Date(now.getTime() + 15 * 60 * 1000))
+    };
+
+    const query = buildQuery(params);
+    return `${VNPAY_URL}?${query}&vnp_SecureHash=${hmac('sha512', VNPAY_HASH_SECRET!, query)}`;
+  },
+
+  parseCallback: (params) => {
+    const signed: Record<string, string> = {};
+    for (const [key, value] of Object.entries(params)) {
+      if (key.startsWith('vnp_') && key !== 'vnp_SecureHash' && key !== 'vnp_SecureHashType') {
+        signed[key] = value;
+      }
+    }
+
+    if (!signatureMatches(hmac('sha512', VNPAY_HASH_SECRET!, buildQuery(signed)), params.vnp_SecureHash)) {
+      throw new InvalidGatewaySignatureError('vnpay');
+    }
+
+    return {
+      paymentId: signed.vnp_TxnRef,
+      amount: parseInt(signed.vnp_Amount) / 100,
+      success: signed.vnp_ResponseCode === '00' && signed.vnp_TransactionStatus === '00',
+      transactionId: signed.vnp_TransactionNo
+    };
+  },
+
+  acknowledge: (outcome) => jsonResponse(IPN_RESPONSES[outcome])
+};
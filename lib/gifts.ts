@@ -0,0 +1,70 @@
+// lib/gifts.ts
+import { User, Notification, IUser, IPurchase, ISourceCode } from './db/models';
+import { sendGiftReceivedEmail } from './email';
+import { PurchaseGift } from './checkout';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class GiftError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'GiftError';
+  }
+}
+
+export const MAX_GIFT_MESSAGE_LENGTH = 300;
+
+// Reads the gift fields of a purchase form; undefined means the buyer is buying for themselves.
+// Recipients are found by email or user ID, the two things a buyer is likely to know about a teammate.
+export const parseGiftInput = async (formData: FormData, sender: IUser): Promise<PurchaseGift | undefined> => {
+  if (formData.get('asGift') !== 'on') {
+    return undefined;
+  }
+
+  const identifier = ((formData.get('giftRecipient') as string) || '').trim();
+  if (!identifier) {
+    throw new GiftError('Vui lòng nhập email hoặc ID của người nhận quà');
+  }
+
+  const message = ((formData.get('giftMessage') as string) || '').trim();
+  if (message.length > MAX_GIFT_MESSAGE_LENGTH) {
+    throw new GiftError(`Lời nhắn tối đa ${MAX_GIFT_MESSAGE_LENGTH} ký tự`);
+  }
+
+  const recipient = await User.findOne(
+    identifier.includes('@') ? { email: identifier.toLowerCase() } : { userId: identifier.toUpperCase() }
+  );
+  if (!recipient) {
+    throw new GiftError('Không tìm thấy người nhận quà', 404);
+  }
+  if (recipient._id.equals(sender._id)) {
+    throw new GiftError('Bạn không thể tặng quà cho chính mình');
+  }
+
+  return { recipient, message };
+};
+
+// In-app notification and email to the recipient; a failed email never undoes the gift
+export const notifyGiftRecipient = async (
+  purchase: IPurchase,
+  { sender, recipient, sourceCode }: { sender: IUser; recipient: IUser; sourceCode: Pick<ISourceCode, 'sourceId' | 'title'> },
+  baseUrl: string
+): Promise<void> => {
+  await Notification.create({
+    user: recipient._id,
+    title: 'Bạn nhận được một món quà',
+    message: `${sender.fullName} đã tặng bạn "${sourceCode.title}".`,
+    type: 'purchase',
+    relatedId: purchase.purchaseId
+  });
+
+  try {
+    await sendGiftReceivedEmail(recipient.email, {
+      senderName: sender.fullName,
+      title: sourceCode.title,
+      licenseName: purchase.license?.name,
+      message: purchase.gift?.message
+    }, `${baseUrl}/dashboard/gifts`);
+  } catch (error) {
+    console.error('Gift email error:', error);
+  }
+};
@@ -0,0 +1,168 @@
+// lib/highlight.ts
+import path from 'path';
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'keyword' | 'number' | 'tag';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Grammar {
+  name: string;
+  lineComment?: string[];
+  blockComment?: [string, string];
+  strings: string[];
+  keywords: string[];
+}
+
+const C_LIKE_KEYWORDS = [
+  'abstract', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'final', 'finally', 'for', 'from', 'func', 'function', 'if', 'implements',
+  'import', 'in', 'instanceof', 'interface', 'let', 'namespace', 'new', 'null', 'package', 'private', 'protected',
+  'public', 'return', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield', 'fn', 'impl', 'mut', 'pub', 'use', 'val', 'fun', 'go',
+  'defer', 'echo', 'int', 'string', 'bool', 'using', 'readonly', 'override'
+];
+
+const JS_GRAMMAR: Grammar = { name: 'JavaScript', lineComment: ['//'], blockComment: ['/*', '*/'], strings: ['"', "'", '`'], keywords: C_LIKE_KEYWORDS };
+
+const GRAMMARS: Record<string, Grammar> = {
+  '.js': JS_GRAMMAR, '.jsx': JS_GRAMMAR, '.mjs': JS_GRAMMAR, '.cjs': JS_GRAMMAR,
+  '.ts': { ...JS_GRAMMAR, name: 'TypeScript' }, '.tsx': { ...JS_GRAMMAR, name: 'TypeScript' },
+  '.java': { ...JS_GRAMMAR, name: 'Java', strings: ['"', "'"] },
+  '.kt': { ...JS_GRAMMAR, name: 'Kotlin', strings: ['"', "'"] },
+  '.swift': { ...JS_GRAMMAR, name: 'Swift', strings: ['"'] },
+  '.dart': { ...JS_GRAMMAR, name: 'Dart' },
+  '.go': { ...JS_GRAMMAR, name: 'Go', strings: ['"', "'", '`'] },
+  '.rs': { ...JS_GRAMMAR, name: 'Rust', strings: ['"'] },
+  '.c': { ...JS_GRAMMAR, name: 'C', strings: ['"', "'"] }, '.h': { ...JS_GRAMMAR, name: 'C', strings: ['"', "'"] },
+  '.cpp': { ...JS_GRAMMAR, name: 'C++', strings: ['"', "'"] }, '.cs': { ...JS_GRAMMAR, name: 'C#', strings: ['"', "'"] },
+  '.php': { ...JS_GRAMMAR, name: 'PHP', lineComment: ['//', '#'], strings: ['"', "'"] },
+  '.py': {
+    name: 'Python', lineComment: ['#'], strings: ['"', "'"],
+    keywords: ['and', 'as', 'async', 'await', 'class', 'def', 'elif', 'else', 'except', 'False', 'finally', 'for', 'from',
+      'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield']
+  },
+  '.rb': {
+    name: 'Ruby', lineComment: ['#'], strings: ['"', "'"],
+    keywords: ['begin', 'class', 'def', 'do', 'else', 'elsif', 'end', 'false', 'if', 'module', 'nil', 'require', 'return', 'self', 'true', 'unless', 'while', 'yield']
+  },
+  '.sh': {
+    name: 'Shell', lineComment: ['#'], strings: ['"', "'"],
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'then', 'while']
+  },
+  '.sql': {
+    name: 'SQL', lineComment: ['--'], blockComment: ['/*', '*/'], strings: ["'"],
+    keywords: ['SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'TABLE', 'PRIMARY', 'KEY',
+      'JOIN', 'LEFT', 'ON', 'AND', 'OR', 'NOT', 'NULL', 'ORDER', 'BY', 'GROUP', 'LIMIT', 'AS', 'INDEX', 'DEFAULT']
+  },
+  '.css': { name: 'CSS', blockComment: ['/*', '*/'], strings: ['"', "'"], keywords: [] },
+  '.scss': { name: 'SCSS', lineComment: ['//'], blockComment: ['/*', '*/'], strings: ['"', "'"], keywords: [] },
+  '.json': { name: 'JSON', strings: ['"'], keywords: ['true', 'false', 'null'] },
+  '.yml': { name: 'YAML', lineComment: ['#'], strings: ['"', "'"], keywords: ['true', 'false', 'null'] },
+  '.yaml': { name: 'YAML', lineComment: ['#'], strings: ['"', "'"], keywords: ['true', 'false', 'null'] },
+  '.html': { name: 'HTML', blockComment: ['<!--', '-->'], strings: ['"', "'"], keywords: [] },
+  '.vue': { name: 'Vue', blockComment: ['<!--', '-->'], strings: ['"', "'", '`'], keywords: C_LIKE_KEYWORDS },
+  '.xml': { name: 'XML', blockComment: ['<!--', '-->'], strings: ['"', "'"], keywords: [] }
+};
+
+const PLAIN_TEXT: Grammar = { name: 'Text', strings: [], keywords: [] };
+
+export const languageForPath = (filePath: string): string => {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.md' || extension === '.markdown') return 'Markdown';
+  return (GRAMMARS[extension] || PLAIN_TEXT).name;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildPattern = (grammar: Grammar): RegExp => {
+  const parts: string[] = [];
+  if (grammar.blockComment) {
+    const [open, close] = grammar.blockComment.map(escapeRegExp);
+    parts.push(`(?<comment>${open}[\\s\\S]*?(?:${close}|$))`);
+  }
+  if (grammar.lineComment?.length) {
+    parts.push(`(?<lineComment>(?:${grammar.lineComment.map(escapeRegExp).join('|')})[^\\n]*)`);
+  }
+  if (grammar.strings.length) {
+    const strings = grammar.strings.map((quote) => {
+      const q = escapeRegExp(quote);
+      // Template literals may span lines, other strings stop at the end of the line
+      return quote === '`' ? `${q}(?:\\\\[\\s\\S]|[^\\\\${q}])*${q}?` : `${q}(?:\\\\.|[^\\\\${q}\\n])*${q}?`;
+    });
+    parts.push(`(?<string>${strings.join('|')})`);
+  }
+  if (grammar.name === 'HTML' || grammar.name === 'XML' || grammar.name === 'Vue') {
+    parts.push('(?<tag></?[A-Za-z][\\w:-]*|/?>)');
+  }
+  parts.push('(?<number>\\b\\d+(?:\\.\\d+)?\\b)');
+  parts.push('(?<word>[A-Za-z_$][\\w$]*)');
+  return new RegExp(parts.join('|'), 'g');
+};
+
+// Splits highlighted tokens on newlines so the preview can number each line, merging neighbours of the same kind
+const toLines = (tokens: Token[]): Token[][] => {
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      const line = lines[lines.length - 1];
+      const previous = line[line.length - 1];
+      if (previous?.kind === token.kind) {
+        previous.text += part;
+      } else if (part) {
+        line.push({ kind: token.kind, text: part });
+      }
+    });
+  }
+  return lines;
+};
+
+// A small lexer is enough for a read-only preview; it only has to colour comments, strings, keywords and numbers
+export const highlight = (content: string, filePath: string): Token[][] => {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.md' || extension === '.markdown') {
+    return content.split('\n').map((line) => {
+      if (/^#{1,6}\s/.test(line)) return [{ kind: 'keyword', text: line }];
+      if (/^```/.test(line)) return [{ kind: 'comment', text: line }];
+      return line ? [{ kind: 'plain', text: line }] : [];
+    });
+  }
+
+  const grammar = GRAMMARS[extension] || PLAIN_TEXT;
+  if (grammar === PLAIN_TEXT) {
+    return content.split('\n').map((line) => (line ? [{ kind: 'plain', text: line }] : []));
+  }
+
+  const keywords = new Set(grammar.keywords);
+  const pattern = buildPattern(grammar);
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(pattern)) {
+    const groups = match.groups || {};
+    const index = match.index || 0;
+    if (index > lastIndex) {
+      tokens.push({ kind: 'plain', text: content.slice(lastIndex, index) });
+    }
+
+    let kind: TokenKind = 'plain';
+    if (groups.comment || groups.lineComment) kind = 'comment';
+    else if (groups.string) kind = 'string';
+    else if (groups.tag) kind = 'tag';
+    else if (groups.number) kind = 'number';
+    else if (groups.word && keywords.has(groups.word)) kind = 'keyword';
+
+    tokens.push({ kind, text: match[0] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    tokens.push({ kind: 'plain', text: content.slice(lastIndex) });
+  }
+
+  return toLines(tokens);
+};
@@ -0,0 +1,134 @@
+// lib/idempotency.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IdempotencyKey, IIdempotencyKey } from './db/models';
+
+// Duplicates arriving within this window get the stored response back
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Forms send the key as a hidden field, API clients may use the header instead
+export const IDEMPOTENCY_KEY_FIELD = 'idempotencyKey';
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Response headers worth keeping for a replay
+const REPLAYED_HEADERS = ['content-type', 'location'];
+
+export const generateIdempotencyKey = (): string => {
+  return crypto.randomUUID();
+};
+
+interface IdempotencyOptions {
+  request: Request;
+  formData: FormData;
+  user: mongoose.Types.ObjectId;
+  scope: string;
+}
+
+const jsonResponse = (body: unknown, status: number): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' }
+  });
+};
+
+// Fingerprint of the submitted fields so a key cannot be reused for a different request
+const hashRequest = (scope: string, formData: FormData): string => {
+  const fields = [...formData.entries()]
+    .filter(([name]) => name !== IDEMPOTENCY_KEY_FIELD)
+    .map(([name, value]) => `${name}=${typeof value === 'string' ? value : value.name}`)
+    .sort();
+
+  return crypto.createHash('sha256').update([scope, ...fields].join('&')).digest('hex');
+};
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+};
+
+const replayResponse = (record: IIdempotencyKey): Response => {
+  const { status, headers, body } = record.response!;
+  return new Response(body, {
+    status,
+    headers: { ...headers, 'Idempotent-Replayed': 'true' }
+  });
+};
+
+// Runs a money-moving action at most once per key; later duplicates get the first response
+export const withIdempotency = async <T extends Response>(
+  { request, formData, user, scope }: IdempotencyOptions,
+  handler: () => Promise<T>
+): Promise<T> => {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER) || formData.get(IDEMPOTENCY_KEY_FIELD);
+
+  if (!key || typeof key !== 'string') {
+    return handler();
+  }
+
+  const requestHash = hashRequest(scope, formData);
+  const now = new Date();
+
+  // Keys past their window count as unused even before the TTL monitor removes them
+  await IdempotencyKey.deleteOne({ user, key, expiresAt: { $lte: now } });
+
+  try {
+    await IdempotencyKey.create({
+      key,
+      user,
+      scope,
+      requestHash,
+      expiresAt: new Date(now.getTime() + IDEMPOTENCY_WINDOW_MS)
+    });
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+
+    const existing = await IdempotencyKey.findOne({ user, key });
+
+    if (existing && (existing.scope !== scope || existing.requestHash !== requestHash)) {
+      return jsonResponse({ error: "Mã yêu cầu đã được sử dụng cho một giao dịch khác" }, 422) as T;
+    }
+
+    if (!existing || existing.status !== 'completed' || !existing.response) {
+      return jsonResponse({ error: "Yêu cầu đang được xử lý, vui lòng đợi trong giây lát" }, 409) as T;
+    }
+
+    return replayResponse(existing) as T;
+  }
+
+  let response: T;
+  try {
+    response = await handler();
+  } catch (error) {
+    await IdempotencyKey.deleteOne({ user, key });
+    throw error;
+  }
+
+  // Failed attempts did not move any money, so the key is released for a retry
+  if (response.status >= 400) {
+    await IdempotencyKey.deleteOne({ user, key });
+    return response;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const name of REPLAYED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  }
+
+  await IdempotencyKey.updateOne(
+    { user, key },
+    {
+      status: 'completed',
+      response: {
+        status: response.status,
+        headers,
+        body: await response.clone().text()
+      }
+    }
+  );
+
+  return response;
+};
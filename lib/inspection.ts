@@ -0,0 +1,350 @@
+// lib/inspection.ts
+import zlib from 'zlib';
+import path from 'path';
+import { IArchiveInspection, IInspectionFinding } from './db/models';
+
+export class InspectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InspectionError';
+  }
+}
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  read: () => Buffer;
+}
+
+export interface InspectionResult {
+  report: Omit<IArchiveInspection, 'version' | 'reviewedBy' | 'reviewedAt'>;
+  files: { path: string; size: number }[];
+  filesTruncated: boolean;
+}
+
+const MB = 1024 * 1024;
+
+// Guards against archives that expand far beyond their upload size
+const getExtractedSizeLimit = (): number => {
+  const megabytes = parseInt(process.env.ARCHIVE_MAX_EXTRACTED_MB || '');
+  return (Number.isNaN(megabytes) || megabytes <= 0 ? 500 : megabytes) * MB;
+};
+
+const getLargeBinaryThreshold = (): number => {
+  const megabytes = parseInt(process.env.ARCHIVE_LARGE_BINARY_MB || '');
+  return (Number.isNaN(megabytes) || megabytes <= 0 ? 20 : megabytes) * MB;
+};
+
+// Listings only store this many paths for the file tree
+const MAX_LISTED_FILES = 5000;
+
+// Source files larger than this are almost always generated or minified
+const MAX_COUNTED_FILE_SIZE = 2 * MB;
+
+// ZIP: walk the central directory, which has reliable sizes even for streamed archives
+const readZipEntries = (data: Buffer): ArchiveEntry[] => {
+  let eocd = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new InspectionError('Không tìm thấy danh mục tệp trong tệp ZIP');
+  }
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new InspectionError('Chưa hỗ trợ tệp ZIP64, vui lòng nén lại bằng định dạng ZIP thông thường hoặc TAR.GZ');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new InspectionError('Danh mục tệp ZIP bị hỏng');
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localHeaderOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    entries.push({
+      path: name,
+      size,
+      read: () => {
+        if (data.readUInt32LE(localHeaderOffset) !== 0x04034b50) {
+          throw new InspectionError(`Tệp ${name} trong ZIP bị hỏng`);
+        }
+        const start = localHeaderOffset + 30 + data.readUInt16LE(localHeaderOffset + 26) + data.readUInt16LE(localHeaderOffset + 28);
+        const compressed = data.subarray(start, start + compressedSize);
+        if (method === 0) {
+          return compressed;
+        }
+        if (method === 8) {
+          return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+        }
+        throw new InspectionError(`Tệp ${name} dùng kiểu nén ZIP chưa được hỗ trợ`);
+      }
+    });
+  }
+
+  return entries;
+};
+
+const readTarString = (block: Buffer, start: number, length: number): string => {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? field.length : end).toString('utf8');
+};
+
+// TAR: 512-byte headers, with GNU long names and pax "path" records for long paths
+const readTarEntries = (data: Buffer): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    if (Number.isNaN(size)) {
+      throw new InspectionError('Tệp TAR bị hỏng');
+    }
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readTarString(header, 257, 6) === 'ustar' ? readTarString(header, 345, 155) : '';
+    const name = longName || (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+    const contentStart = offset + 512;
+    const content = data.subarray(contentStart, contentStart + size);
+    offset = contentStart + Math.ceil(size / 512) * 512;
+    longName = undefined;
+
+    if (type === 'L') {
+      longName = content.toString('utf8').replace(/\0+$/, '');
+    } else if (type === 'x') {
+      const pathRecord = content.toString('utf8').match(/^\d+ path=(.*)$/m);
+      longName = pathRecord?.[1];
+    } else if (type === '0' || type === '\0' || type === '7') {
+      entries.push({ path: name.replace(/^\.\//, ''), size, read: () => content });
+    }
+  }
+
+  return entries;
+};
+
+export const readArchiveEntries = (data: Buffer, contentType: string): ArchiveEntry[] => {
+  try {
+    switch (contentType) {
+      case 'application/zip':
+        return readZipEntries(data);
+      case 'application/gzip':
+        return readTarEntries(zlib.gunzipSync(data, { maxOutputLength: getExtractedSizeLimit() }));
+      case 'application/x-tar':
+        return readTarEntries(data);
+      default:
+        throw new InspectionError('Định dạng tệp nén không được hỗ trợ');
+    }
+  } catch (error) {
+    if (error instanceof InspectionError) {
+      throw error;
+    }
+    if (error instanceof RangeError) {
+      throw new InspectionError('Tệp nén quá lớn sau khi giải nén');
+    }
+    throw new InspectionError('Không đọc được nội dung tệp nén');
+  }
+};
+
+const LANGUAGES: Record<string, string> = {
+  '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+  '.ts': 'TypeScript', '.tsx': 'TypeScript',
+  '.py': 'Python', '.php': 'PHP', '.rb': 'Ruby', '.go': 'Go', '.rs': 'Rust',
+  '.java': 'Java', '.kt': 'Kotlin', '.swift': 'Swift', '.dart': 'Dart', '.scala': 'Scala',
+  '.c': 'C', '.h': 'C', '.cpp': 'C++', '.cc': 'C++', '.hpp': 'C++', '.cs': 'C#',
+  '.vue': 'Vue', '.svelte': 'Svelte',
+  '.html': 'HTML', '.htm': 'HTML', '.css': 'CSS', '.scss': 'SCSS', '.sass': 'SCSS', '.less': 'Less',
+  '.sql': 'SQL', '.sh': 'Shell', '.lua': 'Lua', '.r': 'R'
+};
+
+// Third-party and generated code would drown out what the seller actually wrote
+const VENDORED_DIRECTORIES = /(^|\/)(node_modules|vendor|bower_components|\.git|dist|build|__pycache__)\//;
+
+// Dependency names that identify a framework, by the manifest they appear in
+const FRAMEWORK_MARKERS: { manifest: RegExp; dependency: RegExp; framework: string }[] = [
+  { manifest: /(^|\/)package\.json$/, dependency: /"next"\s*:/, framework: 'Next.js' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"@remix-run\/react"\s*:/, framework: 'Remix' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"react"\s*:/, framework: 'React' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"vue"\s*:/, framework: 'Vue' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"nuxt"\s*:/, framework: 'Nuxt' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"@angular\/core"\s*:/, framework: 'Angular' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"svelte"\s*:/, framework: 'Svelte' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"express"\s*:/, framework: 'Express' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"@nestjs\/core"\s*:/, framework: 'NestJS' },
+  { manifest: /(^|\/)package\.json$/, dependency: /"react-native"\s*:/, framework: 'React Native' },
+  { manifest: /(^|\/)composer\.json$/, dependency: /"laravel\/framework"\s*:/, framework: 'Laravel' },
+  { manifest: /(^|\/)composer\.json$/, dependency: /"symfony\/framework-bundle"\s*:/, framework: 'Symfony' },
+  { manifest: /(^|\/)(requirements\.txt|pyproject\.toml|Pipfile)$/, dependency: /^\s*"?django\b/im, framework: 'Django' },
+  { manifest: /(^|\/)(requirements\.txt|pyproject\.toml|Pipfile)$/, dependency: /^\s*"?flask\b/im, framework: 'Flask' },
+  { manifest: /(^|\/)(requirements\.txt|pyproject\.toml|Pipfile)$/, dependency: /^\s*"?fastapi\b/im, framework: 'FastAPI' },
+  { manifest: /(^|\/)Gemfile$/, dependency: /gem\s+['"]rails['"]/, framework: 'Ruby on Rails' },
+  { manifest: /(^|\/)(pom\.xml|build\.gradle(\.kts)?)$/, dependency: /spring-boot/, framework: 'Spring Boot' },
+  { manifest: /(^|\/)go\.mod$/, dependency: /github\.com\/gin-gonic\/gin/, framework: 'Gin' },
+  { manifest: /(^|\/)pubspec\.yaml$/, dependency: /sdk:\s*flutter/, framework: 'Flutter' },
+  { manifest: /\.csproj$/, dependency: /Microsoft\.AspNetCore|Sdk="Microsoft\.NET\.Sdk\.Web"/, framework: 'ASP.NET Core' }
+];
+
+const SECRET_FILE_NAMES = /(^|\/)(\.env(\.[^/]*)?|id_rsa|id_dsa|id_ecdsa|id_ed25519|credentials\.json|\.npmrc|\.pypirc|\.htpasswd)$/;
+const SECRET_FILE_TEMPLATES = /\.(example|sample|template|dist)$/;
+const SECRET_EXTENSIONS = new Set(['.pem', '.key', '.p12', '.pfx', '.keystore', '.jks']);
+
+const SECRET_PATTERNS: { pattern: RegExp; detail: string }[] = [
+  { pattern: /-----BEGIN (RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----/, detail: 'Chứa khóa bí mật (private key)' },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/, detail: 'Chứa AWS access key' },
+  { pattern: /\bsk_live_[0-9A-Za-z]{20,}\b/, detail: 'Chứa Stripe secret key' },
+  { pattern: /\bgh[pousr]_[0-9A-Za-z]{36}\b/, detail: 'Chứa GitHub token' },
+  { pattern: /\bxox[baprs]-[0-9A-Za-z-]{10,}\b/, detail: 'Chứa Slack token' }
+];
+
+const EXECUTABLE_EXTENSIONS = new Set(['.exe', '.dll', '.msi', '.scr', '.com', '.so', '.dylib', '.apk', '.ipa', '.deb', '.rpm']);
+
+const executableFormat = (content: Buffer): string | undefined => {
+  if (content.length < 4) return undefined;
+  if (content[0] === 0x4d && content[1] === 0x5a) return 'Windows (PE)';
+  if (content.subarray(0, 4).equals(Buffer.from([0x7f, 0x45, 0x4c, 0x46]))) return 'Linux (ELF)';
+  const magic = content.readUInt32BE(0);
+  if ([0xfeedface, 0xfeedfacf, 0xcefaedfe, 0xcffaedfe, 0xcafebabe].includes(magic)) return 'macOS (Mach-O)';
+  return undefined;
+};
+
+// A NUL byte early on is the usual sign of binary content
+const isBinary = (content: Buffer): boolean => {
+  return content.subarray(0, 8000).includes(0);
+};
+
+const countLines = (content: Buffer): number => {
+  let lines = 0;
+  for (const line of content.toString('utf8').split('\n')) {
+    if (line.trim()) lines++;
+  }
+  return lines;
+};
+
+// Builds the listing report: file tree, languages, frameworks, lines of code and anything a moderator should look at
+export const inspectArchive = (entries: ArchiveEntry[]): InspectionResult => {
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalSize > getExtractedSizeLimit()) {
+    throw new InspectionError('Tệp nén quá lớn sau khi giải nén');
+  }
+
+  const languages = new Map<string, { files: number; lines: number }>();
+  const frameworks = new Set<string>();
+  const findings: IInspectionFinding[] = [];
+  let linesOfCode = 0;
+
+  for (const entry of entries) {
+    const fileName = entry.path.toLowerCase();
+    const extension = path.extname(fileName);
+    const isVendored = VENDORED_DIRECTORIES.test(entry.path);
+
+    if (SECRET_FILE_NAMES.test(entry.path) && !SECRET_FILE_TEMPLATES.test(fileName)) {
+      findings.push({ kind: 'secret', path: entry.path, detail: 'Tệp cấu hình có thể chứa mật khẩu hoặc khóa bí mật' });
+    } else if (SECRET_EXTENSIONS.has(extension)) {
+      findings.push({ kind: 'secret', path: entry.path, detail: 'Tệp khóa hoặc chứng chỉ' });
+    }
+
+    if (EXECUTABLE_EXTENSIONS.has(extension)) {
+      findings.push({ kind: 'executable', path: entry.path, detail: `Tệp thực thi ${extension}` });
+    }
+
+    const language = LANGUAGES[extension];
+    const manifest = FRAMEWORK_MARKERS.filter((marker) => marker.manifest.test(entry.path));
+
+    if (entry.size > getLargeBinaryThreshold()) {
+      if (!language) {
+        findings.push({ kind: 'large_binary', path: entry.path, detail: `Tệp nhị phân ${Math.round(entry.size / MB)}MB` });
+      }
+      continue;
+    }
+    if (isVendored || entry.size > MAX_COUNTED_FILE_SIZE) {
+      continue;
+    }
+
+    let content: Buffer;
+    try {
+      content = entry.read();
+    } catch (error) {
+      if (error instanceof InspectionError) {
+        throw error;
+      }
+      throw new InspectionError(`Không đọc được tệp ${entry.path} trong tệp nén`);
+    }
+
+    const format = executableFormat(content);
+    if (format && !EXECUTABLE_EXTENSIONS.has(extension)) {
+      findings.push({ kind: 'executable', path: entry.path, detail: `Tệp thực thi ${format}` });
+    }
+    if (isBinary(content)) {
+      continue;
+    }
+
+    const text = content.toString('utf8');
+    for (const marker of manifest) {
+      if (marker.dependency.test(text)) {
+        frameworks.add(marker.framework);
+      }
+    }
+
+    const secret = SECRET_PATTERNS.find(({ pattern }) => pattern.test(text));
+    if (secret && !findings.some((finding) => finding.path === entry.path)) {
+      findings.push({ kind: 'secret', path: entry.path, detail: secret.detail });
+    }
+
+    if (language) {
+      const lines = countLines(content);
+      const stats = languages.get(language) || { files: 0, lines: 0 };
+      languages.set(language, { files: stats.files + 1, lines: stats.lines + lines });
+      linesOfCode += lines;
+    }
+  }
+
+  const files = entries
+    .map((entry) => ({ path: entry.path, size: entry.size }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    report: {
+      status: findings.length > 0 ? 'flagged' : 'clean',
+      fileCount: entries.length,
+      totalSize,
+      linesOfCode,
+      languages: [...languages.entries()]
+        .map(([name, stats]) => ({ name, ...stats }))
+        .sort((a, b) => b.lines - a.lines),
+      frameworks: [...frameworks],
+      findings,
+      inspectedAt: new Date()
+    },
+    files: files.slice(0, MAX_LISTED_FILES),
+    filesTruncated: files.length > MAX_LISTED_FILES
+  };
+};
+
+export const FINDING_LABELS: Record<IInspectionFinding['kind'], string> = {
+  secret: '🔑 Thông tin bí mật',
+  executable: '⚙️ Tệp thực thi',
+  large_binary: '📦 Tệp nhị phân lớn'
+};
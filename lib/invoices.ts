@@ -0,0 +1,217 @@
+// lib/invoices.ts
+import { ClientSession } from 'mongoose';
+import { Counter, Invoice, User, IInvoice, IInvoiceLine, IOrder, IPayment, IUser } from './db/models';
+import { buildPdf, fitText, PdfElement, PAGE_WIDTH } from './pdf';
+import { sendInvoiceEmail } from './email';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class InvoiceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+const INVOICE_PREFIX = 'HD';
+
+// Numbers restart every year and never skip: the counter moves inside the same transaction as the sale
+const nextInvoiceNumber = async (issuedAt: Date, session: ClientSession): Promise<string> => {
+  const year = issuedAt.getFullYear();
+  const counter = await Counter.findOneAndUpdate(
+    { _id: `invoice:${year}` },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true, session }
+  );
+  return `${INVOICE_PREFIX}${year}-${String(counter.seq).padStart(6, '0')}`;
+};
+
+type BilledUser = Pick<IUser, '_id' | 'fullName' | 'email' | 'userId'>;
+
+const createInvoice = async (
+  fields: Pick<IInvoice, 'type' | 'order' | 'payment' | 'reference' | 'lines' | 'totalAmount'>,
+  user: BilledUser,
+  session: ClientSession
+): Promise<IInvoice> => {
+  const issuedAt = new Date();
+  const invoice = new Invoice({
+    ...fields,
+    invoiceNumber: await nextInvoiceNumber(issuedAt, session),
+    user: user._id,
+    billedTo: { fullName: user.fullName, email: user.email, userId: user.userId },
+    issuedAt
+  });
+  await invoice.save({ session });
+  return invoice;
+};
+
+export const issueOrderInvoice = async (order: IOrder, buyer: BilledUser, session: ClientSession): Promise<IInvoice> => {
+  return createInvoice({
+    type: 'order',
+    order: order._id,
+    reference: order.orderId,
+    lines: order.items.map((item) => ({
+      description: item.title,
+      detail: [
+        item.licenseName && `Bản quyền: ${item.licenseName}`,
+        item.bundleTitle && `Thuộc gói: ${item.bundleTitle}`,
+        item.giftRecipient && `Quà tặng cho: ${item.giftRecipient}`,
+        item.couponCode && `Mã giảm giá ${item.couponCode}: -${item.discountAmount.toLocaleString('vi-VN')} xu`
+      ].filter(Boolean).join(' • ') || undefined,
+      amount: item.amount
+    })),
+    totalAmount: order.totalAmount
+  }, buyer, session);
+};
+
+// Called when a deposit is approved, whichever path approved it
+export const issueDepositInvoice = async (payment: IPayment, session: ClientSession): Promise<IInvoice> => {
+  const ownerId = (payment.populated('user') as IPayment['user'] | undefined) || payment.user;
+  const user = await User.findById(ownerId).select('fullName email userId').session(session).lean<BilledUser>();
+  if (!user) {
+    throw new InvoiceError('Không tìm thấy người nạp xu', 404);
+  }
+
+  return createInvoice({
+    type: 'deposit',
+    payment: payment._id,
+    reference: payment.paymentId,
+    lines: [{
+      description: 'Nạp xu vào ví',
+      detail: payment.gateway ? `Thanh toán trực tuyến qua ${payment.gateway.toUpperCase()}` : 'Chuyển khoản ngân hàng',
+      amount: payment.amount
+    }],
+    totalAmount: payment.amount
+  }, user, session);
+};
+
+// Invoices are visible to the user they were issued to and to admins; anyone else gets a 404
+export const findInvoiceForUser = async (invoiceNumber: string, user: IUser): Promise<IInvoice> => {
+  const invoice = await Invoice.findOne({ invoiceNumber: invoiceNumber.toUpperCase() });
+  if (!invoice || (invoice.user.toString() !== user._id.toString() && user.role !== 'admin')) {
+    throw new InvoiceError('Không tìm thấy hóa đơn', 404);
+  }
+  return invoice;
+};
+
+export const describeInvoiceType = (type: IInvoice['type']): string => {
+  return type === 'order' ? 'Hóa đơn mua mã nguồn' : 'Hóa đơn nạp xu';
+};
+
+export const describeInvoiceReference = (invoice: Pick<IInvoice, 'type' | 'reference'>): string => {
+  return `${invoice.type === 'order' ? 'Đơn hàng' : 'Mã thanh toán'}: ${invoice.reference}`;
+};
+
+export const invoiceFileName = (invoice: Pick<IInvoice, 'invoiceNumber'>): string => `${invoice.invoiceNumber}.pdf`;
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const ROW_HEIGHT = 30;
+const BOTTOM_LIMIT = 110;
+const DESCRIPTION_WIDTH = RIGHT - MARGIN - 40 - 110;
+
+type InvoiceDocument = Pick<IInvoice, 'invoiceNumber' | 'type' | 'reference' | 'billedTo' | 'lines' | 'totalAmount' | 'issuedAt'>;
+
+const formatXu = (amount: number): string => `${amount.toLocaleString('vi-VN')} xu`;
+
+// Lays the invoice out on as many A4 pages as its lines need, repeating the table header on each page
+export const renderInvoicePdf = (invoice: InvoiceDocument): Buffer => {
+  const pages: PdfElement[][] = [];
+  let page: PdfElement[] = [];
+  let y = 0;
+
+  const tableHeader = () => {
+    page.push(
+      { type: 'text', x: MARGIN, y, text: 'STT', size: 9, bold: true },
+      { type: 'text', x: MARGIN + 40, y, text: 'Nội dung', size: 9, bold: true },
+      { type: 'text', x: RIGHT, y, text: 'Thành tiền', size: 9, bold: true, align: 'right' },
+      { type: 'line', x1: MARGIN, y1: y - 8, x2: RIGHT, y2: y - 8, width: 0.75 }
+    );
+    y -= 26;
+  };
+
+  const startPage = () => {
+    page = [];
+    pages.push(page);
+    y = 790;
+
+    page.push(
+      { type: 'text', x: MARGIN, y, text: 'SourceCode4U', size: 20, bold: true },
+      { type: 'text', x: RIGHT, y, text: 'HÓA ĐƠN', size: 16, bold: true, align: 'right' },
+      { type: 'text', x: RIGHT, y: y - 18, text: `Số: ${invoice.invoiceNumber}`, size: 10, align: 'right' },
+      { type: 'text', x: MARGIN, y: y - 18, text: 'Chợ mã nguồn trực tuyến', size: 10 },
+      { type: 'line', x1: MARGIN, y1: y - 32, x2: RIGHT, y2: y - 32, width: 1.5 }
+    );
+    y -= 60;
+  };
+
+  startPage();
+
+  const details = [
+    ['Loại', describeInvoiceType(invoice.type)],
+    ['Ngày phát hành', new Date(invoice.issuedAt).toLocaleString('vi-VN')],
+    ['Tham chiếu', describeInvoiceReference(invoice)],
+    ['Khách hàng', `${invoice.billedTo.fullName} (${invoice.billedTo.userId})`],
+    ['Email', invoice.billedTo.email]
+  ];
+  for (const [label, value] of details) {
+    page.push(
+      { type: 'text', x: MARGIN, y, text: label, size: 10, bold: true },
+      { type: 'text', x: MARGIN + 110, y, text: fitText(value, RIGHT - MARGIN - 110, 10), size: 10 }
+    );
+    y -= 16;
+  }
+  y -= 20;
+  tableHeader();
+
+  invoice.lines.forEach((line: IInvoiceLine, index: number) => {
+    if (y - ROW_HEIGHT < BOTTOM_LIMIT) {
+      startPage();
+      tableHeader();
+    }
+
+    page.push(
+      { type: 'text', x: MARGIN, y, text: String(index + 1), size: 10 },
+      { type: 'text', x: MARGIN + 40, y, text: fitText(line.description, DESCRIPTION_WIDTH, 10), size: 10 },
+      { type: 'text', x: RIGHT, y, text: formatXu(line.amount), size: 10, align: 'right' }
+    );
+    if (line.detail) {
+      page.push({ type: 'text', x: MARGIN + 40, y: y - 12, text: fitText(line.detail, DESCRIPTION_WIDTH, 8), size: 8 });
+    }
+    page.push({ type: 'line', x1: MARGIN, y1: y - 18, x2: RIGHT, y2: y - 18, width: 0.5, gray: 0.8 });
+    y -= ROW_HEIGHT;
+  });
+
+  if (y - 40 < BOTTOM_LIMIT) {
+    startPage();
+  }
+  page.push(
+    { type: 'text', x: RIGHT - 150, y: y - 6, text: 'Tổng cộng', size: 12, bold: true, align: 'right' },
+    { type: 'text', x: RIGHT, y: y - 6, text: formatXu(invoice.totalAmount), size: 12, bold: true, align: 'right' }
+  );
+
+  pages.forEach((elements, index) => {
+    elements.push(
+      { type: 'line', x1: MARGIN, y1: 70, x2: RIGHT, y2: 70, width: 0.5, gray: 0.6 },
+      { type: 'text', x: MARGIN, y: 55, text: 'Hóa đơn được tạo tự động bởi SourceCode4U. 1 xu tương đương 1 VND.', size: 8 },
+      { type: 'text', x: RIGHT, y: 55, text: `Trang ${index + 1}/${pages.length}`, size: 8, align: 'right' }
+    );
+  });
+
+  return buildPdf(pages, `Hóa đơn ${invoice.invoiceNumber}`);
+};
+
+// Sends the invoice to the address it was billed to, with the PDF attached
+export const emailInvoice = async (invoice: IInvoice, baseUrl: string): Promise<void> => {
+  await sendInvoiceEmail(
+    invoice.billedTo.email,
+    {
+      invoiceNumber: invoice.invoiceNumber,
+      title: describeInvoiceType(invoice.type),
+      reference: describeInvoiceReference(invoice),
+      lines: invoice.lines,
+      totalAmount: invoice.totalAmount
+    },
+    `${baseUrl}/invoices/${invoice.invoiceNumber}`,
+    renderInvoicePdf(invoice)
+  );
+};
@@ -0,0 +1,33 @@
+// lib/jobs.ts
+import crypto from 'crypto';
+import { releaseMaturedEarnings } from './escrow';
+import { checkPriceDrops } from './wishlist';
+import { processSubscriptionRenewals } from './subscriptions';
+
+// Jobs only learn the site's address from the scheduler's request, for links in emails
+type Job = (baseUrl: string) => Promise<object>;
+
+// Background jobs, triggered by an external scheduler (cron) through /jobs/<name>
+const JOBS: Record<string, Job> = {
+  'release-earnings': () => releaseMaturedEarnings(),
+  // Sales start on their own schedule, so watchers are checked periodically as well as on repricing
+  'price-alerts': (baseUrl) => checkPriceDrops(baseUrl),
+  // Run at least hourly so renewals, grace periods and cancellations take effect close to on time
+  'subscriptions': (baseUrl) => processSubscriptionRenewals(baseUrl)
+};
+
+export const getJob = (name: string): Job | undefined => {
+  return Object.prototype.hasOwnProperty.call(JOBS, name) ? JOBS[name] : undefined;
+};
+
+// Jobs are disabled until CRON_SECRET is set; the scheduler sends it as a bearer token
+export const isAuthorizedJobRequest = (request: Request): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('Authorization') || '');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
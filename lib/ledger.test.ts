@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, type MockInstance } from 'vitest';
+import mongoose, { ClientSession } from 'mongoose';
+import { LedgerEntry, User, Organization } from './db/models';
+import {
+  postLedgerEntry,
+  walletAccount,
+  holdAccount,
+  organizationWalletAccount,
+  EXTERNAL_BANK_ACCOUNT,
+  PLATFORM_REVENUE_ACCOUNT,
+  InsufficientBalanceError
+} from './ledger';
+
+vi.mock('./db/connection', () => ({
+  connectToDatabase: vi.fn(),
+  withTransaction: (fn: (session: ClientSession) => Promise<unknown>) => fn({} as ClientSession)
+}));
+
+const session = {} as ClientSession;
+const userId = new mongoose.Types.ObjectId();
+const organizationId = new mongoose.Types.ObjectId();
+
+const updateResult = (matchedCount: number) => ({ matchedCount, modifiedCount: matchedCount, acknowledged: true, upsertedCount: 0, upsertedId: null });
+
+describe('postLedgerEntry', () => {
+  let userUpdate: MockInstance<typeof User.updateOne>;
+  let organizationUpdate: MockInstance<typeof Organization.updateOne>;
+  let entrySave: MockInstance;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(LedgerEntry, 'findOne').mockReturnValue({ session: () => Promise.resolve(null) } as never);
+    entrySave = vi.spyOn(LedgerEntry.prototype, 'save').mockImplementation(function (this: unknown) {
+      return Promise.resolve(this);
+    });
+    userUpdate = vi.spyOn(User, 'updateOne').mockResolvedValue(updateResult(1) as never);
+    organizationUpdate = vi.spyOn(Organization, 'updateOne').mockResolvedValue(updateResult(1) as never);
+  });
+
+  it('rejects entries whose debits and credits differ', async () => {
+    await expect(postLedgerEntry({
+      reason: 'deposit',
+      legs: [
+        { account: EXTERNAL_BANK_ACCOUNT, direction: 'debit', amount: 100 },
+        { account: walletAccount(userId), direction: 'credit', amount: 90 }
+      ],
+      session
+    })).rejects.toThrow('Unbalanced ledger entry');
+    expect(entrySave).not.toHaveBeenCalled();
+  });
+
+  it('rejects single legs and non-integer or non-positive amounts', async () => {
+    await expect(postLedgerEntry({
+      reason: 'deposit',
+      legs: [{ account: walletAccount(userId), direction: 'credit', amount: 100 }],
+      session
+    })).rejects.toThrow('at least two legs');
+
+    for (const amount of [0, -5, 1.5]) {
+      await expect(postLedgerEntry({
+        reason: 'deposit',
+        legs: [
+          { account: EXTERNAL_BANK_ACCOUNT, direction: 'debit', amount },
+          { account: walletAccount(userId), direction: 'credit', amount }
+        ],
+        session
+      })).rejects.toThrow('positive integers');
+    }
+  });
+
+  it('credits a wallet without any balance guard', async () => {
+    await postLedgerEntry({
+      reason: 'deposit',
+      legs: [
+        { account: EXTERNAL_BANK_ACCOUNT, direction: 'debit', amount: 100 },
+        { account: walletAccount(userId), direction: 'credit', amount: 100 }
+      ],
+      session
+    });
+
+    expect(entrySave).toHaveBeenCalledWith({ session });
+    expect(userUpdate).toHaveBeenCalledWith({ _id: userId.toString() }, { $inc: { balance: 100 } }, { session });
+  });
+
+  it('only debits a wallet that still covers the amount', async () => {
+    await postLedgerEntry({
+      reason: 'purchase',
+      legs: [
+        { account: walletAccount(userId), direction: 'debit', amount: 100 },
+        { account: PLATFORM_REVENUE_ACCOUNT, direction: 'credit', amount: 100 }
+      ],
+      session
+    });
+
+    expect(userUpdate).toHaveBeenCalledWith(
+      { _id: userId.toString(), balance: { $gte: 100 } },
+      { $inc: { balance: -100 } },
+      { session }
+    );
+  });
+
+  it('throws InsufficientBalanceError when the guarded debit matches nothing', async () => {
+    userUpdate.mockResolvedValue(updateResult(0) as never);
+
+    await expect(postLedgerEntry({
+      reason: 'purchase',
+      legs: [
+        { account: walletAccount(userId), direction: 'debit', amount: 100 },
+        { account: PLATFORM_REVENUE_ACCOUNT, direction: 'credit', amount: 100 }
+      ],
+      session
+    })).rejects.toBeInstanceOf(InsufficientBalanceError);
+  });
+
+  it('lets overdraft entries push a wallet below zero', async () => {
+    await postLedgerEntry({
+      reason: 'adjustment',
+      legs: [
+        { account: walletAccount(userId), direction: 'debit', amount: 100 },
+        { account: PLATFORM_REVENUE_ACCOUNT, direction: 'credit', amount: 100 }
+      ],
+      allowOverdraft: true,
+      session
+    });
+
+    expect(userUpdate).toHaveBeenCalledWith({ _id: userId.toString() }, { $inc: { balance: -100 } }, { session });
+  });
+
+  it('collapses legs per user into a single guarded update', async () => {
+    await postLedgerEntry({
+      reason: 'withdrawal_hold',
+      legs: [
+        { account: walletAccount(userId), direction: 'debit', amount: 70 },
+        { account: walletAccount(userId), direction: 'debit', amount: 30 },
+        { account: holdAccount(userId), direction: 'credit', amount: 100 }
+      ],
+      session
+    });
+
+    expect(userUpdate).toHaveBeenCalledTimes(1);
+    expect(userUpdate).toHaveBeenCalledWith(
+      { _id: userId.toString(), balance: { $gte: 100 } },
+      { $inc: { balance: -100, heldBalance: 100 } },
+      { session }
+    );
+  });
+
+  it('guards organization wallets the same way', async () => {
+    organizationUpdate.mockResolvedValue(updateResult(0) as never);
+
+    await expect(postLedgerEntry({
+      reason: 'purchase',
+      legs: [
+        { account: organizationWalletAccount(organizationId), direction: 'debit', amount: 100 },
+        { account: PLATFORM_REVENUE_ACCOUNT, direction: 'credit', amount: 100 }
+      ],
+      session
+    })).rejects.toBeInstanceOf(InsufficientBalanceError);
+
+    expect(organizationUpdate).toHaveBeenCalledWith(
+      { _id: organizationId.toString(), balance: { $gte: 100 } },
+      { $inc: { balance: -100 } },
+      { session }
+    );
+    expect(userUpdate).not.toHaveBeenCalled();
+  });
+
+  it('leaves balances alone for opening entries', async () => {
+    await postLedgerEntry({
+      reason: 'opening_balance',
+      legs: [
+        { account: EXTERNAL_BANK_ACCOUNT, direction: 'debit', amount: 100 },
+        { account: walletAccount(userId), direction: 'credit', amount: 100 }
+      ],
+      applyToBalances: false,
+      session
+    });
+
+    expect(entrySave).toHaveBeenCalled();
+    expect(userUpdate).not.toHaveBeenCalled();
+  });
+});
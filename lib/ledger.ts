@@ -0,0 +1,526 @@
+// lib/ledger.ts
+import mongoose, { ClientSession } from 'mongoose';
+import { LedgerEntry, User, Organization, ILedgerEntry, ILedgerLeg, LedgerReason } from './db/models';
+import { withTransaction } from './db/connection';
+import { generateLedgerEntryId } from './auth';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// Accounts outside of user wallets
+export const PLATFORM_REVENUE_ACCOUNT = 'platform:revenue';
+export const PLATFORM_ADJUSTMENT_ACCOUNT = 'platform:adjustment';
+export const EXTERNAL_BANK_ACCOUNT = 'external:bank';
+
+export class InsufficientBalanceError extends Error {
+  constructor(public userId: string) {
+    super('Insufficient balance');
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class LedgerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export const walletAccount = (userId: ObjectIdLike): string => {
+  return `wallet:${userId.toString()}`;
+};
+
+// Funds reserved for pending withdrawals, mirrored to User.heldBalance
+export const holdAccount = (userId: ObjectIdLike): string => {
+  return `hold:${userId.toString()}`;
+};
+
+// Seller earnings still in escrow, mirrored to User.pendingBalance
+export const pendingAccount = (userId: ObjectIdLike): string => {
+  return `pending:${userId.toString()}`;
+};
+
+// An organization's shared wallet, mirrored to Organization.balance
+export const organizationWalletAccount = (organizationId: ObjectIdLike): string => {
+  return `org:${organizationId.toString()}`;
+};
+
+// Who pays for a purchase: the organization it was charged to, otherwise the buyer
+const payerAccount = (purchase: { organization?: ObjectIdLike | null }, buyerId: ObjectIdLike): string => {
+  return purchase.organization ? organizationWalletAccount(purchase.organization) : walletAccount(buyerId);
+};
+
+interface LedgerLegInput {
+  account: string;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+interface PostLedgerEntryOptions {
+  reason: LedgerReason;
+  legs: LedgerLegInput[];
+  purchase?: ObjectIdLike;
+  payment?: ObjectIdLike;
+  subscription?: ObjectIdLike;
+  createdBy?: ObjectIdLike;
+  note?: string;
+  // Opening balances describe money that is already on User.balance
+  applyToBalances?: boolean;
+  // Admin adjustments may push a wallet below zero
+  allowOverdraft?: boolean;
+  session?: ClientSession;
+}
+
+type PaymentLike = {
+  _id: ObjectIdLike;
+  user: ObjectIdLike | { _id: ObjectIdLike };
+  organization?: ObjectIdLike | null;
+  amount: number;
+};
+
+// Payment.user may or may not be populated
+const paymentOwnerId = (payment: PaymentLike): ObjectIdLike => {
+  return typeof payment.user === 'object' && '_id' in payment.user ? payment.user._id : payment.user;
+};
+
+// User-owned account kinds and the User field each one is mirrored to
+const USER_ACCOUNT_FIELDS: Record<string, UserBalanceField> = {
+  wallet: 'balance',
+  hold: 'heldBalance',
+  pending: 'pendingBalance'
+};
+
+type UserBalanceField = 'balance' | 'heldBalance' | 'pendingBalance';
+
+const parseUserAccount = (account: string): { userId: string; field: UserBalanceField } | null => {
+  const [kind, userId] = account.split(':');
+  const field = USER_ACCOUNT_FIELDS[kind];
+  return field && userId ? { userId, field } : null;
+};
+
+const parseOrganizationAccount = (account: string): string | null => {
+  const [kind, organizationId] = account.split(':');
+  return kind === 'org' && organizationId ? organizationId : null;
+};
+
+// User accounts are liabilities of the platform: a credit increases the user's balance
+const balanceDelta = (leg: LedgerLegInput): number => {
+  return leg.direction === 'credit' ? leg.amount : -leg.amount;
+};
+
+export const postLedgerEntry = async (options: PostLedgerEntryOptions): Promise<ILedgerEntry> => {
+  const {
+    reason,
+    legs,
+    purchase,
+    payment,
+    subscription,
+    createdBy,
+    note,
+    applyToBalances = true,
+    allowOverdraft = false,
+    session
+  } = options;
+
+  // Every entry and its balance updates commit together
+  if (!session) {
+    return withTransaction((transactionSession) => postLedgerEntry({ ...options, session: transactionSession }));
+  }
+
+  if (legs.length < 2) {
+    throw new Error('Ledger entry requires at least two legs');
+  }
+
+  if (legs.some(leg => !Number.isInteger(leg.amount) || leg.amount <= 0)) {
+    throw new Error('Ledger leg amounts must be positive integers');
+  }
+
+  const totalDebit = legs.filter(leg => leg.direction === 'debit').reduce((sum, leg) => sum + leg.amount, 0);
+  const totalCredit = legs.filter(leg => leg.direction === 'credit').reduce((sum, leg) => sum + leg.amount, 0);
+  if (totalDebit !== totalCredit) {
+    throw new Error(`Unbalanced ledger entry: debit ${totalDebit} != credit ${totalCredit}`);
+  }
+
+  // Generate entry ID
+  let entryId: string;
+  let isEntryIdUnique = false;
+  do {
+    entryId = generateLedgerEntryId();
+    const existingEntry = await LedgerEntry.findOne({ entryId }).session(session);
+    isEntryIdUnique = !existingEntry;
+  } while (!isEntryIdUnique);
+
+  const entry = new LedgerEntry({
+    entryId,
+    reason,
+    legs: legs.map((leg): ILedgerLeg => {
+      const userAccount = parseUserAccount(leg.account);
+      const organizationId = parseOrganizationAccount(leg.account);
+      return {
+        ...leg,
+        user: userAccount ? new mongoose.Types.ObjectId(userAccount.userId) : undefined,
+        organization: organizationId ? new mongoose.Types.ObjectId(organizationId) : undefined
+      };
+    }),
+    purchase,
+    payment,
+    subscription,
+    createdBy,
+    note
+  });
+
+  await entry.save({ session });
+
+  if (applyToBalances) {
+    // Collapse legs per user so each user gets a single $inc
+    const deltas = new Map<string, Partial<Record<UserBalanceField, number>>>();
+    for (const leg of legs) {
+      const userAccount = parseUserAccount(leg.account);
+      if (userAccount) {
+        const userDeltas = deltas.get(userAccount.userId) || {};
+        userDeltas[userAccount.field] = (userDeltas[userAccount.field] || 0) + balanceDelta(leg);
+        deltas.set(userAccount.userId, userDeltas);
+      }
+    }
+
+    for (const [userId, userDeltas] of deltas) {
+      const inc: Partial<Record<UserBalanceField, number>> = {};
+      const filter: Record<string, unknown> = { _id: userId };
+      for (const [field, delta] of Object.entries(userDeltas) as [UserBalanceField, number][]) {
+        if (delta === 0) continue;
+        inc[field] = delta;
+        // Debits only apply while the account still covers them
+        if (delta < 0 && !allowOverdraft) {
+          filter[field] = { $gte: -delta };
+        }
+      }
+
+      if (Object.keys(inc).length === 0) continue;
+
+      const result = await User.updateOne(filter, { $inc: inc }, { session });
+      if (result.matchedCount === 0) {
+        throw new InsufficientBalanceError(userId);
+      }
+    }
+
+    // Organization wallets follow the same rules as user wallets
+    const organizationDeltas = new Map<string, number>();
+    for (const leg of legs) {
+      const organizationId = parseOrganizationAccount(leg.account);
+      if (organizationId) {
+        organizationDeltas.set(organizationId, (organizationDeltas.get(organizationId) || 0) + balanceDelta(leg));
+      }
+    }
+
+    for (const [organizationId, delta] of organizationDeltas) {
+      if (delta === 0) continue;
+
+      const filter: Record<string, unknown> = { _id: organizationId };
+      if (delta < 0 && !allowOverdraft) {
+        filter.balance = { $gte: -delta };
+      }
+
+      const result = await Organization.updateOne(filter, { $inc: { balance: delta } }, { session });
+      if (result.matchedCount === 0) {
+        throw new InsufficientBalanceError(organizationId);
+      }
+    }
+  }
+
+  return entry;
+};
+
+export const recordDeposit = async (
+  payment: PaymentLike,
+  processedBy?: ObjectIdLike,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  const userId = paymentOwnerId(payment);
+
+  return postLedgerEntry({
+    reason: 'deposit',
+    legs: [
+      { account: EXTERNAL_BANK_ACCOUNT, direction: 'debit', amount: payment.amount },
+      {
+        account: payment.organization ? organizationWalletAccount(payment.organization) : walletAccount(userId),
+        direction: 'credit',
+        amount: payment.amount
+      }
+    ],
+    payment: payment._id,
+    createdBy: processedBy,
+    session
+  });
+};
+
+export const holdWithdrawal = async (
+  payment: PaymentLike,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  const userId = paymentOwnerId(payment);
+
+  return postLedgerEntry({
+    reason: 'withdrawal_hold',
+    legs: [
+      { account: walletAccount(userId), direction: 'debit', amount: payment.amount },
+      { account: holdAccount(userId), direction: 'credit', amount: payment.amount }
+    ],
+    payment: payment._id,
+    session
+  });
+};
+
+export const releaseWithdrawal = async (
+  payment: PaymentLike,
+  processedBy?: ObjectIdLike,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  const userId = paymentOwnerId(payment);
+
+  return postLedgerEntry({
+    reason: 'withdrawal_release',
+    legs: [
+      { account: holdAccount(userId), direction: 'debit', amount: payment.amount },
+      { account: walletAccount(userId), direction: 'credit', amount: payment.amount }
+    ],
+    payment: payment._id,
+    createdBy: processedBy,
+    session
+  });
+};
+
+// Pays out a withdrawal, from the hold when one was placed at request time
+export const settleWithdrawal = async (
+  payment: PaymentLike & { fundsHeld?: boolean },
+  processedBy?: ObjectIdLike,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  const userId = paymentOwnerId(payment);
+  const source = payment.fundsHeld ? holdAccount(userId) : walletAccount(userId);
+
+  return postLedgerEntry({
+    reason: 'withdrawal',
+    legs: [
+      { account: source, direction: 'debit', amount: payment.amount },
+      { account: EXTERNAL_BANK_ACCOUNT, direction: 'credit', amount: payment.amount }
+    ],
+    payment: payment._id,
+    createdBy: processedBy,
+    session
+  });
+};
+
+export const recordPurchase = async (
+  purchase: { _id: ObjectIdLike; amount: number; sellerEarnings: number; adminCommission: number; organization?: ObjectIdLike | null },
+  buyerId: ObjectIdLike,
+  sellerId: ObjectIdLike,
+  session?: ClientSession
+): Promise<ILedgerEntry | null> => {
+  // Free listings move no money
+  if (purchase.amount === 0) {
+    return null;
+  }
+
+  // The seller's share stays in escrow until the holding period ends
+  const legs: LedgerLegInput[] = [
+    { account: payerAccount(purchase, buyerId), direction: 'debit', amount: purchase.amount },
+    { account: pendingAccount(sellerId), direction: 'credit', amount: purchase.sellerEarnings },
+    { account: PLATFORM_REVENUE_ACCOUNT, direction: 'credit', amount: purchase.adminCommission }
+  ];
+
+  return postLedgerEntry({
+    reason: 'purchase',
+    // 0% and 100% commission splits produce empty legs
+    legs: legs.filter(leg => leg.amount > 0),
+    purchase: purchase._id,
+    session
+  });
+};
+
+// Subscription charges can't be disputed, so the seller's share goes straight to their wallet rather than escrow
+export const recordSubscriptionCharge = async (
+  subscription: { _id: ObjectIdLike; subscriber: ObjectIdLike; seller: ObjectIdLike },
+  charge: { amount: number; sellerEarnings: number; adminCommission: number },
+  session?: ClientSession
+): Promise<ILedgerEntry | null> => {
+  if (charge.amount === 0) {
+    return null;
+  }
+
+  const legs: LedgerLegInput[] = [
+    { account: walletAccount(subscription.subscriber), direction: 'debit', amount: charge.amount },
+    { account: walletAccount(subscription.seller), direction: 'credit', amount: charge.sellerEarnings },
+    { account: PLATFORM_REVENUE_ACCOUNT, direction: 'credit', amount: charge.adminCommission }
+  ];
+
+  return postLedgerEntry({
+    reason: 'subscription',
+    legs: legs.filter(leg => leg.amount > 0),
+    subscription: subscription._id,
+    session
+  });
+};
+
+// Moves matured earnings from escrow into the seller's withdrawable wallet
+export const releaseEarnings = async (
+  purchase: { _id: ObjectIdLike },
+  sellerId: ObjectIdLike,
+  amount: number,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  return postLedgerEntry({
+    reason: 'earnings_release',
+    legs: [
+      { account: pendingAccount(sellerId), direction: 'debit', amount },
+      { account: walletAccount(sellerId), direction: 'credit', amount }
+    ],
+    purchase: purchase._id,
+    session
+  });
+};
+
+// Returns money to whoever paid (the buyer or their organization), taking it back from the seller and the platform in proportion.
+// Earnings still in escrow are clawed back first, the rest comes out of the seller's wallet.
+export const recordRefund = async (
+  purchase: { _id: ObjectIdLike; organization?: ObjectIdLike | null },
+  buyerId: ObjectIdLike,
+  sellerId: ObjectIdLike,
+  refund: { sellerClawback: number; commissionClawback: number; fromEscrow?: number },
+  createdBy: ObjectIdLike,
+  note?: string,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  const fromEscrow = Math.min(refund.fromEscrow || 0, refund.sellerClawback);
+
+  const legs: LedgerLegInput[] = [
+    { account: pendingAccount(sellerId), direction: 'debit', amount: fromEscrow },
+    { account: walletAccount(sellerId), direction: 'debit', amount: refund.sellerClawback - fromEscrow },
+    { account: PLATFORM_REVENUE_ACCOUNT, direction: 'debit', amount: refund.commissionClawback },
+    { account: payerAccount(purchase, buyerId), direction: 'credit', amount: refund.sellerClawback + refund.commissionClawback }
+  ];
+
+  return postLedgerEntry({
+    reason: 'refund',
+    legs: legs.filter(leg => leg.amount > 0),
+    purchase: purchase._id,
+    createdBy,
+    note,
+    // A seller who already withdrew the earnings is left owing the platform
+    allowOverdraft: true,
+    session
+  });
+};
+
+export const recordAdjustment = async (
+  userId: ObjectIdLike,
+  amount: number,
+  adminId: ObjectIdLike,
+  note?: string,
+  session?: ClientSession
+): Promise<ILedgerEntry> => {
+  const credit = amount > 0;
+
+  return postLedgerEntry({
+    reason: 'adjustment',
+    legs: [
+      { account: PLATFORM_ADJUSTMENT_ACCOUNT, direction: credit ? 'debit' : 'credit', amount: Math.abs(amount) },
+      { account: walletAccount(userId), direction: credit ? 'credit' : 'debit', amount: Math.abs(amount) }
+    ],
+    createdBy: adminId,
+    note,
+    allowOverdraft: true,
+    session
+  });
+};
+
+// Recompute an account's balance purely from ledger history
+export const getLedgerBalance = async (account: string): Promise<number> => {
+  const result = await LedgerEntry.aggregate([
+    { $match: { 'legs.account': account } },
+    { $unwind: '$legs' },
+    { $match: { 'legs.account': account } },
+    {
+      $group: {
+        _id: null,
+        total: {
+          $sum: {
+            $cond: [{ $eq: ['$legs.direction', 'credit'] }, '$legs.amount', { $multiply: ['$legs.amount', -1] }]
+          }
+        }
+      }
+    }
+  ]);
+
+  return result[0]?.total || 0;
+};
+
+export const auditUserBalance = async (userId: ObjectIdLike): Promise<{
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  storedHeldBalance: number;
+  ledgerHeldBalance: number;
+  heldDifference: number;
+  storedPendingBalance: number;
+  ledgerPendingBalance: number;
+  pendingDifference: number;
+}> => {
+  const user = await User.findById(userId)
+    .select('balance heldBalance pendingBalance')
+    .lean<{ balance: number; heldBalance?: number; pendingBalance?: number }>();
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [ledgerBalance, ledgerHeldBalance, ledgerPendingBalance] = await Promise.all([
+    getLedgerBalance(walletAccount(userId)),
+    getLedgerBalance(holdAccount(userId)),
+    getLedgerBalance(pendingAccount(userId))
+  ]);
+  const storedHeldBalance = user.heldBalance || 0;
+  const storedPendingBalance = user.pendingBalance || 0;
+
+  return {
+    storedBalance: user.balance,
+    ledgerBalance,
+    difference: user.balance - ledgerBalance,
+    storedHeldBalance,
+    ledgerHeldBalance,
+    heldDifference: storedHeldBalance - ledgerHeldBalance,
+    storedPendingBalance,
+    ledgerPendingBalance,
+    pendingDifference: storedPendingBalance - ledgerPendingBalance
+  };
+};
+
+// One-time migration for balances that predate the ledger. Once a user has any ledger history,
+// a mismatch is something to investigate and fix with an adjustment, never an opening balance.
+export const recordOpeningBalance = async (userId: ObjectIdLike, createdBy: ObjectIdLike): Promise<ILedgerEntry | null> => {
+  return withTransaction(async (session) => {
+    const accounts = [walletAccount(userId), holdAccount(userId), pendingAccount(userId)];
+    const hasHistory = await LedgerEntry.exists({ 'legs.account': { $in: accounts } }).session(session);
+    if (hasHistory) {
+      throw new LedgerError('Người dùng đã có lịch sử sổ cái, không thể ghi số dư đầu kỳ', 409);
+    }
+
+    const user = await User.findById(userId).select('balance').session(session).lean<{ balance: number }>();
+    if (!user) {
+      throw new LedgerError('Không tìm thấy người dùng', 404);
+    }
+    if (user.balance === 0) {
+      return null;
+    }
+
+    return postLedgerEntry({
+      reason: 'opening_balance',
+      legs: [
+        { account: PLATFORM_ADJUSTMENT_ACCOUNT, direction: user.balance > 0 ? 'debit' : 'credit', amount: Math.abs(user.balance) },
+        { account: walletAccount(userId), direction: user.balance > 0 ? 'credit' : 'debit', amount: Math.abs(user.balance) }
+      ],
+      createdBy,
+      note: 'Số dư trước khi áp dụng sổ cái',
+      applyToBalances: false,
+      session
+    });
+  });
+};
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Purchase } from './db/models';
+import { generateLicenseKey, verifyLicenseKey } from './license-keys';
+
+const id = () => new mongoose.Types.ObjectId();
+const DAY = 24 * 60 * 60 * 1000;
+
+// Shaped like the purchase verifyLicenseKey loads, with listing and buyer populated
+const setUp = (purchaseFields: Record<string, unknown> = {}) => {
+  const purchase = {
+    purchaseId: 'PUR000000000001',
+    buyer: { _id: id(), userId: 'USR0001' },
+    sourceCode: { _id: id(), sourceId: 'SRC000000001', title: 'Shop' },
+    status: 'completed',
+    createdAt: new Date(),
+    ...purchaseFields
+  };
+  vi.spyOn(Purchase, 'findOne').mockReturnValue({
+    populate: () => ({ populate: () => Promise.resolve(purchase) })
+  } as never);
+  return generateLicenseKey(purchase);
+};
+
+describe('verifyLicenseKey', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubEnv('LICENSE_KEY_SECRET', 'test-secret');
+  });
+
+  it('accepts the key of a purchase with lasting access', async () => {
+    const key = setUp();
+
+    const result = await verifyLicenseKey(key, 'SRC000000001');
+
+    expect(result).toMatchObject({ valid: true, status: 'active', license: { sourceId: 'SRC000000001', expiresAt: null } });
+  });
+
+  it('accepts the key while access has not expired yet', async () => {
+    const accessExpiresAt = new Date(Date.now() + DAY);
+    const key = setUp({ accessExpiresAt });
+
+    expect(await verifyLicenseKey(key)).toMatchObject({ valid: true, status: 'active', license: { expiresAt: accessExpiresAt } });
+  });
+
+  it('reports the key as expired once access has ended', async () => {
+    const key = setUp({ accessExpiresAt: new Date(Date.now() - DAY) });
+
+    expect(await verifyLicenseKey(key)).toMatchObject({ valid: false, status: 'expired' });
+  });
+
+  it('reports revocation ahead of expiry', async () => {
+    const key = setUp({ status: 'refunded', accessExpiresAt: new Date(Date.now() - DAY) });
+
+    expect(await verifyLicenseKey(key)).toMatchObject({ valid: false, status: 'revoked', revokedReason: 'Giao dịch đã được hoàn tiền' });
+  });
+
+  it('does not find a key checked against another listing', async () => {
+    const key = setUp();
+
+    expect(await verifyLicenseKey(key, 'SRC000000002')).toEqual({ valid: false, status: 'not_found' });
+  });
+});
@@ -0,0 +1,159 @@
+// lib/license-keys.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Purchase, Notification, IPurchase, ISourceCode, IUser } from './db/models';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class LicenseKeyError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'LicenseKeyError';
+  }
+}
+
+const LICENSE_KEY_PREFIX = 'SC4U';
+
+// No built-in fallback: anyone who knew it could mint keys that pass verification
+const getLicenseKeySecret = (): string => {
+  const secret = process.env.LICENSE_KEY_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('LICENSE_KEY_SECRET or JWT_SECRET must be set to issue license keys');
+  }
+  return secret;
+};
+
+// Crockford base32 leaves out I, L, O and U so keys survive being read aloud or retyped
+const KEY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const KEY_GROUPS = 4;
+const KEY_GROUP_LENGTH = 5;
+
+// Buyer and listing may be plain ids or populated documents
+interface KeyedPurchase {
+  purchaseId: string;
+  buyer: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId };
+  sourceCode: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId };
+}
+
+const refId = (ref: KeyedPurchase['buyer']): string => ('_id' in ref ? ref._id : ref).toString();
+
+// The key is an HMAC over the purchase, its buyer and its listing, so it can't be forged or moved to another listing
+export const generateLicenseKey = (purchase: KeyedPurchase): string => {
+  const digest = crypto.createHmac('sha256', getLicenseKeySecret())
+    .update(`${purchase.purchaseId}:${refId(purchase.buyer)}:${refId(purchase.sourceCode)}`)
+    .digest();
+
+  const characters = Array.from(digest.subarray(0, KEY_GROUPS * KEY_GROUP_LENGTH), (byte) => KEY_ALPHABET[byte % 32]);
+  const groups = [];
+  for (let index = 0; index < characters.length; index += KEY_GROUP_LENGTH) {
+    groups.push(characters.slice(index, index + KEY_GROUP_LENGTH).join(''));
+  }
+  return [LICENSE_KEY_PREFIX, ...groups].join('-');
+};
+
+// Accepts keys pasted with stray spaces, lowercase letters or the look-alike characters Crockford allows
+export const normalizeLicenseKey = (key: string): string => {
+  return key.trim().toUpperCase().replace(/\s+/g, '').replace(/[IL]/g, '1').replace(/O/g, '0');
+};
+
+const isWellFormed = (key: string): boolean => {
+  const group = `[${KEY_ALPHABET}]{${KEY_GROUP_LENGTH}}`;
+  return new RegExp(`^${LICENSE_KEY_PREFIX}(-${group}){${KEY_GROUPS}}$`).test(key);
+};
+
+// Purchases made before license keys existed get theirs the first time the buyer looks at them
+export const issueLicenseKey = async (purchase: KeyedPurchase): Promise<string> => {
+  const licenseKey = generateLicenseKey(purchase);
+  await Purchase.updateOne({ purchaseId: purchase.purchaseId, licenseKey: { $exists: false } }, { licenseKey });
+  return licenseKey;
+};
+
+export type LicenseKeyStatus = 'active' | 'revoked' | 'expired' | 'not_found';
+
+export interface LicenseVerification {
+  valid: boolean;
+  status: LicenseKeyStatus;
+  revokedReason?: string;
+  license?: {
+    sourceId: string;
+    title: string;
+    tier: string;
+    commercialUse: boolean;
+    updatesUntil: Date | null;
+    expiresAt: Date | null;
+    buyer: string;
+    issuedAt: Date;
+  };
+}
+
+// Refunds revoke a key as well, since the buyer no longer holds the license;
+// time-limited access such as a subscription grant expires with it
+export const verifyLicenseKey = async (key: string, sourceId?: string | null): Promise<LicenseVerification> => {
+  const licenseKey = normalizeLicenseKey(key);
+  if (!isWellFormed(licenseKey)) {
+    return { valid: false, status: 'not_found' };
+  }
+
+  const purchase = await Purchase.findOne({ licenseKey })
+    .populate<{ sourceCode: Pick<ISourceCode, '_id' | 'sourceId' | 'title'> }>('sourceCode', 'sourceId title')
+    .populate<{ buyer: Pick<IUser, '_id' | 'userId'> }>('buyer', 'userId');
+
+  // A key that no longer matches its purchase was not issued by us with the current secret
+  if (!purchase || !purchase.sourceCode || !purchase.buyer || (sourceId && purchase.sourceCode.sourceId !== sourceId)) {
+    return { valid: false, status: 'not_found' };
+  }
+  const expected = generateLicenseKey(purchase);
+  if (expected !== licenseKey) {
+    return { valid: false, status: 'not_found' };
+  }
+
+  const revokedReason = purchase.status === 'refunded'
+    ? 'Giao dịch đã được hoàn tiền'
+    : purchase.licenseRevokedAt ? purchase.licenseRevokedReason || 'Người bán đã thu hồi khóa bản quyền' : undefined;
+
+  const expired = !!purchase.accessExpiresAt && purchase.accessExpiresAt <= new Date();
+
+  return {
+    valid: !revokedReason && !expired,
+    status: revokedReason ? 'revoked' : expired ? 'expired' : 'active',
+    revokedReason,
+    license: {
+      sourceId: purchase.sourceCode.sourceId,
+      title: purchase.sourceCode.title,
+      tier: purchase.license?.name || 'Tiêu chuẩn',
+      commercialUse: purchase.license?.commercialUse || false,
+      updatesUntil: purchase.updatesUntil || null,
+      expiresAt: purchase.accessExpiresAt || null,
+      buyer: purchase.buyer.userId,
+      issuedAt: purchase.createdAt
+    }
+  };
+};
+
+// Sellers can pull a key that leaked or was shared outside its license
+export const revokeLicenseKey = async ({ key, sourceCodeId, reason }: {
+  key: string;
+  sourceCodeId: mongoose.Types.ObjectId;
+  reason: string;
+}): Promise<IPurchase> => {
+  const purchase = await Purchase.findOne({ licenseKey: normalizeLicenseKey(key), sourceCode: sourceCodeId });
+  if (!purchase) {
+    throw new LicenseKeyError('Không tìm thấy khóa bản quyền của mã nguồn này', 404);
+  }
+  if (purchase.licenseRevokedAt) {
+    throw new LicenseKeyError('Khóa bản quyền này đã bị thu hồi');
+  }
+
+  purchase.licenseRevokedAt = new Date();
+  purchase.licenseRevokedReason = reason.trim().slice(0, 200) || undefined;
+  await purchase.save();
+
+  await Notification.create({
+    user: purchase.buyer,
+    title: 'Khóa bản quyền đã bị thu hồi',
+    message: `Khóa bản quyền của giao dịch ${purchase.purchaseId} đã bị người bán thu hồi${purchase.licenseRevokedReason ? `: ${purchase.licenseRevokedReason}` : ''}. Vui lòng liên hệ người bán nếu bạn cho rằng đây là nhầm lẫn.`,
+    type: 'purchase',
+    relatedId: purchase.purchaseId
+  });
+
+  return purchase;
+};
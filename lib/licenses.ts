@@ -0,0 +1,210 @@
+// lib/licenses.ts
+import { ISourceCode, ILicenseTier, IPurchaseLicense } from './db/models';
+import { getActiveSale, applySale } from './pricing';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class LicenseError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'LicenseError';
+  }
+}
+
+export const MAX_LICENSE_TIERS = 5;
+export const MIN_TIER_PRICE = 1000;
+
+// Listings created before license tiers were sold with a 24-hour download link
+const LEGACY_ACCESS_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LicenseTierInput {
+  _id?: string;
+  name: string;
+  description: string;
+  price: number;
+  accessDays?: number;
+  updateDays?: number;
+  commercialUse: boolean;
+}
+
+// Starting points offered on the sell page
+export const LICENSE_PRESETS: LicenseTierInput[] = [
+  { name: 'Cá nhân', description: 'Dùng cho dự án cá nhân, tải trong 7 ngày', price: 0, accessDays: 7, updateDays: 0, commercialUse: false },
+  { name: 'Thương mại', description: 'Dùng cho dự án thương mại, tải trọn đời', price: 0, commercialUse: true, updateDays: 0 },
+  { name: 'Mở rộng', description: 'Thương mại, tải trọn đời và nhận cập nhật trong 1 năm', price: 0, commercialUse: true, updateDays: 365 }
+];
+
+export type SellableTier = Pick<ILicenseTier, 'name' | 'description' | 'price' | 'accessDays' | 'updateDays' | 'commercialUse'> & {
+  _id?: ILicenseTier['_id'];
+  listPrice: number; // Price before the running sale; equals price when nothing is on sale
+};
+
+// Listings loaded without `sales` are priced at their list prices
+type PricedSourceCode = Pick<ISourceCode, 'price' | 'licenseTiers'> & Partial<Pick<ISourceCode, 'sales'>>;
+
+// Tiers a buyer can pick from, at today's price; listings without tiers sell a single legacy tier at the listing price
+export const getSellableTiers = (sourceCode: PricedSourceCode, at: Date = new Date()): SellableTier[] => {
+  const sale = getActiveSale(sourceCode.sales, at);
+  const tiers = (sourceCode.licenseTiers || []).filter((tier) => tier.isActive);
+  if (tiers.length > 0) {
+    return [...tiers]
+      .sort((a, b) => a.price - b.price)
+      .map((tier) => ({
+        _id: tier._id,
+        name: tier.name,
+        description: tier.description,
+        price: applySale(tier.price, sale),
+        listPrice: tier.price,
+        accessDays: tier.accessDays,
+        updateDays: tier.updateDays,
+        commercialUse: tier.commercialUse
+      }));
+  }
+
+  return [{
+    name: 'Tiêu chuẩn',
+    description: 'Tải mã nguồn trong 24 giờ và nhận mọi bản cập nhật',
+    price: applySale(sourceCode.price, sale),
+    listPrice: sourceCode.price,
+    accessDays: LEGACY_ACCESS_DAYS,
+    commercialUse: false
+  }];
+};
+
+export const findSellableTier = (sourceCode: PricedSourceCode, tierId?: string | null): SellableTier => {
+  const tiers = getSellableTiers(sourceCode);
+  if (!tierId) {
+    if (tiers.length > 1) {
+      throw new LicenseError('Vui lòng chọn gói bản quyền');
+    }
+    return tiers[0];
+  }
+
+  const tier = tiers.find((candidate) => candidate._id?.toString() === tierId);
+  if (!tier) {
+    throw new LicenseError('Gói bản quyền không tồn tại hoặc đã ngừng bán');
+  }
+  return tier;
+};
+
+export const toPurchaseLicense = (tier: SellableTier): IPurchaseLicense => ({
+  tierId: tier._id,
+  name: tier.name,
+  accessDays: tier.accessDays,
+  updateDays: tier.updateDays,
+  commercialUse: tier.commercialUse
+});
+
+export const getAccessExpiry = (tier: Pick<SellableTier, 'accessDays'>, purchasedAt: Date): Date | undefined => {
+  return tier.accessDays ? new Date(purchasedAt.getTime() + tier.accessDays * DAY_MS) : undefined;
+};
+
+export const getUpdatesUntil = (tier: Pick<SellableTier, 'updateDays'>, purchasedAt: Date): Date | undefined => {
+  return tier.updateDays === undefined || tier.updateDays === null ? undefined : new Date(purchasedAt.getTime() + tier.updateDays * DAY_MS);
+};
+
+export const describeAccess = (accessDays?: number): string => {
+  if (!accessDays) return 'Tải trọn đời';
+  if (accessDays === 1) return 'Tải trong 24 giờ';
+  return `Tải trong ${accessDays} ngày`;
+};
+
+export const describeUpdates = (updateDays?: number): string => {
+  if (updateDays === undefined || updateDays === null) return 'Cập nhật trọn đời';
+  if (updateDays === 0) return 'Không gồm bản cập nhật';
+  if (updateDays % 365 === 0) return `Cập nhật trong ${updateDays / 365} năm`;
+  return `Cập nhật trong ${updateDays} ngày`;
+};
+
+const parseOptionalDays = (value: FormDataEntryValue | null, min: number): number | undefined | null => {
+  const text = (value as string || '').trim();
+  if (!text) return undefined;
+  const days = Number(text);
+  return Number.isInteger(days) && days >= min ? days : null;
+};
+
+// Reads the repeated tier fields of the sell and license forms, in row order
+export const parseLicenseTiers = (formData: FormData): LicenseTierInput[] => {
+  const names = formData.getAll('tierName') as string[];
+  const ids = formData.getAll('tierId') as string[];
+  const descriptions = formData.getAll('tierDescription') as string[];
+  const prices = formData.getAll('tierPrice') as string[];
+  const accessDays = formData.getAll('tierAccessDays');
+  const updateDays = formData.getAll('tierUpdateDays');
+  const commercialUse = formData.getAll('tierCommercialUse') as string[];
+
+  const tiers = names.map((name, index) => {
+    const tierName = (name || '').trim();
+    const price = parseInt(prices[index]);
+    const access = parseOptionalDays(accessDays[index], 1);
+    const updates = parseOptionalDays(updateDays[index], 0);
+
+    if (!tierName || tierName.length > 50) {
+      throw new LicenseError('Tên gói bản quyền không được để trống (tối đa 50 ký tự)');
+    }
+    if (Number.isNaN(price) || price < MIN_TIER_PRICE) {
+      throw new LicenseError(`Giá của gói "${tierName}" tối thiểu là ${MIN_TIER_PRICE.toLocaleString('vi-VN')} xu`);
+    }
+    if (access === null || updates === null) {
+      throw new LicenseError(`Số ngày của gói "${tierName}" không hợp lệ`);
+    }
+
+    return {
+      _id: ids[index] || undefined,
+      name: tierName,
+      description: (descriptions[index] || '').trim().slice(0, 200),
+      price,
+      accessDays: access,
+      updateDays: updates,
+      commercialUse: commercialUse[index] === 'true'
+    };
+  });
+
+  if (tiers.length === 0) {
+    throw new LicenseError('Vui lòng thêm ít nhất một gói bản quyền');
+  }
+  if (tiers.length > MAX_LICENSE_TIERS) {
+    throw new LicenseError(`Tối đa ${MAX_LICENSE_TIERS} gói bản quyền cho mỗi mã nguồn`);
+  }
+  if (new Set(tiers.map((tier) => tier.name.toLowerCase())).size !== tiers.length) {
+    throw new LicenseError('Các gói bản quyền phải có tên khác nhau');
+  }
+
+  return tiers;
+};
+
+// Edited tiers keep their id; tiers left out of the form are retired rather than removed
+export const applyLicenseTiers = (sourceCode: ISourceCode, tiers: LicenseTierInput[]): void => {
+  const submittedIds = new Set(tiers.map((tier) => tier._id).filter(Boolean));
+
+  for (const existing of sourceCode.licenseTiers) {
+    if (!submittedIds.has(existing._id.toString())) {
+      existing.isActive = false;
+    }
+  }
+
+  for (const tier of tiers) {
+    const existing = tier._id ? sourceCode.licenseTiers.find((candidate) => candidate._id.toString() === tier._id) : undefined;
+    if (tier._id && !existing) {
+      throw new LicenseError('Gói bản quyền không tồn tại');
+    }
+
+    const fields = {
+      name: tier.name,
+      description: tier.description,
+      price: tier.price,
+      accessDays: tier.accessDays,
+      updateDays: tier.updateDays,
+      commercialUse: tier.commercialUse,
+      isActive: true
+    };
+    if (existing) {
+      Object.assign(existing, fields);
+    } else {
+      sourceCode.licenseTiers.push(fields as ILicenseTier);
+    }
+  }
+
+  sourceCode.price = Math.min(...tiers.map((tier) => tier.price));
+};
@@ -0,0 +1,163 @@
+// lib/organizations.ts
+import mongoose from 'mongoose';
+import { Organization, User, Notification, IOrganization, IOrganizationMember, IUser } from './db/models';
+import { generateOrganizationId } from './auth';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class OrganizationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+export type OrganizationRole = IOrganizationMember['role'];
+
+// Owners manage members and everything else; purchasers top up and spend the shared wallet;
+// viewers can only download what the organization owns
+export const ORGANIZATION_ROLES: Record<OrganizationRole, string> = {
+  owner: 'Chủ sở hữu',
+  purchaser: 'Người mua hàng',
+  viewer: 'Người xem'
+};
+
+export const MAX_ORGANIZATION_MEMBERS = 50;
+
+const isRole = (value: unknown): value is OrganizationRole => typeof value === 'string' && value in ORGANIZATION_ROLES;
+
+export const canSpend = (role: OrganizationRole): boolean => role === 'owner' || role === 'purchaser';
+
+export const getMemberRole = (organization: Pick<IOrganization, 'members'>, userId: mongoose.Types.ObjectId | string): OrganizationRole | null => {
+  return organization.members.find((member) => member.user.toString() === userId.toString())?.role || null;
+};
+
+export const findMemberOrganizationIds = (userId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> => {
+  return Organization.distinct('_id', { 'members.user': userId });
+};
+
+// Organizations the user can charge purchases and deposits to
+export const findSpendableOrganizations = async (userId: mongoose.Types.ObjectId): Promise<Pick<IOrganization, 'orgId' | 'name' | 'balance'>[]> => {
+  return Organization.find({ members: { $elemMatch: { user: userId, role: { $in: ['owner', 'purchaser'] } } } })
+    .select('orgId name balance')
+    .sort({ name: 1 })
+    .lean<Pick<IOrganization, 'orgId' | 'name' | 'balance'>[]>();
+};
+
+// Loads an organization the user belongs to, optionally requiring one of the given roles
+export const requireMembership = async (
+  orgId: string,
+  user: IUser,
+  roles?: OrganizationRole[]
+): Promise<{ organization: IOrganization; role: OrganizationRole }> => {
+  const organization = await Organization.findOne({ orgId, 'members.user': user._id });
+  if (!organization) {
+    throw new OrganizationError('Không tìm thấy tổ chức', 404);
+  }
+
+  const role = getMemberRole(organization, user._id)!;
+  if (roles && !roles.includes(role)) {
+    throw new OrganizationError('Bạn không có quyền thực hiện thao tác này', 403);
+  }
+
+  return { organization, role };
+};
+
+export const parseOrganizationName = (formData: FormData): string => {
+  const name = ((formData.get('name') as string) || '').trim();
+  if (name.length < 2 || name.length > 100) {
+    throw new OrganizationError('Tên tổ chức phải dài 2-100 ký tự');
+  }
+  return name;
+};
+
+export const createOrganization = async (owner: IUser, name: string): Promise<IOrganization> => {
+  let orgId: string;
+  do {
+    orgId = generateOrganizationId();
+  } while (await Organization.exists({ orgId }));
+
+  return Organization.create({
+    orgId,
+    name,
+    members: [{ user: owner._id, role: 'owner', addedAt: new Date() }],
+    createdBy: owner._id
+  });
+};
+
+// Members are added by email or user ID, the same way gift recipients are found
+export const addMember = async (organization: IOrganization, identifier: string, role: unknown, addedBy: IUser): Promise<IUser> => {
+  if (!isRole(role)) {
+    throw new OrganizationError('Vai trò không hợp lệ');
+  }
+
+  const trimmed = identifier.trim();
+  if (!trimmed) {
+    throw new OrganizationError('Vui lòng nhập email hoặc ID của thành viên');
+  }
+
+  if (organization.members.length >= MAX_ORGANIZATION_MEMBERS) {
+    throw new OrganizationError(`Mỗi tổ chức có tối đa ${MAX_ORGANIZATION_MEMBERS} thành viên`);
+  }
+
+  const user = await User.findOne(trimmed.includes('@') ? { email: trimmed.toLowerCase() } : { userId: trimmed.toUpperCase() });
+  if (!user) {
+    throw new OrganizationError('Không tìm thấy người dùng', 404);
+  }
+
+  const added = await Organization.updateOne(
+    { _id: organization._id, 'members.user': { $ne: user._id } },
+    { $push: { members: { user: user._id, role, addedAt: new Date() } } }
+  );
+  if (added.modifiedCount === 0) {
+    throw new OrganizationError(`${user.fullName} đã là thành viên của tổ chức`);
+  }
+
+  await Notification.create({
+    user: user._id,
+    title: 'Bạn được thêm vào tổ chức',
+    message: `${addedBy.fullName} đã thêm bạn vào tổ chức "${organization.name}" với vai trò ${ORGANIZATION_ROLES[role]}.`,
+    type: 'system',
+    relatedId: organization.orgId
+  });
+
+  return user;
+};
+
+const requireAnotherOwner = (organization: IOrganization, memberId: string): void => {
+  const otherOwners = organization.members.filter((member) => member.role === 'owner' && member.user.toString() !== memberId);
+  if (otherOwners.length === 0) {
+    throw new OrganizationError('Tổ chức phải có ít nhất một chủ sở hữu');
+  }
+};
+
+export const changeMemberRole = async (organization: IOrganization, memberId: string, role: unknown): Promise<void> => {
+  if (!isRole(role)) {
+    throw new OrganizationError('Vai trò không hợp lệ');
+  }
+
+  const current = getMemberRole(organization, memberId);
+  if (!current) {
+    throw new OrganizationError('Không tìm thấy thành viên', 404);
+  }
+  if (current === 'owner' && role !== 'owner') {
+    requireAnotherOwner(organization, memberId);
+  }
+
+  await Organization.updateOne(
+    { _id: organization._id, 'members.user': memberId },
+    { $set: { 'members.$.role': role } }
+  );
+};
+
+// Owners remove members; anyone may leave. Purchases stay with the organization either way.
+export const removeMember = async (organization: IOrganization, memberId: string): Promise<void> => {
+  const current = getMemberRole(organization, memberId);
+  if (!current) {
+    throw new OrganizationError('Không tìm thấy thành viên', 404);
+  }
+  if (current === 'owner') {
+    requireAnotherOwner(organization, memberId);
+  }
+
+  await Organization.updateOne({ _id: organization._id }, { $pull: { members: { user: memberId } } });
+};
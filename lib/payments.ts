@@ -0,0 +1,74 @@
+// lib/payments.ts
+import mongoose from 'mongoose';
+import { Payment, IPayment } from './db/models';
+import { withTransaction } from './db/connection';
+import { recordDeposit, settleWithdrawal, releaseWithdrawal } from './ledger';
+import { issueDepositInvoice } from './invoices';
+
+export class PaymentAlreadyProcessedError extends Error {
+  constructor(public paymentId: string) {
+    super(`Payment ${paymentId} has already been processed`);
+    this.name = 'PaymentAlreadyProcessedError';
+  }
+}
+
+interface ProcessPaymentOptions {
+  processedBy?: mongoose.Types.ObjectId;
+  adminNote: string;
+}
+
+// Moves a pending payment to its final status, failing if someone else got there first
+const claimPendingPayment = async (
+  payment: IPayment,
+  status: 'approved' | 'rejected',
+  { processedBy, adminNote }: ProcessPaymentOptions,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  const claimed = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: 'pending' },
+    {
+      status,
+      processedBy,
+      processedAt: new Date(),
+      adminNote
+    },
+    { session }
+  );
+
+  if (!claimed) {
+    throw new PaymentAlreadyProcessedError(payment.paymentId);
+  }
+};
+
+export const approvePayment = async (
+  payment: IPayment,
+  options: ProcessPaymentOptions,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  // Callers that already hold a transaction fold the approval into it
+  if (!session) {
+    return withTransaction((transactionSession) => approvePayment(payment, options, transactionSession));
+  }
+
+  await claimPendingPayment(payment, 'approved', options, session);
+
+  if (payment.type === 'deposit') {
+    // Add money to user account for deposits
+    await recordDeposit(payment, options.processedBy, session);
+    await issueDepositInvoice(payment, session);
+  } else {
+    // Pay out the funds reserved when the withdrawal was requested
+    await settleWithdrawal(payment, options.processedBy, session);
+  }
+};
+
+export const rejectPayment = async (payment: IPayment, options: ProcessPaymentOptions): Promise<void> => {
+  await withTransaction(async (session) => {
+    await claimPendingPayment(payment, 'rejected', options, session);
+
+    if (payment.type === 'withdrawal' && payment.fundsHeld) {
+      // Return reserved funds to the user's available balance
+      await releaseWithdrawal(payment, options.processedBy, session);
+    }
+  });
+};
@@ -0,0 +1,139 @@
+// lib/pdf.ts
+// Just enough PDF to lay out text and rules on A4 pages, so documents can be generated without a rendering service
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  type: 'text';
+  x: number;
+  y: number; // Baseline, measured from the bottom of the page as PDF does
+  text: string;
+  size: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfLine {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+  gray?: number; // 0 is black, 1 is white
+}
+
+export type PdfElement = PdfText | PdfLine;
+
+// Glyph widths of the standard Helvetica fonts for ASCII 32-126, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// The standard fonts have no Vietnamese glyphs, so text is written without diacritics ("Hóa đơn" becomes "Hoa don")
+export const toPdfText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^\x20-\x7e]/g, '?');
+};
+
+export const measureText = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const character of toPdfText(text)) {
+    total += widths[character.charCodeAt(0) - 32] ?? 556;
+  }
+  return (total * size) / 1000;
+};
+
+// Cuts text that would overflow its column, marking the cut with an ellipsis
+export const fitText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (measureText(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+const escapeString = (text: string): string => text.replace(/[\\()]/g, (character) => `\\${character}`);
+
+const round = (value: number): string => Number(value.toFixed(2)).toString();
+
+const renderElement = (element: PdfElement): string => {
+  if (element.type === 'line') {
+    return [
+      `${round(element.gray ?? 0)} G`,
+      `${round(element.width ?? 1)} w`,
+      `${round(element.x1)} ${round(element.y1)} m ${round(element.x2)} ${round(element.y2)} l S`
+    ].join('\n');
+  }
+
+  const width = measureText(element.text, element.size, element.bold);
+  const x = element.align === 'right' ? element.x - width
+    : element.align === 'center' ? element.x - width / 2
+      : element.x;
+  return `BT /${element.bold ? 'F2' : 'F1'} ${round(element.size)} Tf ${round(x)} ${round(element.y)} Td (${escapeString(toPdfText(element.text))}) Tj ET`;
+};
+
+// Serializes pages into a PDF file; every byte is ASCII, so string lengths are byte offsets
+export const buildPdf = (pages: PdfElement[][], title = ''): Buffer => {
+  const objects: string[] = [];
+  const fontIds = { regular: 3, bold: 4 };
+  const firstPageId = 6;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[fontIds.regular] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[fontIds.bold] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${escapeString(toPdfText(title))}) /Producer (SourceCode4U) >>`;
+
+  pages.forEach((elements, index) => {
+    const pageId = pageIds[index];
+    const content = elements.map(renderElement).join('\n');
+    objects[pageId] = [
+      '<< /Type /Page /Parent 2 0 R',
+      `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+      `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >>`,
+      `/Contents ${pageId + 1} 0 R >>`
+    ].join(' ');
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
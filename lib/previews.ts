@@ -0,0 +1,148 @@
+// lib/previews.ts
+import path from 'path';
+import { SourceCode, SourceCodeVersion, ISourceCode, IInspectionFinding } from './db/models';
+import { readStoredObject } from './storage';
+import { readArchiveEntries, ArchiveEntry, InspectionError } from './inspection';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class PreviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+export const MAX_PREVIEW_FILES = 5;
+
+// Buyers only ever see the top of a file, never the whole of it
+const MAX_PREVIEW_LINES = 150;
+const MAX_PREVIEW_BYTES = 32 * 1024;
+const MAX_PREVIEWABLE_SIZE = 1024 * 1024;
+
+const PREVIEWABLE_EXTENSIONS = new Set([
+  '.md', '.markdown', '.txt', '.rst',
+  '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.vue', '.svelte',
+  '.py', '.php', '.rb', '.go', '.rs', '.java', '.kt', '.swift', '.dart', '.c', '.h', '.cpp', '.cs',
+  '.html', '.css', '.scss', '.sql', '.sh', '.json', '.yml', '.yaml', '.xml'
+]);
+
+const PREVIEWABLE_NAMES = /^(readme|license|changelog|dockerfile|makefile)(\.[a-z]+)?$/i;
+
+type ListedFile = { path: string; size: number };
+
+// Files flagged by the inspection (keys, .env, binaries) are never offered for preview
+export const isPreviewable = (file: ListedFile, findings: IInspectionFinding[]): boolean => {
+  if (file.size > MAX_PREVIEWABLE_SIZE || findings.some((finding) => finding.path === file.path)) {
+    return false;
+  }
+  const fileName = path.basename(file.path);
+  return PREVIEWABLE_EXTENSIONS.has(path.extname(fileName).toLowerCase()) || PREVIEWABLE_NAMES.test(fileName);
+};
+
+// Until the seller picks files, listings preview their top-level README
+export const defaultPreviewFiles = (files: ListedFile[]): string[] => {
+  const readme = files
+    .filter((file) => /^readme(\.(md|markdown|txt))?$/i.test(path.basename(file.path)))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+  return readme ? [readme.path] : [];
+};
+
+export const extractPreviews = (entries: ArchiveEntry[], paths: string[]) => {
+  const previews: { path: string; content: string; truncated: boolean }[] = [];
+
+  for (const previewPath of paths) {
+    const entry = entries.find((candidate) => candidate.path === previewPath);
+    if (!entry) {
+      continue;
+    }
+
+    const data = entry.read();
+    if (data.subarray(0, 8000).includes(0)) {
+      continue;
+    }
+
+    const lines = data.subarray(0, MAX_PREVIEW_BYTES).toString('utf8').split('\n');
+    const excerpt = lines.slice(0, MAX_PREVIEW_LINES);
+    previews.push({
+      path: previewPath,
+      content: excerpt.join('\n'),
+      truncated: data.length > MAX_PREVIEW_BYTES || lines.length > MAX_PREVIEW_LINES
+    });
+  }
+
+  return previews;
+};
+
+// Re-extracts the chosen files from the current version's archive; no selection falls back to the README
+export const setPreviewFiles = async (sourceCode: ISourceCode, paths: string[]): Promise<void> => {
+  const uniquePaths = [...new Set(paths.filter(Boolean))];
+  if (uniquePaths.length > MAX_PREVIEW_FILES) {
+    throw new PreviewError(`Chỉ được chọn tối đa ${MAX_PREVIEW_FILES} tệp xem trước`);
+  }
+
+  const version = await SourceCodeVersion.findById(sourceCode.currentVersion);
+  if (!version) {
+    throw new PreviewError('Mã nguồn chưa có tệp được lưu trên hệ thống', 404);
+  }
+
+  for (const previewPath of uniquePaths) {
+    const file = version.files.find((candidate: ListedFile) => candidate.path === previewPath);
+    if (!file || !isPreviewable(file, version.inspection.findings)) {
+      throw new PreviewError(`Không thể dùng tệp ${previewPath} để xem trước`);
+    }
+  }
+
+  let previews;
+  try {
+    const data = await readStoredObject(version.storageBackend, version.storageKey);
+    const previewPaths = uniquePaths.length > 0 ? uniquePaths : defaultPreviewFiles(version.files);
+    previews = extractPreviews(readArchiveEntries(data, version.contentType), previewPaths);
+  } catch (error) {
+    if (error instanceof InspectionError) {
+      throw new PreviewError(error.message);
+    }
+    throw error;
+  }
+
+  version.previews = previews;
+  await version.save();
+  await SourceCode.updateOne({ _id: sourceCode._id }, { previewFiles: uniquePaths });
+};
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  size: number;
+  children?: FileTreeNode[];
+}
+
+// Folders first, then files, each alphabetically; folder sizes add up their contents
+export const buildFileTree = (files: ListedFile[]): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', size: 0, children: [] };
+
+  for (const file of files) {
+    const parts = file.path.split('/').filter(Boolean);
+    let node = root;
+    parts.forEach((part, index) => {
+      node.size += file.size;
+      const isFile = index === parts.length - 1;
+      let child = node.children!.find((candidate) => candidate.name === part && !candidate.children === isFile);
+      if (!child) {
+        child = { name: part, path: parts.slice(0, index + 1).join('/'), size: 0, ...(isFile ? {} : { children: [] }) };
+        node.children!.push(child);
+      }
+      if (isFile) {
+        child.size = file.size;
+      }
+      node = child;
+    });
+  }
+
+  const sortTree = (nodes: FileTreeNode[]): FileTreeNode[] => {
+    nodes.sort((a, b) => Number(!!b.children) - Number(!!a.children) || a.name.localeCompare(b.name));
+    nodes.forEach((node) => node.children && sortTree(node.children));
+    return nodes;
+  };
+
+  return sortTree(root.children!);
+};
@@ -0,0 +1,182 @@
+// lib/pricing.ts
+import mongoose from 'mongoose';
+import { PriceHistory, ISourceCode, ISourceCodeSale, IPriceHistory } from './db/models';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class PricingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+export const MIN_SALE_PERCENT = 5;
+export const MAX_SALE_PERCENT = 90;
+export const MAX_SALE_DAYS = 60;
+export const MAX_PENDING_SALES = 5;
+export const PRICE_HISTORY_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SaleWindow = Pick<ISourceCodeSale, 'percentOff' | 'startsAt' | 'endsAt'>;
+
+export const getActiveSale = <T extends SaleWindow>(sales: T[] | undefined, at: Date = new Date()): T | undefined => {
+  return (sales || []).find((sale) => sale.startsAt <= at && sale.endsAt > at);
+};
+
+// Rounded in the buyer's favour; must agree with EFFECTIVE_PRICE_EXPRESSION
+export const applySale = (price: number, sale?: Pick<ISourceCodeSale, 'percentOff'>): number => {
+  return sale ? price - Math.floor(price * sale.percentOff / 100) : price;
+};
+
+// What the cheapest tier costs at the given moment
+export const getEffectivePrice = (sourceCode: Pick<ISourceCode, 'price'> & Partial<Pick<ISourceCode, 'sales'>>, at: Date = new Date()): number => {
+  return applySale(sourceCode.price, getActiveSale(sourceCode.sales, at));
+};
+
+// A listing's lowest price right now, sale included, for aggregation pipelines that sort or filter by price
+export const EFFECTIVE_PRICE_EXPRESSION = {
+  $let: {
+    vars: {
+      sale: {
+        $arrayElemAt: [{
+          $filter: {
+            input: { $ifNull: ['$sales', []] },
+            cond: { $and: [{ $lte: ['$$this.startsAt', '$$NOW'] }, { $gt: ['$$this.endsAt', '$$NOW'] }] }
+          }
+        }, 0]
+      }
+    },
+    in: {
+      $subtract: ['$price', { $floor: { $divide: [{ $multiply: ['$price', { $ifNull: ['$$sale.percentOff', 0] }] }, 100] } }]
+    }
+  }
+};
+
+export interface SaleInput {
+  percentOff: number;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export const parseSaleInput = (formData: FormData, now: Date = new Date()): SaleInput => {
+  const percentOff = Number(formData.get('percentOff'));
+  if (!Number.isInteger(percentOff) || percentOff < MIN_SALE_PERCENT || percentOff > MAX_SALE_PERCENT) {
+    throw new PricingError(`Mức giảm phải từ ${MIN_SALE_PERCENT}% đến ${MAX_SALE_PERCENT}%`);
+  }
+
+  // Sales can't be backdated, so a start in the past simply means "now"
+  const startsAtValue = formData.get('startsAt') as string;
+  const startsAt = startsAtValue ? new Date(startsAtValue) : now;
+  const endsAt = new Date(formData.get('endsAt') as string || '');
+  if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) {
+    throw new PricingError('Thời gian khuyến mãi không hợp lệ');
+  }
+
+  const start = startsAt < now ? now : startsAt;
+  if (endsAt <= start) {
+    throw new PricingError('Thời gian kết thúc phải sau thời gian bắt đầu');
+  }
+  if (endsAt.getTime() - start.getTime() > MAX_SALE_DAYS * DAY_MS) {
+    throw new PricingError(`Mỗi đợt khuyến mãi kéo dài tối đa ${MAX_SALE_DAYS} ngày`);
+  }
+
+  return { percentOff, startsAt: start, endsAt };
+};
+
+// Sales may not overlap, so a listing is never on two sales at once
+export const scheduleSale = (sourceCode: ISourceCode, input: SaleInput, now: Date = new Date()): void => {
+  const pending = sourceCode.sales.filter((sale) => sale.endsAt > now);
+  if (pending.length >= MAX_PENDING_SALES) {
+    throw new PricingError(`Chỉ được lên lịch tối đa ${MAX_PENDING_SALES} đợt khuyến mãi chưa kết thúc`);
+  }
+  if (pending.some((sale) => sale.startsAt < input.endsAt && sale.endsAt > input.startsAt)) {
+    throw new PricingError('Đợt khuyến mãi bị trùng thời gian với một đợt khác');
+  }
+
+  sourceCode.sales.push(input as ISourceCodeSale);
+  sourceCode.sales.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+};
+
+// Upcoming sales are dropped; a running sale is cut short so the price history still shows it
+export const endSale = (sourceCode: ISourceCode, saleId: string, now: Date = new Date()): void => {
+  const sale = sourceCode.sales.find((candidate) => candidate._id.toString() === saleId);
+  if (!sale || sale.endsAt <= now) {
+    throw new PricingError('Không tìm thấy đợt khuyến mãi đang chờ hoặc đang diễn ra', 404);
+  }
+
+  if (sale.startsAt > now) {
+    sourceCode.sales = sourceCode.sales.filter((candidate) => candidate._id.toString() !== saleId);
+  } else {
+    sale.endsAt = now;
+  }
+};
+
+// Call after saving a listing whose price may have changed; unchanged prices add nothing
+export const recordPriceChange = async (sourceCode: Pick<ISourceCode, '_id' | 'price'>, session?: mongoose.ClientSession): Promise<void> => {
+  const latest = await PriceHistory.findOne({ sourceCode: sourceCode._id })
+    .sort({ changedAt: -1 })
+    .session(session || null)
+    .lean<Pick<IPriceHistory, 'price'>>();
+  if (latest && latest.price === sourceCode.price) {
+    return;
+  }
+
+  await new PriceHistory({ sourceCode: sourceCode._id, price: sourceCode.price, changedAt: new Date() }).save({ session });
+};
+
+export interface PricePoint {
+  at: Date;
+  price: number; // What the cheapest tier cost at that moment
+  listPrice: number;
+}
+
+// Step series of the listing's lowest price over the last PRICE_HISTORY_DAYS, list price changes and sales combined
+export const getPriceHistory = async (
+  sourceCode: Pick<ISourceCode, '_id' | 'price' | 'sales' | 'createdAt'>,
+  now: Date = new Date()
+): Promise<PricePoint[]> => {
+  const entries = await PriceHistory.find({ sourceCode: sourceCode._id })
+    .sort({ changedAt: 1 })
+    .lean<Pick<IPriceHistory, 'price' | 'changedAt'>[]>();
+  // Listings from before price history was kept start out at their current price
+  if (entries.length === 0) {
+    entries.push({ price: sourceCode.price, changedAt: sourceCode.createdAt });
+  }
+
+  const from = new Date(Math.max(now.getTime() - PRICE_HISTORY_DAYS * DAY_MS, new Date(sourceCode.createdAt).getTime()));
+  const listPriceAt = (at: Date): number => {
+    let price = entries[0].price;
+    for (const entry of entries) {
+      if (entry.changedAt > at) break;
+      price = entry.price;
+    }
+    return price;
+  };
+
+  const times = [
+    from,
+    ...entries.map((entry) => entry.changedAt),
+    ...(sourceCode.sales || []).flatMap((sale) => [sale.startsAt, sale.endsAt]),
+    now
+  ]
+    .filter((at) => at >= from && at <= now)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const points: PricePoint[] = [];
+  for (const at of times) {
+    const listPrice = listPriceAt(at);
+    const price = applySale(listPrice, getActiveSale(sourceCode.sales, at));
+    const previous = points[points.length - 1];
+    if (!previous || previous.price !== price || previous.listPrice !== listPrice) {
+      points.push({ at, price, listPrice });
+    }
+  }
+
+  // Close the series at "now" so the chart runs up to today
+  if (points[points.length - 1].at < now) {
+    points.push({ ...points[points.length - 1], at: now });
+  }
+
+  return points;
+};
@@ -0,0 +1,213 @@
+// lib/reconciliation.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  BankStatementImport,
+  BankTransaction,
+  Payment,
+  IBankStatementImport,
+  IBankTransaction,
+  BankTransactionIssue
+} from './db/models';
+import { withTransaction } from './db/connection';
+import { parseBankStatement, StatementLine } from './bank-statement';
+import { approvePayment, PaymentAlreadyProcessedError } from './payments';
+
+// Errors carrying a user-facing message for the admin reconciliation page
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReconciliationError';
+  }
+}
+
+// Deposit memos carry the paymentId shown on the deposit page
+const PAYMENT_ID_PATTERN = /PAY[0-9A-F]{12}/;
+
+export const extractPaymentId = (description: string): string | undefined => {
+  const memo = description.toUpperCase();
+  // Some banks break long memos with spaces or dashes
+  const match = memo.match(PAYMENT_ID_PATTERN) || memo.replace(/[\s.\-_]/g, '').match(PAYMENT_ID_PATTERN);
+  return match?.[0];
+};
+
+// Identical lines within one file are numbered so re-importing the file is still recognised
+const fingerprintLines = (lines: StatementLine[]): string[] => {
+  const seen = new Map<string, number>();
+
+  return lines.map((line) => {
+    const key = [line.transactionDate.toISOString(), line.amount, line.reference || '', line.description].join('|');
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    return crypto.createHash('sha256').update(`${key}#${occurrence}`).digest('hex');
+  });
+};
+
+interface MatchResult {
+  status: 'matched' | 'pending_review';
+  issue?: BankTransactionIssue;
+  payment?: mongoose.Types.ObjectId;
+}
+
+const matchLine = async (
+  line: StatementLine,
+  paymentId: string | undefined,
+  adminId: mongoose.Types.ObjectId,
+  fileName: string
+): Promise<MatchResult> => {
+  if (!paymentId) {
+    return { status: 'pending_review', issue: 'no_payment_id' };
+  }
+
+  const payment = await Payment.findOne({ paymentId, type: 'deposit' });
+  if (!payment) {
+    return { status: 'pending_review', issue: 'payment_not_found' };
+  }
+
+  if (payment.status !== 'pending') {
+    return { status: 'pending_review', issue: 'payment_not_pending', payment: payment._id };
+  }
+
+  if (payment.amount !== line.amount) {
+    return { status: 'pending_review', issue: 'amount_mismatch', payment: payment._id };
+  }
+
+  try {
+    await approvePayment(payment, {
+      processedBy: adminId,
+      adminNote: `Tự động duyệt theo sao kê ${fileName}`
+    });
+  } catch (error) {
+    if (error instanceof PaymentAlreadyProcessedError) {
+      return { status: 'pending_review', issue: 'payment_not_pending', payment: payment._id };
+    }
+    throw error;
+  }
+
+  return { status: 'matched', payment: payment._id };
+};
+
+// Parses a statement, auto-approves exact deposit matches and queues everything else
+export const importBankStatement = async (
+  fileName: string,
+  content: string,
+  uploadedBy: mongoose.Types.ObjectId
+): Promise<IBankStatementImport> => {
+  const lines = parseBankStatement(content);
+  const fingerprints = fingerprintLines(lines);
+
+  const statementImport = new BankStatementImport({
+    fileName,
+    uploadedBy,
+    totalLines: lines.length
+  });
+  await statementImport.save();
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const paymentId = extractPaymentId(line.description);
+
+    // The line is stored before matching so a crash leaves it in the review queue
+    let transaction: IBankTransaction;
+    try {
+      transaction = await BankTransaction.create({
+        statementImport: statementImport._id,
+        fingerprint: fingerprints[i],
+        transactionDate: line.transactionDate,
+        amount: line.amount,
+        description: line.description,
+        reference: line.reference,
+        paymentId,
+        status: 'pending_review'
+      });
+    } catch (error) {
+      if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+        statementImport.duplicateCount++;
+        continue;
+      }
+      throw error;
+    }
+
+    const result = await matchLine(line, paymentId, uploadedBy, fileName);
+    await BankTransaction.updateOne({ _id: transaction._id }, result);
+
+    if (result.status === 'matched') {
+      statementImport.matchedCount++;
+    } else {
+      statementImport.queuedCount++;
+    }
+  }
+
+  await statementImport.save();
+  return statementImport;
+};
+
+// Takes a line out of the review queue, failing if another admin already handled it
+const claimQueuedTransaction = async (
+  transactionId: string,
+  update: Partial<Pick<IBankTransaction, 'status' | 'payment' | 'resolvedBy' | 'resolvedAt'>>,
+  session?: mongoose.ClientSession
+): Promise<IBankTransaction> => {
+  const transaction = await BankTransaction.findOneAndUpdate(
+    { _id: transactionId, status: 'pending_review' },
+    update,
+    { session }
+  );
+  if (!transaction) {
+    throw new ReconciliationError('Giao dịch ngân hàng không còn trong hàng chờ');
+  }
+  return transaction;
+};
+
+// Credits the amount actually received, which may differ from what the user requested.
+// The claim, the amount correction and the approval commit together or not at all.
+export const resolveBankTransaction = async (
+  transactionId: string,
+  paymentId: string,
+  adminId: mongoose.Types.ObjectId
+): Promise<void> => {
+  await withTransaction(async (session) => {
+    const payment = await Payment.findOne({ paymentId: paymentId.trim().toUpperCase(), type: 'deposit' }).session(session);
+    if (!payment) {
+      throw new ReconciliationError('Không tìm thấy yêu cầu nạp xu');
+    }
+
+    if (payment.status !== 'pending') {
+      throw new ReconciliationError('Yêu cầu nạp xu đã được xử lý');
+    }
+
+    const transaction = await claimQueuedTransaction(
+      transactionId,
+      { status: 'resolved', payment: payment._id, resolvedBy: adminId, resolvedAt: new Date() },
+      session
+    );
+
+    const requestedAmount = payment.amount;
+    if (requestedAmount !== transaction.amount) {
+      await Payment.updateOne({ _id: payment._id, status: 'pending' }, { amount: transaction.amount }, { session });
+      payment.amount = transaction.amount;
+    }
+
+    try {
+      await approvePayment(payment, {
+        processedBy: adminId,
+        adminNote: requestedAmount !== transaction.amount
+          ? `Đối soát thủ công: yêu cầu ${requestedAmount.toLocaleString('vi-VN')} xu, thực nhận ${transaction.amount.toLocaleString('vi-VN')} xu`
+          : 'Đối soát thủ công theo sao kê'
+      }, session);
+    } catch (error) {
+      if (error instanceof PaymentAlreadyProcessedError) {
+        throw new ReconciliationError('Yêu cầu nạp xu đã được xử lý');
+      }
+      throw error;
+    }
+  });
+};
+
+// For transfers that are not deposits, or were already handled by hand
+export const ignoreBankTransaction = async (
+  transactionId: string,
+  adminId: mongoose.Types.ObjectId
+): Promise<void> => {
+  await claimQueuedTransaction(transactionId, { status: 'ignored', resolvedBy: adminId, resolvedAt: new Date() });
+};
@@ -0,0 +1,21 @@
+// lib/storage/common.ts
+
+export interface StoredObjectStream {
+  body: ReadableStream<Uint8Array>;
+  size: number;
+}
+
+// Where uploaded archives live; keys are relative paths such as "sources/SRC123/1-app.zip"
+export interface StorageBackend {
+  id: string;
+  put: (key: string, data: Buffer) => Promise<void>;
+  get: (key: string) => Promise<StoredObjectStream>;
+  delete: (key: string) => Promise<void>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`Stored object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
@@ -0,0 +1,33 @@
+// lib/storage/index.ts
+import { StorageBackend } from './common';
+import { localStorageBackend } from './local';
+
+export { StorageObjectNotFoundError } from './common';
+export type { StorageBackend, StoredObjectStream } from './common';
+
+const BACKENDS: StorageBackend[] = [localStorageBackend];
+
+// Backend new uploads go to, chosen with STORAGE_DRIVER
+export const getDefaultStorage = (): StorageBackend => {
+  const id = process.env.STORAGE_DRIVER || 'local';
+  const backend = BACKENDS.find((candidate) => candidate.id === id);
+  if (!backend) {
+    throw new Error(`Unknown storage driver: ${id}`);
+  }
+  return backend;
+};
+
+// Objects are read back from the backend they were written to, even after the default changes
+export const getStorage = (id: string): StorageBackend => {
+  const backend = BACKENDS.find((candidate) => candidate.id === id);
+  if (!backend) {
+    throw new Error(`Unknown storage backend: ${id}`);
+  }
+  return backend;
+};
+
+// Whole objects are only read back for small jobs such as re-extracting previews
+export const readStoredObject = async (backendId: string, key: string): Promise<Buffer> => {
+  const { body } = await getStorage(backendId).get(key);
+  return Buffer.from(await new Response(body).arrayBuffer());
+};
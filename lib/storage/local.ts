@@ -0,0 +1,46 @@
+// lib/storage/local.ts
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageBackend, StorageObjectNotFoundError } from './common';
+
+// Files on the server's disk; meant for development and single-server deployments
+const LOCAL_STORAGE_DIR = path.resolve(process.env.STORAGE_LOCAL_DIR || 'storage');
+
+// Keys come from our own code, but never let one escape the storage directory
+const resolveKey = (key: string): string => {
+  const filePath = path.resolve(LOCAL_STORAGE_DIR, key);
+  if (!filePath.startsWith(LOCAL_STORAGE_DIR + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+};
+
+export const localStorageBackend: StorageBackend = {
+  id: 'local',
+
+  put: async (key, data) => {
+    const filePath = resolveKey(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  },
+
+  get: async (key) => {
+    const filePath = resolveKey(key);
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(filePath);
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    return {
+      body: Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>,
+      size: stat.size
+    };
+  },
+
+  delete: async (key) => {
+    await fs.promises.rm(resolveKey(key), { force: true });
+  }
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose, { ClientSession } from 'mongoose';
+import { Subscription, Purchase, SourceCode, IPurchase, IUser } from './db/models';
+import { claimSubscriptionAccess, cancelSubscription } from './subscriptions';
+import { verifyLicenseKey } from './license-keys';
+
+vi.mock('./db/connection', () => ({
+  connectToDatabase: vi.fn(),
+  withTransaction: (fn: (session: ClientSession) => Promise<unknown>) => fn({} as ClientSession)
+}));
+
+vi.mock('./email', () => ({
+  sendSubscriptionPaymentFailedEmail: vi.fn()
+}));
+
+const id = () => new mongoose.Types.ObjectId();
+const DAY = 24 * 60 * 60 * 1000;
+const subscriber = { _id: id(), userId: 'USR0001', fullName: 'Người đăng ký' } as IUser;
+const seller = id();
+
+const inSession = <T>(value: T) => ({ session: () => Promise.resolve(value) }) as never;
+
+const subscription = (fields: Record<string, unknown> = {}) => Subscription.hydrate({
+  _id: id(),
+  subscriptionId: 'SUB000000000001',
+  plan: id(),
+  subscriber: subscriber._id,
+  seller,
+  price: 50000,
+  status: 'active',
+  currentPeriodStart: new Date(Date.now() - 20 * DAY),
+  currentPeriodEnd: new Date(Date.now() + 10 * DAY),
+  charges: [],
+  ...fields
+});
+
+const sourceCode = SourceCode.hydrate({
+  _id: id(),
+  sourceId: 'SRC000000001',
+  title: 'Shop',
+  seller,
+  price: 100000,
+  isActive: true,
+  licenseTiers: [{ _id: id(), name: 'Tiêu chuẩn', price: 100000, commercialUse: false, isActive: true }]
+});
+
+// Lets verifyLicenseKey load the granted purchase as if it came back from MongoDB
+const loadForVerification = (purchase: Partial<IPurchase>) => {
+  vi.spyOn(Purchase, 'findOne').mockReturnValue({
+    populate: () => ({
+      populate: () => Promise.resolve({ ...purchase, sourceCode, buyer: subscriber, createdAt: new Date() })
+    })
+  } as never);
+};
+
+describe('subscription license keys', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubEnv('LICENSE_KEY_SECRET', 'test-secret');
+  });
+
+  it('issues a key that is only valid while the subscription grants access', async () => {
+    const live = subscription();
+    vi.spyOn(Subscription, 'findOneAndUpdate').mockResolvedValue(live);
+    vi.spyOn(Purchase, 'find').mockReturnValue(inSession([]));
+    vi.spyOn(Purchase, 'exists').mockReturnValue(inSession(null));
+    const create = vi.spyOn(Purchase, 'create').mockImplementation((async (docs: Partial<IPurchase>[]) => docs) as never);
+
+    await claimSubscriptionAccess({ subscriber, sourceCode });
+
+    const [[granted]] = create.mock.calls[0] as unknown as [Partial<IPurchase>[]];
+    expect(granted.accessExpiresAt).toEqual(live.currentPeriodEnd);
+
+    loadForVerification(granted);
+    expect(await verifyLicenseKey(granted.licenseKey!, 'SRC000000001')).toMatchObject({ valid: true, status: 'active' });
+
+    loadForVerification({ ...granted, accessExpiresAt: new Date(Date.now() - DAY) });
+    expect(await verifyLicenseKey(granted.licenseKey!, 'SRC000000001')).toMatchObject({ valid: false, status: 'expired' });
+  });
+
+  it('ends access to granted listings when a subscription in its grace period is canceled', async () => {
+    const pastDue = subscription({ status: 'past_due', graceEndsAt: new Date(Date.now() + DAY) });
+    vi.spyOn(Subscription, 'findOne').mockResolvedValue(pastDue);
+    vi.spyOn(pastDue, 'save').mockResolvedValue(pastDue);
+    const syncAccess = vi.spyOn(Purchase, 'updateMany').mockResolvedValue({} as never);
+
+    await cancelSubscription(subscriber, 'SUB000000000001');
+
+    expect(syncAccess).toHaveBeenCalledWith({ subscription: pastDue._id }, { accessExpiresAt: pastDue.endedAt }, expect.anything());
+    expect(pastDue.endedAt!.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+});
@@ -0,0 +1,457 @@
+// lib/subscriptions.ts
+import mongoose, { ClientSession } from 'mongoose';
+import { Subscription, SubscriptionPlan, Purchase, Notification, ISubscription, ISubscriptionPlan, ISourceCode, IUser, IPurchase } from './db/models';
+import { withTransaction } from './db/connection';
+import { generateSubscriptionId, generatePurchaseId } from './auth';
+import { recordSubscriptionCharge, InsufficientBalanceError } from './ledger';
+import { resolveCommission, splitAmount } from './commission';
+import { getSellableTiers, toPurchaseLicense, MIN_TIER_PRICE } from './licenses';
+import { generateLicenseKey } from './license-keys';
+import { sendSubscriptionPaymentFailedEmail } from './email';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class SubscriptionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+// How long a subscriber keeps access after a renewal fails, while the job keeps retrying the charge
+export const SUBSCRIPTION_GRACE_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions in these states still grant access
+export const LIVE_SUBSCRIPTION_STATUSES: ISubscription['status'][] = ['active', 'past_due'];
+
+// Same day next month, clamped to the end of shorter months (31 Jan renews on 28/29 Feb)
+export const addMonth = (date: Date): Date => {
+  const next = new Date(date);
+  const day = next.getDate();
+  next.setDate(1);
+  next.setMonth(next.getMonth() + 1);
+  next.setDate(Math.min(day, new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()));
+  return next;
+};
+
+export const getAccessEnd = (subscription: Pick<ISubscription, 'status' | 'currentPeriodEnd' | 'graceEndsAt' | 'endedAt'>): Date => {
+  if (subscription.status === 'past_due' && subscription.graceEndsAt) {
+    return subscription.graceEndsAt;
+  }
+  if (subscription.status === 'active') {
+    return subscription.currentPeriodEnd;
+  }
+  return subscription.endedAt || subscription.currentPeriodEnd;
+};
+
+export const findLiveSubscription = (
+  subscriberId: mongoose.Types.ObjectId,
+  sellerId: mongoose.Types.ObjectId,
+  session?: ClientSession
+) => {
+  return Subscription.findOne({ subscriber: subscriberId, seller: sellerId, status: { $in: LIVE_SUBSCRIPTION_STATUSES } })
+    .session(session || null);
+};
+
+export interface PlanInput {
+  price: number;
+  description: string;
+}
+
+export const parsePlanInput = (formData: FormData): PlanInput => {
+  const price = Number(formData.get('price'));
+  if (!Number.isInteger(price) || price < MIN_TIER_PRICE) {
+    throw new SubscriptionError(`Giá gói đăng ký phải là số nguyên từ ${MIN_TIER_PRICE.toLocaleString('vi-VN')} xu trở lên`);
+  }
+
+  return { price, description: ((formData.get('description') as string) || '').trim() };
+};
+
+// Each seller has at most one plan; repricing only affects new subscribers
+export const savePlan = async (seller: IUser, input: PlanInput): Promise<ISubscriptionPlan> => {
+  return SubscriptionPlan.findOneAndUpdate(
+    { seller: seller._id },
+    { $set: { price: input.price, description: input.description }, $setOnInsert: { isActive: true } },
+    { upsert: true, new: true }
+  );
+};
+
+const notify = async (user: mongoose.Types.ObjectId, title: string, message: string, relatedId: string): Promise<void> => {
+  await Notification.create({ user, title, message, type: 'system', relatedId });
+};
+
+// Debits one month starting at periodStart and moves the subscription into that period
+const chargePeriod = async (subscription: ISubscription, periodStart: Date, session: ClientSession): Promise<void> => {
+  const periodEnd = addMonth(periodStart);
+  const commission = await resolveCommission({ seller: subscription.seller }, new Date(), session);
+  const { sellerEarnings, adminCommission } = splitAmount(subscription.price, commission.rate);
+  const entry = await recordSubscriptionCharge(subscription, { amount: subscription.price, sellerEarnings, adminCommission }, session);
+
+  subscription.charges.push({
+    amount: subscription.price,
+    sellerEarnings,
+    adminCommission,
+    periodStart,
+    periodEnd,
+    ledgerEntry: entry?._id,
+    chargedAt: new Date()
+  });
+  subscription.status = 'active';
+  subscription.currentPeriodStart = periodStart;
+  subscription.currentPeriodEnd = periodEnd;
+  subscription.graceEndsAt = undefined;
+  subscription.lastPaymentError = undefined;
+};
+
+// Listings opened through the subscription stay downloadable exactly as long as the subscription grants access
+const syncAccess = async (subscription: ISubscription, session: ClientSession): Promise<void> => {
+  await Purchase.updateMany({ subscription: subscription._id }, { accessExpiresAt: getAccessEnd(subscription) }, { session });
+};
+
+// Charges the first month right away; access starts once the charge succeeds. Subscribing from a listing
+// opens that listing in the same transaction, so a paid month never comes without it.
+export const subscribe = async ({ subscriber, seller, sourceCode }: {
+  subscriber: IUser;
+  seller: mongoose.Types.ObjectId;
+  sourceCode?: ISourceCode;
+}): Promise<ISubscription> => {
+  try {
+    const subscription = await withTransaction(async (session) => {
+      const plan = await SubscriptionPlan.findOne({ seller, isActive: true }).session(session);
+      if (!plan) {
+        throw new SubscriptionError('Người bán chưa mở gói đăng ký', 404);
+      }
+      if (plan.seller.equals(subscriber._id)) {
+        throw new SubscriptionError('Bạn không thể đăng ký gói của chính mình');
+      }
+      if (await findLiveSubscription(subscriber._id, plan.seller, session)) {
+        throw new SubscriptionError('Bạn đang đăng ký gói của người bán này rồi');
+      }
+
+      let subscriptionId: string;
+      do {
+        subscriptionId = generateSubscriptionId();
+      } while (await Subscription.exists({ subscriptionId }).session(session));
+
+      const now = new Date();
+      const created = new Subscription({
+        subscriptionId,
+        plan: plan._id,
+        subscriber: subscriber._id,
+        seller: plan.seller,
+        price: plan.price,
+        currentPeriodStart: now,
+        currentPeriodEnd: addMonth(now),
+        charges: []
+      });
+      await chargePeriod(created, now, session);
+      await created.save({ session });
+      if (sourceCode) {
+        await grantAccess(created, subscriber, sourceCode, session);
+      }
+      return created;
+    });
+
+    await notify(
+      subscription.seller,
+      'Có người đăng ký gói của bạn',
+      `${subscriber.fullName} vừa đăng ký gói ${subscription.price.toLocaleString('vi-VN')} xu/tháng.`,
+      subscription.subscriptionId
+    );
+    return subscription;
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      throw new SubscriptionError('Số dư không đủ để đăng ký gói');
+    }
+    throw error;
+  }
+};
+
+const findOwnLiveSubscription = async (subscriber: IUser, subscriptionId: string): Promise<ISubscription> => {
+  const subscription = await Subscription.findOne({
+    subscriptionId,
+    subscriber: subscriber._id,
+    status: { $in: LIVE_SUBSCRIPTION_STATUSES }
+  });
+  if (!subscription) {
+    throw new SubscriptionError('Không tìm thấy gói đăng ký đang hoạt động', 404);
+  }
+  return subscription;
+};
+
+// Paid months run to their end; an unpaid grace period is not owed anything, so it ends right away
+export const cancelSubscription = async (subscriber: IUser, subscriptionId: string): Promise<ISubscription> => {
+  const subscription = await findOwnLiveSubscription(subscriber, subscriptionId);
+  const now = new Date();
+  subscription.canceledAt = now;
+
+  if (subscription.status === 'active') {
+    subscription.cancelAtPeriodEnd = true;
+    await subscription.save();
+    return subscription;
+  }
+
+  subscription.status = 'canceled';
+  subscription.endedAt = now;
+  await withTransaction(async (session) => {
+    await subscription.save({ session });
+    await syncAccess(subscription, session);
+  });
+  return subscription;
+};
+
+export const resumeSubscription = async (subscriber: IUser, subscriptionId: string): Promise<ISubscription> => {
+  const subscription = await findOwnLiveSubscription(subscriber, subscriptionId);
+  if (!subscription.cancelAtPeriodEnd) {
+    throw new SubscriptionError('Gói đăng ký này vẫn đang tự động gia hạn');
+  }
+
+  subscription.cancelAtPeriodEnd = false;
+  subscription.canceledAt = undefined;
+  await subscription.save();
+  return subscription;
+};
+
+// Lets a subscriber in the grace period pay as soon as they have topped up, instead of waiting for the job
+export const retrySubscriptionPayment = async (subscriber: IUser, subscriptionId: string): Promise<ISubscription> => {
+  try {
+    return await withTransaction(async (session) => {
+      const subscription = await Subscription.findOne({ subscriptionId, subscriber: subscriber._id, status: 'past_due' }).session(session);
+      if (!subscription) {
+        throw new SubscriptionError('Gói đăng ký này không cần thanh toán lại', 404);
+      }
+
+      await chargePeriod(subscription, subscription.currentPeriodEnd, session);
+      await subscription.save({ session });
+      await syncAccess(subscription, session);
+      return subscription;
+    });
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      throw new SubscriptionError('Số dư không đủ để gia hạn, vui lòng nạp thêm xu');
+    }
+    throw error;
+  }
+};
+
+// Subscribers get a zero-amount Purchase for each listing they open, so downloads, versions and license keys
+// work as they do for bought copies; its access window follows the subscription, and its key expires with it
+const grantAccess = async (
+  subscription: ISubscription,
+  subscriber: IUser,
+  sourceCode: ISourceCode,
+  session: ClientSession
+): Promise<IPurchase> => {
+  if (!sourceCode.isActive) {
+    throw new SubscriptionError('Mã nguồn này đã ngừng bán');
+  }
+
+  const purchases = await Purchase.find({ buyer: subscriber._id, sourceCode: sourceCode._id, status: { $ne: 'refunded' } }).session(session);
+  if (purchases.some((purchase: IPurchase) => !purchase.subscription)) {
+    throw new SubscriptionError('Bạn đã sở hữu mã nguồn này');
+  }
+
+  // Listings opened during an earlier subscription are handed over to the current one
+  const accessExpiresAt = getAccessEnd(subscription);
+  const existing = purchases[0];
+  if (existing) {
+    existing.subscription = subscription._id;
+    existing.accessExpiresAt = accessExpiresAt;
+    await existing.save({ session });
+    return existing;
+  }
+
+  let purchaseId: string;
+  do {
+    purchaseId = generatePurchaseId();
+  } while (await Purchase.exists({ purchaseId }).session(session));
+
+  const tier = getSellableTiers(sourceCode)[0];
+  const [purchase] = await Purchase.create([{
+    purchaseId,
+    buyer: subscriber._id,
+    seller: subscription.seller,
+    sourceCode: sourceCode._id,
+    version: sourceCode.currentVersion,
+    amount: 0,
+    listPrice: 0,
+    sellerEarnings: 0,
+    adminCommission: 0,
+    commissionRate: 0,
+    subscription: subscription._id,
+    license: { ...toPurchaseLicense(tier), name: 'Gói đăng ký' },
+    accessExpiresAt,
+    licenseKey: generateLicenseKey({ purchaseId, buyer: subscriber._id, sourceCode: sourceCode._id })
+  }], { session });
+  return purchase;
+};
+
+export const claimSubscriptionAccess = async ({ subscriber, sourceCode }: { subscriber: IUser; sourceCode: ISourceCode }): Promise<IPurchase> => {
+  const sellerId = sourceCode.populated('seller') || sourceCode.seller;
+
+  return withTransaction(async (session) => {
+    // Touching the subscription makes a renewal or expiry running at the same time conflict with this claim,
+    // so the purchase can't be written with an access window that transaction is replacing
+    const subscription = await Subscription.findOneAndUpdate(
+      { subscriber: subscriber._id, seller: sellerId, status: { $in: LIVE_SUBSCRIPTION_STATUSES } },
+      { $set: { updatedAt: new Date() } },
+      { new: true, session }
+    );
+    if (!subscription) {
+      throw new SubscriptionError('Bạn chưa đăng ký gói của người bán này', 403);
+    }
+
+    return grantAccess(subscription, subscriber, sourceCode, session);
+  });
+};
+
+type RenewalOutcome = 'renewed' | 'past_due' | 'canceled' | 'expired' | 'skipped';
+
+// Settles one subscription whose period has ended: renew it, end it, or start or continue its grace period.
+// Everything is re-checked inside the transaction, so overlapping job runs never charge twice.
+const settleSubscription = async (id: mongoose.Types.ObjectId, now: Date): Promise<RenewalOutcome> => {
+  try {
+    return await withTransaction(async (session): Promise<RenewalOutcome> => {
+      const subscription = await Subscription.findById(id).session(session);
+      if (!subscription || !LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+        return 'skipped';
+      }
+      if (subscription.status === 'active' && subscription.currentPeriodEnd > now) {
+        return 'skipped';
+      }
+
+      const end = async (status: 'canceled' | 'expired', endedAt: Date): Promise<RenewalOutcome> => {
+        subscription.status = status;
+        subscription.endedAt = endedAt;
+        await subscription.save({ session });
+        await syncAccess(subscription, session);
+        return status;
+      };
+
+      if (subscription.status === 'active' && subscription.cancelAtPeriodEnd) {
+        return end('canceled', subscription.currentPeriodEnd);
+      }
+      if (subscription.status === 'past_due' && subscription.graceEndsAt && subscription.graceEndsAt <= now) {
+        return end('expired', subscription.graceEndsAt);
+      }
+
+      // A seller who closes their plan stops renewals; paid months are still honoured
+      const plan = await SubscriptionPlan.findById(subscription.plan).session(session);
+      if (!plan?.isActive) {
+        return end('expired', subscription.currentPeriodEnd);
+      }
+
+      await chargePeriod(subscription, subscription.currentPeriodEnd, session);
+      await subscription.save({ session });
+      await syncAccess(subscription, session);
+      return 'renewed';
+    });
+  } catch (error) {
+    if (!(error instanceof InsufficientBalanceError)) {
+      throw error;
+    }
+  }
+
+  // The failed charge rolled back; only the first failure opens the grace period
+  const graceEndsAt = new Date(now.getTime() + SUBSCRIPTION_GRACE_DAYS * DAY_MS);
+  return withTransaction(async (session): Promise<RenewalOutcome> => {
+    const subscription = await Subscription.findOneAndUpdate(
+      { _id: id, status: 'active' },
+      { status: 'past_due', graceEndsAt, lastPaymentError: 'Số dư không đủ' },
+      { new: true, session }
+    );
+    if (!subscription) {
+      return 'skipped';
+    }
+    await syncAccess(subscription, session);
+    return 'past_due';
+  });
+};
+
+interface RenewalSummary {
+  processed: number;
+  renewed: number;
+  pastDue: number;
+  canceled: number;
+  expired: number;
+}
+
+// Runs from the subscriptions job: renews subscriptions whose month is up, retries those in their grace
+// period and ends the ones that were canceled or ran out of grace
+export const processSubscriptionRenewals = async (baseUrl: string, now: Date = new Date(), batchSize = 500): Promise<RenewalSummary> => {
+  const due = await Subscription.find({
+    $or: [
+      { status: 'active', currentPeriodEnd: { $lte: now } },
+      { status: 'past_due' }
+    ]
+  })
+    .select('_id')
+    .sort({ currentPeriodEnd: 1 })
+    .limit(batchSize)
+    .lean<Pick<ISubscription, '_id'>[]>();
+
+  const summary: RenewalSummary = { processed: 0, renewed: 0, pastDue: 0, canceled: 0, expired: 0 };
+  for (const { _id } of due) {
+    let outcome: RenewalOutcome;
+    try {
+      outcome = await settleSubscription(_id, now);
+    } catch (error) {
+      console.error(`Subscription renewal error (${_id}):`, error);
+      continue;
+    }
+    if (outcome === 'skipped') continue;
+    summary.processed++;
+
+    const subscription = await Subscription.findById(_id)
+      .populate('subscriber', 'email')
+      .populate('seller', 'fullName')
+      .lean<Omit<ISubscription, 'subscriber' | 'seller'> & {
+        subscriber: Pick<IUser, '_id' | 'email'>;
+        seller: Pick<IUser, 'fullName'>;
+      }>();
+    if (!subscription) continue;
+    const sellerName = subscription.seller?.fullName || 'người bán';
+
+    if (outcome === 'renewed') {
+      summary.renewed++;
+      await notify(
+        subscription.subscriber._id,
+        'Đã gia hạn gói đăng ký',
+        `Gói đăng ký của ${sellerName} đã được gia hạn đến ${subscription.currentPeriodEnd.toLocaleDateString('vi-VN')} (-${subscription.price.toLocaleString('vi-VN')} xu).`,
+        subscription.subscriptionId
+      );
+    } else if (outcome === 'past_due') {
+      summary.pastDue++;
+      await notify(
+        subscription.subscriber._id,
+        'Không thể gia hạn gói đăng ký',
+        `Số dư không đủ để gia hạn gói đăng ký của ${sellerName}. Bạn vẫn truy cập được đến ${subscription.graceEndsAt?.toLocaleString('vi-VN')}.`,
+        subscription.subscriptionId
+      );
+      try {
+        await sendSubscriptionPaymentFailedEmail(subscription.subscriber.email, {
+          sellerName,
+          price: subscription.price,
+          graceEndsAt: subscription.graceEndsAt!
+        }, `${baseUrl}/dashboard/subscriptions`);
+      } catch (error) {
+        console.error('Subscription payment email error:', error);
+      }
+    } else {
+      summary[outcome]++;
+      await notify(
+        subscription.subscriber._id,
+        'Gói đăng ký đã kết thúc',
+        `Gói đăng ký của ${sellerName} đã kết thúc. Bạn không còn truy cập được các mã nguồn trong gói.`,
+        subscription.subscriptionId
+      );
+    }
+  }
+
+  return summary;
+};
+
+export const countActiveSubscribers = (sellerId: mongoose.Types.ObjectId): Promise<number> => {
+  return Subscription.countDocuments({ seller: sellerId, status: { $in: LIVE_SUBSCRIPTION_STATUSES } });
+};
@@ -0,0 +1,75 @@
+// lib/vietqr.ts
+import QRCode from 'qrcode';
+
+export interface DepositBankAccount {
+  bankBin: string; // NAPAS acquirer ID of the receiving bank
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+}
+
+// The account users transfer to when topping up by bank transfer
+export const getDepositBankAccount = (): DepositBankAccount => ({
+  bankBin: process.env.DEPOSIT_BANK_BIN || '970415',
+  bankName: process.env.DEPOSIT_BANK_NAME || 'VietinBank CN KCN PHU TAI - PGD PHU CAT',
+  accountNumber: process.env.DEPOSIT_ACCOUNT_NUMBER || '10787011779',
+  accountName: process.env.DEPOSIT_ACCOUNT_NAME || 'NGUYEN DINH KHOI'
+});
+
+// EMVCo identifiers used by the NAPAS VietQR specification
+const NAPAS_GUID = 'A000000727';
+const SERVICE_TRANSFER_TO_ACCOUNT = 'QRIBFTTA';
+const CURRENCY_VND = '704';
+
+const tlv = (id: string, value: string): string => {
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+// CRC-16/CCITT-FALSE over the payload including the "6304" CRC tag
+const crc16 = (data: string): string => {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(data, 'utf8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+interface VietQrOptions {
+  account: DepositBankAccount;
+  amount: number;
+  memo: string;
+}
+
+export const buildVietQrPayload = ({ account, amount, memo }: VietQrOptions): string => {
+  const beneficiary = tlv('00', account.bankBin) + tlv('01', account.accountNumber);
+  const merchantAccount = tlv('00', NAPAS_GUID) + tlv('01', beneficiary) + tlv('02', SERVICE_TRANSFER_TO_ACCOUNT);
+
+  // Banking apps only keep plain alphanumeric memos intact
+  const purpose = memo.replace(/[^A-Za-z0-9 ]/g, '').slice(0, 25);
+
+  const payload = [
+    tlv('00', '01'),
+    tlv('01', '12'), // Dynamic QR, valid for this amount only
+    tlv('38', merchantAccount),
+    tlv('53', CURRENCY_VND),
+    tlv('54', String(Math.round(amount))),
+    tlv('58', 'VN'),
+    tlv('62', tlv('08', purpose))
+  ].join('') + '6304';
+
+  return payload + crc16(payload);
+};
+
+const QR_OPTIONS = { errorCorrectionLevel: 'M' as const, margin: 2, width: 300 };
+
+export const renderQrSvg = (payload: string): Promise<string> => {
+  return QRCode.toString(payload, { ...QR_OPTIONS, type: 'svg' });
+};
+
+export const renderQrPng = (payload: string): Promise<Buffer> => {
+  return QRCode.toBuffer(payload, { ...QR_OPTIONS, type: 'png' });
+};
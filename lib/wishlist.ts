@@ -0,0 +1,112 @@
+// lib/wishlist.ts
+import mongoose from 'mongoose';
+import { User, SourceCode, Notification, IUser, ISourceCode, IWishlistItem } from './db/models';
+import { getEffectivePrice, getActiveSale } from './pricing';
+import { sendPriceDropEmail } from './email';
+
+// Errors carrying a user-facing message and HTTP status for route actions
+export class WishlistError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WishlistError';
+  }
+}
+
+export const MAX_WISHLIST_ITEMS = 100;
+
+type WishlistSourceCode = Pick<ISourceCode, '_id' | 'price' | 'sales' | 'isActive'>;
+
+export const isInWishlist = (user: Pick<IUser, 'wishlist'> | null, sourceCodeId: mongoose.Types.ObjectId | string): boolean => {
+  return !!user?.wishlist?.some((item) => item.sourceCode.toString() === sourceCodeId.toString());
+};
+
+export const addToWishlist = async (user: IUser, sourceCode: WishlistSourceCode): Promise<void> => {
+  if (!sourceCode.isActive) {
+    throw new WishlistError('Mã nguồn này đã ngừng bán');
+  }
+
+  // Adding twice is a no-op, so the price the buyer first saw is kept
+  const price = getEffectivePrice(sourceCode);
+  const added = await User.updateOne(
+    {
+      _id: user._id,
+      'wishlist.sourceCode': { $ne: sourceCode._id },
+      [`wishlist.${MAX_WISHLIST_ITEMS - 1}`]: { $exists: false }
+    },
+    { $push: { wishlist: { sourceCode: sourceCode._id, addedAt: new Date(), addedPrice: price, lastKnownPrice: price } } }
+  );
+  if (added.matchedCount === 0 && !isInWishlist(user, sourceCode._id)) {
+    throw new WishlistError(`Danh sách yêu thích chỉ chứa tối đa ${MAX_WISHLIST_ITEMS} mã nguồn`);
+  }
+};
+
+export const removeFromWishlist = async (user: IUser, sourceCodeId: string): Promise<void> => {
+  if (!mongoose.isValidObjectId(sourceCodeId)) {
+    throw new WishlistError('Mã nguồn không có trong danh sách yêu thích', 404);
+  }
+  await User.updateOne({ _id: user._id }, { $pull: { wishlist: { sourceCode: sourceCodeId } } });
+};
+
+interface PriceDropCheckResult {
+  listings: number;
+  alerts: number;
+}
+
+// Compares each watched listing's current price with what its watchers last saw. Drops (a cheaper
+// tier price or a sale starting) notify the watcher; rises are recorded silently so the next drop alerts again.
+// Runs from the price-alerts job, and right away when a seller reprices or starts a sale.
+export const checkPriceDrops = async (baseUrl: string, sourceCodeIds?: mongoose.Types.ObjectId[]): Promise<PriceDropCheckResult> => {
+  const watchedIds: mongoose.Types.ObjectId[] = sourceCodeIds || await User.distinct('wishlist.sourceCode');
+  const sourceCodes = await SourceCode.find({ _id: { $in: watchedIds }, isActive: true })
+    .select('sourceId title price sales')
+    .lean<Pick<ISourceCode, '_id' | 'sourceId' | 'title' | 'price' | 'sales'>[]>();
+
+  let alerts = 0;
+  for (const sourceCode of sourceCodes) {
+    const price = getEffectivePrice(sourceCode);
+    const sale = getActiveSale(sourceCode.sales);
+
+    await User.updateMany(
+      { wishlist: { $elemMatch: { sourceCode: sourceCode._id, lastKnownPrice: { $lt: price } } } },
+      { $set: { 'wishlist.$[item].lastKnownPrice': price } },
+      { arrayFilters: [{ 'item.sourceCode': sourceCode._id }] }
+    );
+
+    const watchers = await User.find({ wishlist: { $elemMatch: { sourceCode: sourceCode._id, lastKnownPrice: { $gt: price } } } })
+      .select('email wishlist');
+    for (const watcher of watchers) {
+      const item = watcher.wishlist.find((candidate: IWishlistItem) => candidate.sourceCode.toString() === sourceCode._id.toString());
+      if (!item) continue;
+
+      // Claim the alert first so overlapping runs never notify the same drop twice
+      const claimed = await User.updateOne(
+        { _id: watcher._id, wishlist: { $elemMatch: { sourceCode: sourceCode._id, lastKnownPrice: item.lastKnownPrice } } },
+        { $set: { 'wishlist.$.lastKnownPrice': price } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      const reason = sale ? `đang giảm ${sale.percentOff}%` : 'vừa giảm giá';
+      await Notification.create({
+        user: watcher._id,
+        title: 'Mã nguồn yêu thích giảm giá',
+        message: `"${sourceCode.title}" ${reason}: từ ${item.lastKnownPrice.toLocaleString('vi-VN')} xu còn ${price.toLocaleString('vi-VN')} xu.`,
+        type: 'system',
+        relatedId: sourceCode.sourceId
+      });
+
+      try {
+        await sendPriceDropEmail(watcher.email, {
+          title: sourceCode.title,
+          previousPrice: item.lastKnownPrice,
+          price,
+          saleEndsAt: sale?.endsAt
+        }, `${baseUrl}/source/${sourceCode.sourceId}`);
+      } catch (error) {
+        console.error('Price drop email error:', error);
+      }
+      alerts++;
+    }
+  }
+
+  return { listings: sourceCodes.length, alerts };
+};
@@ -10,7 +10,8 @@ declare module "@remix-run/node" {
 
 export default defineConfig({
   plugins: [
-    remix({
+    // The Remix plugin builds the app; unit tests only need path aliases
+    !process.env.VITEST && remix({
       future: {
         v3_fetcherPersist: true,
         v3_relativeSplatPath: true,